@@ -0,0 +1,196 @@
+import { signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { CameraService } from './camera.service';
+import { FragmentsService } from './fragments.service';
+import { SelectionService } from './selection.service';
+import { CAMERA_CONFIG, CONTROLS_CONFIG } from '../../shared/constants/viewer.constants';
+import { ModelElement } from '../../shared/models/viewer.model';
+
+describe('CameraService', () => {
+  let service: CameraService;
+  let camera: THREE.PerspectiveCamera;
+  let controls: OrbitControls;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+  const selected = signal<ModelElement[]>([]);
+
+  const round = (values: number[]) => values.map((value) => Math.round(value * 1000) / 1000 + 0);
+
+  beforeEach(() => {
+    selected.set([]);
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', [
+      'bindCamera',
+      'updateCulling',
+      'getModelsBox',
+      'getElementsBox',
+      'getStoreyBox',
+    ]);
+    mockFragmentsService.updateCulling.and.returnValue(Promise.resolve());
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: FragmentsService, useValue: mockFragmentsService },
+        { provide: SelectionService, useValue: { selected } },
+      ],
+    });
+    service = TestBed.inject(CameraService);
+
+    camera = new THREE.PerspectiveCamera(60, 2, 0.1, 10000);
+    camera.position.set(0, 0, 20);
+    const target = new THREE.Vector3();
+    controls = {
+      object: camera,
+      target,
+      maxPolarAngle: CONTROLS_CONFIG.maxPolarAngle,
+      maxDistance: CONTROLS_CONFIG.maxDistance,
+      update: jasmine.createSpy('update').and.callFake(() => controls.object.lookAt(target)),
+      addEventListener: jasmine.createSpy('addEventListener'),
+      removeEventListener: jasmine.createSpy('removeEventListener'),
+    } as unknown as OrbitControls;
+    service.attach(camera, controls);
+  });
+
+  afterEach(() => service.detach());
+
+  it('should keep the framing when switching to orthographic', () => {
+    service.toggleProjection();
+
+    const orthographic = service.getCamera() as THREE.OrthographicCamera;
+    const halfHeight = 20 * Math.tan(THREE.MathUtils.degToRad(30));
+    expect(service.projection()).toBe('orthographic');
+    expect(orthographic).toBeInstanceOf(THREE.OrthographicCamera);
+    expect(controls.object).toBe(orthographic);
+    expect(orthographic.top).toBeCloseTo(halfHeight);
+    expect(orthographic.right).toBeCloseTo(halfHeight * 2);
+    expect(orthographic.position.z).toBeGreaterThan(20);
+    expect(service.getPose()).toEqual({
+      position: { x: 0, y: 0, z: jasmine.any(Number) },
+      target: { x: 0, y: 0, z: 0 },
+      projection: 'orthographic',
+    });
+    expect(service.getPose()!.position.z).toBeCloseTo(20);
+    expect(mockFragmentsService.bindCamera).toHaveBeenCalledWith(orthographic);
+  });
+
+  it('should come back to the same perspective view', () => {
+    service.setProjection('orthographic');
+    (service.getCamera() as THREE.OrthographicCamera).zoom = 2;
+    service.setProjection('perspective');
+
+    expect(service.getCamera()).toBe(camera);
+    expect(controls.object).toBe(camera);
+    expect(mockFragmentsService.bindCamera).toHaveBeenCalledWith(camera);
+    expect(round(camera.position.toArray())).toEqual([0, 0, 10]);
+  });
+
+  it('should keep the orthographic framing when the canvas is resized', () => {
+    service.setProjection('orthographic');
+    service.setAspect(1);
+
+    const orthographic = service.getCamera() as THREE.OrthographicCamera;
+    expect(camera.aspect).toBe(1);
+    expect(orthographic.right).toBeCloseTo(orthographic.top);
+    expect(service.getPose()!.position.z).toBeCloseTo(20);
+  });
+
+  it('should animate to a standard view around the target', async () => {
+    spyOn(window, 'requestAnimationFrame').and.callFake((step) =>
+      setTimeout(() => step(performance.now() + CAMERA_CONFIG.transitionDuration))
+    );
+    controls.target.set(1, 0, 1);
+    camera.position.set(1, 0, 11);
+
+    await service.setView('top');
+
+    expect(round(camera.position.toArray())).toEqual([1, 10, 1]);
+    expect(mockFragmentsService.updateCulling).toHaveBeenCalled();
+  });
+
+  it('should allow looking from below only for the bottom view', () => {
+    void service.setView('bottom');
+    expect(controls.maxPolarAngle).toBe(Math.PI);
+
+    void service.setView('front');
+    expect(controls.maxPolarAngle).toBe(CONTROLS_CONFIG.maxPolarAngle);
+  });
+
+  it('should jump to a pose without animating', async () => {
+    const listener = jasmine.createSpy('listener');
+    service.onChange(listener);
+
+    await service.moveTo({ position: { x: 5, y: 5, z: 5 }, target: { x: 1, y: 2, z: 3 } }, false);
+
+    expect(round(camera.position.toArray())).toEqual([5, 5, 5]);
+    expect(controls.target.toArray()).toEqual([1, 2, 3]);
+    expect(listener).toHaveBeenCalled();
+  });
+
+  it('should fit all visible models from the current direction', async () => {
+    mockFragmentsService.getModelsBox.and.returnValue(
+      new THREE.Box3(new THREE.Vector3(9, -1, -1), new THREE.Vector3(11, 1, 1))
+    );
+    spyOn(window, 'requestAnimationFrame').and.callFake((step) =>
+      setTimeout(() => step(performance.now() + CAMERA_CONFIG.transitionDuration))
+    );
+
+    await service.fitAll();
+
+    expect(round(controls.target.toArray())).toEqual([10, 0, 0]);
+    expect(camera.position.x).toBeCloseTo(10);
+    expect(camera.position.z).toBeGreaterThan(Math.sqrt(3));
+  });
+
+  it('should fit the selection across models and widen the clipping range', async () => {
+    selected.set([
+      { modelId: 'a', localId: 1 },
+      { modelId: 'b', localId: 2 },
+    ]);
+    mockFragmentsService.getElementsBox.and.callFake((modelId) =>
+      Promise.resolve(
+        modelId === 'a'
+          ? new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(1, 1, 1))
+          : new THREE.Box3(new THREE.Vector3(5000, 0, 0), new THREE.Vector3(5001, 1, 1))
+      )
+    );
+    spyOn(service, 'moveTo').and.returnValue(Promise.resolve());
+
+    await service.fitSelection();
+
+    expect(mockFragmentsService.getElementsBox).toHaveBeenCalledWith('a', [1]);
+    const [pose] = (service.moveTo as jasmine.Spy).calls.mostRecent().args;
+    expect(pose.target.x).toBeCloseTo(2500.5);
+    expect(camera.far).toBeGreaterThan(10000);
+    expect(controls.maxDistance).toBeGreaterThan(CONTROLS_CONFIG.maxDistance);
+  });
+
+  it('should fit a storey', async () => {
+    mockFragmentsService.getStoreyBox.and.returnValue(
+      Promise.resolve(new THREE.Box3(new THREE.Vector3(0, 3, 0), new THREE.Vector3(10, 6, 10)))
+    );
+    spyOn(service, 'moveTo').and.returnValue(Promise.resolve());
+
+    await service.fitStorey({ modelId: 'a', localId: 7 });
+
+    expect(mockFragmentsService.getStoreyBox).toHaveBeenCalledWith('a', 7);
+    const [pose] = (service.moveTo as jasmine.Spy).calls.mostRecent().args;
+    expect(round([pose.target.x, pose.target.y, pose.target.z])).toEqual([5, 4.5, 5]);
+  });
+
+  it('should orbit around a picked point from where the camera is', async () => {
+    await service.orbitAround({ x: 0, y: 5, z: 0 }, false);
+
+    expect(controls.target.toArray()).toEqual([0, 5, 0]);
+    expect(round(camera.position.toArray())).toEqual([0, 0, 20]);
+  });
+
+  it('should stop notifying after unsubscribing', () => {
+    const listener = jasmine.createSpy('listener');
+    const unsubscribe = service.onChange(listener);
+    unsubscribe();
+
+    service.toggleProjection();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,439 @@
+import { Injectable, NgZone, inject, signal } from '@angular/core';
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { FragmentsService } from './fragments.service';
+import { RenderLoopService } from './render-loop.service';
+import { SelectionService } from './selection.service';
+import {
+  CAMERA_CONFIG,
+  CONTROLS_CONFIG,
+  VIEW_PRESETS,
+} from '../../shared/constants/viewer.constants';
+import {
+  CameraPose,
+  CameraProjection,
+  ModelElement,
+  Vector3Like,
+  ViewPreset,
+} from '../../shared/models/viewer.model';
+import { getClippingRange, getFitDistance } from '../../shared/utils/camera.utils';
+import { easeInOut, lerpPoint } from '../../shared/utils/viewpoint.utils';
+import { toElementSets } from '../../shared/utils/visibility.utils';
+
+/**
+ * Cameras and controls of an attached viewer
+ */
+interface CameraContext {
+  perspective: THREE.PerspectiveCamera;
+  orthographic: THREE.OrthographicCamera;
+  controls: OrbitControls;
+}
+
+/**
+ * The viewer's camera: perspective or orthographic projection, standard
+ * views, fitting geometry into view and animated moves
+ * Both cameras orbit the same target. The orthographic frustum is sized from
+ * the distance a perspective camera would need for the same framing, so
+ * switching projection keeps what is on screen
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class CameraService {
+  private readonly ngZone = inject(NgZone);
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly selection = inject(SelectionService);
+  private readonly renderLoop = inject(RenderLoopService);
+
+  private readonly projectionState = signal<CameraProjection>('perspective');
+
+  private context: CameraContext | null = null;
+  private transition: { frame: number; finish: () => void } | null = null;
+  private readonly listeners = new Set<() => void>();
+
+  /** Projection of the camera used for rendering */
+  readonly projection = this.projectionState.asReadonly();
+
+  private readonly onControlsChange = () => this.notifyChange();
+  // Grabbing the camera ends a transition where it is
+  private readonly onControlsStart = () => this.cancelTransition();
+
+  /**
+   * Start driving the viewer's camera; an orthographic twin is created for it
+   */
+  attach(perspective: THREE.PerspectiveCamera, controls: OrbitControls): void {
+    const orthographic = new THREE.OrthographicCamera();
+    orthographic.name = 'OrthographicCamera';
+    this.context = { perspective, orthographic, controls };
+    this.projectionState.set('perspective');
+    controls.addEventListener('change', this.onControlsChange);
+    controls.addEventListener('start', this.onControlsStart);
+    this.notifyChange();
+  }
+
+  /**
+   * Stop any transition and release the viewer (the viewer is being destroyed)
+   */
+  detach(): void {
+    this.cancelTransition();
+    if (this.context) {
+      this.context.controls.removeEventListener('change', this.onControlsChange);
+      this.context.controls.removeEventListener('start', this.onControlsStart);
+    }
+    this.context = null;
+    this.projectionState.set('perspective');
+  }
+
+  /**
+   * Camera currently used for rendering
+   */
+  getCamera(): THREE.PerspectiveCamera | THREE.OrthographicCamera {
+    if (!this.context) {
+      throw new Error('CameraService is not attached to a viewer');
+    }
+    return this.projectionState() === 'orthographic'
+      ? this.context.orthographic
+      : this.context.perspective;
+  }
+
+  /**
+   * Current camera placement, or null without a viewer
+   */
+  getPose(): CameraPose | null {
+    if (!this.context) {
+      return null;
+    }
+
+    const { controls } = this.context;
+    const camera = this.getCamera();
+    const offset = camera.position.clone().sub(controls.target);
+    offset.setLength(this.getViewDistance());
+    return {
+      position: toPoint(controls.target.clone().add(offset)),
+      target: toPoint(controls.target),
+      projection: this.projectionState(),
+    };
+  }
+
+  /**
+   * Switch between perspective and orthographic projection, keeping the framing
+   */
+  setProjection(projection: CameraProjection): void {
+    if (!this.context || projection === this.projectionState()) {
+      return;
+    }
+
+    this.cancelTransition();
+    const { controls } = this.context;
+    const distance = this.getViewDistance();
+    const direction = this.getCamera().position.clone().sub(controls.target).normalize();
+
+    this.projectionState.set(projection);
+    const camera = this.getCamera();
+    camera.up.set(0, 1, 0);
+    controls.object = camera;
+    // Culling and level of detail follow the camera in use
+    this.fragmentsService.bindCamera(camera);
+    this.placeCamera(controls.target.clone().addScaledVector(direction, distance), controls.target);
+  }
+
+  /**
+   * Switch to the other projection
+   */
+  toggleProjection(): void {
+    this.setProjection(this.projectionState() === 'perspective' ? 'orthographic' : 'perspective');
+  }
+
+  /**
+   * Match both cameras to the canvas proportions
+   */
+  setAspect(aspect: number): void {
+    if (!this.context) {
+      return;
+    }
+
+    this.context.perspective.aspect = aspect;
+    this.context.perspective.updateProjectionMatrix();
+    if (this.projectionState() === 'orthographic') {
+      this.updateFrustum(this.getViewDistance());
+    }
+  }
+
+  /**
+   * Look at the orbit target from a standard direction, at the same distance
+   * @returns Resolves when the camera arrives (or the move is interrupted)
+   */
+  setView(preset: ViewPreset): Promise<void> {
+    if (!this.context) {
+      return Promise.resolve();
+    }
+
+    const { controls } = this.context;
+    // Views from below are otherwise clamped by the orbit limit
+    controls.maxPolarAngle = preset === 'bottom' ? Math.PI : CONTROLS_CONFIG.maxPolarAngle;
+
+    const { x, y, z } = VIEW_PRESETS[preset].direction;
+    const direction = new THREE.Vector3(x, y, z).normalize();
+    const position = controls.target.clone().addScaledVector(direction, this.getViewDistance());
+    return this.moveTo({ position, target: controls.target.clone() });
+  }
+
+  /**
+   * Frame a box, looking from the current direction unless one is given
+   * The near and far planes are widened or narrowed to suit the box
+   * @param options.direction Direction from the box towards the camera
+   * @param options.animate False to jump there at once
+   * @returns Resolves when the camera arrives (or the move is interrupted)
+   */
+  fitBox(
+    box: THREE.Box3,
+    options: { direction?: Vector3Like; animate?: boolean } = {}
+  ): Promise<void> {
+    if (!this.context || box.isEmpty()) {
+      return Promise.resolve();
+    }
+
+    const { controls, perspective } = this.context;
+    const sphere = box.getBoundingSphere(new THREE.Sphere());
+    const radius = Math.max(sphere.radius, CONTROLS_CONFIG.minDistance);
+    const distance = getFitDistance(radius, perspective.fov, perspective.aspect);
+    const direction = options.direction
+      ? new THREE.Vector3(options.direction.x, options.direction.y, options.direction.z)
+      : this.getCamera().position.clone().sub(controls.target);
+    direction.normalize();
+
+    const range = getClippingRange(distance, radius * 2, perspective);
+    if (range) {
+      perspective.near = range.near;
+      perspective.far = range.far;
+      perspective.updateProjectionMatrix();
+      console.log(
+        `Camera planes adjusted: near=${range.near.toFixed(2)}, far=${range.far.toFixed(2)}`
+      );
+    }
+    // Large models would otherwise be held inside the default orbit limit
+    controls.maxDistance = Math.max(CONTROLS_CONFIG.maxDistance, distance * 2);
+
+    const position = sphere.center.clone().addScaledVector(direction, distance);
+    return this.moveTo({ position, target: sphere.center }, options.animate);
+  }
+
+  /**
+   * Frame all visible models
+   */
+  fitAll(): Promise<void> {
+    return this.fitBox(this.fragmentsService.getModelsBox());
+  }
+
+  /**
+   * Frame a set of elements, across models
+   */
+  async fitElements(elements: ModelElement[]): Promise<void> {
+    const boxes = await Promise.all(
+      [...toElementSets(elements)].map(([modelId, localIds]) =>
+        this.fragmentsService.getElementsBox(modelId, [...localIds])
+      )
+    );
+    const box = new THREE.Box3();
+    boxes.forEach((item) => item && box.union(item));
+    if (box.isEmpty()) {
+      console.warn('Nothing to fit - the elements have no geometry');
+      return;
+    }
+    await this.fitBox(box);
+  }
+
+  /**
+   * Frame the selected elements
+   */
+  fitSelection(): Promise<void> {
+    return this.fitElements(this.selection.selected());
+  }
+
+  /**
+   * Frame the contents of a building storey
+   */
+  async fitStorey(storey: ModelElement): Promise<void> {
+    const box = await this.fragmentsService.getStoreyBox(storey.modelId, storey.localId);
+    if (box) {
+      await this.fitBox(box);
+    }
+  }
+
+  /**
+   * Orbit around a point from now on, turning the camera to face it
+   * (e.g. a point double-clicked on the model)
+   */
+  orbitAround(point: Vector3Like, animate = true): Promise<void> {
+    const pose = this.getPose();
+    return pose
+      ? this.moveTo({ position: pose.position, target: point }, animate)
+      : Promise.resolve();
+  }
+
+  /**
+   * Move the camera to a position and orbit target
+   * The view direction turns along the shortest arc and the distance and
+   * target change linearly, so the camera never passes through the target
+   * @param animate False to jump there at once
+   * @returns Resolves when the camera arrives (or the move is interrupted)
+   */
+  moveTo(pose: Pick<CameraPose, 'position' | 'target'>, animate = true): Promise<void> {
+    this.cancelTransition();
+    const context = this.context;
+    if (!context) {
+      return Promise.resolve();
+    }
+
+    const fromTarget = toPoint(context.controls.target);
+    const fromOffset = this.getCamera().position.clone().sub(context.controls.target);
+    const toOffset = new THREE.Vector3(
+      pose.position.x - pose.target.x,
+      pose.position.y - pose.target.y,
+      pose.position.z - pose.target.z
+    );
+    const fromDistance = this.getViewDistance();
+    const toDistance = toOffset.length();
+    const turn = new THREE.Quaternion().setFromUnitVectors(
+      fromOffset.normalize(),
+      toOffset.clone().normalize()
+    );
+
+    const apply = (t: number) => {
+      const target = lerpPoint(fromTarget, pose.target, t);
+      const direction = fromOffset
+        .clone()
+        .applyQuaternion(new THREE.Quaternion().slerp(turn, t));
+      const distance = fromDistance + (toDistance - fromDistance) * t;
+      this.placeCamera(
+        new THREE.Vector3(target.x, target.y, target.z).addScaledVector(direction, distance),
+        new THREE.Vector3(target.x, target.y, target.z)
+      );
+    };
+
+    const duration = CAMERA_CONFIG.transitionDuration;
+    if (!animate || duration <= 0) {
+      apply(1);
+      this.afterMove();
+      return Promise.resolve();
+    }
+
+    const start = performance.now();
+    return new Promise((resolve) => {
+      const finish = () => {
+        this.transition = null;
+        this.afterMove();
+        resolve();
+      };
+      const step = (now: number) => {
+        const t = easeInOut((now - start) / duration);
+        apply(t);
+        if (t < 1) {
+          this.transition = { frame: requestAnimationFrame(step), finish };
+        } else {
+          finish();
+        }
+      };
+      this.ngZone.runOutsideAngular(() => {
+        this.transition = { frame: requestAnimationFrame(step), finish };
+      });
+    });
+  }
+
+  /**
+   * Be told whenever the camera moves or changes projection
+   * Called outside Angular, possibly every frame
+   * @returns Function that stops the notifications
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Tell the listeners the camera changed and draw the new view; for moves made
+   * without the orbit controls (e.g. first-person navigation)
+   */
+  notifyChange(): void {
+    this.listeners.forEach((listener) => listener());
+    this.renderLoop.requestRender();
+  }
+
+  /**
+   * Helper: Put the active camera at a position looking at a target
+   * The orthographic camera stays far back so nothing in front of the target
+   * is clipped; its frustum shows what a perspective camera at the position would
+   */
+  private placeCamera(position: THREE.Vector3, target: THREE.Vector3): void {
+    const { controls, perspective, orthographic } = this.context!;
+    controls.target.copy(target);
+
+    if (this.projectionState() === 'orthographic') {
+      const offset = position.clone().sub(target);
+      const distance = offset.length();
+      const standoff = Math.min(CONTROLS_CONFIG.maxDistance, perspective.far / 2);
+      orthographic.position.copy(target).addScaledVector(offset.normalize(), standoff);
+      orthographic.near = perspective.near;
+      orthographic.far = perspective.far;
+      orthographic.zoom = 1;
+      this.updateFrustum(distance);
+    } else {
+      perspective.position.copy(position);
+    }
+    controls.update();
+    this.notifyChange();
+  }
+
+  /**
+   * Helper: Size the orthographic frustum like a perspective view from a distance
+   */
+  private updateFrustum(distance: number): void {
+    const { perspective, orthographic } = this.context!;
+    const halfHeight = distance * Math.tan(THREE.MathUtils.degToRad(perspective.fov / 2));
+    const halfWidth = halfHeight * perspective.aspect;
+    // Keep the current zoom: it is part of the framing
+    const zoom = orthographic.zoom;
+    orthographic.left = -halfWidth * zoom;
+    orthographic.right = halfWidth * zoom;
+    orthographic.top = halfHeight * zoom;
+    orthographic.bottom = -halfHeight * zoom;
+    orthographic.updateProjectionMatrix();
+  }
+
+  /**
+   * Helper: Distance from the target at which a perspective camera shows the
+   * current framing (for the orthographic camera this depends on its zoom)
+   */
+  private getViewDistance(): number {
+    const { controls, perspective, orthographic } = this.context!;
+    if (this.projectionState() === 'perspective') {
+      return perspective.position.distanceTo(controls.target);
+    }
+    const halfHeight = (orthographic.top - orthographic.bottom) / 2 / orthographic.zoom;
+    return halfHeight / Math.tan(THREE.MathUtils.degToRad(perspective.fov / 2));
+  }
+
+  /**
+   * Helper: Stop the transition where it is
+   */
+  private cancelTransition(): void {
+    if (this.transition) {
+      cancelAnimationFrame(this.transition.frame);
+      this.transition.finish();
+    }
+  }
+
+  /**
+   * Helper: Refresh culling once the camera settles
+   */
+  private afterMove(): void {
+    void this.fragmentsService.updateCulling().catch(console.error);
+  }
+}
+
+/**
+ * Helper: Plain copy of a vector
+ */
+function toPoint(vector: THREE.Vector3): Vector3Like {
+  return { x: vector.x, y: vector.y, z: vector.z };
+}
@@ -0,0 +1,126 @@
+import { TestBed } from '@angular/core/testing';
+import { ClassificationService } from './classification.service';
+import { FragmentsService } from './fragments.service';
+import { SpatialNode } from '../../shared/models/viewer.model';
+
+describe('ClassificationService', () => {
+  let service: ClassificationService;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+
+  const node = (
+    localId: number | null,
+    category: string | null,
+    children: SpatialNode[] = []
+  ): SpatialNode => ({
+    key: `arch:${localId}`,
+    modelId: 'arch',
+    localId,
+    category,
+    name: '',
+    elementCount: 0,
+    children,
+  });
+
+  const summary = (groups: { name: string; count: number }[]) =>
+    groups.map((group) => [group.name, group.count]);
+
+  beforeEach(() => {
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', [
+      'getAllModels',
+      'getElementIds',
+      'getElementCategories',
+      'getSpatialTree',
+      'getItemNames',
+      'getItemMaterials',
+    ]);
+    mockFragmentsService.getAllModels.and.returnValue([{ modelId: 'arch' }, { modelId: 'mep' }] as any);
+    mockFragmentsService.getElementIds.and.callFake(async (id) => (id === 'arch' ? [1, 2, 3] : [7]));
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: FragmentsService, useValue: mockFragmentsService }],
+    });
+
+    service = TestBed.inject(ClassificationService);
+  });
+
+  it('should group elements of all models by IFC class with their discipline', async () => {
+    mockFragmentsService.getElementCategories.and.callFake(async (id) =>
+      id === 'arch'
+        ? new Map([
+            ['IFCWALL', [1, 2]],
+            ['IFCDOOR', [3]],
+          ])
+        : new Map([['IFCDUCTSEGMENT', [7]]])
+    );
+
+    const groups = await service.classify('class');
+
+    expect(summary(groups)).toEqual([
+      ['IfcDoor', 1],
+      ['IfcDuctSegment', 1],
+      ['IfcWall', 2],
+    ]);
+    expect(groups.map((group) => group.discipline)).toEqual(['architecture', 'mep', 'architecture']);
+  });
+
+  it('should group elements by storey and merge storeys with the same name', async () => {
+    mockFragmentsService.getSpatialTree.and.callFake(async (id) =>
+      id === 'arch'
+        ? node(100, 'IFCBUILDING', [
+            node(10, 'IFCBUILDINGSTOREY', [node(1, null), node(2, null)]),
+            node(11, 'IFCBUILDINGSTOREY'),
+          ])
+        : node(200, 'IFCBUILDING', [node(20, 'IFCBUILDINGSTOREY', [node(7, null)])])
+    );
+    mockFragmentsService.getItemNames.and.callFake(async (id) =>
+      id === 'arch' ? new Map([[10, 'Level 2']]) : new Map([[20, 'Level 2']])
+    );
+
+    const groups = await service.classify('storey');
+
+    expect(summary(groups)).toEqual([
+      ['Level 2', 3],
+      ['No storey', 1],
+    ]);
+    expect(groups[1]!.elements.get('arch')).toEqual(new Set([3]));
+  });
+
+  it('should put elements in each of their materials', async () => {
+    mockFragmentsService.getItemMaterials.and.callFake(async (id) =>
+      id === 'arch'
+        ? new Map([
+            [1, ['Concrete', 'Plaster']],
+            [2, ['Concrete']],
+          ])
+        : new Map()
+    );
+
+    const groups = await service.classify('material');
+
+    expect(summary(groups)).toEqual([
+      ['Concrete', 2],
+      ['Plaster', 1],
+      ['No material', 2],
+    ]);
+  });
+
+  it('should classify each model once until it is unloaded', async () => {
+    mockFragmentsService.getElementCategories.and.returnValue(Promise.resolve(new Map()));
+
+    await service.classify('class');
+    await service.classify('class');
+    expect(mockFragmentsService.getElementCategories).toHaveBeenCalledTimes(2);
+
+    mockFragmentsService.getAllModels.and.returnValue([{ modelId: 'arch' }] as any);
+    await service.classify('class');
+    expect(mockFragmentsService.getElementCategories).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry after a failed classification', async () => {
+    mockFragmentsService.getElementCategories.and.returnValue(Promise.reject(new Error('fail')));
+    await expectAsync(service.classify('class')).toBeRejected();
+
+    mockFragmentsService.getElementCategories.and.returnValue(Promise.resolve(new Map()));
+    await expectAsync(service.classify('class')).toBeResolvedTo([]);
+  });
+});
@@ -0,0 +1,142 @@
+import { Injectable, inject } from '@angular/core';
+import { FragmentsService } from './fragments.service';
+import { UNASSIGNED_GROUP_NAMES } from '../../shared/constants/viewer.constants';
+import { ClassificationGroup, ClassificationKind } from '../../shared/models/viewer.model';
+import { GroupEntry, getDiscipline, mergeGroups } from '../../shared/utils/classification.utils';
+import {
+  collectLocalIds,
+  findSpatialNodes,
+  formatIfcClass,
+} from '../../shared/utils/spatial-tree.utils';
+
+/**
+ * Groups the elements of every loaded model by IFC class, storey or material
+ * Each model is classified once per kind; results are cached until the model is unloaded
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ClassificationService {
+  private readonly fragmentsService = inject(FragmentsService);
+
+  // Per-model results keyed by `${kind}:${modelId}`
+  private readonly cache = new Map<string, Promise<GroupEntry[]>>();
+
+  /**
+   * Group the elements of all loaded models
+   * Groups with the same key in several models (e.g. a storey named "Level 2") are merged
+   */
+  async classify(kind: ClassificationKind): Promise<ClassificationGroup[]> {
+    const modelIds = this.fragmentsService.getAllModels().map((model) => model.modelId);
+
+    // Forget unloaded models
+    for (const key of this.cache.keys()) {
+      if (!modelIds.includes(key.slice(key.indexOf(':') + 1))) {
+        this.cache.delete(key);
+      }
+    }
+
+    const entries = await Promise.all(modelIds.map((id) => this.getEntries(kind, id)));
+    return mergeGroups(entries.flat());
+  }
+
+  /**
+   * Helper: Cached classification of one model; failures are not cached
+   */
+  private getEntries(kind: ClassificationKind, modelId: string): Promise<GroupEntry[]> {
+    const key = `${kind}:${modelId}`;
+    let entries = this.cache.get(key);
+    if (!entries) {
+      entries = this.classifyModel(kind, modelId).catch((error: unknown) => {
+        this.cache.delete(key);
+        throw error;
+      });
+      this.cache.set(key, entries);
+    }
+    return entries;
+  }
+
+  /**
+   * Helper: Group the elements of one model
+   */
+  private classifyModel(kind: ClassificationKind, modelId: string): Promise<GroupEntry[]> {
+    switch (kind) {
+      case 'class':
+        return this.classifyByClass(modelId);
+      case 'storey':
+        return this.classifyByStorey(modelId);
+      case 'material':
+        return this.classifyByMaterial(modelId);
+    }
+  }
+
+  /**
+   * Helper: One group per IFC class
+   */
+  private async classifyByClass(modelId: string): Promise<GroupEntry[]> {
+    const byCategory = await this.fragmentsService.getElementCategories(modelId);
+    return [...byCategory].map(([category, localIds]) => ({
+      key: category,
+      name: formatIfcClass(category),
+      discipline: getDiscipline(category),
+      modelId,
+      localIds,
+    }));
+  }
+
+  /**
+   * Helper: One group per building storey, plus the elements outside any storey
+   */
+  private async classifyByStorey(modelId: string): Promise<GroupEntry[]> {
+    const [localIds, root] = await Promise.all([
+      this.fragmentsService.getElementIds(modelId),
+      this.fragmentsService.getSpatialTree(modelId),
+    ]);
+    const storeys = root ? findSpatialNodes(root, 'IFCBUILDINGSTOREY') : [];
+    const names = await this.fragmentsService.getItemNames(
+      modelId,
+      storeys.map((storey) => storey.localId!)
+    );
+
+    const withGeometry = new Set(localIds);
+    const assigned = new Set<number>();
+    const entries: GroupEntry[] = storeys.map((storey) => {
+      const name = names.get(storey.localId!) ?? `Storey #${storey.localId}`;
+      const elements = collectLocalIds(storey).filter((localId) => withGeometry.has(localId));
+      elements.forEach((localId) => assigned.add(localId));
+      return { key: name, name, modelId, localIds: elements };
+    });
+
+    entries.push({
+      key: '',
+      name: UNASSIGNED_GROUP_NAMES.storey,
+      modelId,
+      localIds: localIds.filter((localId) => !assigned.has(localId)),
+    });
+    return entries;
+  }
+
+  /**
+   * Helper: One group per material; elements with several materials are in each of them
+   */
+  private async classifyByMaterial(modelId: string): Promise<GroupEntry[]> {
+    const localIds = await this.fragmentsService.getElementIds(modelId);
+    const materials = await this.fragmentsService.getItemMaterials(modelId, localIds);
+
+    const byMaterial = new Map<string, number[]>();
+    for (const localId of localIds) {
+      for (const name of materials.get(localId) ?? ['']) {
+        const group = byMaterial.get(name) ?? [];
+        group.push(localId);
+        byMaterial.set(name, group);
+      }
+    }
+
+    return [...byMaterial].map(([name, elements]) => ({
+      key: name,
+      name: name || UNASSIGNED_GROUP_NAMES.material,
+      modelId,
+      localIds: elements,
+    }));
+  }
+}
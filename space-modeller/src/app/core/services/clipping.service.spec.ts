@@ -0,0 +1,233 @@
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+import { ClippingService } from './clipping.service';
+import { FragmentsService } from './fragments.service';
+import { ViewerContext } from '../../shared/models/viewer.model';
+
+describe('ClippingService', () => {
+  let service: ClippingService;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+  let context: ViewerContext;
+  let camera: THREE.PerspectiveCamera;
+
+  const modelsBox = new THREE.Box3(new THREE.Vector3(-5, 0, -5), new THREE.Vector3(5, 10, 5));
+  const model = { modelId: 'arch', object: new THREE.Group() };
+
+  // Adding 0 turns -0 from negated normals into 0
+  const toArray = ({ x, y, z }: { x: number; y: number; z: number }) => [x + 0, y + 0, z + 0];
+
+  const sceneNames = () => {
+    const names: string[] = [];
+    context.scene.traverse((object) => names.push(object.name));
+    return names;
+  };
+
+  beforeEach(() => {
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', [
+      'getAllModels',
+      'getModelsBox',
+      'getSection',
+      'setClippingPlanes',
+      'update',
+    ]);
+    mockFragmentsService.getAllModels.and.returnValue([model as any]);
+    mockFragmentsService.getModelsBox.and.callFake(() => modelsBox.clone());
+    mockFragmentsService.getSection.and.returnValue(
+      Promise.resolve({
+        buffer: new Float32Array([0, 5, 0, 1, 5, 0, 0, 5, 1]),
+        index: 2,
+        fillsIndices: [0, 1, 2],
+      })
+    );
+    mockFragmentsService.update.and.returnValue(Promise.resolve());
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: FragmentsService, useValue: mockFragmentsService }],
+    });
+
+    service = TestBed.inject(ClippingService);
+    camera = new THREE.PerspectiveCamera();
+    camera.position.set(0, 5, 20);
+    context = {
+      scene: new THREE.Scene(),
+      renderer: { clippingPlanes: [] } as unknown as THREE.WebGLRenderer,
+      controls: { enabled: true } as any,
+      canvas: document.createElement('canvas'),
+      getCamera: () => camera,
+    };
+    service.attach(context);
+  });
+
+  afterEach(() => {
+    service.detach();
+  });
+
+  it('should share its planes with the renderer and the fragments worker', () => {
+    service.addAxisPlane('y');
+
+    expect(context.renderer.clippingPlanes.length).toBe(1);
+    expect(mockFragmentsService.setClippingPlanes).toHaveBeenCalledWith(
+      context.renderer.clippingPlanes
+    );
+  });
+
+  describe('planes', () => {
+    it('should add an axis plane through the model centre keeping what lies below', () => {
+      const id = service.addAxisPlane('y');
+
+      const plane = service.planes()[0]!;
+      expect(plane.id).toBe(id);
+      expect(plane.kind).toBe('plane');
+      expect(toArray(plane.normal)).toEqual([0, -1, 0]);
+      expect(plane.constant).toBeCloseTo(5);
+      expect(service.activePlaneId()).toBe(id);
+    });
+
+    it('should move a plane along its normal', () => {
+      const id = service.addAxisPlane('y');
+
+      service.movePlane(id, 2);
+
+      // Two units further down: -y + 3 = 0
+      expect(service.planes()[0]!.constant).toBeCloseTo(3);
+    });
+
+    it('should flip a plane to keep the other side', () => {
+      const id = service.addAxisPlane('x');
+
+      service.flipPlane(id);
+
+      const plane = service.planes()[0]!;
+      expect(toArray(plane.normal)).toEqual([1, 0, 0]);
+      expect(context.renderer.clippingPlanes[0]!.normal.x).toBe(1);
+    });
+
+    it('should delete a plane and detach the gizmo from it', () => {
+      const id = service.addAxisPlane('z');
+
+      service.deletePlane(id);
+
+      expect(service.planes()).toEqual([]);
+      expect(service.activePlaneId()).toBeNull();
+      expect(context.renderer.clippingPlanes.length).toBe(0);
+      expect(sceneNames()).not.toContain('ClippingPlaneHelper');
+    });
+
+    it('should place a plane on a picked surface facing away from the camera', () => {
+      service.startPlacing();
+
+      service.placePlane({
+        modelId: 'arch',
+        localId: 4,
+        point: { x: 0, y: 5, z: 5 },
+        normal: { x: 0, y: 0, z: 1 },
+        distance: 15,
+      });
+
+      const plane = service.planes()[0]!;
+      expect(toArray(plane.normal)).toEqual([0, 0, -1]);
+      expect(plane.constant).toBeCloseTo(5);
+      expect(service.placing()).toBeFalse();
+    });
+
+    it('should hide the plane helpers', () => {
+      service.addAxisPlane('y');
+      service.setHelpersVisible(false);
+
+      expect(context.scene.getObjectByName('ClippingHelpers')!.visible).toBeFalse();
+    });
+  });
+
+  describe('section box', () => {
+    it('should clip to the padded model bounds with six inward planes', () => {
+      expect(service.enableSectionBox()).toBeTrue();
+
+      const planes = service.planes();
+      expect(planes.length).toBe(6);
+      expect(planes.every((plane) => plane.kind === 'box')).toBeTrue();
+      expect(service.hasSectionBox()).toBeTrue();
+      // Every corner of the model box is kept
+      for (const plane of context.renderer.clippingPlanes) {
+        expect(plane.distanceToPoint(modelsBox.min)).toBeGreaterThan(0);
+        expect(plane.distanceToPoint(modelsBox.max)).toBeGreaterThan(0);
+      }
+      expect(sceneNames()).toContain('SectionBoxOutline');
+    });
+
+    it('should keep free planes when the box is removed', () => {
+      service.addAxisPlane('y');
+      service.toggleSectionBox();
+
+      service.toggleSectionBox();
+
+      expect(service.planes().map((plane) => plane.kind)).toEqual(['plane']);
+      expect(sceneNames()).not.toContain('SectionBoxOutline');
+    });
+
+    it('should not add a box without visible models', () => {
+      spyOn(console, 'warn');
+
+      expect(service.enableSectionBox(new THREE.Box3())).toBeFalse();
+      expect(service.planes()).toEqual([]);
+    });
+  });
+
+  describe('sections', () => {
+    it('should fill and outline the cut of every visible model', async () => {
+      service.addAxisPlane('y');
+      await service.refreshSections();
+
+      expect(mockFragmentsService.getSection).toHaveBeenCalledWith('arch', jasmine.any(THREE.Plane));
+      expect(sceneNames()).toContain('SectionCap');
+      expect(sceneNames()).toContain('SectionOutline');
+    });
+
+    it('should skip caps and outlines when both are turned off', async () => {
+      service.addAxisPlane('y');
+      service.setCapsEnabled(false);
+      service.setOutlinesEnabled(false);
+      mockFragmentsService.getSection.calls.reset();
+      await service.refreshSections();
+
+      expect(mockFragmentsService.getSection).not.toHaveBeenCalled();
+      expect(sceneNames()).not.toContain('SectionCap');
+    });
+
+    it('should keep going when a model cannot be sectioned', async () => {
+      spyOn(console, 'warn');
+      mockFragmentsService.getSection.and.returnValue(Promise.reject(new Error('worker gone')));
+      service.addAxisPlane('y');
+
+      await expectAsync(service.refreshSections()).toBeResolved();
+      expect(sceneNames()).not.toContain('SectionCap');
+    });
+  });
+
+  it('should replace all planes with saved ones', () => {
+    service.addAxisPlane('x');
+
+    service.setPlanes([
+      { kind: 'plane', label: 'Plane 4', normal: { x: 0, y: -1, z: 0 }, constant: 3 },
+      { kind: 'box', label: 'Box −X', normal: { x: 1, y: 0, z: 0 }, constant: 5 },
+    ]);
+
+    const planes = service.planes();
+    expect(planes.map((plane) => [plane.label, toArray(plane.normal), plane.constant])).toEqual([
+      ['Plane 4', [0, -1, 0], 3],
+      ['Box −X', [1, 0, 0], 5],
+    ]);
+    expect(service.hasSectionBox()).toBeTrue();
+    expect(service.activePlaneId()).toBeNull();
+    expect(context.renderer.clippingPlanes.length).toBe(2);
+  });
+
+  it('should remove everything on clear', () => {
+    service.addAxisPlane('x');
+    service.enableSectionBox();
+
+    service.clear();
+
+    expect(service.planes()).toEqual([]);
+    expect(context.renderer.clippingPlanes.length).toBe(0);
+  });
+});
@@ -0,0 +1,659 @@
+import { Injectable, NgZone, computed, inject, signal } from '@angular/core';
+import * as THREE from 'three';
+import { TransformControls } from 'three/examples/jsm/controls/TransformControls.js';
+import { FragmentsService } from './fragments.service';
+import { RenderLoopService } from './render-loop.service';
+import { CLIPPING_CONFIG } from '../../shared/constants/viewer.constants';
+import {
+  ClippingPlaneKind,
+  ClippingPlaneState,
+  PickResult,
+  Vector3Like,
+  ViewerContext,
+} from '../../shared/models/viewer.model';
+
+/**
+ * A clipping plane together with its scene helpers
+ */
+interface ClippingPlaneEntry {
+  id: string;
+  kind: ClippingPlaneKind;
+  label: string;
+  plane: THREE.Plane;
+  /** Translucent quad marking a free plane; box faces are shown by the box outline */
+  helper: THREE.Mesh | null;
+}
+
+/** Section box faces; normals point into the box, towards the kept geometry */
+const BOX_FACES: { label: string; normal: THREE.Vector3 }[] = [
+  { label: 'Box −X', normal: new THREE.Vector3(1, 0, 0) },
+  { label: 'Box +X', normal: new THREE.Vector3(-1, 0, 0) },
+  { label: 'Box −Y', normal: new THREE.Vector3(0, 1, 0) },
+  { label: 'Box +Y', normal: new THREE.Vector3(0, -1, 0) },
+  { label: 'Box −Z', normal: new THREE.Vector3(0, 0, 1) },
+  { label: 'Box +Z', normal: new THREE.Vector3(0, 0, -1) },
+];
+
+const PLANE_FORWARD = new THREE.Vector3(0, 0, 1);
+
+/**
+ * Section planes and section box
+ * Planes clip every material through the renderer's global clipping planes and are
+ * passed to the fragments worker; cut surfaces can be filled (caps) and outlined
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ClippingService {
+  private readonly ngZone = inject(NgZone);
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly renderLoop = inject(RenderLoopService);
+
+  private readonly planesState = signal<ClippingPlaneState[]>([]);
+  private readonly activePlaneIdState = signal<string | null>(null);
+  private readonly placingState = signal<boolean>(false);
+  private readonly capsState = signal<boolean>(CLIPPING_CONFIG.caps);
+  private readonly outlinesState = signal<boolean>(CLIPPING_CONFIG.outlines);
+
+  private context: ViewerContext | null = null;
+  private entries: ClippingPlaneEntry[] = [];
+  // Shared with the renderer and the fragments worker; mutated in place
+  private readonly clippingPlanes: THREE.Plane[] = [];
+  private readonly helpers = new THREE.Group();
+  private readonly sections = new THREE.Group();
+  private readonly gizmoTarget = new THREE.Object3D();
+  private boxOutline: THREE.Box3Helper | null = null;
+  private gizmo: TransformControls | null = null;
+  private planeCount = 0;
+  private sectionRequest = 0;
+
+  private readonly capMaterial = new THREE.MeshBasicMaterial({
+    color: CLIPPING_CONFIG.capColor,
+    side: THREE.DoubleSide,
+    polygonOffset: true,
+    polygonOffsetFactor: 1,
+    polygonOffsetUnits: 1,
+  });
+  private readonly outlineMaterial = new THREE.LineBasicMaterial({
+    color: CLIPPING_CONFIG.outlineColor,
+  });
+
+  /** Clipping planes in creation order */
+  readonly planes = this.planesState.asReadonly();
+
+  /** Plane currently attached to the drag gizmo */
+  readonly activePlaneId = this.activePlaneIdState.asReadonly();
+
+  /** Whether the next click on a surface places a plane */
+  readonly placing = this.placingState.asReadonly();
+
+  /** Whether cut surfaces are filled */
+  readonly capsEnabled = this.capsState.asReadonly();
+
+  /** Whether cut surfaces are outlined */
+  readonly outlinesEnabled = this.outlinesState.asReadonly();
+
+  /** Whether the section box is active */
+  readonly hasSectionBox = computed(() => this.planesState().some((plane) => plane.kind === 'box'));
+
+  /**
+   * Start clipping the viewer's scene
+   */
+  attach(context: ViewerContext): void {
+    this.context = context;
+    this.helpers.name = 'ClippingHelpers';
+    this.sections.name = 'ClippingSections';
+    context.scene.add(this.helpers, this.sections, this.gizmoTarget);
+    context.renderer.clippingPlanes = this.clippingPlanes;
+    this.fragmentsService.setClippingPlanes(this.clippingPlanes);
+  }
+
+  /**
+   * Remove all planes and scene objects (the viewer is being destroyed)
+   */
+  detach(): void {
+    this.entries.forEach((entry) => disposeObject(entry.helper, true));
+    this.entries = [];
+    this.clippingPlanes.length = 0;
+    this.clearSections();
+    this.setBoxOutline(null);
+
+    if (this.gizmo) {
+      this.gizmo.getHelper().removeFromParent();
+      this.gizmo.dispose();
+      this.gizmo = null;
+    }
+    this.helpers.removeFromParent();
+    this.sections.removeFromParent();
+    this.gizmoTarget.removeFromParent();
+
+    this.context = null;
+    this.planeCount = 0;
+    this.planesState.set([]);
+    this.activePlaneIdState.set(null);
+    this.placingState.set(false);
+  }
+
+  /**
+   * Add a section plane
+   * @param point Point on the plane
+   * @param normal Direction of the kept side
+   * @returns ID of the new plane
+   */
+  addPlane(point: Vector3Like, normal: Vector3Like): string {
+    const unitNormal = new THREE.Vector3(normal.x, normal.y, normal.z).normalize();
+    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(
+      unitNormal,
+      new THREE.Vector3(point.x, point.y, point.z)
+    );
+    const entry = this.createEntry('plane', `Plane ${++this.planeCount}`, plane);
+
+    this.syncPlanes();
+    this.setActivePlane(entry.id);
+    return entry.id;
+  }
+
+  /**
+   * Add an axis-aligned plane through the centre of the visible models
+   * The plane keeps the geometry below (Y) or behind (X, Z) it
+   */
+  addAxisPlane(axis: 'x' | 'y' | 'z'): string {
+    const center = this.getCenter();
+    const normal = { x: 0, y: 0, z: 0, [axis]: -1 };
+    return this.addPlane(center, normal);
+  }
+
+  /**
+   * Wait for a click on a surface to place a plane (see placePlane)
+   */
+  startPlacing(): void {
+    this.placingState.set(true);
+  }
+
+  /**
+   * Stop waiting for a surface click
+   */
+  cancelPlacing(): void {
+    this.placingState.set(false);
+  }
+
+  /**
+   * Place a plane on a picked surface, cutting away the side facing the camera
+   * @returns ID of the new plane, or null without an attached viewer
+   */
+  placePlane(hit: PickResult): string | null {
+    this.placingState.set(false);
+    if (!this.context) {
+      return null;
+    }
+
+    const point = new THREE.Vector3(hit.point.x, hit.point.y, hit.point.z);
+    const viewDirection = point.clone().sub(this.context.getCamera().position).normalize();
+    const normal = hit.normal
+      ? new THREE.Vector3(hit.normal.x, hit.normal.y, hit.normal.z)
+      : viewDirection.clone();
+    // The kept side faces away from the camera so the cut opens towards the viewer
+    if (normal.dot(viewDirection) < 0) {
+      normal.negate();
+    }
+
+    return this.addPlane(point, normal);
+  }
+
+  /**
+   * Move a plane along its normal
+   * @param distance Offset in world units; positive moves towards the kept side
+   */
+  movePlane(id: string, distance: number): void {
+    const entry = this.getEntry(id);
+    if (!entry) {
+      return;
+    }
+
+    entry.plane.constant -= distance;
+    this.syncPlanes();
+    this.placeGizmo();
+  }
+
+  /**
+   * Keep the other side of a plane
+   */
+  flipPlane(id: string): void {
+    const entry = this.getEntry(id);
+    if (!entry) {
+      return;
+    }
+
+    entry.plane.negate();
+    this.syncPlanes();
+    this.placeGizmo();
+  }
+
+  /**
+   * Remove a plane; removing a box face leaves the other five in place
+   */
+  deletePlane(id: string): void {
+    const entry = this.getEntry(id);
+    if (!entry) {
+      return;
+    }
+
+    disposeObject(entry.helper, true);
+    this.entries = this.entries.filter((item) => item !== entry);
+    if (this.activePlaneIdState() === id) {
+      this.setActivePlane(null);
+    }
+    this.syncPlanes();
+  }
+
+  /**
+   * Attach the drag gizmo to a plane, or detach it
+   */
+  setActivePlane(id: string | null): void {
+    this.activePlaneIdState.set(id && this.getEntry(id) ? id : null);
+    this.placeGizmo();
+  }
+
+  /**
+   * Clip to a box, by default the bounding box of the visible models
+   * @returns False if there is nothing to fit the box to
+   */
+  enableSectionBox(box: THREE.Box3 = this.fragmentsService.getModelsBox()): boolean {
+    if (box.isEmpty()) {
+      console.warn('Cannot add a section box - no visible model');
+      return false;
+    }
+
+    this.removeBox();
+    const padded = box.clone().expandByScalar(CLIPPING_CONFIG.boxPadding);
+    for (const { label, normal } of BOX_FACES) {
+      // Faces with positive normals sit on the minimum corner
+      const corner = normal.x + normal.y + normal.z > 0 ? padded.min : padded.max;
+      this.createEntry('box', label, new THREE.Plane().setFromNormalAndCoplanarPoint(normal, corner));
+    }
+
+    this.syncPlanes();
+    return true;
+  }
+
+  /**
+   * Remove the section box
+   */
+  disableSectionBox(): void {
+    this.removeBox();
+    this.syncPlanes();
+  }
+
+  /**
+   * Add the section box if it is off, remove it otherwise
+   */
+  toggleSectionBox(): void {
+    if (this.hasSectionBox()) {
+      this.disableSectionBox();
+    } else {
+      this.enableSectionBox();
+    }
+  }
+
+  /**
+   * Remove every plane and the section box
+   */
+  clear(): void {
+    this.entries.forEach((entry) => disposeObject(entry.helper, true));
+    this.entries = [];
+    this.setActivePlane(null);
+    this.syncPlanes();
+  }
+
+  /**
+   * Replace every plane and box face, e.g. with those of a saved viewpoint
+   */
+  setPlanes(planes: Omit<ClippingPlaneState, 'id'>[]): void {
+    this.entries.forEach((entry) => disposeObject(entry.helper, true));
+    this.entries = [];
+    for (const { kind, label, normal, constant } of planes) {
+      const plane = new THREE.Plane(new THREE.Vector3(normal.x, normal.y, normal.z), constant);
+      this.createEntry(kind, label, plane.normalize());
+    }
+    // Keep new plane labels after the restored ones
+    this.planeCount = Math.max(
+      this.planeCount,
+      planes.filter((plane) => plane.kind === 'plane').length
+    );
+    this.setActivePlane(null);
+    this.syncPlanes();
+  }
+
+  /**
+   * Fill cut surfaces or not
+   */
+  setCapsEnabled(enabled: boolean): void {
+    this.capsState.set(enabled);
+    void this.refreshSections();
+  }
+
+  /**
+   * Outline cut surfaces or not
+   */
+  setOutlinesEnabled(enabled: boolean): void {
+    this.outlinesState.set(enabled);
+    void this.refreshSections();
+  }
+
+  /**
+   * Show or hide the plane quads and the section box outline, e.g. for a clean plan view
+   */
+  setHelpersVisible(visible: boolean): void {
+    this.helpers.visible = visible;
+    this.renderLoop.requestRender();
+  }
+
+  /**
+   * Whether the pointer is over the drag gizmo, so clicks should not pick elements
+   */
+  isGizmoHovered(): boolean {
+    return this.gizmo?.axis != null;
+  }
+
+  /**
+   * Rebuild caps and outlines, e.g. after models were loaded, hidden or moved
+   * Only the latest request is applied when several overlap
+   */
+  async refreshSections(): Promise<void> {
+    const request = ++this.sectionRequest;
+    const caps = this.capsState();
+    const outlines = this.outlinesState();
+    const planes = this.entries.map((entry) => entry.plane.clone());
+    const models = this.fragmentsService
+      .getAllModels()
+      .filter((model) => model.object.visible)
+      .map((model) => model.modelId);
+
+    const meshes: THREE.Object3D[] = [];
+    if (this.context && (caps || outlines)) {
+      for (const plane of planes) {
+        // Cut slightly inside the kept side so the caps are not clipped by their own plane
+        plane.constant -= CLIPPING_CONFIG.capOffset;
+        for (const modelId of models) {
+          try {
+            const section = await this.fragmentsService.getSection(modelId, plane);
+            if (section) {
+              meshes.push(...this.createSectionMeshes(section, caps, outlines));
+            }
+          } catch (error) {
+            console.warn(`Failed to section model ${modelId}:`, error);
+          }
+        }
+      }
+    }
+
+    if (request !== this.sectionRequest) {
+      meshes.forEach((mesh) => disposeObject(mesh));
+      return;
+    }
+    this.clearSections();
+    meshes.forEach((mesh) => this.sections.add(mesh));
+    this.renderLoop.requestRender();
+  }
+
+  /**
+   * Helper: Register a plane and its helper quad
+   */
+  private createEntry(kind: ClippingPlaneKind, label: string, plane: THREE.Plane): ClippingPlaneEntry {
+    const entry: ClippingPlaneEntry = {
+      id: crypto.randomUUID(),
+      kind,
+      label,
+      plane,
+      helper: kind === 'plane' ? this.createPlaneHelper() : null,
+    };
+    if (entry.helper) {
+      this.helpers.add(entry.helper);
+    }
+    this.entries.push(entry);
+    return entry;
+  }
+
+  /**
+   * Helper: Translucent quad sized to the visible models
+   */
+  private createPlaneHelper(): THREE.Mesh {
+    const box = this.fragmentsService.getModelsBox();
+    const size = box.isEmpty()
+      ? CLIPPING_CONFIG.defaultPlaneSize
+      : box.getSize(new THREE.Vector3()).length();
+    const material = new THREE.MeshBasicMaterial({
+      color: CLIPPING_CONFIG.planeColor,
+      transparent: true,
+      opacity: CLIPPING_CONFIG.planeOpacity,
+      side: THREE.DoubleSide,
+      depthWrite: false,
+    });
+    const helper = new THREE.Mesh(new THREE.PlaneGeometry(size, size), material);
+    helper.name = 'ClippingPlaneHelper';
+    return helper;
+  }
+
+  /**
+   * Helper: Push plane changes to the renderer, the fragments worker, helpers and state
+   */
+  private syncPlanes(): void {
+    this.clippingPlanes.length = 0;
+    this.clippingPlanes.push(...this.entries.map((entry) => entry.plane));
+    this.updateHelpers();
+    this.publish();
+    this.renderLoop.requestRender();
+
+    void this.fragmentsService.update().catch((error: unknown) => {
+      console.warn('Failed to update clipped models:', error);
+    });
+    void this.refreshSections();
+  }
+
+  /**
+   * Helper: Move helper quads onto their planes and fit the box outline to the box faces
+   */
+  private updateHelpers(): void {
+    const center = this.getCenter();
+    for (const { plane, helper } of this.entries) {
+      if (helper) {
+        plane.projectPoint(center, helper.position);
+        helper.position.addScaledVector(plane.normal, CLIPPING_CONFIG.capOffset);
+        helper.quaternion.setFromUnitVectors(PLANE_FORWARD, plane.normal);
+      }
+    }
+
+    const faces = this.entries.filter((entry) => entry.kind === 'box');
+    if (faces.length === 0) {
+      this.setBoxOutline(null);
+      return;
+    }
+
+    // Sides whose face was deleted fall back to the model bounds
+    const box = this.fragmentsService.getModelsBox().expandByScalar(CLIPPING_CONFIG.boxPadding);
+    for (const { plane } of faces) {
+      // Each face bounds the box along the axis of its normal
+      const axis = (['x', 'y', 'z'] as const).find((key) => plane.normal[key] !== 0);
+      if (axis) {
+        const coordinate = -plane.constant / plane.normal[axis];
+        box[plane.normal[axis] > 0 ? 'min' : 'max'][axis] = coordinate;
+      }
+    }
+    this.setBoxOutline(box);
+  }
+
+  /**
+   * Helper: Show the section box outline, or remove it
+   */
+  private setBoxOutline(box: THREE.Box3 | null): void {
+    if (!box) {
+      disposeObject(this.boxOutline, true);
+      this.boxOutline = null;
+      return;
+    }
+
+    if (!this.boxOutline) {
+      this.boxOutline = new THREE.Box3Helper(new THREE.Box3(), CLIPPING_CONFIG.planeColor);
+      this.boxOutline.name = 'SectionBoxOutline';
+      this.helpers.add(this.boxOutline);
+    }
+    // Grow slightly so the outline is not clipped by the faces it lies on
+    this.boxOutline.box.copy(box).expandByScalar(CLIPPING_CONFIG.capOffset);
+  }
+
+  /**
+   * Helper: Publish the planes as state
+   */
+  private publish(): void {
+    this.planesState.set(
+      this.entries.map(({ id, kind, label, plane }) => ({
+        id,
+        kind,
+        label,
+        normal: { x: plane.normal.x, y: plane.normal.y, z: plane.normal.z },
+        constant: plane.constant,
+      }))
+    );
+  }
+
+  /**
+   * Helper: Attach the gizmo to the active plane, constrained to its normal
+   */
+  private placeGizmo(): void {
+    const entry = this.getEntry(this.activePlaneIdState());
+    this.renderLoop.requestRender();
+    if (!entry || !this.context) {
+      this.gizmo?.detach();
+      return;
+    }
+
+    const gizmo = this.gizmo ?? this.createGizmo(this.context);
+    gizmo.camera = this.context.getCamera();
+    entry.plane.projectPoint(this.getCenter(), this.gizmoTarget.position);
+    this.gizmoTarget.quaternion.setFromUnitVectors(PLANE_FORWARD, entry.plane.normal);
+    gizmo.attach(this.gizmoTarget);
+  }
+
+  /**
+   * Helper: Create the drag gizmo; its pointer listeners run outside Angular
+   */
+  private createGizmo(context: ViewerContext): TransformControls {
+    const gizmo = this.ngZone.runOutsideAngular(
+      () => new TransformControls(context.getCamera(), context.canvas)
+    );
+    gizmo.setMode('translate');
+    gizmo.setSpace('local');
+    // The target's local Z axis is the plane normal
+    gizmo.showX = false;
+    gizmo.showY = false;
+
+    // Hovering and dragging the gizmo change how it is drawn
+    gizmo.addEventListener('change', () => this.renderLoop.requestRender());
+    gizmo.addEventListener('dragging-changed', (event) => {
+      const dragging = event.value === true;
+      context.controls.enabled = !dragging;
+      // Caps are stale while the plane moves
+      this.sections.visible = !dragging;
+    });
+    gizmo.addEventListener('objectChange', () => {
+      const entry = this.getEntry(this.activePlaneIdState());
+      if (entry) {
+        entry.plane.constant = -entry.plane.normal.dot(this.gizmoTarget.position);
+        this.updateHelpers();
+      }
+    });
+    gizmo.addEventListener('mouseUp', () => {
+      this.ngZone.run(() => this.syncPlanes());
+    });
+
+    context.scene.add(gizmo.getHelper());
+    this.gizmo = gizmo;
+    return gizmo;
+  }
+
+  /**
+   * Helper: Build cap and outline meshes from a model section
+   */
+  private createSectionMeshes(
+    section: { buffer: Float32Array; index: number; fillsIndices: number[] },
+    caps: boolean,
+    outlines: boolean
+  ): THREE.Object3D[] {
+    const meshes: THREE.Object3D[] = [];
+    const position = new THREE.BufferAttribute(section.buffer, 3);
+
+    if (caps && section.fillsIndices.length > 0) {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', position);
+      geometry.setIndex(section.fillsIndices);
+      const cap = new THREE.Mesh(geometry, this.capMaterial);
+      cap.name = 'SectionCap';
+      meshes.push(cap);
+    }
+
+    if (outlines && section.index > 0) {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', position);
+      geometry.setDrawRange(0, section.index);
+      const outline = new THREE.LineSegments(geometry, this.outlineMaterial);
+      outline.name = 'SectionOutline';
+      meshes.push(outline);
+    }
+
+    // Section geometry is rebuilt rather than culled
+    meshes.forEach((mesh) => (mesh.frustumCulled = false));
+    return meshes;
+  }
+
+  /**
+   * Helper: Dispose the current caps and outlines
+   */
+  private clearSections(): void {
+    [...this.sections.children].forEach((mesh) => disposeObject(mesh));
+  }
+
+  /**
+   * Helper: Drop the section box faces
+   */
+  private removeBox(): void {
+    const activeId = this.activePlaneIdState();
+    this.entries = this.entries.filter((entry) => entry.kind !== 'box');
+    if (activeId && !this.getEntry(activeId)) {
+      this.setActivePlane(null);
+    }
+  }
+
+  /**
+   * Helper: Centre of the visible models, or the origin
+   */
+  private getCenter(): THREE.Vector3 {
+    const box = this.fragmentsService.getModelsBox();
+    return box.isEmpty() ? new THREE.Vector3() : box.getCenter(new THREE.Vector3());
+  }
+
+  /**
+   * Helper: Find a plane by ID
+   */
+  private getEntry(id: string | null): ClippingPlaneEntry | undefined {
+    return id ? this.entries.find((entry) => entry.id === id) : undefined;
+  }
+}
+
+/**
+ * Helper: Remove an object from the scene and free its geometry
+ * @param ownsMaterial Whether the material belongs to the object alone (helpers)
+ * rather than being shared (caps, outlines)
+ */
+function disposeObject(object: THREE.Object3D | null, ownsMaterial = false): void {
+  if (!object) {
+    return;
+  }
+
+  object.removeFromParent();
+  if (object instanceof THREE.Mesh || object instanceof THREE.LineSegments) {
+    object.geometry.dispose();
+    if (ownsMaterial) {
+      (object.material as THREE.Material).dispose();
+    }
+  }
+}
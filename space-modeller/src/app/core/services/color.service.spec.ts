@@ -0,0 +1,118 @@
+import { TestBed } from '@angular/core/testing';
+import { ColorService } from './color.service';
+import { FragmentsService } from './fragments.service';
+import { QueryService } from './query.service';
+
+describe('ColorService', () => {
+  let service: ColorService;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+  let mockQueryService: jasmine.SpyObj<QueryService>;
+
+  beforeEach(() => {
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', ['setElementsColor']);
+    mockFragmentsService.setElementsColor.and.returnValue(Promise.resolve());
+    mockQueryService = jasmine.createSpyObj('QueryService', ['getFieldValues']);
+    mockQueryService.getFieldValues.and.returnValue(
+      Promise.resolve([
+        { element: { modelId: 'arch', localId: 1 }, values: ['EI 60'] },
+        { element: { modelId: 'arch', localId: 2 }, values: ['EI 30'] },
+        { element: { modelId: 'mep', localId: 7 }, values: [] },
+      ])
+    );
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: FragmentsService, useValue: mockFragmentsService },
+        { provide: QueryService, useValue: mockQueryService },
+      ],
+    });
+
+    service = TestBed.inject(ColorService);
+  });
+
+  it('should colour elements per model', async () => {
+    await service.setColor(
+      [
+        { modelId: 'arch', localId: 1 },
+        { modelId: 'arch', localId: 2 },
+        { modelId: 'mep', localId: 7 },
+      ],
+      '#ff8800'
+    );
+
+    expect(mockFragmentsService.setElementsColor).toHaveBeenCalledWith('arch', [1, 2], '#ff8800');
+    expect(mockFragmentsService.setElementsColor).toHaveBeenCalledWith('mep', [7], '#ff8800');
+    expect(service.colored().get('arch')?.get(2)).toBe('#ff8800');
+    expect(service.isColored()).toBeTrue();
+  });
+
+  it('should restore the original colours', async () => {
+    await service.setColor([{ modelId: 'arch', localId: 1 }], '#ff8800');
+    await service.setColor([{ modelId: 'arch', localId: 2 }], '#0088ff');
+
+    await service.clear();
+
+    expect(mockFragmentsService.setElementsColor).toHaveBeenCalledWith('arch', [1, 2], null);
+    expect(service.isColored()).toBeFalse();
+  });
+
+  it('should forget unloaded models without repainting them', async () => {
+    await service.setColor([{ modelId: 'mep', localId: 7 }], '#ff8800');
+
+    service.removeModel('mep');
+    await service.clear();
+
+    expect(mockFragmentsService.setElementsColor).not.toHaveBeenCalledWith('mep', [7], null);
+  });
+
+  it('should colour elements by a field with a legend', async () => {
+    const legend = await service.colorBy(['Pset_WallCommon', 'FireRating']);
+
+    expect(legend?.title).toBe('Pset_WallCommon.FireRating');
+    expect(legend?.entries.map((entry) => [entry.label, entry.count])).toEqual([
+      ['EI 30', 1],
+      ['EI 60', 1],
+      ['No value', 1],
+    ]);
+    expect(service.legend()).toBe(legend);
+    expect(mockFragmentsService.setElementsColor).toHaveBeenCalledWith(
+      'arch',
+      [2],
+      legend!.entries[0]!.color
+    );
+    expect(service.colored().get('mep')?.get(7)).toBe(legend!.entries[2]!.color);
+  });
+
+  it('should drop the legend when colours are cleared', async () => {
+    await service.colorBy(['storey']);
+
+    await service.clear();
+
+    expect(service.legend()).toBeNull();
+    expect(mockFragmentsService.setElementsColor).toHaveBeenCalledWith('arch', [1, 2], null);
+  });
+
+  it('should put back colours and a legend saved earlier', async () => {
+    const legend = await service.colorBy(['storey']);
+    const colored = service.colored();
+    await service.setColor([{ modelId: 'arch', localId: 1 }], '#cccccc');
+
+    await service.restore(colored, legend);
+
+    expect(service.colored()).toEqual(colored);
+    expect(service.legend()).toBe(legend);
+    expect(mockFragmentsService.setElementsColor).toHaveBeenCalledWith(
+      'arch',
+      [1],
+      legend!.entries[1]!.color
+    );
+  });
+
+  it('should remove an unloaded model from the legend', async () => {
+    await service.colorBy(['storey']);
+
+    service.removeModel('mep');
+
+    expect(service.legend()?.entries.map((entry) => entry.label)).toEqual(['EI 30', 'EI 60']);
+  });
+});
@@ -0,0 +1,168 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { FragmentsService } from './fragments.service';
+import { QueryService } from './query.service';
+import { ModelElement, ThematicLegend } from '../../shared/models/viewer.model';
+import { classifyValues } from '../../shared/utils/thematic.utils';
+import { countElements, toElementSets } from '../../shared/utils/visibility.utils';
+
+/**
+ * Colour overrides of elements across all loaded models (search results,
+ * colour by property). Overrides sit on top of the original materials, which
+ * are never modified, so clearing them restores the original look
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ColorService {
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly queryService = inject(QueryService);
+
+  // Colour by local ID by model ID
+  private readonly colors = signal<ReadonlyMap<string, ReadonlyMap<number, string>>>(new Map());
+  private readonly legendState = signal<ThematicLegend | null>(null);
+  private applyQueue: Promise<void> = Promise.resolve();
+  private colorByRequest = 0;
+
+  /** Colour of every coloured element by model ID */
+  readonly colored = this.colors.asReadonly();
+
+  /** Legend of the field the elements are coloured by; null when not colouring by a field */
+  readonly legend = this.legendState.asReadonly();
+
+  /** Whether any element is coloured */
+  readonly isColored = computed(() => [...this.colors().values()].some((colors) => colors.size > 0));
+
+  /**
+   * Paint elements in a colour, replacing any colour they had
+   * @param color CSS colour string
+   */
+  setColor(elements: ModelElement[], color: string): Promise<void> {
+    const sets = toElementSets(elements);
+    const next = new Map(this.colors());
+    sets.forEach((localIds, modelId) => {
+      const colors = new Map(next.get(modelId));
+      localIds.forEach((localId) => colors.set(localId, color));
+      next.set(modelId, colors);
+    });
+    this.colors.set(next);
+
+    return this.apply(async () => {
+      for (const [modelId, localIds] of sets) {
+        await this.fragmentsService.setElementsColor(modelId, [...localIds], color);
+      }
+    });
+  }
+
+  /**
+   * Colour every element by the value of a field, replacing all other colours
+   * @param field Attribute, property or class / storey / material, as in queries
+   * @returns The legend, or null if a newer request replaced this one
+   */
+  async colorBy(field: string[]): Promise<ThematicLegend | null> {
+    const request = ++this.colorByRequest;
+    const samples = await this.queryService.getFieldValues(field);
+    if (request !== this.colorByRequest) {
+      return null;
+    }
+
+    const { kind, entries, indices } = classifyValues(samples.map((sample) => sample.values));
+    const members = entries.map((): ModelElement[] => []);
+    samples.forEach((sample, index) => members[indices[index]!]!.push(sample.element));
+
+    void this.clear();
+    const legend: ThematicLegend = {
+      title: field.join('.'),
+      kind,
+      entries: entries.map((entry, index) => ({
+        ...entry,
+        elements: toElementSets(members[index]!),
+        count: members[index]!.length,
+      })),
+    };
+    this.legendState.set(legend);
+    await Promise.all(entries.map((entry, index) => this.setColor(members[index]!, entry.color)));
+    return legend;
+  }
+
+  /**
+   * Restore the original colour of every coloured element and drop the legend
+   */
+  clear(): Promise<void> {
+    const previous = this.colors();
+    this.colors.set(new Map());
+    this.legendState.set(null);
+    this.colorByRequest++;
+
+    return this.apply(async () => {
+      for (const [modelId, colors] of previous) {
+        await this.fragmentsService.setElementsColor(modelId, [...colors.keys()], null);
+      }
+    });
+  }
+
+  /**
+   * Replace the current colours with ones saved earlier from colored() and legend()
+   */
+  restore(
+    colored: ReadonlyMap<string, ReadonlyMap<number, string>>,
+    legend: ThematicLegend | null
+  ): Promise<void> {
+    let done = this.clear();
+    this.legendState.set(legend);
+
+    for (const [modelId, colors] of colored) {
+      const byColor = new Map<string, ModelElement[]>();
+      for (const [localId, color] of colors) {
+        const elements = byColor.get(color) ?? [];
+        elements.push({ modelId, localId });
+        byColor.set(color, elements);
+      }
+      for (const [color, elements] of byColor) {
+        done = this.setColor(elements, color);
+      }
+    }
+    return done;
+  }
+
+  /**
+   * Forget the colours of an unloaded model
+   */
+  removeModel(modelId: string): void {
+    const next = new Map(this.colors());
+    next.delete(modelId);
+    this.colors.set(next);
+
+    this.legendState.update((legend) => {
+      if (!legend) {
+        return null;
+      }
+      const entries = legend.entries
+        .map((entry) => {
+          const elements = new Map(entry.elements);
+          elements.delete(modelId);
+          return { ...entry, elements, count: countElements(elements) };
+        })
+        .filter((entry) => entry.count > 0);
+      return entries.length > 0 ? { ...legend, entries } : null;
+    });
+  }
+
+  /**
+   * Forget all colours without repainting (models are being disposed)
+   */
+  reset(): void {
+    this.colors.set(new Map());
+    this.legendState.set(null);
+    this.colorByRequest++;
+  }
+
+  /**
+   * Helper: Run scene updates one after another so they apply in order
+   */
+  private apply(update: () => Promise<void>): Promise<void> {
+    this.applyQueue = this.applyQueue
+      .then(update)
+      .catch((error: unknown) => console.error('Failed to update element colours:', error));
+    return this.applyQueue;
+  }
+}
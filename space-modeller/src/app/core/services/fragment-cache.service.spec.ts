@@ -0,0 +1,253 @@
+import { TestBed } from '@angular/core/testing';
+import { FragmentCacheService, INDEXED_DB } from './fragment-cache.service';
+
+/**
+ * Minimal in-memory IndexedDB covering the calls FragmentCacheService makes.
+ * Requests succeed in microtasks; transactions complete on the next macrotask.
+ */
+class FakeRequest<T = unknown> {
+  result!: T;
+  error: DOMException | null = null;
+  onsuccess: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onupgradeneeded: (() => void) | null = null;
+}
+
+class FakeTransaction {
+  oncomplete: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onabort: (() => void) | null = null;
+  error: DOMException | null = null;
+
+  constructor(private readonly db: FakeDatabase) {
+    setTimeout(() => this.oncomplete?.());
+  }
+
+  objectStore(name: string): FakeObjectStore {
+    const store = this.db.stores.get(name);
+    if (!store) {
+      throw new DOMException(`No store ${name}`, 'NotFoundError');
+    }
+    return new FakeObjectStore(store, this);
+  }
+
+  run<T>(operation: () => T): FakeRequest<T> {
+    const request = new FakeRequest<T>();
+    queueMicrotask(() => {
+      request.result = operation();
+      request.onsuccess?.();
+    });
+    return request;
+  }
+}
+
+class FakeObjectStore {
+  constructor(
+    private readonly store: { keyPath: string; records: Map<string, unknown> },
+    private readonly tx: FakeTransaction
+  ) {}
+
+  get(key: string) {
+    return this.tx.run(() => structuredClone(this.store.records.get(key)));
+  }
+
+  getAll() {
+    return this.tx.run(() => Array.from(this.store.records.values(), (value) => structuredClone(value)));
+  }
+
+  put(value: Record<string, unknown>) {
+    return this.tx.run(() => {
+      const key = value[this.store.keyPath] as string;
+      this.store.records.set(key, structuredClone(value));
+      return key;
+    });
+  }
+
+  delete(key: string) {
+    return this.tx.run(() => {
+      this.store.records.delete(key);
+    });
+  }
+
+  clear() {
+    return this.tx.run(() => this.store.records.clear());
+  }
+}
+
+class FakeDatabase {
+  readonly stores = new Map<string, { keyPath: string; records: Map<string, unknown> }>();
+  version = 0;
+  closed = false;
+
+  readonly objectStoreNames = {
+    contains: (name: string) => this.stores.has(name),
+  };
+
+  createObjectStore(name: string, options: { keyPath: string }): void {
+    this.stores.set(name, { keyPath: options.keyPath, records: new Map() });
+  }
+
+  transaction(_names: string | string[], _mode: IDBTransactionMode): FakeTransaction {
+    return new FakeTransaction(this);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+class FakeIndexedDb {
+  readonly databases = new Map<string, FakeDatabase>();
+  failOpen = false;
+
+  open(name: string, version: number): FakeRequest<FakeDatabase> {
+    const request = new FakeRequest<FakeDatabase>();
+    setTimeout(() => {
+      if (this.failOpen) {
+        request.error = new DOMException('Blocked', 'UnknownError');
+        request.onerror?.();
+        return;
+      }
+
+      const db = this.databases.get(name) ?? new FakeDatabase();
+      this.databases.set(name, db);
+      request.result = db;
+      if (db.version < version) {
+        db.version = version;
+        request.onupgradeneeded?.();
+      }
+      request.onsuccess?.();
+    });
+    return request;
+  }
+}
+
+describe('FragmentCacheService', () => {
+  let service: FragmentCacheService;
+  let fakeIndexedDb: FakeIndexedDb;
+
+  beforeEach(() => {
+    fakeIndexedDb = new FakeIndexedDb();
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: INDEXED_DB, useValue: fakeIndexedDb as unknown as IDBFactory }],
+    });
+
+    service = TestBed.inject(FragmentCacheService);
+  });
+
+  describe('hash', () => {
+    it('should produce a stable hex SHA-256 digest', async () => {
+      const hash = await service.hash(new TextEncoder().encode('abc'));
+
+      expect(hash).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    it('should differ for different content', async () => {
+      const a = await service.hash(new Uint8Array([1, 2, 3]));
+      const b = await service.hash(new Uint8Array([1, 2, 4]));
+
+      expect(a).not.toBe(b);
+    });
+  });
+
+  describe('get / put', () => {
+    it('should return null on a cache miss', async () => {
+      expect(await service.get('missing')).toBeNull();
+    });
+
+    it('should round-trip fragment data', async () => {
+      await service.put('hash-a', 'Tower', new Uint8Array([9, 8, 7]), 1024);
+
+      const data = await service.get('hash-a');
+
+      expect(Array.from(data ?? [])).toEqual([9, 8, 7]);
+    });
+
+    it('should record entry metadata', async () => {
+      await service.put('hash-a', 'Tower', new Uint8Array([9, 8, 7]), 1024);
+
+      const [entry] = service.entries();
+      expect(entry).toEqual(
+        jasmine.objectContaining({ hash: 'hash-a', name: 'Tower', size: 3, sourceSize: 1024 })
+      );
+      expect(service.totalSize()).toBe(3);
+    });
+
+    it('should update the last access time on hits', async () => {
+      await service.put('hash-a', 'Tower', new Uint8Array([1]), 10);
+      const storedAt = service.entries()[0]?.lastAccessedAt ?? 0;
+      spyOn(Date, 'now').and.returnValue(storedAt + 5000);
+
+      await service.get('hash-a');
+
+      expect(service.entries()[0]?.lastAccessedAt).toBe(storedAt + 5000);
+    });
+  });
+
+  describe('refresh', () => {
+    it('should list the most recently used entries first', async () => {
+      const now = Date.now();
+      const clock = spyOn(Date, 'now');
+      clock.and.returnValue(now);
+      await service.put('old', 'Old', new Uint8Array([1]), 1);
+      clock.and.returnValue(now + 1000);
+      await service.put('new', 'New', new Uint8Array([1, 2]), 2);
+
+      const entries = await service.refresh();
+
+      expect(entries.map((entry) => entry.hash)).toEqual(['new', 'old']);
+      expect(service.totalSize()).toBe(3);
+    });
+  });
+
+  describe('delete / clear', () => {
+    it('should evict a single entry and its data', async () => {
+      await service.put('hash-a', 'A', new Uint8Array([1]), 1);
+      await service.put('hash-b', 'B', new Uint8Array([2]), 1);
+
+      await service.delete('hash-a');
+
+      expect(service.entries().map((entry) => entry.hash)).toEqual(['hash-b']);
+      expect(await service.get('hash-a')).toBeNull();
+    });
+
+    it('should evict every entry', async () => {
+      await service.put('hash-a', 'A', new Uint8Array([1]), 1);
+      await service.put('hash-b', 'B', new Uint8Array([2]), 1);
+
+      await service.clear();
+
+      expect(service.entries()).toEqual([]);
+      expect(service.totalSize()).toBe(0);
+    });
+  });
+
+  describe('database lifecycle', () => {
+    it('should create both object stores on first open', async () => {
+      await service.refresh();
+
+      const [db] = Array.from(fakeIndexedDb.databases.values());
+      expect(db?.objectStoreNames.contains('entries')).toBeTrue();
+      expect(db?.objectStoreNames.contains('data')).toBeTrue();
+    });
+
+    it('should reject when the database cannot be opened and retry later', async () => {
+      fakeIndexedDb.failOpen = true;
+
+      await expectAsync(service.refresh()).toBeRejected();
+
+      fakeIndexedDb.failOpen = false;
+      await expectAsync(service.refresh()).toBeResolvedTo([]);
+    });
+
+    it('should close the connection', async () => {
+      await service.refresh();
+      const [db] = Array.from(fakeIndexedDb.databases.values());
+
+      await service.close();
+
+      expect(db?.closed).toBeTrue();
+    });
+  });
+});
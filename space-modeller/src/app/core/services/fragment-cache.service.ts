@@ -0,0 +1,236 @@
+import { Injectable, InjectionToken, computed, inject, signal } from '@angular/core';
+import { FRAGMENT_CACHE_CONFIG } from '../../shared/constants/viewer.constants';
+import { FragmentCacheEntry } from '../../shared/models/viewer.model';
+
+/**
+ * IndexedDB factory used by the fragment cache
+ * Overridden in tests with an in-memory fake
+ */
+export const INDEXED_DB = new InjectionToken<IDBFactory>('INDEXED_DB', {
+  providedIn: 'root',
+  factory: () => indexedDB,
+});
+
+/**
+ * Fragment data record, stored separately from metadata so listing stays cheap
+ */
+interface FragmentCacheData {
+  hash: string;
+  data: Uint8Array;
+}
+
+/**
+ * Persistent cache of converted fragments
+ * Stores the output of FragmentsModel.getBuffer() in IndexedDB, keyed by the
+ * SHA-256 of the source IFC, so reopening a file skips the web-ifc conversion
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class FragmentCacheService {
+  private readonly idb = inject(INDEXED_DB);
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private readonly entriesState = signal<FragmentCacheEntry[]>([]);
+
+  /** Cached entries, most recently used first (call refresh() to populate) */
+  readonly entries = this.entriesState.asReadonly();
+
+  /** Total bytes of fragment data in the cache */
+  readonly totalSize = computed(() =>
+    this.entriesState().reduce((total, entry) => total + entry.size, 0)
+  );
+
+  /**
+   * Hash IFC content to derive its cache key
+   * @returns Lowercase hex SHA-256 digest
+   */
+  async hash(buffer: Uint8Array): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', buffer);
+    return Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  /**
+   * Get cached fragment data and mark the entry as used
+   * @returns Fragment data, or null on a cache miss
+   */
+  async get(hash: string): Promise<Uint8Array | null> {
+    const db = await this.openDatabase();
+    const record = await this.request<FragmentCacheData | undefined>(
+      db,
+      FRAGMENT_CACHE_CONFIG.dataStore,
+      'readonly',
+      (store) => store.get(hash)
+    );
+
+    if (!record) {
+      return null;
+    }
+
+    const entry = await this.request<FragmentCacheEntry | undefined>(
+      db,
+      FRAGMENT_CACHE_CONFIG.entriesStore,
+      'readonly',
+      (store) => store.get(hash)
+    );
+    if (entry) {
+      await this.request(db, FRAGMENT_CACHE_CONFIG.entriesStore, 'readwrite', (store) =>
+        store.put({ ...entry, lastAccessedAt: Date.now() })
+      );
+    }
+
+    await this.refresh();
+    return record.data;
+  }
+
+  /**
+   * Store converted fragment data
+   * @param hash Hash of the source IFC content
+   * @param name Model name shown in the cache browser
+   * @param data Output of FragmentsModel.getBuffer()
+   * @param sourceSize Size of the source IFC in bytes
+   */
+  async put(hash: string, name: string, data: Uint8Array, sourceSize: number): Promise<void> {
+    const db = await this.openDatabase();
+    const now = Date.now();
+    const entry: FragmentCacheEntry = {
+      hash,
+      name,
+      size: data.byteLength,
+      sourceSize,
+      createdAt: now,
+      lastAccessedAt: now,
+    };
+
+    await this.transaction(db, 'readwrite', (entries, blobs) => {
+      entries.put(entry);
+      blobs.put({ hash, data } satisfies FragmentCacheData);
+    });
+
+    console.log(`Cached fragments for "${name}" (${data.byteLength} bytes)`);
+    await this.refresh();
+  }
+
+  /**
+   * Evict a single entry
+   */
+  async delete(hash: string): Promise<void> {
+    const db = await this.openDatabase();
+    await this.transaction(db, 'readwrite', (entries, blobs) => {
+      entries.delete(hash);
+      blobs.delete(hash);
+    });
+    await this.refresh();
+  }
+
+  /**
+   * Evict every entry
+   */
+  async clear(): Promise<void> {
+    const db = await this.openDatabase();
+    await this.transaction(db, 'readwrite', (entries, blobs) => {
+      entries.clear();
+      blobs.clear();
+    });
+    await this.refresh();
+  }
+
+  /**
+   * Reload the entry list from IndexedDB
+   */
+  async refresh(): Promise<FragmentCacheEntry[]> {
+    const db = await this.openDatabase();
+    const entries = await this.request<FragmentCacheEntry[]>(
+      db,
+      FRAGMENT_CACHE_CONFIG.entriesStore,
+      'readonly',
+      (store) => store.getAll()
+    );
+
+    const sorted = [...entries].sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+    this.entriesState.set(sorted);
+    return sorted;
+  }
+
+  /**
+   * Close the database connection
+   */
+  async close(): Promise<void> {
+    if (!this.dbPromise) {
+      return;
+    }
+
+    try {
+      const db = await this.dbPromise;
+      db.close();
+    } catch {
+      // Opening failed - nothing to close
+    }
+    this.dbPromise = null;
+  }
+
+  /**
+   * Helper: Open (and create/upgrade) the cache database once
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = this.idb.open(FRAGMENT_CACHE_CONFIG.dbName, FRAGMENT_CACHE_CONFIG.dbVersion);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(FRAGMENT_CACHE_CONFIG.entriesStore)) {
+            db.createObjectStore(FRAGMENT_CACHE_CONFIG.entriesStore, { keyPath: 'hash' });
+          }
+          if (!db.objectStoreNames.contains(FRAGMENT_CACHE_CONFIG.dataStore)) {
+            db.createObjectStore(FRAGMENT_CACHE_CONFIG.dataStore, { keyPath: 'hash' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('Failed to open fragment cache'));
+      });
+
+      // Allow a later call to retry if opening failed
+      this.dbPromise.catch(() => (this.dbPromise = null));
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Helper: Run a single request against one store and resolve with its result
+   */
+  private request<T>(
+    db: IDBDatabase,
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const request = run(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(request.result as T);
+      tx.onerror = () => reject(tx.error ?? request.error ?? new Error('Fragment cache request failed'));
+      tx.onabort = () => reject(tx.error ?? new Error('Fragment cache transaction aborted'));
+    });
+  }
+
+  /**
+   * Helper: Run writes against both stores in one transaction
+   */
+  private transaction(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    run: (entries: IDBObjectStore, data: IDBObjectStore) => void
+  ): Promise<void> {
+    const { entriesStore, dataStore } = FRAGMENT_CACHE_CONFIG;
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction([entriesStore, dataStore], mode);
+      run(tx.objectStore(entriesStore), tx.objectStore(dataStore));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error ?? new Error('Fragment cache transaction failed'));
+      tx.onabort = () => reject(tx.error ?? new Error('Fragment cache transaction aborted'));
+    });
+  }
+}
@@ -1,5 +1,6 @@
 import { TestBed } from '@angular/core/testing';
 import { FragmentsService } from './fragments.service';
+import { FragmentCacheService } from './fragment-cache.service';
 import * as THREE from 'three';
 import * as OBC from '@thatopen/components';
 import * as FRAGS from '@thatopen/fragments';
@@ -9,12 +10,19 @@ describe('FragmentsService', () => {
   let mockComponents: jasmine.SpyObj<OBC.Components>;
   let mockFragmentsManager: jasmine.SpyObj<OBC.FragmentsManager>;
   let mockIfcLoader: jasmine.SpyObj<OBC.IfcLoader>;
+  let mockFragmentCache: jasmine.SpyObj<FragmentCacheService>;
   let mockScene: THREE.Scene;
   let mockCamera: THREE.PerspectiveCamera;
 
   beforeEach(() => {
+    mockFragmentCache = jasmine.createSpyObj('FragmentCacheService', ['hash', 'get', 'put', 'delete']);
+    mockFragmentCache.hash.and.returnValue(Promise.resolve('ifc-hash'));
+    mockFragmentCache.get.and.returnValue(Promise.resolve(null));
+    mockFragmentCache.put.and.returnValue(Promise.resolve());
+    mockFragmentCache.delete.and.returnValue(Promise.resolve());
+
     TestBed.configureTestingModule({
-      providers: [FragmentsService],
+      providers: [FragmentsService, { provide: FragmentCacheService, useValue: mockFragmentCache }],
     });
 
     service = TestBed.inject(FragmentsService);
@@ -24,14 +32,17 @@ describe('FragmentsService', () => {
     mockCamera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000);
 
     // Create mock FragmentsManager
-    mockFragmentsManager = jasmine.createSpyObj('FragmentsManager', [
-      'init',
-      'list',
-    ]);
+    mockFragmentsManager = jasmine.createSpyObj(
+      'FragmentsManager',
+      ['init', 'list'],
+      {
+        core: {
+          models: new Map(),
+          update: jasmine.createSpy('update').and.returnValue(Promise.resolve()),
+        } as any,
+      }
+    );
     mockFragmentsManager.initialized = false;
-    mockFragmentsManager.core = {
-      models: new Map(),
-    } as any;
     mockFragmentsManager.list = new Map();
 
     // Create mock IfcLoader
@@ -142,7 +153,7 @@ describe('FragmentsService', () => {
       const result = await service.loadIfc(buffer, name);
 
       expect(result).toBe('test-uuid');
-      expect(mockIfcLoader.load).toHaveBeenCalledWith(buffer, true, name);
+      expect(mockIfcLoader.load).toHaveBeenCalledWith(buffer, true, name, jasmine.any(Object));
     });
 
     it('should call progress callback if provided', async () => {
@@ -163,6 +174,81 @@ describe('FragmentsService', () => {
       await service.loadIfc(buffer, name, progressCallback);
 
       expect(progressCallback).toHaveBeenCalled();
+      expect(progressCallback).toHaveBeenCalledWith(100, 'done');
+    });
+
+    it('should report staged progress from the IFC importer', async () => {
+      (service as any).initialized = true;
+      (service as any).ifcLoader = mockIfcLoader;
+      (service as any).fragmentsManager = mockFragmentsManager;
+
+      const progressCallback = jasmine.createSpy('progressCallback');
+      mockIfcLoader.load.and.callFake(async (_data, _coordinate, _name, config) => {
+        const report = config?.processData?.progressCallback;
+        report?.(0, { process: 'conversion', state: 'start' });
+        report?.(0.25, { process: 'geometries', state: 'inProgress' });
+        report?.(0.7, { process: 'attributes', state: 'inProgress' });
+        report?.(1, { process: 'conversion', state: 'finish' });
+        return { modelId: 'test-uuid', object: new THREE.Group() } as any;
+      });
+
+      await service.loadIfc(new Uint8Array([1, 2, 3]), 'test-model', progressCallback);
+
+      const stages = progressCallback.calls.allArgs().map(([, stage]) => stage);
+      const values = progressCallback.calls.allArgs().map(([progress]) => progress as number);
+      expect(stages).toEqual(['parsing', 'parsing', 'geometry', 'building', 'building', 'done']);
+      expect(values).toEqual([...values].sort((a, b) => a - b));
+      expect(values.at(-1)).toBe(100);
+    });
+
+    it('should reject immediately when the signal is already aborted', async () => {
+      (service as any).initialized = true;
+      (service as any).ifcLoader = mockIfcLoader;
+      (service as any).fragmentsManager = mockFragmentsManager;
+
+      const controller = new AbortController();
+      controller.abort();
+
+      await expectAsync(
+        service.loadIfc(new Uint8Array([1, 2, 3]), 'test-model', undefined, controller.signal)
+      ).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }));
+      expect(mockIfcLoader.load).not.toHaveBeenCalled();
+    });
+
+    it('should dispose the model produced by an aborted load', async () => {
+      (service as any).initialized = true;
+      (service as any).ifcLoader = mockIfcLoader;
+      (service as any).fragmentsManager = mockFragmentsManager;
+      (mockFragmentsManager as any).core.abort = jasmine.createSpy('abort');
+
+      let finishLoad!: (model: FRAGS.FragmentsModel) => void;
+      mockIfcLoader.load.and.returnValue(
+        new Promise<FRAGS.FragmentsModel>((resolve) => (finishLoad = resolve))
+      );
+      const mockModel = {
+        modelId: 'test-model',
+        object: new THREE.Group(),
+        dispose: jasmine.createSpy('dispose').and.returnValue(Promise.resolve()),
+      } as any;
+      mockScene.add(mockModel.object);
+
+      const controller = new AbortController();
+      const load = service.loadIfc(
+        new Uint8Array([1, 2, 3]),
+        'test-model',
+        undefined,
+        controller.signal
+      );
+      controller.abort();
+
+      await expectAsync(load).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }));
+      expect((mockFragmentsManager as any).core.abort).toHaveBeenCalledWith('test-model');
+
+      finishLoad(mockModel);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(mockModel.dispose).toHaveBeenCalled();
+      expect(mockModel.object.parent).toBeNull();
     });
 
     it('should handle load errors', async () => {
@@ -193,6 +279,28 @@ describe('FragmentsService', () => {
       );
     });
 
+    it('should suffix the model ID when the name is already loaded', async () => {
+      (service as any).initialized = true;
+      (service as any).ifcLoader = mockIfcLoader;
+      (service as any).fragmentsManager = mockFragmentsManager;
+      mockFragmentsManager.list.set('test-model', {} as any);
+
+      const buffer = new Uint8Array([1, 2, 3]);
+      mockIfcLoader.load.and.returnValue(
+        Promise.resolve({ modelId: 'test-model (2)', object: new THREE.Group() } as any)
+      );
+
+      const result = await service.loadIfc(buffer, 'test-model');
+
+      expect(result).toBe('test-model (2)');
+      expect(mockIfcLoader.load).toHaveBeenCalledWith(
+        buffer,
+        true,
+        'test-model (2)',
+        jasmine.any(Object)
+      );
+    });
+
     it('should check FragmentsManager initialization before loading', async () => {
       (service as any).initialized = true;
       (service as any).ifcLoader = mockIfcLoader;
@@ -209,6 +317,153 @@ describe('FragmentsService', () => {
     });
   });
 
+  describe('loadIfc fragment cache', () => {
+    beforeEach(() => {
+      (service as any).initialized = true;
+      (service as any).ifcLoader = mockIfcLoader;
+      (service as any).fragmentsManager = mockFragmentsManager;
+    });
+
+    it('should load cached fragments instead of converting', async () => {
+      const cached = new Uint8Array([7, 7, 7]);
+      mockFragmentCache.get.and.returnValue(Promise.resolve(cached));
+      const coreLoad = jasmine
+        .createSpy('load')
+        .and.returnValue(Promise.resolve({ modelId: 'test-model', object: new THREE.Group() }));
+      (mockFragmentsManager as any).core.load = coreLoad;
+
+      const result = await service.loadIfc(new Uint8Array([1, 2, 3]), 'test-model');
+
+      expect(result).toBe('test-model');
+      expect(mockFragmentCache.get).toHaveBeenCalledWith('ifc-hash');
+      expect(coreLoad).toHaveBeenCalledWith(cached, jasmine.any(Object));
+      expect(mockIfcLoader.load).not.toHaveBeenCalled();
+    });
+
+    it('should store the converted fragments on a cache miss', async () => {
+      const buffer = new Uint8Array([1, 2, 3]);
+      const mockModel = {
+        modelId: 'test-model',
+        object: new THREE.Group(),
+        getBuffer: jasmine.createSpy('getBuffer').and.returnValue(Promise.resolve(new ArrayBuffer(4))),
+      } as any;
+      mockIfcLoader.load.and.returnValue(Promise.resolve(mockModel));
+      mockFragmentsManager.list.set('test-model', mockModel);
+
+      await service.loadIfc(buffer, 'test-model');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(mockFragmentCache.put).toHaveBeenCalledWith(
+        'ifc-hash',
+        'test-model',
+        jasmine.any(Uint8Array),
+        buffer.byteLength
+      );
+    });
+
+    it('should evict unreadable entries and convert the IFC instead', async () => {
+      mockFragmentCache.get.and.returnValue(Promise.resolve(new Uint8Array([0])));
+      (mockFragmentsManager as any).core.load = jasmine
+        .createSpy('load')
+        .and.returnValue(Promise.reject(new Error('Corrupt fragment')));
+      mockIfcLoader.load.and.returnValue(
+        Promise.resolve({ modelId: 'test-model', object: new THREE.Group() } as any)
+      );
+      spyOn(console, 'error');
+      spyOn(console, 'warn');
+
+      const result = await service.loadIfc(new Uint8Array([1, 2, 3]), 'test-model');
+
+      expect(result).toBe('test-model');
+      expect(mockFragmentCache.delete).toHaveBeenCalledWith('ifc-hash');
+      expect(mockIfcLoader.load).toHaveBeenCalled();
+    });
+
+    it('should still load when hashing is unavailable', async () => {
+      mockFragmentCache.hash.and.returnValue(Promise.reject(new Error('No SubtleCrypto')));
+      mockIfcLoader.load.and.returnValue(
+        Promise.resolve({ modelId: 'test-model', object: new THREE.Group() } as any)
+      );
+      spyOn(console, 'warn');
+
+      const result = await service.loadIfc(new Uint8Array([1, 2, 3]), 'test-model');
+
+      expect(result).toBe('test-model');
+      expect(mockFragmentCache.get).not.toHaveBeenCalled();
+      expect(mockFragmentCache.put).not.toHaveBeenCalled();
+    });
+
+    it('should still load when the cache cannot be read', async () => {
+      mockFragmentCache.get.and.returnValue(Promise.reject(new Error('Quota exceeded')));
+      mockIfcLoader.load.and.returnValue(
+        Promise.resolve({ modelId: 'test-model', object: new THREE.Group() } as any)
+      );
+      spyOn(console, 'warn');
+
+      await expectAsync(service.loadIfc(new Uint8Array([1, 2, 3]), 'test-model')).toBeResolvedTo(
+        'test-model'
+      );
+    });
+  });
+
+  describe('loadFragment', () => {
+    it('should throw error if not initialized', async () => {
+      await expectAsync(
+        service.loadFragment(new Uint8Array([1, 2, 3]), 'test-model')
+      ).toBeRejectedWithError('FragmentsService not initialized');
+    });
+
+    it('should load the fragment buffer directly into FragmentsManager', async () => {
+      (service as any).initialized = true;
+      (service as any).fragmentsManager = mockFragmentsManager;
+      const load = jasmine
+        .createSpy('load')
+        .and.returnValue(Promise.resolve({ modelId: 'test-model', object: new THREE.Group() }));
+      (mockFragmentsManager as any).core.load = load;
+
+      const buffer = new Uint8Array([1, 2, 3]);
+      const result = await service.loadFragment(buffer, 'test-model');
+
+      expect(result).toBe('test-model');
+      expect(load).toHaveBeenCalledWith(
+        buffer,
+        jasmine.objectContaining({ modelId: 'test-model' })
+      );
+      expect(mockIfcLoader.load).not.toHaveBeenCalled();
+    });
+
+    it('should report progress through the fragment load stages', async () => {
+      (service as any).initialized = true;
+      (service as any).fragmentsManager = mockFragmentsManager;
+      (mockFragmentsManager as any).core.load = jasmine
+        .createSpy('load')
+        .and.callFake(async (_buffer: Uint8Array, options: any) => {
+          options.onProgress({ modelId: 'test-model', stage: 'decompressing', progress: 1 });
+          options.onProgress({ modelId: 'test-model', stage: 'generating', progress: 0.5 });
+          return { modelId: 'test-model', object: new THREE.Group() };
+        });
+      const progressCallback = jasmine.createSpy('progressCallback');
+
+      await service.loadFragment(new Uint8Array([1, 2, 3]), 'test-model', progressCallback);
+
+      const stages = progressCallback.calls.allArgs().map(([, stage]) => stage);
+      expect(stages).toEqual(['parsing', 'parsing', 'building', 'done']);
+    });
+
+    it('should propagate load errors', async () => {
+      (service as any).initialized = true;
+      (service as any).fragmentsManager = mockFragmentsManager;
+      (mockFragmentsManager as any).core.load = jasmine
+        .createSpy('load')
+        .and.returnValue(Promise.reject(new Error('Corrupt fragment')));
+      spyOn(console, 'error');
+
+      await expectAsync(
+        service.loadFragment(new Uint8Array([1, 2, 3]), 'test-model')
+      ).toBeRejectedWithError('Corrupt fragment');
+    });
+  });
+
   describe('getModel', () => {
     it('should return undefined if FragmentsManager not initialized', () => {
       const result = service.getModel('test-id');
@@ -279,6 +534,835 @@ describe('FragmentsService', () => {
     });
   });
 
+  describe('setModelVisible', () => {
+    it('should toggle the model object visibility', () => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+      const mockModel = { modelId: 'test-id', object: new THREE.Group() } as any;
+      mockFragmentsManager.list.set('test-id', mockModel);
+
+      const result = service.setModelVisible('test-id', false);
+
+      expect(result).toBeTrue();
+      expect(mockModel.object.visible).toBeFalse();
+    });
+
+    it('should return false if model not found', () => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+
+      expect(service.setModelVisible('non-existent-id', false)).toBeFalse();
+    });
+  });
+
+  describe('pickElement', () => {
+    const canvas = document.createElement('canvas');
+    const mouse = new THREE.Vector2(10, 20);
+
+    const mockPickable = (modelId: string, hit: Partial<FRAGS.RaycastResult> | null) => {
+      const model = {
+        modelId,
+        object: new THREE.Group(),
+        raycast: jasmine.createSpy('raycast'),
+      } as any;
+      model.raycast.and.returnValue(
+        Promise.resolve(
+          hit && { point: new THREE.Vector3(1, 2, 3), fragments: model, ...hit }
+        )
+      );
+      mockFragmentsManager.list.set(modelId, model);
+      return model;
+    };
+
+    beforeEach(() => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+    });
+
+    it('should return the nearest hit across models', async () => {
+      mockPickable('far', { localId: 1, distance: 20 });
+      mockPickable('near', { localId: 7, distance: 5 });
+
+      const hit = await service.pickElement(mockCamera, mouse, canvas);
+
+      expect(hit).toEqual({ modelId: 'near', localId: 7, point: { x: 1, y: 2, z: 3 }, distance: 5 });
+    });
+
+    it('should skip hidden models', async () => {
+      const hidden = mockPickable('hidden', { localId: 1, distance: 1 });
+      hidden.object.visible = false;
+
+      expect(await service.pickElement(mockCamera, mouse, canvas)).toBeNull();
+      expect(hidden.raycast).not.toHaveBeenCalled();
+    });
+
+    it('should ignore models whose raycast fails', async () => {
+      const broken = mockPickable('broken', null);
+      broken.raycast.and.returnValue(Promise.reject(new Error('worker gone')));
+      mockPickable('ok', { localId: 3, distance: 2 });
+      spyOn(console, 'warn');
+
+      const hit = await service.pickElement(mockCamera, mouse, canvas);
+
+      expect(hit?.modelId).toBe('ok');
+    });
+
+    it('should include the surface normal when reported', async () => {
+      mockPickable('walls', { localId: 2, distance: 4, normal: new THREE.Vector3(0, 0, 1) });
+
+      const hit = await service.pickElement(mockCamera, mouse, canvas);
+
+      expect(hit?.normal).toEqual({ x: 0, y: 0, z: 1 });
+    });
+
+    it('should cast a ray through a camera aimed along it', async () => {
+      const model = mockPickable('floor', { localId: 4, distance: 2 });
+      model.raycast.and.callFake(({ camera }: FRAGS.RaycastData) => {
+        const direction = camera.getWorldDirection(new THREE.Vector3());
+        expect(direction.y).toBeCloseTo(-1);
+        return Promise.resolve({
+          localId: 4,
+          point: new THREE.Vector3(1, 0.5, 3),
+          fragments: model,
+          distance: 2,
+        });
+      });
+
+      const distance = await service.castRay(
+        new THREE.Vector3(1, 2, 3),
+        new THREE.Vector3(0, -1, 0),
+        canvas
+      );
+
+      expect(distance).toBeCloseTo(1.5);
+    });
+  });
+
+  describe('snapPoint', () => {
+    const canvas = document.createElement('canvas');
+    const mouse = new THREE.Vector2(10, 20);
+
+    const mockSnappable = (modelId: string, hits: Partial<FRAGS.RaycastResult>[]) => {
+      const model = {
+        modelId,
+        object: new THREE.Group(),
+        raycastWithSnapping: jasmine.createSpy('raycastWithSnapping'),
+      } as any;
+      model.raycastWithSnapping.and.returnValue(
+        Promise.resolve(hits.map((hit) => ({ point: new THREE.Vector3(1, 2, 3), ...hit })))
+      );
+      mockFragmentsManager.list.set(modelId, model);
+      return model;
+    };
+
+    beforeEach(() => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+    });
+
+    it('should prefer a vertex just behind the nearest face', async () => {
+      mockSnappable('walls', [
+        { localId: 1, distance: 5, snappingClass: FRAGS.SnappingClass.FACE },
+        { localId: 1, distance: 5.2, snappingClass: FRAGS.SnappingClass.POINT },
+      ]);
+
+      const snap = await service.snapPoint(mockCamera, mouse, canvas);
+
+      expect(snap?.snap).toBe('vertex');
+      expect(snap?.distance).toBe(5.2);
+    });
+
+    it('should ignore snap targets far behind the nearest surface', async () => {
+      mockSnappable('walls', [{ localId: 1, distance: 5, snappingClass: FRAGS.SnappingClass.FACE }]);
+      mockSnappable('slabs', [{ localId: 2, distance: 20, snappingClass: FRAGS.SnappingClass.POINT }]);
+
+      const snap = await service.snapPoint(mockCamera, mouse, canvas);
+
+      expect(snap?.snap).toBe('face');
+      expect(snap?.modelId).toBe('walls');
+    });
+
+    it('should return null when nothing is under the pointer', async () => {
+      const broken = mockSnappable('broken', []);
+      broken.raycastWithSnapping.and.returnValue(Promise.reject(new Error('worker gone')));
+      spyOn(console, 'warn');
+
+      expect(await service.snapPoint(mockCamera, mouse, canvas)).toBeNull();
+    });
+  });
+
+  describe('getModelsBox', () => {
+    beforeEach(() => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+    });
+
+    const mockBoxModel = (modelId: string, position: THREE.Vector3) => {
+      const object = new THREE.Group();
+      const mesh = new THREE.Mesh(new THREE.BoxGeometry(2, 2, 2));
+      mesh.position.copy(position);
+      object.add(mesh);
+      mockFragmentsManager.list.set(modelId, { modelId, object } as any);
+      return object;
+    };
+
+    it('should enclose all visible models', () => {
+      mockBoxModel('a', new THREE.Vector3(0, 0, 0));
+      mockBoxModel('b', new THREE.Vector3(10, 0, 0));
+
+      const box = service.getModelsBox();
+
+      expect(box.min.toArray()).toEqual([-1, -1, -1]);
+      expect(box.max.toArray()).toEqual([11, 1, 1]);
+    });
+
+    it('should skip hidden models', () => {
+      mockBoxModel('a', new THREE.Vector3(0, 0, 0)).visible = false;
+
+      expect(service.getModelsBox().isEmpty()).toBeTrue();
+    });
+  });
+
+  describe('watchMeshes', () => {
+    it('should report the meshes of current and later models as tiles come and go', () => {
+      const models = new FRAGS.DataMap<string, FRAGS.FragmentsModel>();
+      (service as any).fragmentsManager = { list: models };
+      const model = (modelId: string) =>
+        ({ modelId, tiles: new FRAGS.DataMap<number, THREE.Mesh>() }) as any;
+      const first = model('a');
+      const firstMesh = new THREE.Mesh();
+      first.tiles.set(1, firstMesh);
+      models.set('a', first);
+      const added = jasmine.createSpy('added');
+      const removed = jasmine.createSpy('removed');
+
+      const stop = service.watchMeshes({ added, removed });
+      const second = model('b');
+      models.set('b', second);
+      const secondMesh = new THREE.Mesh();
+      second.tiles.set(1, secondMesh);
+      first.tiles.delete(1);
+
+      expect(added.calls.allArgs()).toEqual([[firstMesh], [secondMesh]]);
+      expect(removed).toHaveBeenCalledWith(firstMesh);
+
+      stop();
+      second.tiles.set(2, new THREE.Mesh());
+      expect(added).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report the meshes of an unloaded model as removed', () => {
+      const models = new FRAGS.DataMap<string, FRAGS.FragmentsModel>();
+      (service as any).fragmentsManager = { list: models };
+      const tiles = new FRAGS.DataMap<number, THREE.Mesh>();
+      const mesh = new THREE.Mesh();
+      tiles.set(1, mesh);
+      models.set('a', { modelId: 'a', tiles } as any);
+      const removed = jasmine.createSpy('removed');
+      service.watchMeshes({ added: () => undefined, removed });
+
+      // Like disposing a model: it leaves the list before its tiles are deleted
+      models.delete('a');
+      tiles.delete(1);
+
+      expect(removed.calls.allArgs()).toEqual([[mesh]]);
+    });
+  });
+
+  describe('clipping', () => {
+    beforeEach(() => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+    });
+
+    it('should pass the clipping planes to every model', () => {
+      const model = { modelId: 'a', object: new THREE.Group() } as any;
+      mockFragmentsManager.list.set('a', model);
+      const planes = [new THREE.Plane(new THREE.Vector3(0, -1, 0), 3)];
+
+      service.setClippingPlanes(planes);
+
+      expect(model.getClippingPlanesEvent()).toBe(planes);
+    });
+
+    it('should section models in world coordinates', async () => {
+      const model = jasmine.createSpyObj('FragmentsModel', ['getSection']);
+      model.object = new THREE.Group();
+      model.object.position.set(0, 10, 0);
+      model.getSection.and.returnValue(
+        Promise.resolve({ buffer: new Float32Array([1, 0, 0, 2, 0, 0]), index: 2, fillsIndices: [] })
+      );
+      mockFragmentsManager.list.set('a', model);
+
+      const section = await service.getSection('a', new THREE.Plane(new THREE.Vector3(0, -1, 0), 10));
+
+      const localPlane: THREE.Plane = model.getSection.calls.mostRecent().args[0];
+      expect(localPlane.constant).toBeCloseTo(0);
+      expect(Array.from(section!.buffer)).toEqual([1, 10, 0, 2, 10, 0]);
+    });
+
+    it('should return null when sectioning an unknown model', async () => {
+      spyOn(console, 'warn');
+
+      expect(await service.getSection('missing', new THREE.Plane())).toBeNull();
+    });
+  });
+
+  describe('getElementProperties', () => {
+    beforeEach(() => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+    });
+
+    it('should parse the item data of the element', async () => {
+      const mockModel = jasmine.createSpyObj('FragmentsModel', ['getItemsData']);
+      mockModel.getItemsData.and.returnValue(
+        Promise.resolve([{ _category: { value: 'IFCDOOR' }, Name: { value: 'Door 1' } }])
+      );
+      mockFragmentsManager.list.set('test-id', mockModel);
+
+      const properties = await service.getElementProperties('test-id', 9);
+
+      expect(mockModel.getItemsData).toHaveBeenCalledWith(
+        [9],
+        jasmine.objectContaining({ attributesDefault: true })
+      );
+      expect(properties).toEqual(
+        jasmine.objectContaining({ modelId: 'test-id', localId: 9, ifcClass: 'IFCDOOR', name: 'Door 1' })
+      );
+    });
+
+    it('should return null for unknown models and elements', async () => {
+      const mockModel = jasmine.createSpyObj('FragmentsModel', ['getItemsData']);
+      mockModel.getItemsData.and.returnValue(Promise.resolve([]));
+      mockFragmentsManager.list.set('test-id', mockModel);
+      spyOn(console, 'warn');
+
+      expect(await service.getElementProperties('missing', 1)).toBeNull();
+      expect(await service.getElementProperties('test-id', 1)).toBeNull();
+    });
+
+    it('should parse the item data of several elements, skipping missing ones', async () => {
+      const mockModel = jasmine.createSpyObj('FragmentsModel', ['getItemsData']);
+      mockModel.getItemsData.and.returnValue(
+        Promise.resolve([{ _category: { value: 'IFCWALL' } }, undefined])
+      );
+      mockFragmentsManager.list.set('test-id', mockModel);
+
+      const properties = await service.getItemsProperties('test-id', [3, 4]);
+
+      expect(properties.map((item) => [item.localId, item.ifcClass])).toEqual([[3, 'IFCWALL']]);
+    });
+  });
+
+  describe('getSpatialTree', () => {
+    beforeEach(() => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+    });
+
+    it('should build the tree with names of spatial items', async () => {
+      const mockModel = jasmine.createSpyObj('FragmentsModel', ['getSpatialStructure', 'getItemsData']);
+      mockModel.getSpatialStructure.and.returnValue(
+        Promise.resolve({
+          category: 'IFCPROJECT',
+          localId: 1,
+          children: [{ category: 'IFCWALL', localId: null, children: [{ category: null, localId: 9 }] }],
+        })
+      );
+      mockModel.getItemsData.and.returnValue(Promise.resolve([{ Name: { value: 'Tower' } }]));
+      mockFragmentsManager.list.set('test-id', mockModel);
+
+      const root = await service.getSpatialTree('test-id');
+
+      expect(mockModel.getItemsData).toHaveBeenCalledWith([1], jasmine.any(Object));
+      expect(root?.name).toBe('Tower (IfcProject)');
+      expect(root?.elementCount).toBe(1);
+    });
+
+    it('should return null for unknown models', async () => {
+      spyOn(console, 'warn');
+      spyOn(console, 'log');
+
+      expect(await service.getSpatialTree('missing')).toBeNull();
+    });
+  });
+
+  describe('getStoreys', () => {
+    const storey = (localId: number, children: number[]) => ({
+      key: `storey-${localId}`,
+      modelId: 'test-id',
+      localId,
+      category: 'IFCBUILDINGSTOREY',
+      name: `Storey ${localId}`,
+      elementCount: children.length,
+      children: children.map((child) => ({
+        key: `item-${child}`,
+        modelId: 'test-id',
+        localId: child,
+        category: null,
+        name: `#${child}`,
+        elementCount: 0,
+        children: [],
+      })),
+    });
+
+    it('should level each storey at the bottom of its elements', async () => {
+      spyOn(service, 'getSpatialTree').and.returnValue(
+        Promise.resolve({
+          ...storey(1, []),
+          category: 'IFCPROJECT',
+          children: [storey(2, [20]), storey(3, [30])],
+        })
+      );
+      spyOn(service, 'getItemNames').and.returnValue(Promise.resolve(new Map([[2, 'Ground']])));
+      spyOn(service, 'getElementsBox').and.callFake(async (_id, localIds) =>
+        localIds.includes(30)
+          ? new THREE.Box3(new THREE.Vector3(0, 3, 0), new THREE.Vector3(1, 6, 1))
+          : new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(1, 3, 1))
+      );
+
+      const storeys = await service.getStoreys('test-id');
+
+      expect(storeys).toEqual([
+        { modelId: 'test-id', localId: 2, name: 'Ground', elevation: 0 },
+        { modelId: 'test-id', localId: 3, name: 'Storey #3', elevation: 3 },
+      ]);
+    });
+
+    it('should skip storeys without geometry', async () => {
+      spyOn(service, 'getSpatialTree').and.returnValue(Promise.resolve(storey(2, [])));
+      spyOn(service, 'getItemNames').and.returnValue(Promise.resolve(new Map()));
+      spyOn(service, 'getElementsBox').and.returnValue(Promise.resolve(null));
+
+      expect(await service.getStoreys('test-id')).toEqual([]);
+    });
+  });
+
+  describe('getSiteLocation', () => {
+    const site = {
+      key: 'site-5',
+      modelId: 'test-id',
+      localId: 5,
+      category: 'IFCSITE',
+      name: 'Site',
+      elementCount: 0,
+      children: [],
+    };
+
+    const withSite = (data: Record<string, unknown>) => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+      const mockModel = jasmine.createSpyObj('FragmentsModel', ['getItemsData']);
+      mockModel.getItemsData.and.returnValue(Promise.resolve([data]));
+      mockFragmentsManager.list.set('test-id', mockModel);
+      spyOn(service, 'getSpatialTree').and.returnValue(Promise.resolve(site));
+      return mockModel;
+    };
+
+    it('should read the reference latitude and longitude of the site', async () => {
+      const mockModel = withSite({
+        RefLatitude: { value: [51, 30, 0] },
+        RefLongitude: { value: [-0, -7, -30] },
+      });
+
+      const location = await service.getSiteLocation('test-id');
+
+      expect(mockModel.getItemsData).toHaveBeenCalledWith([5], jasmine.any(Object));
+      expect(location?.latitude).toBeCloseTo(51.5);
+      expect(location?.longitude).toBeCloseTo(-0.125);
+    });
+
+    it('should return null for a site left at 0° 0° or without a location', async () => {
+      const mockModel = withSite({
+        RefLatitude: { value: [0, 0, 0] },
+        RefLongitude: { value: [0, 0, 0] },
+      });
+      expect(await service.getSiteLocation('test-id')).toBeNull();
+
+      mockModel.getItemsData.and.returnValue(Promise.resolve([{}]));
+      expect(await service.getSiteLocation('test-id')).toBeNull();
+    });
+
+    it('should return null for an unknown model', async () => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+
+      expect(await service.getSiteLocation('unknown')).toBeNull();
+    });
+  });
+
+  describe('getItemNames', () => {
+    it('should map local IDs to names, skipping unnamed items', async () => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+      const mockModel = jasmine.createSpyObj('FragmentsModel', ['getItemsData']);
+      mockModel.getItemsData.and.returnValue(
+        Promise.resolve([{ Name: { value: 'Wall A' } }, { Name: { value: null } }])
+      );
+      mockFragmentsManager.list.set('test-id', mockModel);
+
+      const names = await service.getItemNames('test-id', [10, 11]);
+
+      expect(Array.from(names)).toEqual([[10, 'Wall A']]);
+    });
+  });
+
+  describe('getGlobalIds', () => {
+    it('should map local IDs to GlobalIds, skipping items without one', async () => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+      const mockModel = jasmine.createSpyObj('FragmentsModel', ['getGuidsByLocalIds']);
+      mockModel.getGuidsByLocalIds.and.returnValue(
+        Promise.resolve(['2O2Fr$t4X7Zf8NOew3FLOH', null])
+      );
+      mockFragmentsManager.list.set('test-id', mockModel);
+
+      const globalIds = await service.getGlobalIds('test-id', [10, 11]);
+
+      expect(Array.from(globalIds)).toEqual([[10, '2O2Fr$t4X7Zf8NOew3FLOH']]);
+    });
+  });
+
+  describe('getPartMaterials', () => {
+    it('should read the material of each sample', async () => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+      const mockModel = jasmine.createSpyObj('FragmentsModel', ['getSamples', 'getMaterials']);
+      mockModel.getSamples.and.returnValue(
+        Promise.resolve(new Map([[4, { material: 1 }], [5, { material: 9 }]]))
+      );
+      mockModel.getMaterials.and.returnValue(
+        Promise.resolve(new Map([[1, { r: 255, g: 128, b: 0, a: 51, renderedFaces: 1 }]]))
+      );
+      mockFragmentsManager.list.set('test-id', mockModel);
+
+      const materials = await service.getPartMaterials('test-id', [4, 5]);
+
+      expect(Array.from(materials)).toEqual([
+        [4, { color: '#ff8000', opacity: 0.2, doubleSided: true }],
+      ]);
+    });
+  });
+
+  describe('setElementsVisible', () => {
+    it('should change element visibility and push the update', async () => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+      const update = mockFragmentsManager.core.update as jasmine.Spy;
+      const mockModel = jasmine.createSpyObj('FragmentsModel', ['setVisible']);
+      mockModel.setVisible.and.returnValue(Promise.resolve());
+      mockFragmentsManager.list.set('test-id', mockModel);
+
+      await service.setElementsVisible('test-id', [1, 2], false);
+
+      expect(mockModel.setVisible).toHaveBeenCalledWith([1, 2], false);
+      expect(update).toHaveBeenCalledWith(true);
+    });
+  });
+
+  describe('getElementsBox', () => {
+    beforeEach(() => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+    });
+
+    it('should return the merged box of the elements', async () => {
+      const box = new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(1, 2, 3));
+      const mockModel = jasmine.createSpyObj('FragmentsModel', ['getMergedBox']);
+      mockModel.getMergedBox.and.returnValue(Promise.resolve(box));
+      mockFragmentsManager.list.set('test-id', mockModel);
+
+      expect(await service.getElementsBox('test-id', [1])).toBe(box);
+    });
+
+    it('should return null for empty boxes', async () => {
+      const mockModel = jasmine.createSpyObj('FragmentsModel', ['getMergedBox']);
+      mockModel.getMergedBox.and.returnValue(Promise.resolve(new THREE.Box3()));
+      mockFragmentsManager.list.set('test-id', mockModel);
+
+      expect(await service.getElementsBox('test-id', [1])).toBeNull();
+    });
+  });
+
+  describe('getElementsGeometry', () => {
+    beforeEach(() => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+    });
+
+    it('should return element triangles in world coordinates', async () => {
+      const mockModel = jasmine.createSpyObj('FragmentsModel', ['getItemsGeometry']);
+      mockModel.object = new THREE.Group();
+      mockModel.object.position.set(0, 10, 0);
+      mockModel.getItemsGeometry.and.returnValue(
+        Promise.resolve([
+          [
+            {
+              positions: new Float32Array([0, 0, 0, 1, 0, 0, 0, 0, 1]),
+              indices: new Uint16Array([0, 1, 2]),
+              transform: { elements: new THREE.Matrix4().makeTranslation(5, 0, 0).elements },
+            },
+          ],
+        ])
+      );
+      mockFragmentsManager.list.set('test-id', mockModel);
+
+      const [part] = await service.getElementsGeometry('test-id', [7]);
+
+      expect(part?.localId).toBe(7);
+      expect(Array.from(part!.geometry.getAttribute('position').array.slice(0, 3))).toEqual([
+        5, 10, 0,
+      ]);
+    });
+
+    it('should return nothing for unknown models', async () => {
+      expect(await service.getElementsGeometry('missing', [7])).toEqual([]);
+    });
+  });
+
+  describe('getStoreyBox', () => {
+    it('should return the box of the storey contents', async () => {
+      const box = new THREE.Box3(new THREE.Vector3(0, 3, 0), new THREE.Vector3(1, 6, 1));
+      const node = (localId: number, category: string | null, children: any[] = []) => ({
+        key: `node-${localId}`,
+        modelId: 'test-id',
+        localId,
+        category,
+        name: `#${localId}`,
+        elementCount: children.length,
+        children,
+      });
+      spyOn(service, 'getSpatialTree').and.returnValue(
+        Promise.resolve(
+          node(1, 'IFCPROJECT', [
+            node(2, 'IFCBUILDINGSTOREY', [node(20, null)]),
+            node(3, 'IFCBUILDINGSTOREY', [node(30, null)]),
+          ])
+        )
+      );
+      const getElementsBox = spyOn(service, 'getElementsBox').and.returnValue(
+        Promise.resolve(box)
+      );
+
+      expect(await service.getStoreyBox('test-id', 3)).toBe(box);
+      expect(getElementsBox.calls.mostRecent().args[1]).toContain(30);
+      expect(await service.getStoreyBox('test-id', 20)).toBeNull();
+    });
+  });
+
+  describe('highlightElements / resetHighlight', () => {
+    let mockModel: any;
+
+    beforeEach(() => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+      mockModel = jasmine.createSpyObj('FragmentsModel', ['highlight', 'resetHighlight']);
+      mockModel.highlight.and.returnValue(Promise.resolve());
+      mockModel.resetHighlight.and.returnValue(Promise.resolve());
+      mockFragmentsManager.list.set('test-id', mockModel);
+    });
+
+    it('should highlight elements with the given colour', async () => {
+      await service.highlightElements('test-id', [1, 2], '#ff0000', 0.5);
+
+      const [localIds, material] = mockModel.highlight.calls.mostRecent().args;
+      expect(localIds).toEqual([1, 2]);
+      expect(material.color.getHexString()).toBe('ff0000');
+      expect(material.opacity).toBe(0.5);
+      expect(material.transparent).toBeTrue();
+    });
+
+    it('should skip empty highlights', async () => {
+      await service.highlightElements('test-id', [], '#ff0000');
+
+      expect(mockModel.highlight).not.toHaveBeenCalled();
+    });
+
+    it('should reset highlights', async () => {
+      await service.resetHighlight('test-id', [4]);
+
+      expect(mockModel.resetHighlight).toHaveBeenCalledWith([4]);
+    });
+  });
+
+  describe('setElementsOpacity', () => {
+    let mockModel: any;
+
+    beforeEach(() => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+      mockModel = jasmine.createSpyObj('FragmentsModel', [
+        'setOpacity',
+        'resetOpacity',
+        'resetHighlight',
+      ]);
+      mockModel.setOpacity.and.returnValue(Promise.resolve());
+      mockModel.resetOpacity.and.returnValue(Promise.resolve());
+      mockModel.resetHighlight.and.returnValue(Promise.resolve());
+      mockFragmentsManager.list.set('test-id', mockModel);
+    });
+
+    it('should ghost elements and keep them ghosted across highlight resets', async () => {
+      await service.setElementsOpacity('test-id', [1, 2], 0.1);
+      mockModel.setOpacity.calls.reset();
+
+      await service.resetHighlight('test-id', [2, 3]);
+
+      expect(mockModel.setOpacity).toHaveBeenCalledOnceWith([2], 0.1);
+    });
+
+    it('should restore the original opacity', async () => {
+      await service.setElementsOpacity('test-id', [1, 2], 0.1);
+
+      await service.setElementsOpacity('test-id', [1, 2], null);
+      mockModel.setOpacity.calls.reset();
+      await service.resetHighlight('test-id');
+
+      expect(mockModel.resetOpacity).toHaveBeenCalledWith([1, 2]);
+      expect(mockModel.setOpacity).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setElementsColor', () => {
+    let mockModel: any;
+
+    beforeEach(() => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+      mockModel = jasmine.createSpyObj('FragmentsModel', [
+        'setColor',
+        'resetColor',
+        'setOpacity',
+        'resetHighlight',
+      ]);
+      mockModel.setColor.and.returnValue(Promise.resolve());
+      mockModel.resetColor.and.returnValue(Promise.resolve());
+      mockModel.setOpacity.and.returnValue(Promise.resolve());
+      mockModel.resetHighlight.and.returnValue(Promise.resolve());
+      mockFragmentsManager.list.set('test-id', mockModel);
+    });
+
+    it('should colour elements and keep them coloured across highlight resets', async () => {
+      await service.setElementsColor('test-id', [1, 2], '#00ff00');
+      mockModel.setColor.calls.reset();
+
+      await service.resetHighlight('test-id', [2, 3]);
+
+      const [localIds, color] = mockModel.setColor.calls.mostRecent().args;
+      expect(localIds).toEqual([2]);
+      expect(color.getHexString()).toBe('00ff00');
+    });
+
+    it('should restore the original colour', async () => {
+      await service.setElementsColor('test-id', [1, 2], '#00ff00');
+
+      await service.setElementsColor('test-id', [1], null);
+      mockModel.setColor.calls.reset();
+      await service.resetHighlight('test-id');
+
+      expect(mockModel.resetColor).toHaveBeenCalledWith([1]);
+      expect(mockModel.setColor).toHaveBeenCalledOnceWith([2], jasmine.anything());
+    });
+  });
+
+  describe('element queries', () => {
+    let mockModel: any;
+
+    beforeEach(() => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+      mockModel = jasmine.createSpyObj('FragmentsModel', [
+        'getItemsData',
+        'getItemsIdsWithGeometry',
+        'getItemsWithGeometryCategories',
+        'getItemsOfCategories',
+      ]);
+      mockFragmentsManager.list.set('test-id', mockModel);
+    });
+
+    it('should read the IFC class of items in upper case', async () => {
+      mockModel.getItemsData.and.returnValue(
+        Promise.resolve([{ _category: { value: 'IfcWall' } }, {}])
+      );
+
+      const categories = await service.getItemCategories('test-id', [5, 6]);
+
+      expect(Array.from(categories)).toEqual([[5, 'IFCWALL']]);
+    });
+
+    it('should list every element with geometry', async () => {
+      mockModel.getItemsIdsWithGeometry.and.returnValue(Promise.resolve([1, 2]));
+      spyOn(console, 'warn');
+      spyOn(console, 'log');
+
+      expect(await service.getElementIds('test-id')).toEqual([1, 2]);
+      expect(await service.getElementIds('missing')).toEqual([]);
+    });
+
+    it('should find elements of IFC classes in any case', async () => {
+      mockModel.getItemsOfCategories.and.returnValue(
+        Promise.resolve({ IFCWALL: [1, 2], IFCDOOR: [7] })
+      );
+
+      const localIds = await service.getCategoryElements('test-id', ['IFCWALL', 'IfcDoor']);
+
+      const [patterns] = mockModel.getItemsOfCategories.calls.mostRecent().args;
+      expect(patterns[1].test('IFCDOOR')).toBeTrue();
+      expect(localIds).toEqual([1, 2, 7]);
+    });
+
+    it('should group elements with geometry by IFC class', async () => {
+      mockModel.getItemsIdsWithGeometry.and.returnValue(Promise.resolve([1, 2, 3, 4]));
+      mockModel.getItemsWithGeometryCategories.and.returnValue(
+        Promise.resolve(['IfcWall', 'IFCDOOR', 'IFCWALL', null])
+      );
+
+      const categories = await service.getElementCategories('test-id');
+
+      expect(Array.from(categories)).toEqual([
+        ['IFCWALL', [1, 3]],
+        ['IFCDOOR', [2]],
+      ]);
+    });
+
+    it('should read the material names of elements', async () => {
+      mockModel.getItemsData.and.returnValue(
+        Promise.resolve([
+          { HasAssociations: [{ _category: { value: 'IFCMATERIAL' }, Name: { value: 'Concrete' } }] },
+          { HasAssociations: [] },
+        ])
+      );
+
+      const materials = await service.getItemMaterials('test-id', [5, 6]);
+
+      expect(Array.from(materials)).toEqual([[5, ['Concrete']]]);
+    });
+  });
+
+  describe('unloadModel', () => {
+    it('should remove the model from the scene and dispose it', async () => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+      const object = new THREE.Group();
+      mockScene.add(object);
+      const mockModel = {
+        modelId: 'test-id',
+        object,
+        dispose: jasmine.createSpy('dispose').and.returnValue(Promise.resolve()),
+      } as any;
+      mockFragmentsManager.list.set('test-id', mockModel);
+
+      const result = await service.unloadModel('test-id');
+
+      expect(result).toBeTrue();
+      expect(object.parent).toBeNull();
+      expect(mockModel.dispose).toHaveBeenCalled();
+    });
+
+    it('should return false if model not found', async () => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+
+      const result = await service.unloadModel('non-existent-id');
+
+      expect(result).toBeFalse();
+    });
+
+    it('should propagate dispose errors', async () => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+      const mockModel = {
+        modelId: 'test-id',
+        object: new THREE.Group(),
+        dispose: jasmine
+          .createSpy('dispose')
+          .and.returnValue(Promise.reject(new Error('Dispose error'))),
+      } as any;
+      mockFragmentsManager.list.set('test-id', mockModel);
+      spyOn(console, 'error');
+
+      await expectAsync(service.unloadModel('test-id')).toBeRejectedWithError('Dispose error');
+    });
+  });
+
   describe('exportFragment', () => {
     it('should return null if model not found', async () => {
       (service as any).fragmentsManager = mockFragmentsManager;
@@ -357,6 +1441,16 @@ describe('FragmentsService', () => {
 
       expect(consoleSpy).toHaveBeenCalledWith('Camera reference stored for fragment culling');
     });
+
+    it('should make every loaded model cull with the camera', () => {
+      (service as any).fragmentsManager = mockFragmentsManager;
+      const mockModel = jasmine.createSpyObj('FragmentsModel', ['useCamera']);
+      mockFragmentsManager.list.set('test-id', mockModel);
+
+      service.bindCamera(mockCamera);
+
+      expect(mockModel.useCamera).toHaveBeenCalledWith(mockCamera);
+    });
   });
 
   describe('updateCulling', () => {
@@ -1,8 +1,58 @@
-import { Injectable } from '@angular/core';
+import { Injectable, inject } from '@angular/core';
 import * as THREE from 'three';
 import * as OBC from '@thatopen/components';
 import * as FRAGS from '@thatopen/fragments';
-import { VIEWER_CONFIG, FRAGMENTS_WORKER_URL } from '../../shared/constants/viewer.constants';
+import {
+  VIEWER_CONFIG,
+  FRAGMENTS_WORKER_URL,
+  LOAD_PROGRESS_CONFIG,
+  FRAGMENT_CACHE_CONFIG,
+  MEASUREMENT_CONFIG,
+  CAMERA_CONFIG,
+} from '../../shared/constants/viewer.constants';
+import {
+  ElementGeometry,
+  ElementProperties,
+  GeoLocation,
+  LoadProgressCallback,
+  LoadStage,
+  PartMaterial,
+  PickResult,
+  SnapKind,
+  SnapResult,
+  SpatialNode,
+  StoreyLevel,
+} from '../../shared/models/viewer.model';
+import { abortable, isAbortError } from '../../shared/utils/abort.utils';
+import { parseCompoundAngle } from '../../shared/utils/lighting.utils';
+import {
+  ELEMENT_ATTRIBUTES_DATA_CONFIG,
+  ELEMENT_MATERIALS_DATA_CONFIG,
+  ELEMENT_PROPERTIES_DATA_CONFIG,
+  parseElementProperties,
+  parseMaterialNames,
+} from '../../shared/utils/properties.utils';
+import {
+  buildSpatialTree,
+  collectLocalIds,
+  findSpatialNodes,
+  getSpatialLocalIds,
+} from '../../shared/utils/spatial-tree.utils';
+import { FragmentCacheService } from './fragment-cache.service';
+import { RenderLoopService } from './render-loop.service';
+
+/** Preferred snap targets, lowest first */
+const SNAP_PRIORITY: Record<FRAGS.SnappingClass, number> = {
+  [FRAGS.SnappingClass.POINT]: 0,
+  [FRAGS.SnappingClass.LINE]: 1,
+  [FRAGS.SnappingClass.FACE]: 2,
+};
+
+const SNAP_KINDS: Record<FRAGS.SnappingClass, SnapKind> = {
+  [FRAGS.SnappingClass.POINT]: 'vertex',
+  [FRAGS.SnappingClass.LINE]: 'edge',
+  [FRAGS.SnappingClass.FACE]: 'face',
+};
 
 /**
  * Service for managing ThatOpen Components and Fragments
@@ -12,10 +62,17 @@ import { VIEWER_CONFIG, FRAGMENTS_WORKER_URL } from '../../shared/constants/view
   providedIn: 'root',
 })
 export class FragmentsService {
+  private readonly fragmentCache = inject(FragmentCacheService);
+  private readonly renderLoop = inject(RenderLoopService);
   private components: OBC.Components | null = null;
   private ifcLoader: OBC.IfcLoader | null = null;
   private fragmentsManager: OBC.FragmentsManager | null = null;
   private initialized = false;
+  private clippingPlanes: THREE.Plane[] = [];
+  // Opacity of ghosted elements by model, re-applied whenever highlights are reset
+  private readonly opacityOverrides = new Map<string, Map<number, number>>();
+  // Colour of coloured elements by model, re-applied whenever highlights are reset
+  private readonly colorOverrides = new Map<string, Map<number, string>>();
 
   /**
    * Initialize the ThatOpen Components system
@@ -69,6 +126,11 @@ export class FragmentsService {
         
         console.log('FragmentsManager core:', this.fragmentsManager.core);
         console.log('FragmentsManager core.models:', this.fragmentsManager.core.models);
+
+        // Tiles, highlights and visibility changes land from the worker in the background
+        this.fragmentsManager.list.onItemSet.add(({ value: model }) => {
+          model.onViewUpdated.add(() => this.renderLoop.requestRender());
+        });
       } catch (error) {
         console.error('Error during FragmentsManager initialization:', error);
         throw new Error(`Failed to initialize FragmentsManager: ${error instanceof Error ? error.message : String(error)}`);
@@ -102,13 +164,15 @@ export class FragmentsService {
    * Load an IFC file and convert to fragments
    * @param buffer IFC file data as Uint8Array
    * @param name Model name
-   * @param onProgress Progress callback (0-100)
+   * @param onProgress Progress callback (overall 0-100 plus current stage)
+   * @param signal Optional signal to cancel the load; partial state is disposed
    * @returns Fragment model ID
    */
   async loadIfc(
     buffer: Uint8Array,
     name: string,
-    onProgress?: (progress: number) => void
+    onProgress?: LoadProgressCallback,
+    signal?: AbortSignal
   ): Promise<string> {
     if (!this.initialized || !this.ifcLoader || !this.fragmentsManager) {
       throw new Error('FragmentsService not initialized');
@@ -128,23 +192,43 @@ export class FragmentsService {
         throw new Error('FragmentsManager is not initialized before load(). This should not happen.');
       }
       
-      // Set up progress tracking if callback provided
-      if (onProgress) {
-        onProgress(0);
+      signal?.throwIfAborted();
+
+      // Reuse a previous conversion of the same IFC content if we have one
+      const cacheKey = await this.getCacheKey(buffer);
+      if (cacheKey) {
+        const cachedModelId = await this.loadFromCache(cacheKey, name, onProgress, signal);
+        if (cachedModelId) {
+          return cachedModelId;
+        }
       }
 
+      // The file is already in memory, so reading is complete
+      onProgress?.(LOAD_PROGRESS_CONFIG.readingEnd, 'parsing');
+
       // Load the IFC file
       // In ThatOpen Components v3.x, the load method signature is:
       // load(data: Uint8Array, coordinate: boolean, name: string, config?: {...})
       console.log('Calling ifcLoader.load()...');
-      
-      // Note: Progress callbacks are disabled for now due to internal library issues
-      // The library will still load the file, just without progress updates
-      const model = await this.ifcLoader.load(
+
+      // Federated models share one FragmentsManager, so the ID must be unique
+      const modelId = this.getUniqueModelId(name);
+      const pendingModel = this.ifcLoader.load(
         buffer,
         true, // coordinate
-        name // name
-        // config is omitted - passing undefined or empty config causes issues
+        modelId, // name
+        {
+          processData: {
+            progressCallback: (progress, data) =>
+              onProgress?.(this.toOverallProgress(progress), this.toLoadStage(data)),
+          },
+        }
+      );
+
+      // web-ifc cannot be interrupted mid-parse, so on abort we reject right away
+      // and dispose whatever the importer eventually produces
+      const model = await abortable(pendingModel, signal, (pending) =>
+        this.discardAbortedLoad(modelId, pending)
       );
 
       if (!model) {
@@ -192,14 +276,22 @@ export class FragmentsService {
       
       console.log('=== End FragmentsModel Inspection ===');
       
-      // Report 100% progress (we only get start and end, no intermediate updates)
-      if (onProgress) {
-        onProgress(100);
+      this.applyClippingPlanes(model);
+      onProgress?.(100, 'done');
+
+      // Store the conversion in the background; loading does not wait on it
+      if (cacheKey) {
+        void this.storeInCache(cacheKey, name, buffer.byteLength, model.modelId);
       }
-      
+
       // Return the model ID for retrieval later
       return model.modelId;
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log(`IFC load cancelled: ${name}`);
+        throw error;
+      }
+
       console.error('Failed to load IFC file:', error);
       // Make sure we get detailed error information
       if (error instanceof Error) {
@@ -210,6 +302,66 @@ export class FragmentsService {
     }
   }
 
+  /**
+   * Load a previously exported .frag file, skipping the IFC conversion
+   * @param buffer Fragment file data as Uint8Array
+   * @param name Model name
+   * @param onProgress Progress callback (overall 0-100 plus current stage)
+   * @param signal Optional signal to cancel the load; partial state is disposed
+   * @returns Fragment model ID
+   */
+  async loadFragment(
+    buffer: Uint8Array,
+    name: string,
+    onProgress?: LoadProgressCallback,
+    signal?: AbortSignal
+  ): Promise<string> {
+    if (!this.initialized || !this.fragmentsManager) {
+      throw new Error('FragmentsService not initialized');
+    }
+
+    try {
+      console.log(`Starting fragment load for: ${name}`);
+      console.log(`Buffer size: ${buffer.length} bytes`);
+
+      signal?.throwIfAborted();
+      onProgress?.(LOAD_PROGRESS_CONFIG.readingEnd, 'parsing');
+
+      const modelId = this.getUniqueModelId(name);
+      const pendingModel = this.fragmentsManager.core.load(buffer, {
+        modelId,
+        onProgress: (event) =>
+          onProgress?.(
+            this.toOverallProgress(this.toFragmentLoadFraction(event)),
+            event.stage === 'generating' || event.stage === 'done' ? 'building' : 'parsing'
+          ),
+      });
+
+      const model = await abortable(pendingModel, signal, (pending) =>
+        this.discardAbortedLoad(modelId, pending)
+      );
+
+      console.log(`Fragment model "${name}" loaded successfully`);
+      console.log('Model ID:', model.modelId);
+
+      this.applyClippingPlanes(model);
+      onProgress?.(100, 'done');
+
+      return model.modelId;
+    } catch (error) {
+      if (isAbortError(error)) {
+        console.log(`Fragment load cancelled: ${name}`);
+        throw error;
+      }
+
+      console.error('Failed to load fragment file:', error);
+      if (error instanceof Error) {
+        console.error('Error details:', error.message);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Get a fragments model by ID
    */
@@ -246,6 +398,760 @@ export class FragmentsService {
     return models;
   }
 
+  /**
+   * Show or hide a loaded model without unloading it
+   * @param id Model ID
+   * @param visible Whether the model should be rendered
+   * @returns True if the model was found
+   */
+  setModelVisible(id: string, visible: boolean): boolean {
+    const model = this.getModel(id);
+    if (!model) {
+      return false;
+    }
+
+    model.object.visible = visible;
+    this.renderLoop.requestRender();
+    return true;
+  }
+
+  /**
+   * Unload a model: remove it from the scene and dispose its fragment data
+   * @param id Model ID
+   * @returns True if the model was found and disposed
+   */
+  async unloadModel(id: string): Promise<boolean> {
+    const model = this.getModel(id);
+    if (!model) {
+      return false;
+    }
+
+    try {
+      console.log('Unloading fragment model:', id);
+      this.opacityOverrides.delete(id);
+      this.colorOverrides.delete(id);
+      model.object.removeFromParent();
+      this.renderLoop.requestRender();
+      await model.dispose();
+      console.log('Fragment model unloaded:', id);
+      return true;
+    } catch (error) {
+      console.error('Failed to unload fragment model:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the nearest element under the pointer across all visible models
+   * @param camera Camera the scene is rendered with
+   * @param mouse Pointer position in client (CSS pixel) coordinates
+   * @param dom Canvas the scene is rendered into
+   * @returns Nearest hit, or null if nothing is under the pointer
+   */
+  async pickElement(
+    camera: THREE.PerspectiveCamera | THREE.OrthographicCamera,
+    mouse: THREE.Vector2,
+    dom: HTMLCanvasElement
+  ): Promise<PickResult | null> {
+    const models = this.getAllModels().filter((model) => model.object.visible);
+    const hits = await Promise.all(
+      models.map((model) =>
+        model.raycast({ camera, mouse, dom }).catch((error: unknown) => {
+          console.warn(`Raycast failed for model ${model.modelId}:`, error);
+          return null;
+        })
+      )
+    );
+
+    let nearest: FRAGS.RaycastResult | null = null;
+    for (const hit of hits) {
+      if (hit && (!nearest || hit.distance < nearest.distance)) {
+        nearest = hit;
+      }
+    }
+
+    return nearest && toPickResult(nearest);
+  }
+
+  /**
+   * Find the point under the pointer, snapped to a nearby vertex or edge if there is one
+   * Snaps behind the surface under the pointer are ignored
+   * @param camera Camera the scene is rendered with
+   * @param mouse Pointer position in client (CSS pixel) coordinates
+   * @param dom Canvas the scene is rendered into
+   * @returns Snapped point, or null if nothing is under the pointer
+   */
+  async snapPoint(
+    camera: THREE.PerspectiveCamera | THREE.OrthographicCamera,
+    mouse: THREE.Vector2,
+    dom: HTMLCanvasElement
+  ): Promise<SnapResult | null> {
+    const models = this.getAllModels().filter((model) => model.object.visible);
+    const results = await Promise.all(
+      models.map((model) =>
+        model
+          .raycastWithSnapping({
+            camera,
+            mouse,
+            dom,
+            snappingClasses: [
+              FRAGS.SnappingClass.POINT,
+              FRAGS.SnappingClass.LINE,
+              FRAGS.SnappingClass.FACE,
+            ],
+          })
+          .catch((error: unknown) => {
+            console.warn(`Snapping raycast failed for model ${model.modelId}:`, error);
+            return null;
+          })
+      )
+    );
+
+    const candidates = results.flatMap((hits) => hits ?? []);
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const nearest = Math.min(...candidates.map((hit) => hit.distance));
+    const best = candidates
+      .filter((hit) => hit.distance <= nearest + MEASUREMENT_CONFIG.snapDepthTolerance)
+      .sort(
+        (a, b) =>
+          SNAP_PRIORITY[a.snappingClass] - SNAP_PRIORITY[b.snappingClass] || a.distance - b.distance
+      )[0]!;
+
+    return { ...toPickResult(best), snap: SNAP_KINDS[best.snappingClass] };
+  }
+
+  /**
+   * Distance to the nearest visible element along a ray, e.g. to find the floor or a wall
+   * Models are only raycast through a camera, so a camera at the origin looking
+   * along the ray is aimed at the middle of the canvas
+   * @param origin Start of the ray
+   * @param direction Direction of the ray
+   * @param dom Canvas the scene is rendered into
+   * @returns Distance from the origin, or null if the ray hits nothing
+   */
+  async castRay(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    dom: HTMLCanvasElement
+  ): Promise<number | null> {
+    const rect = dom.getBoundingClientRect();
+    const probe = new THREE.PerspectiveCamera(
+      CAMERA_CONFIG.fov,
+      rect.width / rect.height || 1,
+      CAMERA_CONFIG.near,
+      CAMERA_CONFIG.far
+    );
+    probe.position.copy(origin);
+    probe.lookAt(origin.clone().add(direction));
+    probe.updateMatrixWorld();
+
+    const hit = await this.pickElement(
+      probe,
+      new THREE.Vector2(rect.left + rect.width / 2, rect.top + rect.height / 2),
+      dom
+    );
+    return hit && origin.distanceTo(new THREE.Vector3(hit.point.x, hit.point.y, hit.point.z));
+  }
+
+  /**
+   * Get the IFC attributes, property sets and quantity sets of an element
+   * @param id Model ID
+   * @param localId Local ID of the element within the model
+   * @returns Element properties, or null if the model or element is not found
+   */
+  async getElementProperties(id: string, localId: number): Promise<ElementProperties | null> {
+    const model = this.getModel(id);
+    if (!model) {
+      return null;
+    }
+
+    const [data] = await model.getItemsData([localId], ELEMENT_PROPERTIES_DATA_CONFIG);
+    if (!data) {
+      console.warn(`Element ${localId} not found in model ${id}`);
+      return null;
+    }
+
+    return parseElementProperties({ modelId: id, localId }, data);
+  }
+
+  /**
+   * Get the IFC attributes, property sets and quantity sets of several elements
+   * @param id Model ID
+   * @param localIds Local IDs of the elements
+   * @param withSets Whether to read property and quantity sets; attributes alone are much faster
+   * @returns Properties of the elements found, in the order requested
+   */
+  async getItemsProperties(
+    id: string,
+    localIds: number[],
+    withSets = true
+  ): Promise<ElementProperties[]> {
+    const model = this.getModel(id);
+    if (!model || localIds.length === 0) {
+      return [];
+    }
+
+    const data = await model.getItemsData(
+      localIds,
+      withSets ? ELEMENT_PROPERTIES_DATA_CONFIG : ELEMENT_ATTRIBUTES_DATA_CONFIG
+    );
+    return localIds.flatMap((localId, index) => {
+      const item = data[index];
+      return item ? [parseElementProperties({ modelId: id, localId }, item)] : [];
+    });
+  }
+
+  /**
+   * Get the IFC spatial structure of a model with element counts and names
+   * @param id Model ID
+   * @returns Root node (usually the IfcProject), or null if the model is not found
+   */
+  async getSpatialTree(id: string): Promise<SpatialNode | null> {
+    const model = this.getModel(id);
+    if (!model) {
+      return null;
+    }
+
+    const structure = await model.getSpatialStructure();
+    const names = await this.getItemNames(id, getSpatialLocalIds(structure));
+    return buildSpatialTree(id, structure, names);
+  }
+
+  /**
+   * Get the building storeys of a model with their levels
+   * Levels are the bottom of each storey's geometry, which avoids the unit and
+   * georeferencing differences between the IFC Elevation attribute and the scene
+   * @param id Model ID
+   * @returns Storeys in spatial order; storeys without geometry are skipped
+   */
+  async getStoreys(id: string): Promise<StoreyLevel[]> {
+    const root = await this.getSpatialTree(id);
+    if (!root) {
+      return [];
+    }
+
+    const nodes = findSpatialNodes(root, 'IFCBUILDINGSTOREY');
+    const names = await this.getItemNames(id, nodes.map((node) => node.localId!));
+
+    const storeys: StoreyLevel[] = [];
+    for (const node of nodes) {
+      const localId = node.localId!;
+      const box = await this.getElementsBox(id, collectLocalIds(node));
+      if (box) {
+        storeys.push({
+          modelId: id,
+          localId,
+          name: names.get(localId) ?? `Storey #${localId}`,
+          elevation: box.min.y,
+        });
+      }
+    }
+    return storeys;
+  }
+
+  /**
+   * Get the geographic location of a model's site
+   * @param id Model ID
+   * @returns The reference latitude and longitude of the first site; null if the model is
+   * not found or its site is not geo-referenced
+   */
+  async getSiteLocation(id: string): Promise<GeoLocation | null> {
+    const model = this.getModel(id);
+    const root = model ? await this.getSpatialTree(id) : null;
+    const site = root ? findSpatialNodes(root, 'IFCSITE')[0] : undefined;
+    if (!model || site?.localId == null) {
+      return null;
+    }
+
+    const [data] = await model.getItemsData([site.localId], {
+      attributesDefault: false,
+      attributes: ['RefLatitude', 'RefLongitude'],
+      relationsDefault: { attributes: false, relations: false },
+    });
+    const latitude = parseCompoundAngle(getAttributeValue(data?.['RefLatitude']));
+    const longitude = parseCompoundAngle(getAttributeValue(data?.['RefLongitude']));
+    // Authoring tools write 0° 0° when the site was never placed
+    if (latitude === null || longitude === null || (latitude === 0 && longitude === 0)) {
+      return null;
+    }
+    return { latitude, longitude };
+  }
+
+  /**
+   * Get the Name attribute of several items
+   * @param id Model ID
+   * @param localIds Local IDs of the items
+   * @returns Names by local ID; items without a name are omitted
+   */
+  async getItemNames(id: string, localIds: number[]): Promise<Map<number, string>> {
+    const names = new Map<number, string>();
+    const model = this.getModel(id);
+    if (!model || localIds.length === 0) {
+      return names;
+    }
+
+    const data = await model.getItemsData(localIds, {
+      attributesDefault: false,
+      attributes: ['Name'],
+      relationsDefault: { attributes: false, relations: false },
+    });
+    data.forEach((item, index) => {
+      const name = item['Name'];
+      const localId = localIds[index];
+      if (localId !== undefined && name && !Array.isArray(name) && name.value != null) {
+        names.set(localId, String(name.value));
+      }
+    });
+    return names;
+  }
+
+  /**
+   * Get the IFC class of several items
+   * @param id Model ID
+   * @param localIds Local IDs of the items
+   * @returns Upper-case IFC class (e.g. IFCWALL) by local ID; unknown items are omitted
+   */
+  async getItemCategories(id: string, localIds: number[]): Promise<Map<number, string>> {
+    const categories = new Map<number, string>();
+    const model = this.getModel(id);
+    if (!model || localIds.length === 0) {
+      return categories;
+    }
+
+    const data = await model.getItemsData(localIds, {
+      attributesDefault: false,
+      attributes: [],
+      relationsDefault: { attributes: false, relations: false },
+    });
+    data.forEach((item, index) => {
+      const category = item['_category'];
+      const localId = localIds[index];
+      if (localId !== undefined && category && !Array.isArray(category) && category.value) {
+        categories.set(localId, String(category.value).toUpperCase());
+      }
+    });
+    return categories;
+  }
+
+  /**
+   * Get the local IDs of every element of a model that has geometry
+   * @param id Model ID
+   * @returns Local IDs; empty if the model is not found
+   */
+  async getElementIds(id: string): Promise<number[]> {
+    const model = this.getModel(id);
+    return model ? model.getItemsIdsWithGeometry() : [];
+  }
+
+  /**
+   * Get the elements of a model that belong to some IFC classes
+   * @param id Model ID
+   * @param categories IFC classes in any case (e.g. IFCWALL or IfcWall)
+   * @returns Local IDs; empty if the model is not found
+   */
+  async getCategoryElements(id: string, categories: string[]): Promise<number[]> {
+    const model = this.getModel(id);
+    if (!model || categories.length === 0) {
+      return [];
+    }
+
+    const byCategory = await model.getItemsOfCategories(
+      categories.map((category) => new RegExp(`^${category}$`, 'i'))
+    );
+    return Object.values(byCategory).flat();
+  }
+
+  /**
+   * Group the elements of a model that have geometry by IFC class
+   * @param id Model ID
+   * @returns Local IDs by upper-case IFC class; empty if the model is not found
+   */
+  async getElementCategories(id: string): Promise<Map<string, number[]>> {
+    const byCategory = new Map<string, number[]>();
+    const model = this.getModel(id);
+    if (!model) {
+      return byCategory;
+    }
+
+    // Both lists follow the same item order
+    const [localIds, categories] = await Promise.all([
+      model.getItemsIdsWithGeometry(),
+      model.getItemsWithGeometryCategories(),
+    ]);
+    localIds.forEach((localId, index) => {
+      const category = categories[index]?.toUpperCase();
+      if (category) {
+        const group = byCategory.get(category) ?? [];
+        group.push(localId);
+        byCategory.set(category, group);
+      }
+    });
+    return byCategory;
+  }
+
+  /**
+   * Get the names of the materials associated with several elements
+   * @param id Model ID
+   * @param localIds Local IDs of the elements
+   * @returns Material names by local ID; elements without materials are omitted
+   */
+  async getItemMaterials(id: string, localIds: number[]): Promise<Map<number, string[]>> {
+    const materials = new Map<number, string[]>();
+    const model = this.getModel(id);
+    if (!model || localIds.length === 0) {
+      return materials;
+    }
+
+    const data = await model.getItemsData(localIds, ELEMENT_MATERIALS_DATA_CONFIG);
+    data.forEach((item, index) => {
+      const names = parseMaterialNames(item);
+      const localId = localIds[index];
+      if (localId !== undefined && names.length > 0) {
+        materials.set(localId, names);
+      }
+    });
+    return materials;
+  }
+
+  /**
+   * Get the IFC GlobalId of several items
+   * @param id Model ID
+   * @param localIds Local IDs of the items
+   * @returns GlobalIds by local ID; items without one are omitted
+   */
+  async getGlobalIds(id: string, localIds: number[]): Promise<Map<number, string>> {
+    const globalIds = new Map<number, string>();
+    const model = this.getModel(id);
+    if (!model || localIds.length === 0) {
+      return globalIds;
+    }
+
+    const guids = await model.getGuidsByLocalIds(localIds);
+    guids.forEach((guid, index) => {
+      const localId = localIds[index];
+      if (localId !== undefined && guid) {
+        globalIds.set(localId, guid);
+      }
+    });
+    return globalIds;
+  }
+
+  /**
+   * Get the original appearance of element parts
+   * @param id Model ID
+   * @param sampleIds Samples of the parts (ElementGeometry.sampleId)
+   * @returns Materials by sample ID; unknown samples are omitted
+   */
+  async getPartMaterials(id: string, sampleIds: number[]): Promise<Map<number, PartMaterial>> {
+    const materials = new Map<number, PartMaterial>();
+    const model = this.getModel(id);
+    if (!model || sampleIds.length === 0) {
+      return materials;
+    }
+
+    const samples = await model.getSamples(sampleIds);
+    const raw = await model.getMaterials(new Set([...samples.values()].map((s) => s.material)));
+    samples.forEach((sample, sampleId) => {
+      const material = raw.get(sample.material);
+      if (material) {
+        materials.set(sampleId, toPartMaterial(material));
+      }
+    });
+    return materials;
+  }
+
+  /**
+   * Show or hide individual elements of a model
+   * @param id Model ID
+   * @param localIds Local IDs of the elements
+   * @param visible Whether the elements should be rendered
+   */
+  async setElementsVisible(id: string, localIds: number[], visible: boolean): Promise<void> {
+    const model = this.getModel(id);
+    if (!model || localIds.length === 0) {
+      return;
+    }
+
+    await model.setVisible(localIds, visible);
+    await this.update();
+  }
+
+  /**
+   * Get the bounding box enclosing a set of elements
+   * @param id Model ID
+   * @param localIds Local IDs of the elements
+   * @returns Merged box, or null if the model is not found or the box is empty
+   */
+  async getElementsBox(id: string, localIds: number[]): Promise<THREE.Box3 | null> {
+    const model = this.getModel(id);
+    if (!model || localIds.length === 0) {
+      return null;
+    }
+
+    const box = await model.getMergedBox(localIds);
+    return box.isEmpty() ? null : box;
+  }
+
+  /**
+   * Get the bounding box of a storey's contents
+   * @param id Model ID
+   * @param localId Local ID of the storey
+   * @returns Box, or null if the storey is not found or has no geometry
+   */
+  async getStoreyBox(id: string, localId: number): Promise<THREE.Box3 | null> {
+    const root = await this.getSpatialTree(id);
+    const storey = root
+      ? findSpatialNodes(root, 'IFCBUILDINGSTOREY').find((node) => node.localId === localId)
+      : undefined;
+    return storey ? this.getElementsBox(id, collectLocalIds(storey)) : null;
+  }
+
+  /**
+   * Get the triangles of elements, e.g. to outline or export them
+   * @param id Model ID
+   * @param localIds Local IDs of the elements
+   * @returns One geometry per element part, in world coordinates; empty if the model is not found
+   */
+  async getElementsGeometry(id: string, localIds: number[]): Promise<ElementGeometry[]> {
+    const model = this.getModel(id);
+    if (!model || localIds.length === 0) {
+      return [];
+    }
+
+    model.object.updateWorldMatrix(true, false);
+    const parts = await model.getItemsGeometry(localIds);
+    return parts.flatMap((meshes, item) =>
+      meshes
+        .filter((mesh) => mesh.positions && mesh.indices)
+        .map((mesh) => ({
+          modelId: id,
+          localId: mesh.localId ?? localIds[item]!,
+          geometry: toWorldGeometry(mesh, model.object.matrixWorld),
+          ...(mesh.sampleId !== undefined && { sampleId: mesh.sampleId }),
+        }))
+    );
+  }
+
+  /**
+   * Highlight elements of a model with a flat colour
+   * @param id Model ID
+   * @param localIds Local IDs of the elements to highlight
+   * @param color CSS colour string
+   * @param opacity Highlight opacity (0-1)
+   */
+  async highlightElements(id: string, localIds: number[], color: string, opacity = 1): Promise<void> {
+    const model = this.getModel(id);
+    if (!model || localIds.length === 0) {
+      return;
+    }
+
+    await model.highlight(localIds, {
+      color: new THREE.Color(color),
+      renderedFaces: FRAGS.RenderedFaces.TWO,
+      opacity,
+      transparent: opacity < 1,
+    });
+  }
+
+  /**
+   * Remove highlights from a model
+   * Coloured and ghosted elements go back to their override colour and opacity
+   * rather than their original material
+   * @param id Model ID
+   * @param localIds Elements to reset; all elements if omitted
+   */
+  async resetHighlight(id: string, localIds?: number[]): Promise<void> {
+    const model = this.getModel(id);
+    if (!model) {
+      return;
+    }
+
+    await model.resetHighlight(localIds);
+
+    const reset = localIds ? new Set(localIds) : null;
+    for (const [color, ids] of groupOverrides(this.colorOverrides.get(id), reset)) {
+      await model.setColor(ids, new THREE.Color(color));
+    }
+    for (const [opacity, ids] of groupOverrides(this.opacityOverrides.get(id), reset)) {
+      await model.setOpacity(ids, opacity);
+    }
+  }
+
+  /**
+   * Render elements of a model semi-transparent (ghosted), keeping their colour
+   * The opacity survives highlight resets until it is cleared
+   * @param id Model ID
+   * @param localIds Local IDs of the elements
+   * @param opacity Opacity (0-1), or null to restore the original opacity
+   */
+  async setElementsOpacity(id: string, localIds: number[], opacity: number | null): Promise<void> {
+    const model = this.getModel(id);
+    if (!model || localIds.length === 0) {
+      return;
+    }
+
+    const overrides = this.opacityOverrides.get(id) ?? new Map<number, number>();
+    if (opacity === null) {
+      localIds.forEach((localId) => overrides.delete(localId));
+      await model.resetOpacity(localIds);
+    } else {
+      localIds.forEach((localId) => overrides.set(localId, opacity));
+      await model.setOpacity(localIds, opacity);
+    }
+    this.opacityOverrides.set(id, overrides);
+    await this.update();
+  }
+
+  /**
+   * Paint elements of a model in a flat colour, keeping their opacity
+   * The colour survives highlight resets until it is cleared
+   * @param id Model ID
+   * @param localIds Local IDs of the elements
+   * @param color CSS colour string, or null to restore the original colour
+   */
+  async setElementsColor(id: string, localIds: number[], color: string | null): Promise<void> {
+    const model = this.getModel(id);
+    if (!model || localIds.length === 0) {
+      return;
+    }
+
+    const overrides = this.colorOverrides.get(id) ?? new Map<number, string>();
+    if (color === null) {
+      localIds.forEach((localId) => overrides.delete(localId));
+      await model.resetColor(localIds);
+    } else {
+      localIds.forEach((localId) => overrides.set(localId, color));
+      await model.setColor(localIds, new THREE.Color(color));
+    }
+    this.colorOverrides.set(id, overrides);
+    await this.update();
+  }
+
+  /**
+   * Get the bounding box of all visible models
+   * @returns World-space box; empty if no model is visible
+   */
+  getModelsBox(): THREE.Box3 {
+    const box = new THREE.Box3();
+    for (const model of this.getAllModels()) {
+      if (model.object.visible) {
+        box.union(new THREE.Box3().setFromObject(model.object));
+      }
+    }
+    return box;
+  }
+
+  /**
+   * Follow the meshes the models are drawn with, as tiles stream in and out
+   * Meshes of models loaded later are followed too
+   * @param listener.added Called for every current mesh, then for each new one, before its
+   * vertex data is released after upload
+   * @param listener.removed Called before a mesh is dropped
+   * @returns Function to stop following
+   */
+  watchMeshes(listener: {
+    added(mesh: THREE.Mesh): void;
+    removed(mesh: THREE.Mesh): void;
+  }): () => void {
+    const models = this.fragmentsManager?.list;
+    if (!models) {
+      return () => {};
+    }
+
+    const followed = new Map<string, { tiles: FRAGS.FragmentsModel['tiles']; stop(): void }>();
+    const follow = (model: FRAGS.FragmentsModel) => {
+      const { tiles } = model;
+      const onBeforeSet = ({ key, value }: { key: string | number; value: THREE.Mesh }) => {
+        // Replacing a tile drops the old mesh without a delete event
+        const previous = tiles.get(key);
+        if (previous && previous !== value) {
+          listener.removed(previous);
+        }
+      };
+      const onSet = ({ value }: { value: THREE.Mesh }) => listener.added(value);
+      const onDelete = ({ value }: { value: THREE.Mesh }) => listener.removed(value);
+      tiles.forEach((mesh) => listener.added(mesh));
+      tiles.onBeforeSet.add(onBeforeSet);
+      tiles.onItemSet.add(onSet);
+      tiles.onBeforeDelete.add(onDelete);
+      followed.set(model.modelId, {
+        tiles,
+        stop: () => {
+          tiles.onBeforeSet.remove(onBeforeSet);
+          tiles.onItemSet.remove(onSet);
+          tiles.onBeforeDelete.remove(onDelete);
+        },
+      });
+    };
+    const onModelSet = ({ value }: { value: FRAGS.FragmentsModel }) => follow(value);
+    // Disposing a model drops it from the list before deleting its tiles, so its
+    // meshes are reported as removed here; no tile delete events follow
+    const onModelDeleted = (modelId: string) => {
+      const model = followed.get(modelId);
+      model?.stop();
+      model?.tiles.forEach((mesh) => listener.removed(mesh));
+      followed.delete(modelId);
+    };
+
+    models.forEach(follow);
+    models.onItemSet.add(onModelSet);
+    models.onItemDeleted.add(onModelDeleted);
+    return () => {
+      models.onItemSet.remove(onModelSet);
+      models.onItemDeleted.remove(onModelDeleted);
+      followed.forEach((model) => model.stop());
+      followed.clear();
+    };
+  }
+
+  /**
+   * Cut all models with the given planes
+   * The planes are shared by reference, so later changes to them apply on the next update
+   * @param planes Clipping planes in world coordinates; an empty array disables clipping
+   */
+  setClippingPlanes(planes: THREE.Plane[]): void {
+    this.clippingPlanes = planes;
+    this.getAllModels().forEach((model) => this.applyClippingPlanes(model));
+  }
+
+  /**
+   * Get the cut of a model by a plane, e.g. to fill or outline a section
+   * @param id Model ID
+   * @param plane Section plane in world coordinates
+   * @returns Edge segments (the first `index` vertices of `buffer`) and fill triangles
+   * (`fillsIndices` into `buffer`) in world coordinates, or null if the model is not found
+   */
+  async getSection(id: string, plane: THREE.Plane): Promise<FRAGS.ModelSection | null> {
+    const model = this.getModel(id);
+    if (!model) {
+      return null;
+    }
+
+    // The worker cuts in model coordinates
+    model.object.updateWorldMatrix(true, false);
+    const toModel = model.object.matrixWorld.clone().invert();
+    const section = await model.getSection(plane.clone().applyMatrix4(toModel));
+
+    if (!model.object.matrixWorld.equals(new THREE.Matrix4())) {
+      new THREE.BufferAttribute(section.buffer, 3).applyMatrix4(model.object.matrixWorld);
+    }
+    return section;
+  }
+
+  /**
+   * Push pending visual changes (highlights, visibility) to the rendered meshes
+   */
+  async update(): Promise<void> {
+    if (!this.fragmentsManager) {
+      return;
+    }
+
+    await this.fragmentsManager.core.update(true);
+  }
+
   /**
    * Export a fragments model as binary data
    * @param id Model ID
@@ -276,16 +1182,16 @@ export class FragmentsService {
   }
 
   /**
-   * Bind a camera to all loaded fragments for culling
-   * In v3.x, this is handled differently
+   * Bind a camera to all loaded fragments for culling and level of detail
+   * Call again whenever the scene is rendered with another camera
    */
-  bindCamera(camera: THREE.Camera): void {
+  bindCamera(camera: THREE.PerspectiveCamera | THREE.OrthographicCamera): void {
     if (!this.fragmentsManager) {
       console.warn('FragmentsManager not initialized');
       return;
     }
-    
-    // In v3.x, we can set the camera for culling if needed
+
+    this.fragmentsManager.list.forEach((model) => model.useCamera(camera));
     console.log('Camera reference stored for fragment culling');
   }
 
@@ -352,6 +1258,8 @@ export class FragmentsService {
       this.ifcLoader = null;
       this.components = null;
       this.initialized = false;
+      this.opacityOverrides.clear();
+      this.colorOverrides.clear();
 
       console.log('FragmentsService disposed successfully');
     } catch (error) {
@@ -366,6 +1274,159 @@ export class FragmentsService {
     return this.initialized;
   }
 
+  /**
+   * Helper: Map web-ifc importer progress (0-1) onto the overall progress bar
+   */
+  private toOverallProgress(importProgress: number): number {
+    const { readingEnd, importEnd } = LOAD_PROGRESS_CONFIG;
+    const clamped = Math.min(Math.max(importProgress, 0), 1);
+    return readingEnd + clamped * (importEnd - readingEnd);
+  }
+
+  /**
+   * Helper: Flatten a fragments load event (per-stage 0-1) into a single 0-1 fraction
+   */
+  private toFragmentLoadFraction(event: FRAGS.LoadProgressEvent): number {
+    const stages: FRAGS.LoadProgressEvent['stage'][] = ['decompressing', 'parsing', 'generating'];
+    const index = stages.indexOf(event.stage);
+    if (index === -1) {
+      return 1;
+    }
+    return (index + event.progress) / stages.length;
+  }
+
+  /**
+   * Helper: Map a web-ifc importer progress event to a load stage
+   */
+  private toLoadStage(data: FRAGS.ProgressData): LoadStage {
+    if (data.process === 'geometries') {
+      return 'geometry';
+    }
+    if (data.process === 'conversion' && data.state === 'start') {
+      return 'parsing';
+    }
+    return 'building';
+  }
+
+  /**
+   * Helper: Tear down the partial state of an aborted load
+   */
+  private discardAbortedLoad(modelId: string, pending: Promise<FRAGS.FragmentsModel>): void {
+    console.log(`Aborting IFC load for: ${modelId}`);
+
+    // Stops the fragments worker if the load already reached that stage
+    try {
+      this.fragmentsManager?.core.abort(modelId);
+    } catch (error) {
+      console.warn('Failed to abort fragments load:', error);
+    }
+
+    pending
+      .then(async (model) => {
+        model.object.removeFromParent();
+        await model.dispose();
+        console.log(`Disposed aborted model: ${modelId}`);
+      })
+      .catch(() => {
+        // The load failed or was aborted by the worker - nothing to dispose
+      });
+  }
+
+  /**
+   * Helper: Hash IFC content for the fragment cache
+   * @returns Cache key, or null if caching is disabled or hashing is unavailable
+   */
+  private async getCacheKey(buffer: Uint8Array): Promise<string | null> {
+    if (!FRAGMENT_CACHE_CONFIG.enabled) {
+      return null;
+    }
+
+    try {
+      return await this.fragmentCache.hash(buffer);
+    } catch (error) {
+      console.warn('Fragment cache unavailable, skipping:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Helper: Load a cached conversion
+   * @returns Model ID, or null on a cache miss or unreadable entry
+   */
+  private async loadFromCache(
+    cacheKey: string,
+    name: string,
+    onProgress?: LoadProgressCallback,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    let cached: Uint8Array | null = null;
+    try {
+      cached = await this.fragmentCache.get(cacheKey);
+    } catch (error) {
+      console.warn('Failed to read fragment cache:', error);
+      return null;
+    }
+
+    if (!cached) {
+      return null;
+    }
+
+    console.log(`Fragment cache hit for "${name}" - skipping IFC conversion`);
+    try {
+      return await this.loadFragment(cached, name, onProgress, signal);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
+      // A corrupt entry must not block loading: evict it and convert again
+      console.warn('Cached fragments could not be loaded, converting IFC instead:', error);
+      await this.fragmentCache.delete(cacheKey).catch(console.warn);
+      return null;
+    }
+  }
+
+  /**
+   * Helper: Store a converted model in the fragment cache
+   */
+  private async storeInCache(
+    cacheKey: string,
+    name: string,
+    sourceSize: number,
+    modelId: string
+  ): Promise<void> {
+    try {
+      const data = await this.exportFragment(modelId);
+      if (data) {
+        await this.fragmentCache.put(cacheKey, name, data, sourceSize);
+      }
+    } catch (error) {
+      console.warn('Failed to store fragments in cache:', error);
+    }
+  }
+
+  /**
+   * Helper: Pass the current clipping planes to a model's worker
+   */
+  private applyClippingPlanes(model: FRAGS.FragmentsModel): void {
+    model.getClippingPlanesEvent = () => this.clippingPlanes;
+  }
+
+  /**
+   * Helper: Derive a model ID from a name that does not clash with loaded models
+   */
+  private getUniqueModelId(name: string): string {
+    if (!this.fragmentsManager?.list.has(name)) {
+      return name;
+    }
+
+    let suffix = 2;
+    while (this.fragmentsManager.list.has(`${name} (${suffix})`)) {
+      suffix++;
+    }
+    return `${name} (${suffix})`;
+  }
+
   /**
    * Helper: Check if an object is in the scene tree
    */
@@ -380,3 +1441,76 @@ export class FragmentsService {
     return false;
   }
 }
+
+/**
+ * Helper: Convert a fragments raycast hit into a pick result
+ */
+function toPickResult(hit: FRAGS.RaycastResult): PickResult {
+  return {
+    modelId: hit.fragments.modelId,
+    localId: hit.localId,
+    point: { x: hit.point.x, y: hit.point.y, z: hit.point.z },
+    distance: hit.distance,
+    ...(hit.normal && { normal: { x: hit.normal.x, y: hit.normal.y, z: hit.normal.z } }),
+  };
+}
+
+/**
+ * Helper: Build a geometry from element mesh data of the fragments worker
+ */
+function toWorldGeometry(mesh: FRAGS.MeshData, modelMatrix: THREE.Matrix4): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  const positions = Float32Array.from(mesh.positions!);
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  if (mesh.normals) {
+    geometry.setAttribute('normal', new THREE.BufferAttribute(mesh.normals, 3, true));
+  }
+  geometry.setIndex(new THREE.BufferAttribute(mesh.indices!, 1));
+  // The transform arrives from the worker as a plain object
+  const transform = new THREE.Matrix4().fromArray(mesh.transform.elements);
+  geometry.applyMatrix4(modelMatrix.clone().multiply(transform));
+  return geometry;
+}
+
+/**
+ * Helper: Convert a fragments material, whose channels are bytes, to a part material
+ */
+function toPartMaterial(material: FRAGS.RawMaterial): PartMaterial {
+  const color = new THREE.Color().setRGB(
+    material.r / 255,
+    material.g / 255,
+    material.b / 255,
+    THREE.SRGBColorSpace
+  );
+  return {
+    color: `#${color.getHexString(THREE.SRGBColorSpace)}`,
+    opacity: material.a / 255,
+    doubleSided: material.renderedFaces === FRAGS.RenderedFaces.TWO,
+  };
+}
+
+/**
+ * Helper: Value of an item attribute; relations have no value
+ */
+function getAttributeValue(attribute: FRAGS.ItemData[string] | undefined): unknown {
+  return attribute && !Array.isArray(attribute) ? attribute.value : null;
+}
+
+/**
+ * Helper: Group per-element overrides by value so each value is applied in one call
+ * @param reset Elements being reset; all overridden elements if null
+ */
+function groupOverrides<T>(
+  overrides: Map<number, T> | undefined,
+  reset: ReadonlySet<number> | null
+): Map<T, number[]> {
+  const byValue = new Map<T, number[]>();
+  overrides?.forEach((value, localId) => {
+    if (!reset || reset.has(localId)) {
+      const ids = byValue.get(value) ?? [];
+      ids.push(localId);
+      byValue.set(value, ids);
+    }
+  });
+  return byValue;
+}
@@ -0,0 +1,105 @@
+import { signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+import { GltfExportService } from './gltf-export.service';
+import { FragmentsService } from './fragments.service';
+import { ModelRegistryService } from './model-registry.service';
+import { SelectionService } from './selection.service';
+import { ElementGeometry, ModelState } from '../../shared/models/viewer.model';
+
+describe('GltfExportService', () => {
+  let service: GltfExportService;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+  let selectedByModel: ReturnType<typeof signal<Map<string, number[]>>>;
+
+  const part = (localId: number, sampleId: number): ElementGeometry => ({
+    modelId: 'frag-a',
+    localId,
+    sampleId,
+    geometry: new THREE.BoxGeometry(),
+  });
+
+  // JSON chunk of a GLB file, after the 12 byte header and 8 byte chunk header
+  const readJson = (glb: ArrayBuffer) => {
+    const length = new DataView(glb).getUint32(12, true);
+    return JSON.parse(new TextDecoder().decode(new Uint8Array(glb, 20, length)));
+  };
+
+  beforeEach(() => {
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', {
+      getElementIds: Promise.resolve([7, 8]),
+      getItemNames: Promise.resolve(new Map([[7, 'Wall A']])),
+      getItemCategories: Promise.resolve(
+        new Map([
+          [7, 'IFCWALL'],
+          [8, 'IFCSLAB'],
+        ])
+      ),
+      getGlobalIds: Promise.resolve(new Map([[7, '2O2Fr$t4X7Zf8NOew3FLOH']])),
+      getPartMaterials: Promise.resolve(
+        new Map([
+          [1, { color: '#ff0000', opacity: 1, doubleSided: false }],
+          [2, { color: '#0000ff', opacity: 0.5, doubleSided: true }],
+        ])
+      ),
+    });
+    mockFragmentsService.getElementsGeometry.and.callFake(async (_id, localIds) =>
+      [part(7, 1), part(7, 2), part(8, 1)].filter((item) => localIds.includes(item.localId))
+    );
+    selectedByModel = signal(new Map<string, number[]>());
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: FragmentsService, useValue: mockFragmentsService },
+        {
+          provide: ModelRegistryService,
+          useValue: {
+            models: signal<ModelState[]>([
+              {
+                id: 'model-1',
+                name: 'House.ifc',
+                loading: false,
+                progress: 100,
+                fragmentUuid: 'frag-a',
+                visible: true,
+              },
+            ]),
+          },
+        },
+        { provide: SelectionService, useValue: { selectedByModel } },
+      ],
+    });
+    service = TestBed.inject(GltfExportService);
+  });
+
+  it('should export a node per element with names, GlobalIds and materials', async () => {
+    const json = readJson(await service.exportModels(['frag-a']));
+    const node = (name: string) => json.nodes.find((item: { name: string }) => item.name === name);
+
+    expect(node('House.ifc')).toBeDefined();
+    expect(node('Wall A').extras).toEqual({
+      localId: 7,
+      globalId: '2O2Fr$t4X7Zf8NOew3FLOH',
+      ifcClass: 'IFCWALL',
+    });
+    // Unnamed elements are named after their class
+    expect(node('IFCSLAB 8').extras).toEqual({ localId: 8, ifcClass: 'IFCSLAB' });
+    // One primitive per part of the wall, sharing materials across elements
+    expect(json.meshes[node('Wall A').mesh].primitives.length).toBe(2);
+    expect(json.materials.length).toBe(2);
+    expect(json.materials[1].doubleSided).toBeTrue();
+  });
+
+  it('should export only the selected elements', async () => {
+    selectedByModel.set(new Map([['frag-a', [8]]]));
+
+    const json = readJson(await service.exportSelection());
+
+    expect(mockFragmentsService.getElementsGeometry).toHaveBeenCalledWith('frag-a', [8]);
+    expect(json.nodes.map((item: { name: string }) => item.name)).not.toContain('Wall A');
+  });
+
+  it('should refuse to export nothing', async () => {
+    await expectAsync(service.exportSelection()).toBeRejectedWithError('Nothing to export');
+  });
+});
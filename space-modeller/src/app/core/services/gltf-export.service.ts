@@ -0,0 +1,199 @@
+import { Injectable, inject } from '@angular/core';
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { FragmentsService } from './fragments.service';
+import { ModelRegistryService } from './model-registry.service';
+import { SelectionService } from './selection.service';
+import { GLTF_EXPORT_CONFIG } from '../../shared/constants/viewer.constants';
+import { ElementGeometry, PartMaterial } from '../../shared/models/viewer.model';
+
+/**
+ * Export of models and selections to binary glTF (GLB), for tools that cannot read fragments
+ * Each model becomes a node holding one node per element, named after the element and
+ * carrying its GlobalId, local ID and IFC class in its extras. Element parts keep their
+ * original colours; colour overrides, highlights and hidden elements do not carry over
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class GltfExportService {
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly modelRegistry = inject(ModelRegistryService);
+  private readonly selection = inject(SelectionService);
+
+  /**
+   * Export every element of some models
+   * @param modelIds Fragments model IDs
+   * @returns GLB file content
+   */
+  async exportModels(modelIds: string[]): Promise<ArrayBuffer> {
+    const byModel = new Map<string, number[]>();
+    for (const modelId of modelIds) {
+      byModel.set(modelId, await this.fragmentsService.getElementIds(modelId));
+    }
+    return this.exportElements(byModel);
+  }
+
+  /**
+   * Export the selected elements
+   * @returns GLB file content
+   */
+  exportSelection(): Promise<ArrayBuffer> {
+    return this.exportElements(this.selection.selectedByModel());
+  }
+
+  /**
+   * Helper: Build a scene of the elements, model by model, and write it as GLB
+   */
+  private async exportElements(byModel: ReadonlyMap<string, number[]>): Promise<ArrayBuffer> {
+    const root = new THREE.Group();
+    root.name = 'Export';
+    const materials = new Map<string, THREE.MeshStandardMaterial>();
+
+    try {
+      for (const [modelId, localIds] of byModel) {
+        const node = await this.buildModel(modelId, localIds, materials);
+        if (node.children.length > 0) {
+          root.add(node);
+        }
+      }
+      if (root.children.length === 0) {
+        throw new Error('Nothing to export');
+      }
+
+      const result = await new GLTFExporter().parseAsync(root, { binary: true });
+      return result as ArrayBuffer;
+    } finally {
+      root.traverse((object) => {
+        if (object instanceof THREE.Mesh) {
+          object.geometry.dispose();
+        }
+      });
+      materials.forEach((material) => material.dispose());
+    }
+  }
+
+  /**
+   * Helper: Build the node of a model with a node per element
+   * Geometry is read in batches, so large models do not pass through the worker at once
+   * @param materials Materials shared across models, by appearance
+   */
+  private async buildModel(
+    modelId: string,
+    localIds: number[],
+    materials: Map<string, THREE.MeshStandardMaterial>
+  ): Promise<THREE.Group> {
+    const node = new THREE.Group();
+    node.name =
+      this.modelRegistry.models().find((model) => model.fragmentUuid === modelId)?.name ?? modelId;
+
+    for (let start = 0; start < localIds.length; start += GLTF_EXPORT_CONFIG.batchSize) {
+      const batch = localIds.slice(start, start + GLTF_EXPORT_CONFIG.batchSize);
+      const parts = await this.fragmentsService.getElementsGeometry(modelId, batch);
+      const sampleIds = parts.flatMap((part) => part.sampleId ?? []);
+      const [names, categories, globalIds, partMaterials] = await Promise.all([
+        this.fragmentsService.getItemNames(modelId, batch),
+        this.fragmentsService.getItemCategories(modelId, batch),
+        this.fragmentsService.getGlobalIds(modelId, batch),
+        this.fragmentsService.getPartMaterials(modelId, [...new Set(sampleIds)]),
+      ]);
+
+      const partsByElement = new Map<number, ElementGeometry[]>();
+      for (const part of parts) {
+        const elementParts = partsByElement.get(part.localId) ?? [];
+        elementParts.push(part);
+        partsByElement.set(part.localId, elementParts);
+      }
+      const getPartMaterial = (part: ElementGeometry) =>
+        getMaterial(
+          materials,
+          part.sampleId === undefined ? undefined : partMaterials.get(part.sampleId)
+        );
+
+      partsByElement.forEach((elementParts, localId) => {
+        const category = categories.get(localId);
+        const element = buildElement(elementParts, getPartMaterial);
+        element.name = names.get(localId) ?? `${category ?? 'Element'} ${localId}`;
+        element.userData = {
+          localId,
+          ...(globalIds.has(localId) && { globalId: globalIds.get(localId) }),
+          ...(category && { ifcClass: category }),
+        };
+        node.add(element);
+      });
+    }
+    return node;
+  }
+}
+
+/**
+ * Helper: Build the object of an element, one mesh with a primitive per part where possible
+ */
+function buildElement(
+  parts: ElementGeometry[],
+  getPartMaterial: (part: ElementGeometry) => THREE.MeshStandardMaterial
+): THREE.Object3D {
+  const geometries = parts.map((part) => toExportGeometry(part.geometry));
+  if (geometries.length === 1) {
+    return new THREE.Mesh(geometries[0]!, getPartMaterial(parts[0]!));
+  }
+
+  const merged = mergeGeometries(geometries, true);
+  if (merged) {
+    geometries.forEach((geometry) => geometry.dispose());
+    return new THREE.Mesh(merged, parts.map(getPartMaterial));
+  }
+
+  // Parts that cannot be merged stay separate meshes under the element
+  const group = new THREE.Group();
+  geometries.forEach((geometry, index) =>
+    group.add(new THREE.Mesh(geometry, getPartMaterial(parts[index]!)))
+  );
+  return group;
+}
+
+/**
+ * Helper: Prepare part triangles for glTF, which requires float normals
+ */
+function toExportGeometry(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
+  const normal = geometry.getAttribute('normal');
+  if (!normal) {
+    geometry.computeVertexNormals();
+  } else if (!(normal.array instanceof Float32Array)) {
+    const normals = new Float32Array(normal.count * 3);
+    for (let index = 0; index < normal.count; index++) {
+      normals.set([normal.getX(index), normal.getY(index), normal.getZ(index)], index * 3);
+    }
+    geometry.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+  }
+  return geometry;
+}
+
+/**
+ * Helper: Get the shared material of an appearance, creating it on first use
+ * @param appearance Original part material; grey when unknown
+ */
+function getMaterial(
+  materials: Map<string, THREE.MeshStandardMaterial>,
+  appearance: PartMaterial | undefined
+): THREE.MeshStandardMaterial {
+  const { color, opacity, doubleSided } = appearance ?? {
+    color: GLTF_EXPORT_CONFIG.defaultColor,
+    opacity: 1,
+    doubleSided: false,
+  };
+  const key = `${color} ${Math.round(opacity * 100)}%${doubleSided ? ' double-sided' : ''}`;
+  let material = materials.get(key);
+  if (!material) {
+    material = new THREE.MeshStandardMaterial({
+      name: key,
+      color,
+      opacity,
+      transparent: opacity < 1,
+      side: doubleSided ? THREE.DoubleSide : THREE.FrontSide,
+    });
+    materials.set(key, material);
+  }
+  return material;
+}
@@ -0,0 +1,153 @@
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+import { LightingService } from './lighting.service';
+import { FragmentsService } from './fragments.service';
+import { LIGHTING_CONFIG, LIGHTING_PRESETS } from '../../shared/constants/viewer.constants';
+import { ViewerContext } from '../../shared/models/viewer.model';
+
+describe('LightingService', () => {
+  let service: LightingService;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+  let meshListener: { added(mesh: THREE.Mesh): void; removed(mesh: THREE.Mesh): void };
+  let context: ViewerContext;
+  let camera: THREE.PerspectiveCamera;
+
+  const sunLights = () =>
+    context.scene
+      .getObjectByName('Lighting')!
+      .children.filter((child): child is THREE.DirectionalLight => child.name === 'SunLight');
+  const keyLight = () => context.scene.getObjectByName('KeyLight') as THREE.DirectionalLight;
+
+  beforeEach(() => {
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', [
+      'watchMeshes',
+      'getModelsBox',
+      'getSiteLocation',
+    ]);
+    mockFragmentsService.watchMeshes.and.callFake((listener) => {
+      meshListener = listener;
+      return () => {};
+    });
+    mockFragmentsService.getModelsBox.and.returnValue(
+      new THREE.Box3(new THREE.Vector3(-10, 0, -10), new THREE.Vector3(10, 10, 10))
+    );
+    // Rendering the environment needs WebGL
+    spyOn(THREE.PMREMGenerator.prototype, 'fromEquirectangular').and.callFake(
+      () => new THREE.WebGLRenderTarget(1, 1)
+    );
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: FragmentsService, useValue: mockFragmentsService }],
+    });
+    service = TestBed.inject(LightingService);
+
+    camera = new THREE.PerspectiveCamera(60, 1, 0.1, 1000);
+    camera.position.set(30, 30, 30);
+    camera.lookAt(0, 0, 0);
+    context = {
+      scene: new THREE.Scene(),
+      renderer: {
+        shadowMap: { enabled: false, type: THREE.PCFShadowMap },
+        compile: () => undefined,
+      } as unknown as THREE.WebGLRenderer,
+      controls: {} as any,
+      canvas: document.createElement('canvas'),
+      getCamera: () => camera,
+    };
+    service.attach(context);
+  });
+
+  afterEach(() => service.detach());
+
+  it('should light the scene with the studio preset and a procedural environment', () => {
+    expect(service.preset()).toBe('studio');
+    expect(keyLight().visible).toBeTrue();
+    expect(keyLight().intensity).toBe(LIGHTING_PRESETS.studio.key.intensity);
+    expect(context.scene.getObjectByName('EnvironmentLight')).toBeDefined();
+    expect(context.scene.environment).not.toBeNull();
+    expect(context.renderer.shadowMap.enabled).toBeFalse();
+  });
+
+  it('should cast cascaded shadows from the sun in daylight, until turned off', () => {
+    service.setPreset('daylight');
+
+    expect(service.shadows()).toBeTrue();
+    expect(context.renderer.shadowMap.enabled).toBeTrue();
+    expect(sunLights().length).toBe(LIGHTING_CONFIG.cascades);
+    expect(keyLight().visible).toBeFalse();
+
+    service.setShadows(false);
+
+    expect(sunLights().length).toBe(0);
+    expect(keyLight().visible).toBeTrue();
+  });
+
+  it('should set up model materials for the shadows and fit the cascades to the models', () => {
+    const material = new THREE.MeshLambertMaterial();
+    // Set by the cascades, untyped on built-in materials
+    const defines = () => (material as unknown as THREE.ShaderMaterial).defines;
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry(), [material]);
+    meshListener.added(mesh);
+    service.setPreset('daylight');
+
+    service.update();
+
+    expect(mesh.castShadow).toBeTrue();
+    expect(mesh.receiveShadow).toBeTrue();
+    expect(defines()?.['USE_CSM']).toBe(1);
+    const far = Math.max(...sunLights().map((light) => light.shadow.camera.far));
+    expect(far).toBeLessThan(camera.far);
+
+    service.setShadows(false);
+    expect(defines()?.['USE_CSM']).toBeUndefined();
+  });
+
+  it('should forget the meshes of unloaded models and refit the cascades', () => {
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshLambertMaterial());
+    meshListener.added(mesh);
+    service.setPreset('daylight');
+    service.update();
+    const far = () => Math.max(...sunLights().map((light) => light.shadow.camera.far));
+    const fittedFar = far();
+
+    mockFragmentsService.getModelsBox.and.returnValue(
+      new THREE.Box3(new THREE.Vector3(-1, 0, -1), new THREE.Vector3(1, 1, 1))
+    );
+    meshListener.removed(mesh);
+    const material = new THREE.MeshLambertMaterial();
+    mesh.material = material;
+    service.update();
+
+    expect(far()).toBeLessThan(fittedFar);
+    expect((material as unknown as THREE.ShaderMaterial).defines?.['USE_CSM']).toBeUndefined();
+  });
+
+  it('should follow the sun and put it out at night', () => {
+    service.setLocation({ latitude: 51.48, longitude: 0 });
+    service.setPreset('daylight');
+    service.setShadows(false);
+
+    service.setSunTime('2024-06-21', 12 * 60);
+    expect(service.sun().altitude).toBeGreaterThan(50);
+    expect(keyLight().intensity).toBe(LIGHTING_PRESETS.daylight.key.intensity);
+    expect(keyLight().position.y).toBeGreaterThan(0);
+
+    service.setSunTime('2024-06-21', 0);
+    expect(service.sun().altitude).toBeLessThan(0);
+    expect(keyLight().intensity).toBe(0);
+
+    service.setSunTime('not a date', 600);
+    expect(service.sunDate()).toBe('2024-06-21');
+  });
+
+  it('should place the sun for the site of a loaded model', async () => {
+    mockFragmentsService.getSiteLocation.and.returnValue(
+      Promise.resolve({ latitude: 40.7, longitude: -74 })
+    );
+
+    await service.useModelLocation('frag-a');
+
+    expect(mockFragmentsService.getSiteLocation).toHaveBeenCalledWith('frag-a');
+    expect(service.location()).toEqual({ latitude: 40.7, longitude: -74 });
+  });
+});
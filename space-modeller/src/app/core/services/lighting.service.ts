@@ -0,0 +1,397 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import * as THREE from 'three';
+import { CSM } from 'three/examples/jsm/csm/CSM.js';
+import { FragmentsService } from './fragments.service';
+import { RenderLoopService } from './render-loop.service';
+import { LIGHTING_CONFIG, LIGHTING_PRESETS } from '../../shared/constants/viewer.constants';
+import { GeoLocation, LightingPreset, ViewerContext } from '../../shared/models/viewer.model';
+import {
+  getIrradianceCoefficients,
+  getSiteInstant,
+  getSkyPixels,
+  getSunDirection,
+  getSunPosition,
+} from '../../shared/utils/lighting.utils';
+
+/**
+ * Lighting of the viewer's scene: studio, daylight and night presets, a sun
+ * placed for a date, time and location, cascaded shadows fitted to the
+ * models and a procedural environment
+ * The environment lights the models through a light probe, and reflective
+ * materials through the scene environment map
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class LightingService {
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly renderLoop = inject(RenderLoopService);
+
+  private context: ViewerContext | null = null;
+  private stopWatching: (() => void) | null = null;
+  private readonly meshes = new Set<THREE.Mesh>();
+  private readonly rig = new THREE.Group();
+  private readonly key = new THREE.DirectionalLight();
+  private readonly fill = new THREE.DirectionalLight();
+  private readonly probe = new THREE.LightProbe();
+  private environment: THREE.WebGLRenderTarget | null = null;
+  private csm: CSM | null = null;
+
+  // Model bounds the shadows are fitted to, recomputed when meshes come and go
+  private bounds = new THREE.Box3();
+  private boundsDirty = true;
+  // Camera projection the cascades were last split for
+  private readonly projection = new THREE.Matrix4();
+
+  private readonly presetState = signal<LightingPreset>(LIGHTING_CONFIG.defaultPreset);
+  private readonly shadowsState = signal(LIGHTING_PRESETS[LIGHTING_CONFIG.defaultPreset].shadows);
+  private readonly locationState = signal<GeoLocation>(LIGHTING_CONFIG.defaultLocation);
+  private readonly sunDateState = signal(today());
+  private readonly sunTimeState = signal(LIGHTING_CONFIG.defaultSunTime);
+
+  /** Current lighting preset */
+  readonly preset = this.presetState.asReadonly();
+
+  /** Whether the key light casts shadows */
+  readonly shadows = this.shadowsState.asReadonly();
+
+  /** Location the sun is placed for */
+  readonly location = this.locationState.asReadonly();
+
+  /** Date the sun is placed for (YYYY-MM-DD) */
+  readonly sunDate = this.sunDateState.asReadonly();
+
+  /** Clock time at the location the sun is placed for (minutes since midnight) */
+  readonly sunTime = this.sunTimeState.asReadonly();
+
+  /** Position of the sun for the date, time and location */
+  readonly sun = computed(() => {
+    const location = this.locationState();
+    return getSunPosition(
+      getSiteInstant(this.sunDateState(), this.sunTimeState(), location),
+      location
+    );
+  });
+
+  /**
+   * Light the viewer's scene
+   * Call after the fragments service is initialized, before any model is loaded
+   */
+  attach(context: ViewerContext): void {
+    this.context = context;
+    this.rig.name = 'Lighting';
+    this.key.name = 'KeyLight';
+    this.fill.name = 'FillLight';
+    this.probe.name = 'EnvironmentLight';
+    this.rig.add(this.key, this.fill, this.probe);
+    context.scene.add(this.rig);
+    context.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+
+    this.stopWatching = this.fragmentsService.watchMeshes({
+      added: (mesh) => {
+        mesh.castShadow = true;
+        mesh.receiveShadow = true;
+        this.meshes.add(mesh);
+        this.boundsDirty = true;
+      },
+      removed: (mesh) => {
+        this.meshes.delete(mesh);
+        this.boundsDirty = true;
+      },
+    });
+    this.updateEnvironment();
+    this.updateShadows();
+  }
+
+  /**
+   * Remove the lights, shadows and environment from the scene
+   */
+  detach(): void {
+    this.stopWatching?.();
+    this.stopWatching = null;
+    this.removeShadows();
+    this.meshes.clear();
+    this.rig.removeFromParent();
+    const scene = this.context?.scene;
+    if (scene && scene.environment === this.environment?.texture) {
+      scene.environment = null;
+    }
+    this.environment?.dispose();
+    this.environment = null;
+    this.context = null;
+  }
+
+  /**
+   * Switch to a lighting preset, with its own shadow setting
+   */
+  setPreset(preset: LightingPreset): void {
+    this.presetState.set(preset);
+    this.shadowsState.set(LIGHTING_PRESETS[preset].shadows);
+    this.updateEnvironment();
+    this.updateShadows();
+  }
+
+  /**
+   * Turn the key light's shadows on or off
+   */
+  setShadows(enabled: boolean): void {
+    this.shadowsState.set(enabled);
+    this.updateShadows();
+  }
+
+  /**
+   * Place the sun for another location
+   * Latitudes are kept within ±90° and longitudes within ±180°
+   */
+  setLocation(location: GeoLocation): void {
+    if (!Number.isFinite(location.latitude) || !Number.isFinite(location.longitude)) {
+      return;
+    }
+
+    this.locationState.set({
+      latitude: Math.min(90, Math.max(-90, location.latitude)),
+      longitude: Math.min(180, Math.max(-180, location.longitude)),
+    });
+    this.updateLights();
+  }
+
+  /**
+   * Place the sun for another date and clock time at the location
+   * @param date Calendar date as YYYY-MM-DD; kept unchanged if unreadable
+   * @param minutes Minutes since midnight
+   */
+  setSunTime(date: string, minutes: number): void {
+    if (Number.isNaN(getSiteInstant(date, 0, this.locationState()).getTime())) {
+      return;
+    }
+
+    this.sunDateState.set(date);
+    this.sunTimeState.set(Math.min(24 * 60 - 1, Math.max(0, Math.round(minutes))));
+    this.updateLights();
+  }
+
+  /**
+   * Place the sun for the site of a model, if its site is geo-referenced
+   * @param modelId Fragments model ID
+   */
+  async useModelLocation(modelId: string): Promise<void> {
+    try {
+      const location = await this.fragmentsService.getSiteLocation(modelId);
+      if (location) {
+        this.setLocation(location);
+      }
+    } catch (error) {
+      console.warn(`Failed to read the site location of model ${modelId}:`, error);
+    }
+  }
+
+  /**
+   * Keep the shadow cascades fitted to the camera and the models
+   * Call every frame before rendering
+   */
+  update(): void {
+    const csm = this.csm;
+    if (!this.context || !csm) {
+      return;
+    }
+
+    // Materials are only shadowed by the cascades once set up for them, and
+    // fragments adds materials as elements are highlighted
+    this.meshes.forEach((mesh) => {
+      const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+      for (const material of materials) {
+        if (isLitMaterial(material) && !csm.shaders.has(material)) {
+          csm.setupMaterial(material);
+          material.needsUpdate = true;
+        }
+      }
+    });
+    this.fitShadows(csm, this.context.getCamera());
+    csm.update();
+  }
+
+  /**
+   * Helper: Set the lights for the preset and the sun position
+   */
+  private updateLights(): void {
+    const { key, fill, environment } = LIGHTING_PRESETS[this.presetState()];
+    const { sunFadeAltitude, nightSky } = LIGHTING_CONFIG;
+    const sun = key.direction === 'sun' ? this.sun() : null;
+    const daylight = sun ? Math.min(1, Math.max(0, sun.altitude / sunFadeAltitude)) : 1;
+    const direction = new THREE.Vector3().copy(
+      key.direction === 'sun' ? getSunDirection(this.sun()) : key.direction
+    );
+    const intensity = key.intensity * daylight;
+    const skyLight = sun ? nightSky + (1 - nightSky) * daylight : 1;
+
+    this.key.color.set(key.color);
+    this.key.intensity = intensity;
+    this.key.position.copy(direction);
+    this.key.visible = !this.csm;
+    this.fill.color.set(fill.color);
+    this.fill.intensity = fill.intensity;
+    this.fill.position.copy(fill.direction);
+    this.probe.intensity = environment.intensity * skyLight;
+    if (this.context) {
+      this.context.scene.environmentIntensity = environment.intensity * skyLight;
+    }
+
+    if (this.csm) {
+      this.csm.lightDirection.copy(direction).normalize().negate();
+      this.csm.lights.forEach((light) => {
+        light.color.set(key.color);
+        light.intensity = intensity;
+      });
+    }
+    this.renderLoop.requestRender();
+  }
+
+  /**
+   * Helper: Paint the preset's sky and light the scene with it
+   */
+  private updateEnvironment(): void {
+    const context = this.context;
+    if (!context) {
+      return;
+    }
+
+    const { sky, horizon, ground } = LIGHTING_PRESETS[this.presetState()].environment;
+    const width = LIGHTING_CONFIG.environmentWidth;
+    const height = width / 2;
+    const pixels = getSkyPixels(
+      { sky: toLinear(sky), horizon: toLinear(horizon), ground: toLinear(ground) },
+      width,
+      height
+    );
+    this.probe.sh.fromArray(getIrradianceCoefficients(pixels, width, height));
+
+    const texture = new THREE.DataTexture(pixels, width, height, THREE.RGBAFormat, THREE.FloatType);
+    texture.mapping = THREE.EquirectangularReflectionMapping;
+    texture.needsUpdate = true;
+    const generator = new THREE.PMREMGenerator(context.renderer);
+    const environment = generator.fromEquirectangular(texture);
+    generator.dispose();
+    texture.dispose();
+
+    this.environment?.dispose();
+    this.environment = environment;
+    context.scene.environment = environment.texture;
+    this.updateLights();
+  }
+
+  /**
+   * Helper: Create or remove the shadow cascades as shadows are turned on or off
+   */
+  private updateShadows(): void {
+    const context = this.context;
+    const enabled = context !== null && this.shadowsState();
+    if (enabled && !this.csm) {
+      const { cascades, shadowMapSize, shadowBias, shadowNormalBias } = LIGHTING_CONFIG;
+      this.csm = new CSM({
+        camera: context.getCamera(),
+        parent: this.rig,
+        cascades,
+        shadowMapSize,
+        shadowBias,
+      });
+      this.csm.lights.forEach((light) => {
+        light.name = 'SunLight';
+        light.shadow.normalBias = shadowNormalBias;
+      });
+      // Fitted on the next update
+      this.projection.identity();
+    } else if (!enabled) {
+      this.removeShadows();
+    }
+
+    if (context) {
+      context.renderer.shadowMap.enabled = enabled;
+    }
+    this.updateLights();
+  }
+
+  /**
+   * Helper: Remove the shadow cascades and set the model materials back
+   */
+  private removeShadows(): void {
+    this.csm?.remove();
+    this.csm?.dispose();
+    this.csm?.lights.forEach((light) => light.dispose());
+    this.csm = null;
+  }
+
+  /**
+   * Helper: Split the cascades over the part of the view the models fill, and
+   * reach the shadow cameras across the models
+   */
+  private fitShadows(csm: CSM, camera: THREE.PerspectiveCamera | THREE.OrthographicCamera): void {
+    if (this.boundsDirty) {
+      this.bounds = this.fragmentsService.getModelsBox();
+      this.boundsDirty = false;
+    }
+    if (this.bounds.isEmpty()) {
+      return;
+    }
+
+    // Farthest model corner in front of the camera
+    camera.updateMatrixWorld();
+    const { min, max } = this.bounds;
+    const corner = new THREE.Vector3();
+    let depth = 0;
+    for (let index = 0; index < 8; index++) {
+      corner.set(
+        index & 1 ? max.x : min.x,
+        index & 2 ? max.y : min.y,
+        index & 4 ? max.z : min.z
+      );
+      depth = Math.max(depth, -corner.applyMatrix4(camera.matrixWorldInverse).z);
+    }
+    const far = Math.min(camera.far, Math.max(camera.near * 2, depth));
+    const size = this.bounds.getSize(corner).length();
+
+    const changed =
+      csm.camera !== camera ||
+      !this.projection.equals(camera.projectionMatrix) ||
+      Math.abs(far - csm.maxFar) > far * 0.05 ||
+      size !== csm.lightMargin;
+    if (!changed) {
+      return;
+    }
+
+    csm.camera = camera;
+    csm.maxFar = far;
+    // Lights stand back by the size of the models, so everything between them and
+    // the view casts its shadow
+    csm.lightMargin = size;
+    csm.lights.forEach((light) => (light.shadow.camera.far = 2 * (size + far)));
+    csm.updateFrustums();
+    this.projection.copy(camera.projectionMatrix);
+  }
+}
+
+/**
+ * Helper: Whether a material is lit, and so shadowed by the cascades once set up
+ */
+function isLitMaterial(material: THREE.Material): boolean {
+  return (
+    material instanceof THREE.MeshLambertMaterial ||
+    material instanceof THREE.MeshPhongMaterial ||
+    material instanceof THREE.MeshStandardMaterial
+  );
+}
+
+/**
+ * Helper: Linear RGB of a colour
+ */
+function toLinear(color: string): number[] {
+  return new THREE.Color(color).toArray();
+}
+
+/**
+ * Helper: Today's date as YYYY-MM-DD
+ */
+function today(): string {
+  const date = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,179 @@
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+import { MeasurementService } from './measurement.service';
+import { StoreyLevel, ViewerContext } from '../../shared/models/viewer.model';
+
+describe('MeasurementService', () => {
+  let service: MeasurementService;
+  let context: ViewerContext;
+
+  const sceneNames = () => {
+    const names: string[] = [];
+    context.scene.traverse((object) => names.push(object.name));
+    return names;
+  };
+
+  const storey: StoreyLevel = {
+    modelId: 'arch',
+    localId: 12,
+    name: 'Level 1',
+    elevation: 3,
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+
+    service = TestBed.inject(MeasurementService);
+    context = {
+      scene: new THREE.Scene(),
+      renderer: {} as THREE.WebGLRenderer,
+      controls: {} as any,
+      canvas: document.createElement('canvas'),
+      getCamera: () => new THREE.PerspectiveCamera(),
+    };
+    service.attach(context);
+  });
+
+  afterEach(() => {
+    service.detach();
+  });
+
+  it('should ignore points while no tool is active', () => {
+    expect(service.addPoint({ x: 0, y: 0, z: 0 })).toBeNull();
+    expect(service.draft()).toEqual([]);
+  });
+
+  describe('distance', () => {
+    beforeEach(() => service.setTool('distance'));
+
+    it('should finish on the second point', () => {
+      expect(service.addPoint({ x: 0, y: 0, z: 0 })).toBeNull();
+      const measurement = service.addPoint({ x: 3, y: 4, z: 0 });
+
+      expect(measurement?.value).toBeCloseTo(5);
+      expect(measurement?.label).toBe('5.00 m');
+      expect(service.measurements().length).toBe(1);
+      expect(service.draft()).toEqual([]);
+      expect(sceneNames()).toContain(`Measurement:${measurement!.id}`);
+    });
+
+    it('should ignore a repeated click on the same point', () => {
+      service.addPoint({ x: 1, y: 1, z: 1 });
+      service.addPoint({ x: 1, y: 1, z: 1 });
+
+      expect(service.draft().length).toBe(1);
+      expect(service.measurements()).toEqual([]);
+    });
+  });
+
+  describe('polyline and area', () => {
+    const square = [
+      { x: 0, y: 0, z: 0 },
+      { x: 2, y: 0, z: 0 },
+      { x: 2, y: 0, z: 2 },
+      { x: 0, y: 0, z: 2 },
+    ];
+
+    it('should keep collecting points until finished', () => {
+      service.setTool('polyline');
+      square.forEach((point) => service.addPoint(point));
+
+      expect(service.measurements()).toEqual([]);
+      expect(service.canFinish()).toBeTrue();
+
+      const measurement = service.finish();
+      expect(measurement?.value).toBeCloseTo(6);
+      expect(service.measurements().length).toBe(1);
+    });
+
+    it('should not finish an area with fewer than three points', () => {
+      service.setTool('area');
+      service.addPoint(square[0]!);
+      service.addPoint(square[1]!);
+
+      expect(service.canFinish()).toBeFalse();
+      expect(service.finish()).toBeNull();
+      expect(service.draft().length).toBe(2);
+    });
+
+    it('should measure the enclosed area', () => {
+      service.setTool('area');
+      square.forEach((point) => service.addPoint(point));
+
+      expect(service.finish()?.label).toBe('4.00 m²');
+    });
+  });
+
+  describe('elevation', () => {
+    beforeEach(() => service.setTool('elevation'));
+
+    it('should measure from the origin without a reference storey', () => {
+      const measurement = service.addPoint({ x: 1, y: 4.5, z: 1 });
+
+      expect(measurement?.value).toBeCloseTo(4.5);
+      expect(measurement?.reference).toBeUndefined();
+    });
+
+    it('should measure from the reference storey', () => {
+      service.setReference(storey);
+
+      const measurement = service.addPoint({ x: 1, y: 4.5, z: 1 });
+
+      expect(measurement?.label).toBe('+1.50 m');
+      expect(measurement?.reference).toEqual({ name: 'Level 1', elevation: 3 });
+    });
+  });
+
+  it('should discard the draft when switching tools', () => {
+    service.setTool('polyline');
+    service.addPoint({ x: 0, y: 0, z: 0 });
+
+    service.setTool('angle');
+
+    expect(service.draft()).toEqual([]);
+    expect(service.tool()).toBe('angle');
+  });
+
+  it('should preview the snapped point while measuring', () => {
+    service.setTool('distance');
+
+    service.setPreview({ modelId: 'arch', localId: 1, point: { x: 0, y: 0, z: 0 }, distance: 5, snap: 'vertex' });
+    expect(sceneNames()).toContain('MeasurementPreview');
+
+    service.setPreview(null);
+    expect(sceneNames()).not.toContain('MeasurementPreview');
+  });
+
+  it('should delete a measurement and its annotation', () => {
+    service.setTool('elevation');
+    const measurement = service.addPoint({ x: 0, y: 1, z: 0 })!;
+
+    service.deleteMeasurement(measurement.id);
+
+    expect(service.measurements()).toEqual([]);
+    expect(sceneNames()).not.toContain(`Measurement:${measurement.id}`);
+  });
+
+  it('should remove every annotation on clear', () => {
+    service.setTool('elevation');
+    service.addPoint({ x: 0, y: 1, z: 0 });
+    service.addPoint({ x: 0, y: 2, z: 0 });
+
+    service.clear();
+
+    expect(service.measurements()).toEqual([]);
+    expect(sceneNames().filter((name) => name.startsWith('Measurement:'))).toEqual([]);
+  });
+
+  it('should export the finished measurements as JSON', () => {
+    service.setTool('distance');
+    service.addPoint({ x: 0, y: 0, z: 0 });
+    service.addPoint({ x: 0, y: 0, z: 2 });
+
+    const exported = JSON.parse(service.exportJson());
+
+    expect(exported.measurements.length).toBe(1);
+    expect(exported.measurements[0].kind).toBe('distance');
+    expect(exported.measurements[0].value).toBeCloseTo(2);
+  });
+});
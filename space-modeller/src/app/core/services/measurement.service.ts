@@ -0,0 +1,398 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import * as THREE from 'three';
+import { RenderLoopService } from './render-loop.service';
+import { MEASUREMENT_CONFIG } from '../../shared/constants/viewer.constants';
+import {
+  Measurement,
+  MeasurementKind,
+  SnapResult,
+  StoreyLevel,
+  Vector3Like,
+  ViewerContext,
+} from '../../shared/models/viewer.model';
+import {
+  canFinishMeasurement,
+  formatMeasurement,
+  getDistance,
+  getLabelPosition,
+  getMeasurementValue,
+  getRequiredPoints,
+  measurementsToJson,
+} from '../../shared/utils/measurement.utils';
+
+// Annotations are drawn over the model
+const ANNOTATION_RENDER_ORDER = 999;
+
+// Points closer than this are the same click (e.g. the second click of a double-click)
+const DUPLICATE_POINT_DISTANCE = 1e-4;
+
+/**
+ * Distance, polyline, area, angle and elevation measurements
+ * Points are collected into a draft for the active tool; the draft becomes a labelled
+ * annotation once the tool has its points or the user finishes it
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class MeasurementService {
+  private readonly renderLoop = inject(RenderLoopService);
+
+  private readonly measurementsState = signal<Measurement[]>([]);
+  private readonly toolState = signal<MeasurementKind | null>(null);
+  private readonly draftState = signal<Vector3Like[]>([]);
+  private readonly referenceState = signal<StoreyLevel | null>(null);
+
+  private context: ViewerContext | null = null;
+  private readonly annotations = new THREE.Group();
+  private readonly annotationObjects = new Map<string, THREE.Object3D>();
+  private draftObject: THREE.Object3D | null = null;
+  private previewObject: THREE.Object3D | null = null;
+
+  /** Finished measurements, oldest first */
+  readonly measurements = this.measurementsState.asReadonly();
+
+  /** Active tool, or null when not measuring */
+  readonly tool = this.toolState.asReadonly();
+
+  /** Points of the measurement in progress */
+  readonly draft = this.draftState.asReadonly();
+
+  /** Storey elevations are measured from; null measures from the origin */
+  readonly reference = this.referenceState.asReadonly();
+
+  /** Whether the measurement in progress can be finished */
+  readonly canFinish = computed(() => {
+    const tool = this.toolState();
+    return !!tool && canFinishMeasurement(tool, this.draftState());
+  });
+
+  /**
+   * Start drawing annotations into the viewer's scene
+   */
+  attach(context: ViewerContext): void {
+    this.context = context;
+    this.annotations.name = 'Measurements';
+    context.scene.add(this.annotations);
+  }
+
+  /**
+   * Remove all annotations from the scene (the viewer is being destroyed)
+   */
+  detach(): void {
+    [...this.annotations.children].forEach(disposeAnnotation);
+    this.annotationObjects.clear();
+    this.draftObject = null;
+    this.previewObject = null;
+    this.annotations.removeFromParent();
+    this.context = null;
+    this.measurementsState.set([]);
+    this.draftState.set([]);
+    this.toolState.set(null);
+  }
+
+  /**
+   * Switch tools; the measurement in progress is discarded
+   * @param kind Tool to use, or null to stop measuring
+   */
+  setTool(kind: MeasurementKind | null): void {
+    this.cancelDraft();
+    this.toolState.set(kind);
+  }
+
+  /**
+   * Measure elevations from a storey level, or from the origin
+   */
+  setReference(storey: StoreyLevel | null): void {
+    this.referenceState.set(storey);
+  }
+
+  /**
+   * Add a point to the measurement in progress
+   * Tools with a fixed number of points finish on their last point
+   * @returns The finished measurement, if this point completed one
+   */
+  addPoint(point: Vector3Like): Measurement | null {
+    const tool = this.toolState();
+    const last = this.draftState().at(-1);
+    if (!tool || (last && getDistance(last, point) <= DUPLICATE_POINT_DISTANCE)) {
+      return null;
+    }
+
+    this.draftState.update((points) => [...points, { x: point.x, y: point.y, z: point.z }]);
+    if (this.draftState().length === getRequiredPoints(tool)) {
+      return this.finish();
+    }
+
+    this.redrawDraft();
+    return null;
+  }
+
+  /**
+   * Show where the next point would go, or hide the preview
+   */
+  setPreview(snap: SnapResult | null): void {
+    this.removePreview();
+    this.renderLoop.requestRender();
+    const last = this.draftState().at(-1);
+    if (!snap || !this.toolState()) {
+      return;
+    }
+
+    const preview = new THREE.Group();
+    preview.name = 'MeasurementPreview';
+    preview.add(createMarkers([snap.point], MEASUREMENT_CONFIG.snapColors[snap.snap]));
+    if (last) {
+      preview.add(createLine([last, snap.point], MEASUREMENT_CONFIG.color, false));
+    }
+    this.previewObject = preview;
+    this.annotations.add(preview);
+  }
+
+  /**
+   * Turn the measurement in progress into a finished measurement
+   * @returns The measurement, or null if there are not enough points yet
+   */
+  finish(): Measurement | null {
+    const tool = this.toolState();
+    const points = dropRepeatedPoints(this.draftState());
+    if (!tool || !canFinishMeasurement(tool, points)) {
+      return null;
+    }
+
+    const reference = tool === 'elevation' ? this.referenceState() : null;
+    const value = getMeasurementValue(tool, points, reference?.elevation ?? 0);
+    const measurement: Measurement = {
+      id: crypto.randomUUID(),
+      kind: tool,
+      points,
+      value,
+      label: formatMeasurement(tool, value),
+      ...(reference && { reference: { name: reference.name, elevation: reference.elevation } }),
+    };
+
+    this.cancelDraft();
+    this.measurementsState.update((measurements) => [...measurements, measurement]);
+    this.addAnnotation(measurement);
+    return measurement;
+  }
+
+  /**
+   * Discard the measurement in progress
+   */
+  cancelDraft(): void {
+    this.draftState.set([]);
+    this.redrawDraft();
+    this.removePreview();
+  }
+
+  /**
+   * Delete a finished measurement
+   */
+  deleteMeasurement(id: string): void {
+    const object = this.annotationObjects.get(id);
+    if (object) {
+      disposeAnnotation(object);
+      this.annotationObjects.delete(id);
+      this.renderLoop.requestRender();
+    }
+    this.measurementsState.update((measurements) =>
+      measurements.filter((measurement) => measurement.id !== id)
+    );
+  }
+
+  /**
+   * Delete every measurement
+   */
+  clear(): void {
+    this.annotationObjects.forEach(disposeAnnotation);
+    this.annotationObjects.clear();
+    this.measurementsState.set([]);
+    this.cancelDraft();
+  }
+
+  /**
+   * Serialize the finished measurements as JSON
+   */
+  exportJson(): string {
+    return measurementsToJson(this.measurementsState());
+  }
+
+  /**
+   * Helper: Draw a finished measurement
+   */
+  private addAnnotation(measurement: Measurement): void {
+    if (!this.context) {
+      return;
+    }
+
+    const object = createAnnotation(measurement);
+    this.annotationObjects.set(measurement.id, object);
+    this.annotations.add(object);
+    this.renderLoop.requestRender();
+  }
+
+  /**
+   * Helper: Draw the points picked so far
+   */
+  private redrawDraft(): void {
+    if (this.draftObject) {
+      disposeAnnotation(this.draftObject);
+      this.draftObject = null;
+      this.renderLoop.requestRender();
+    }
+
+    const points = this.draftState();
+    if (!this.context || points.length === 0) {
+      return;
+    }
+
+    const draft = new THREE.Group();
+    draft.name = 'MeasurementDraft';
+    draft.add(createMarkers(points, MEASUREMENT_CONFIG.color));
+    if (points.length > 1) {
+      draft.add(createLine(points, MEASUREMENT_CONFIG.color, false));
+    }
+    this.draftObject = draft;
+    this.annotations.add(draft);
+    this.renderLoop.requestRender();
+  }
+
+  /**
+   * Helper: Remove the snap preview
+   */
+  private removePreview(): void {
+    if (this.previewObject) {
+      disposeAnnotation(this.previewObject);
+      this.previewObject = null;
+    }
+  }
+}
+
+/**
+ * Helper: Lines, markers and label of a finished measurement
+ */
+function createAnnotation(measurement: Measurement): THREE.Object3D {
+  const { kind, points, label, reference } = measurement;
+  const group = new THREE.Group();
+  group.name = `Measurement:${measurement.id}`;
+
+  group.add(createMarkers(points, MEASUREMENT_CONFIG.color));
+  if (kind === 'elevation') {
+    // Drop a line to the reference level
+    const [point] = points;
+    if (point && reference) {
+      group.add(
+        createLine([point, { ...point, y: reference.elevation }], MEASUREMENT_CONFIG.color, false)
+      );
+    }
+  } else {
+    group.add(createLine(points, MEASUREMENT_CONFIG.color, kind === 'area'));
+  }
+
+  const text = reference ? `${label} (${reference.name})` : label;
+  group.add(createLabel(text, getLabelPosition(kind, points)));
+  return group;
+}
+
+/**
+ * Helper: Line through points, drawn over the model
+ */
+function createLine(points: Vector3Like[], color: string, closed: boolean): THREE.Line {
+  const geometry = new THREE.BufferGeometry().setFromPoints(points.map(toVector3));
+  const material = new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true });
+  const line = closed ? new THREE.LineLoop(geometry, material) : new THREE.Line(geometry, material);
+  line.renderOrder = ANNOTATION_RENDER_ORDER;
+  return line;
+}
+
+/**
+ * Helper: Screen-sized point markers, drawn over the model
+ */
+function createMarkers(points: Vector3Like[], color: string): THREE.Points {
+  const geometry = new THREE.BufferGeometry().setFromPoints(points.map(toVector3));
+  const material = new THREE.PointsMaterial({
+    color,
+    size: MEASUREMENT_CONFIG.pointSize,
+    sizeAttenuation: false,
+    depthTest: false,
+    transparent: true,
+  });
+  const markers = new THREE.Points(geometry, material);
+  markers.renderOrder = ANNOTATION_RENDER_ORDER;
+  return markers;
+}
+
+/**
+ * Helper: Screen-sized text label anchored just above a point
+ */
+function createLabel(text: string, position: Vector3Like): THREE.Sprite {
+  const fontSize = 32;
+  const padding = 12;
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  const font = `600 ${fontSize}px system-ui, sans-serif`;
+
+  if (context) {
+    context.font = font;
+    canvas.width = Math.ceil(context.measureText(text).width) + padding * 2;
+    canvas.height = fontSize + padding * 2;
+    // Resizing the canvas resets its state
+    context.font = font;
+    context.fillStyle = 'rgba(20, 20, 30, 0.85)';
+    context.beginPath();
+    context.roundRect(0, 0, canvas.width, canvas.height, padding);
+    context.fill();
+    context.fillStyle = 'white';
+    context.textBaseline = 'middle';
+    context.fillText(text, padding, canvas.height / 2);
+  }
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  const material = new THREE.SpriteMaterial({
+    map: texture,
+    sizeAttenuation: false,
+    depthTest: false,
+    transparent: true,
+  });
+  const sprite = new THREE.Sprite(material);
+  const height = MEASUREMENT_CONFIG.labelHeight;
+  sprite.scale.set((height * canvas.width) / canvas.height, height, 1);
+  sprite.center.set(0.5, -0.3);
+  sprite.position.copy(toVector3(position));
+  sprite.renderOrder = ANNOTATION_RENDER_ORDER + 1;
+  sprite.name = 'MeasurementLabel';
+  return sprite;
+}
+
+/**
+ * Helper: Remove an annotation and free its geometries, materials and textures
+ */
+function disposeAnnotation(object: THREE.Object3D): void {
+  object.removeFromParent();
+  object.traverse((child) => {
+    if (child instanceof THREE.Line || child instanceof THREE.Points) {
+      child.geometry.dispose();
+      (child.material as THREE.Material).dispose();
+    } else if (child instanceof THREE.Sprite) {
+      child.material.map?.dispose();
+      child.material.dispose();
+    }
+  });
+}
+
+/**
+ * Helper: Drop consecutive points that are the same click
+ */
+function dropRepeatedPoints(points: Vector3Like[]): Vector3Like[] {
+  return points.filter(
+    (point, index) => index === 0 || getDistance(points[index - 1]!, point) > DUPLICATE_POINT_DISTANCE
+  );
+}
+
+/**
+ * Helper: Plain point to THREE.Vector3
+ */
+function toVector3(point: Vector3Like): THREE.Vector3 {
+  return new THREE.Vector3(point.x, point.y, point.z);
+}
@@ -0,0 +1,165 @@
+import { TestBed } from '@angular/core/testing';
+import { ModelRegistryService } from './model-registry.service';
+import { FragmentsService } from './fragments.service';
+import { ModelState } from '../../shared/models/viewer.model';
+
+describe('ModelRegistryService', () => {
+  let service: ModelRegistryService;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+
+  const architecture: ModelState = {
+    id: 'arch',
+    name: 'Architecture',
+    loading: false,
+    progress: 100,
+    fragmentUuid: 'frag-arch',
+    visible: true,
+  };
+  const structure: ModelState = {
+    id: 'struct',
+    name: 'Structure',
+    loading: false,
+    progress: 100,
+    fragmentUuid: 'frag-struct',
+    visible: true,
+  };
+
+  beforeEach(() => {
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', [
+      'setModelVisible',
+      'unloadModel',
+    ]);
+    mockFragmentsService.setModelVisible.and.returnValue(true);
+    mockFragmentsService.unloadModel.and.returnValue(Promise.resolve(true));
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: FragmentsService, useValue: mockFragmentsService }],
+    });
+
+    service = TestBed.inject(ModelRegistryService);
+  });
+
+  describe('add', () => {
+    it('should register models in load order', () => {
+      service.add(architecture);
+      service.add(structure);
+
+      expect(service.models().map((model) => model.id)).toEqual(['arch', 'struct']);
+    });
+
+    it('should make the newest model active', () => {
+      service.add(architecture);
+      service.add(structure);
+
+      expect(service.activeModel()).toEqual(structure);
+    });
+  });
+
+  describe('update', () => {
+    it('should patch only the matching model', () => {
+      service.add(architecture);
+      service.add(structure);
+
+      service.update('arch', { progress: 50 });
+
+      expect(service.get('arch')?.progress).toBe(50);
+      expect(service.get('struct')?.progress).toBe(100);
+    });
+  });
+
+  describe('loadedModels', () => {
+    it('should exclude loading and failed models', () => {
+      service.add(architecture);
+      service.add({ id: 'mep', name: 'MEP', loading: true, progress: 10, visible: true });
+      service.add({ id: 'bad', name: 'Bad', loading: false, progress: 0, visible: true, error: 'x' });
+
+      expect(service.loadedModels()).toEqual([architecture]);
+    });
+  });
+
+  describe('setVisible', () => {
+    it('should delegate to FragmentsService and update state', () => {
+      service.add(architecture);
+
+      service.setVisible('arch', false);
+
+      expect(mockFragmentsService.setModelVisible).toHaveBeenCalledWith('frag-arch', false);
+      expect(service.get('arch')?.visible).toBeFalse();
+    });
+
+    it('should warn for unknown models', () => {
+      const consoleSpy = spyOn(console, 'warn');
+
+      service.setVisible('missing', false);
+
+      expect(consoleSpy).toHaveBeenCalled();
+      expect(mockFragmentsService.setModelVisible).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('toggleVisible', () => {
+    it('should flip the visibility flag', () => {
+      service.add(architecture);
+
+      service.toggleVisible('arch');
+      service.toggleVisible('arch');
+
+      expect(mockFragmentsService.setModelVisible.calls.allArgs()).toEqual([
+        ['frag-arch', false],
+        ['frag-arch', true],
+      ]);
+      expect(service.get('arch')?.visible).toBeTrue();
+    });
+  });
+
+  describe('unload', () => {
+    it('should dispose the fragments model and remove the entry', async () => {
+      service.add(architecture);
+      service.add(structure);
+
+      await service.unload('struct');
+
+      expect(mockFragmentsService.unloadModel).toHaveBeenCalledWith('frag-struct');
+      expect(service.models()).toEqual([architecture]);
+    });
+
+    it('should move the active model to the last remaining one', async () => {
+      service.add(architecture);
+      service.add(structure);
+
+      await service.unload('struct');
+
+      expect(service.activeModelId()).toBe('arch');
+    });
+
+    it('should remove failed models without touching fragments', async () => {
+      service.add({ id: 'bad', name: 'Bad', loading: false, progress: 0, visible: true, error: 'x' });
+
+      await service.unload('bad');
+
+      expect(mockFragmentsService.unloadModel).not.toHaveBeenCalled();
+      expect(service.models()).toEqual([]);
+    });
+
+    it('should keep the entry when disposal fails', async () => {
+      service.add(architecture);
+      mockFragmentsService.unloadModel.and.returnValue(Promise.reject(new Error('Dispose error')));
+
+      await expectAsync(service.unload('arch')).toBeRejectedWithError('Dispose error');
+
+      expect(service.models()).toEqual([architecture]);
+    });
+  });
+
+  describe('clear', () => {
+    it('should forget all models', () => {
+      service.add(architecture);
+      service.add(structure);
+
+      service.clear();
+
+      expect(service.models()).toEqual([]);
+      expect(service.activeModel()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { FragmentsService } from './fragments.service';
+import { ModelState } from '../../shared/models/viewer.model';
+
+/**
+ * Registry of federated models loaded into the viewer
+ * Tracks the UI state of every model and delegates scene work to FragmentsService
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ModelRegistryService {
+  private readonly fragmentsService = inject(FragmentsService);
+
+  private readonly modelsState = signal<ModelState[]>([]);
+  private readonly activeModelIdState = signal<string | null>(null);
+
+  /** All registered models, in load order */
+  readonly models = this.modelsState.asReadonly();
+
+  /** ID of the model targeted by model-level actions (e.g. export) */
+  readonly activeModelId = this.activeModelIdState.asReadonly();
+
+  /** The active model, if any */
+  readonly activeModel = computed(() => {
+    const id = this.activeModelIdState();
+    return this.modelsState().find((model) => model.id === id) ?? null;
+  });
+
+  /** Models that finished loading and are backed by a fragments model */
+  readonly loadedModels = computed(() =>
+    this.modelsState().filter((model) => !model.loading && !!model.fragmentUuid)
+  );
+
+  /**
+   * Register a new model and make it the active one
+   */
+  add(model: ModelState): void {
+    this.modelsState.update((models) => [...models, model]);
+    this.activeModelIdState.set(model.id);
+  }
+
+  /**
+   * Patch the state of a registered model
+   */
+  update(id: string, changes: Partial<Omit<ModelState, 'id'>>): void {
+    this.modelsState.update((models) =>
+      models.map((model) => (model.id === id ? { ...model, ...changes } : model))
+    );
+  }
+
+  /**
+   * Get a registered model by ID
+   */
+  get(id: string): ModelState | undefined {
+    return this.modelsState().find((model) => model.id === id);
+  }
+
+  /**
+   * Make a model the target of model-level actions
+   */
+  setActive(id: string | null): void {
+    this.activeModelIdState.set(id);
+  }
+
+  /**
+   * Show or hide a loaded model
+   */
+  setVisible(id: string, visible: boolean): void {
+    const model = this.get(id);
+    if (!model) {
+      console.warn(`Model ${id} is not registered`);
+      return;
+    }
+
+    if (model.fragmentUuid) {
+      this.fragmentsService.setModelVisible(model.fragmentUuid, visible);
+    }
+    this.update(id, { visible });
+  }
+
+  /**
+   * Toggle visibility of a loaded model
+   */
+  toggleVisible(id: string): void {
+    const model = this.get(id);
+    if (model) {
+      this.setVisible(id, !model.visible);
+    }
+  }
+
+  /**
+   * Unload a model from the scene and remove it from the registry
+   */
+  async unload(id: string): Promise<void> {
+    const model = this.get(id);
+    if (!model) {
+      console.warn(`Model ${id} is not registered`);
+      return;
+    }
+
+    if (model.fragmentUuid) {
+      await this.fragmentsService.unloadModel(model.fragmentUuid);
+    }
+    this.remove(id);
+  }
+
+  /**
+   * Remove a model from the registry without touching the scene
+   * Used for entries that never produced a fragments model (e.g. failed loads)
+   */
+  remove(id: string): void {
+    const remaining = this.modelsState().filter((model) => model.id !== id);
+    this.modelsState.set(remaining);
+
+    if (this.activeModelIdState() === id) {
+      this.activeModelIdState.set(remaining.at(-1)?.id ?? null);
+    }
+  }
+
+  /**
+   * Forget every registered model
+   * Fragment data is disposed separately by FragmentsService.dispose()
+   */
+  clear(): void {
+    this.modelsState.set([]);
+    this.activeModelIdState.set(null);
+  }
+}
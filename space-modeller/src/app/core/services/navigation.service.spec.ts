@@ -0,0 +1,139 @@
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+import { NavigationService } from './navigation.service';
+import { CameraService } from './camera.service';
+import { FragmentsService } from './fragments.service';
+import { WALK_CONFIG } from '../../shared/constants/viewer.constants';
+import { ViewerContext } from '../../shared/models/viewer.model';
+
+describe('NavigationService', () => {
+  let service: NavigationService;
+  let mockCameras: jasmine.SpyObj<CameraService>;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+  let camera: THREE.PerspectiveCamera;
+  let context: ViewerContext;
+  let now: number;
+
+  const press = (code: string) => document.dispatchEvent(new KeyboardEvent('keydown', { code }));
+  const frame = () => {
+    now += 100;
+    service.update();
+  };
+  const settle = () => new Promise((resolve) => setTimeout(resolve));
+
+  beforeEach(() => {
+    now = 1000;
+    spyOn(performance, 'now').and.callFake(() => now);
+
+    camera = new THREE.PerspectiveCamera();
+    camera.position.set(0, 1.7, 0);
+    mockCameras = jasmine.createSpyObj('CameraService', [
+      'getCamera',
+      'setProjection',
+      'notifyChange',
+    ]);
+    mockCameras.getCamera.and.returnValue(camera);
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', ['castRay', 'updateCulling']);
+    mockFragmentsService.castRay.and.returnValue(Promise.resolve(null));
+    mockFragmentsService.updateCulling.and.returnValue(Promise.resolve());
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: CameraService, useValue: mockCameras },
+        { provide: FragmentsService, useValue: mockFragmentsService },
+      ],
+    });
+    service = TestBed.inject(NavigationService);
+
+    const canvas = document.createElement('canvas');
+    spyOn(canvas, 'requestPointerLock');
+    context = {
+      scene: new THREE.Scene(),
+      renderer: {} as THREE.WebGLRenderer,
+      controls: {
+        enabled: true,
+        target: new THREE.Vector3(),
+        update: jasmine.createSpy('update'),
+      } as any,
+      canvas,
+      getCamera: () => camera,
+    };
+    service.attach(context);
+  });
+
+  afterEach(() => service.detach());
+
+  it('should hand the camera to mouse look in walk mode', () => {
+    service.setMode('walk');
+
+    expect(service.mode()).toBe('walk');
+    expect(mockCameras.setProjection).toHaveBeenCalledWith('perspective');
+    expect(context.controls.enabled).toBeFalse();
+    expect(context.canvas.requestPointerLock).toHaveBeenCalled();
+  });
+
+  it('should walk level in the view direction', () => {
+    camera.lookAt(0, 0, -10);
+    service.setMode('walk');
+    press('KeyW');
+
+    frame();
+
+    expect(camera.position.z).toBeCloseTo(-WALK_CONFIG.walkSpeed * 0.1);
+    expect(camera.position.y).toBe(1.7);
+    expect(mockCameras.notifyChange).toHaveBeenCalled();
+  });
+
+  it('should stop at walls and fall onto the floor', async () => {
+    mockFragmentsService.castRay.and.callFake((_origin, direction) =>
+      Promise.resolve(direction.y < 0 ? 1.75 : 0.5)
+    );
+    service.setMode('walk');
+    press('KeyW');
+
+    frame();
+    await settle();
+    frame();
+
+    // The wall is 0.5 ahead after the first step, and kept at the collision radius
+    const step = WALK_CONFIG.walkSpeed * 0.1;
+    expect(camera.position.z).toBeCloseTo(-step - (0.5 - WALK_CONFIG.collisionRadius));
+    // The floor is 1.75 below the eye: the eye lands 1.7 above it
+    expect(camera.position.y).toBeCloseTo(1.65);
+  });
+
+  it('should fly up through the model', () => {
+    service.setMode('fly');
+    press('KeyE');
+
+    frame();
+
+    expect(camera.position.y).toBeCloseTo(1.7 + WALK_CONFIG.flySpeed * 0.1);
+    expect(mockFragmentsService.castRay).not.toHaveBeenCalled();
+  });
+
+  it('should orbit a point ahead when leaving first person', () => {
+    service.setMode('fly');
+    service.setMode('orbit');
+
+    expect(context.controls.enabled).toBeTrue();
+    expect(context.controls.target.toArray()).toEqual([0, 1.7, -WALK_CONFIG.orbitDistance]);
+    expect(context.controls.update).toHaveBeenCalled();
+  });
+
+  it('should not move with keys pressed in orbit mode', () => {
+    press('KeyW');
+
+    frame();
+
+    expect(camera.position.toArray()).toEqual([0, 1.7, 0]);
+  });
+
+  it('should keep the eye height within limits', () => {
+    service.setEyeHeight(100);
+    expect(service.eyeHeight()).toBe(WALK_CONFIG.maxEyeHeight);
+
+    service.setEyeHeight(Number.NaN);
+    expect(service.eyeHeight()).toBe(WALK_CONFIG.maxEyeHeight);
+  });
+});
@@ -0,0 +1,300 @@
+import { Injectable, NgZone, inject, signal } from '@angular/core';
+import * as THREE from 'three';
+import { PointerLockControls } from 'three/examples/jsm/controls/PointerLockControls.js';
+import { CameraService } from './camera.service';
+import { FragmentsService } from './fragments.service';
+import { RenderLoopService } from './render-loop.service';
+import { WALK_CONFIG } from '../../shared/constants/viewer.constants';
+import { NavigationMode, Obstacle, ViewerContext } from '../../shared/models/viewer.model';
+import { applyGravity, getMoveInput, isMoveKey, limitStep } from '../../shared/utils/walk.utils';
+
+const DOWN = new THREE.Vector3(0, -1, 0);
+
+/**
+ * First-person navigation: walk at eye height, held on the floor and stopped
+ * by walls, or fly freely through the model
+ * The mouse looks around while the pointer is locked to the canvas and the
+ * keys move. The floor below and the nearest wall ahead are found by raycasting
+ * the loaded models in the background; each frame moves with the latest results
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class NavigationService {
+  private readonly ngZone = inject(NgZone);
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly cameras = inject(CameraService);
+  private readonly renderLoop = inject(RenderLoopService);
+
+  private readonly modeState = signal<NavigationMode>('orbit');
+  private readonly lockedState = signal(false);
+  private readonly eyeHeightState = signal(WALK_CONFIG.eyeHeight);
+
+  private context: ViewerContext | null = null;
+  private look: PointerLockControls | null = null;
+  private readonly keys = new Set<string>();
+  private lastUpdate = 0;
+  private fallSpeed = 0;
+  private moving = false;
+  // Latest probe results: floor height below the eye and the wall ahead
+  private floor: number | null = null;
+  private obstacle: Obstacle | null = null;
+  private probing = false;
+
+  /** How the camera is steered */
+  readonly mode = this.modeState.asReadonly();
+
+  /** Whether the pointer is locked to the canvas for mouse look */
+  readonly locked = this.lockedState.asReadonly();
+
+  /** Eye height above the floor in walk mode */
+  readonly eyeHeight = this.eyeHeightState.asReadonly();
+
+  private readonly onKeyDown = (event: KeyboardEvent) => {
+    const target = event.target as HTMLElement | null;
+    if (isMoveKey(event.code) && !target?.closest('input, textarea, select')) {
+      event.preventDefault();
+      this.wake();
+      this.keys.add(event.code);
+    }
+  };
+  private readonly onKeyUp = (event: KeyboardEvent) => this.keys.delete(event.code);
+  // Keys released while the window is in the background never report it
+  private readonly onBlur = () => this.keys.clear();
+  private readonly onCanvasClick = () => this.look?.lock();
+  private readonly onLock = () => this.ngZone.run(() => this.lockedState.set(true));
+  private readonly onUnlock = () => this.ngZone.run(() => this.lockedState.set(false));
+  private readonly onLook = () => this.cameras.notifyChange();
+
+  /**
+   * Start steering the viewer's camera
+   */
+  attach(context: ViewerContext): void {
+    this.context = context;
+  }
+
+  /**
+   * Return to orbit navigation and release the viewer (the viewer is being destroyed)
+   */
+  detach(): void {
+    this.setMode('orbit');
+    this.context = null;
+  }
+
+  /**
+   * Switch navigation mode
+   * Entering walk or fly locks the pointer, so call this from a user gesture
+   * (e.g. a click); leaving puts the orbit target ahead of the camera
+   */
+  setMode(mode: NavigationMode): void {
+    const context = this.context;
+    const current = this.modeState();
+    if (!context || mode === current) {
+      return;
+    }
+
+    if (current === 'orbit') {
+      this.enterFirstPerson(context);
+    } else if (mode === 'orbit') {
+      this.exitFirstPerson(context);
+    }
+    this.modeState.set(mode);
+    this.fallSpeed = 0;
+    this.moving = false;
+    this.floor = null;
+    this.obstacle = null;
+  }
+
+  /**
+   * Switch a first-person mode on, or back to orbit when it is on
+   */
+  toggleMode(mode: Exclude<NavigationMode, 'orbit'>): void {
+    this.setMode(this.modeState() === mode ? 'orbit' : mode);
+  }
+
+  /**
+   * Set the eye height above the floor, within the configured limits
+   */
+  setEyeHeight(height: number): void {
+    if (Number.isFinite(height)) {
+      this.eyeHeightState.set(
+        Math.min(WALK_CONFIG.maxEyeHeight, Math.max(WALK_CONFIG.minEyeHeight, height))
+      );
+    }
+  }
+
+  /**
+   * Move the camera for the held keys; called by the viewer before each frame
+   * Asks for the next frame while keys are held or the camera is still moving.
+   * Does nothing in orbit mode
+   */
+  update(): void {
+    const now = performance.now();
+    const delta = Math.min((now - this.lastUpdate) / 1000, WALK_CONFIG.maxFrameTime);
+    this.lastUpdate = now;
+    const mode = this.modeState();
+    if (!this.context || mode === 'orbit') {
+      return;
+    }
+
+    const camera = this.cameras.getCamera();
+    const start = camera.position.clone();
+    const input = getMoveInput(this.keys);
+    const speed =
+      (mode === 'fly' ? WALK_CONFIG.flySpeed : WALK_CONFIG.walkSpeed) *
+      (input.run ? WALK_CONFIG.runMultiplier : 1);
+
+    // Walking moves level whatever the view pitch; flying moves where the camera looks
+    const forward = camera.getWorldDirection(new THREE.Vector3());
+    if (mode === 'walk') {
+      forward.setY(0).normalize();
+    }
+    const right = new THREE.Vector3().crossVectors(forward, camera.up).normalize();
+    const step = forward.multiplyScalar(input.forward).addScaledVector(right, input.right);
+    if (mode === 'fly') {
+      step.y += input.up;
+    }
+    if (step.lengthSq() > 0) {
+      step.setLength(speed * delta);
+    }
+
+    if (mode === 'fly') {
+      camera.position.add(step);
+    } else {
+      this.walk(camera, step, delta);
+    }
+
+    const moved = !camera.position.equals(start);
+    if (moved) {
+      this.cameras.notifyChange();
+    } else if (this.moving) {
+      void this.fragmentsService.updateCulling().catch(console.error);
+    }
+    this.moving = moved;
+    if (this.keys.size > 0) {
+      this.renderLoop.requestRender();
+    }
+  }
+
+  /**
+   * Helper: Take a walking step, stopping at walls and falling onto the floor
+   */
+  private walk(camera: THREE.Camera, step: THREE.Vector3, delta: number): void {
+    const heading = step.lengthSq() > 0 ? step.clone().normalize() : null;
+    const allowed = limitStep(step, this.obstacle, WALK_CONFIG.collisionRadius);
+    camera.position.x += allowed.x;
+    camera.position.z += allowed.z;
+
+    // Until the next probe, the wall ahead is as much closer as we moved towards it
+    if (this.obstacle) {
+      const { direction } = this.obstacle;
+      this.obstacle.distance -= allowed.x * direction.x + allowed.z * direction.z;
+    }
+
+    const eye = applyGravity(
+      { height: camera.position.y, fallSpeed: this.fallSpeed },
+      this.floor,
+      this.eyeHeightState(),
+      delta
+    );
+    camera.position.y = eye.height;
+    this.fallSpeed = eye.fallSpeed;
+
+    this.probe(camera.position, heading);
+  }
+
+  /**
+   * Helper: Look for the floor below the eye and, when moving, the nearest wall
+   * ahead above step height; one probe runs at a time
+   */
+  private probe(eye: THREE.Vector3, heading: THREE.Vector3 | null): void {
+    const canvas = this.context?.canvas;
+    if (this.probing || !canvas) {
+      return;
+    }
+
+    this.probing = true;
+    const origin = eye.clone();
+    const knee = origin.clone();
+    knee.y += WALK_CONFIG.maxStepHeight - this.eyeHeightState();
+
+    Promise.all([
+      this.fragmentsService.castRay(origin, DOWN, canvas),
+      heading ? this.fragmentsService.castRay(knee, heading, canvas) : null,
+    ])
+      .then(([floor, wall]) => {
+        const previousFloor = this.floor;
+        this.floor = floor === null ? null : origin.y - floor;
+        // A new floor height may mean falling or climbing a step
+        if (this.floor !== previousFloor) {
+          this.wake();
+        }
+        this.obstacle =
+          heading && wall !== null
+            ? { direction: { x: heading.x, y: heading.y, z: heading.z }, distance: wall }
+            : null;
+      })
+      .catch((error: unknown) => console.warn('Failed to probe for walls and floor:', error))
+      .finally(() => (this.probing = false));
+  }
+
+  /**
+   * Helper: Ask for frames again; after the camera stood still, the time since
+   * the last frame was not spent moving
+   */
+  private wake(): void {
+    if (!this.moving && this.keys.size === 0) {
+      this.lastUpdate = performance.now();
+    }
+    this.renderLoop.requestRender();
+  }
+
+  /**
+   * Helper: Hand the camera from the orbit controls to mouse look and keys
+   */
+  private enterFirstPerson(context: ViewerContext): void {
+    this.cameras.setProjection('perspective');
+    context.controls.enabled = false;
+    this.lastUpdate = performance.now();
+
+    // Mouse look and keys run outside Angular: they fire continuously
+    this.ngZone.runOutsideAngular(() => {
+      const look = new PointerLockControls(this.cameras.getCamera(), context.canvas);
+      look.addEventListener('lock', this.onLock);
+      look.addEventListener('unlock', this.onUnlock);
+      look.addEventListener('change', this.onLook);
+      this.look = look;
+      document.addEventListener('keydown', this.onKeyDown);
+      document.addEventListener('keyup', this.onKeyUp);
+      window.addEventListener('blur', this.onBlur);
+      context.canvas.addEventListener('click', this.onCanvasClick);
+      look.lock();
+    });
+  }
+
+  /**
+   * Helper: Give the camera back to the orbit controls, orbiting a point ahead
+   */
+  private exitFirstPerson(context: ViewerContext): void {
+    if (this.look) {
+      if (this.look.isLocked) {
+        this.look.unlock();
+      }
+      this.look.dispose();
+      this.look = null;
+    }
+    document.removeEventListener('keydown', this.onKeyDown);
+    document.removeEventListener('keyup', this.onKeyUp);
+    window.removeEventListener('blur', this.onBlur);
+    context.canvas.removeEventListener('click', this.onCanvasClick);
+    this.keys.clear();
+    this.lockedState.set(false);
+
+    const camera = this.cameras.getCamera();
+    const ahead = camera.getWorldDirection(new THREE.Vector3());
+    context.controls.target.copy(camera.position).addScaledVector(ahead, WALK_CONFIG.orbitDistance);
+    context.controls.enabled = true;
+    context.controls.update();
+    void this.fragmentsService.updateCulling().catch(console.error);
+  }
+}
@@ -0,0 +1,215 @@
+import { signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+import { PlanService } from './plan.service';
+import { CameraService } from './camera.service';
+import { ClippingService } from './clipping.service';
+import { ColorService } from './color.service';
+import { FragmentsService } from './fragments.service';
+import { NavigationService } from './navigation.service';
+import { PLAN_CONFIG, VIEW_PRESETS } from '../../shared/constants/viewer.constants';
+import {
+  CameraProjection,
+  ClippingPlaneState,
+  StoreyLevel,
+  ThematicLegend,
+  ViewerContext,
+} from '../../shared/models/viewer.model';
+
+describe('PlanService', () => {
+  let service: PlanService;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+  let mockClipping: jasmine.SpyObj<ClippingService>;
+  let mockColors: jasmine.SpyObj<ColorService>;
+  let mockCameras: jasmine.SpyObj<CameraService>;
+  let mockNavigation: jasmine.SpyObj<NavigationService>;
+  let context: ViewerContext;
+
+  const planes = signal<ClippingPlaneState[]>([]);
+  const projection = signal<CameraProjection>('perspective');
+  const storey: StoreyLevel = { modelId: 'arch', localId: 8, name: 'Level 1', elevation: 3 };
+  const colored = new Map([['arch', new Map([[5, '#ff8800']])]]);
+  const legend: ThematicLegend = {
+    title: 'storey',
+    kind: 'categorical',
+    entries: [
+      { label: 'Level 1', color: '#ff8800', count: 1, elements: new Map([['arch', new Set([5])]]) },
+    ],
+  };
+  const storeyBox = new THREE.Box3(new THREE.Vector3(0, 3, 0), new THREE.Vector3(10, 6, 10));
+  const sceneNames = () => {
+    const names: string[] = [];
+    context.scene.traverse((object) => names.push(object.name));
+    return names;
+  };
+
+  beforeEach(() => {
+    planes.set([
+      {
+        id: 'p1',
+        kind: 'plane',
+        label: 'Plane 1',
+        normal: { x: 1, y: 0, z: 0 },
+        constant: 2,
+      },
+    ]);
+    projection.set('perspective');
+
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', [
+      'getAllModels',
+      'getSection',
+      'getElementIds',
+      'getStoreyBox',
+      'getElementsGeometry',
+    ]);
+    mockFragmentsService.getAllModels.and.returnValue([
+      { modelId: 'arch', object: new THREE.Group() } as any,
+    ]);
+    mockFragmentsService.getSection.and.returnValue(
+      Promise.resolve({
+        buffer: new Float32Array([0, 4.2, 0, 1, 4.2, 0, 0, 4.2, 1]),
+        index: 2,
+        fillsIndices: [0, 1, 2],
+      } as any)
+    );
+    mockFragmentsService.getElementIds.and.returnValue(Promise.resolve([1, 2]));
+    mockFragmentsService.getElementsGeometry.and.returnValue(Promise.resolve([]));
+    mockFragmentsService.getStoreyBox.and.returnValue(Promise.resolve(storeyBox));
+    mockClipping = jasmine.createSpyObj(
+      'ClippingService',
+      ['setPlanes', 'setCapsEnabled', 'setOutlinesEnabled', 'setHelpersVisible'],
+      { planes, capsEnabled: signal(true), outlinesEnabled: signal(true) }
+    );
+    mockColors = jasmine.createSpyObj(
+      'ColorService',
+      ['clear', 'setColor', 'restore', 'removeModel'],
+      { colored: signal(colored), legend: signal(legend) }
+    );
+    mockColors.clear.and.returnValue(Promise.resolve());
+    mockColors.setColor.and.returnValue(Promise.resolve());
+    mockColors.restore.and.returnValue(Promise.resolve());
+    mockCameras = jasmine.createSpyObj('CameraService', ['setProjection', 'fitBox'], {
+      projection,
+    });
+    mockCameras.fitBox.and.returnValue(Promise.resolve());
+    mockNavigation = jasmine.createSpyObj('NavigationService', ['setMode']);
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: FragmentsService, useValue: mockFragmentsService },
+        { provide: ClippingService, useValue: mockClipping },
+        { provide: ColorService, useValue: mockColors },
+        { provide: CameraService, useValue: mockCameras },
+        { provide: NavigationService, useValue: mockNavigation },
+      ],
+    });
+    service = TestBed.inject(PlanService);
+
+    context = {
+      scene: new THREE.Scene(),
+      renderer: {} as THREE.WebGLRenderer,
+      controls: { enableRotate: true } as any,
+      canvas: document.createElement('canvas'),
+      getCamera: () => new THREE.PerspectiveCamera(),
+    };
+    service.attach(context);
+  });
+
+  afterEach(() => service.detach());
+
+  it('should cut the storey at the cut height and keep what lies below', async () => {
+    await service.open(storey);
+
+    const height = storey.elevation + PLAN_CONFIG.cutHeight;
+    expect(mockClipping.setPlanes).toHaveBeenCalledWith([
+      jasmine.objectContaining({ normal: { x: 0, y: -1, z: 0 }, constant: height }),
+      jasmine.objectContaining({
+        normal: { x: 0, y: 1, z: 0 },
+        constant: -(storey.elevation - PLAN_CONFIG.viewDepth),
+      }),
+    ]);
+    expect(sceneNames()).toContain('PlanCutLines');
+    expect(sceneNames()).toContain('PlanCutFill');
+    expect(service.storey()).toBe(storey);
+  });
+
+  it('should look down on the storey in orthographic projection, greying the rest', async () => {
+    await service.open(storey);
+
+    expect(mockCameras.setProjection).toHaveBeenCalledWith('orthographic');
+    expect(mockCameras.fitBox).toHaveBeenCalledWith(storeyBox, {
+      direction: VIEW_PRESETS.top.direction,
+    });
+    expect(context.controls.enableRotate).toBeFalse();
+    expect(mockNavigation.setMode).toHaveBeenCalledWith('orbit');
+    expect(mockColors.setColor).toHaveBeenCalledWith(
+      [
+        { modelId: 'arch', localId: 1 },
+        { modelId: 'arch', localId: 2 },
+      ],
+      PLAN_CONFIG.belowColor
+    );
+    expect(mockClipping.setCapsEnabled).toHaveBeenCalledWith(false);
+  });
+
+  it('should recut at a new height within the limits', async () => {
+    await service.open(storey);
+
+    service.setCutHeight(100);
+
+    expect(service.cutHeight()).toBe(PLAN_CONFIG.maxCutHeight);
+    expect(mockClipping.setPlanes.calls.mostRecent().args[0][0]!.constant).toBe(
+      storey.elevation + PLAN_CONFIG.maxCutHeight
+    );
+  });
+
+  it('should give back the section planes, colours and projection when closed', async () => {
+    await service.open(storey);
+
+    await service.close();
+
+    expect(mockClipping.setPlanes).toHaveBeenCalledWith([
+      { kind: 'plane', label: 'Plane 1', normal: { x: 1, y: 0, z: 0 }, constant: 2 },
+    ]);
+    expect(mockClipping.setCapsEnabled).toHaveBeenCalledWith(true);
+    expect(mockCameras.setProjection).toHaveBeenCalledWith('perspective');
+    expect(mockColors.restore).toHaveBeenCalledWith(colored, legend);
+    expect(context.controls.enableRotate).toBeTrue();
+    expect(sceneNames()).not.toContain('PlanCutLines');
+    expect(service.active()).toBeFalse();
+  });
+
+  it('should not give colours back to models unloaded while the plan was open', async () => {
+    await service.open(storey);
+    mockFragmentsService.getAllModels.and.returnValue([]);
+
+    await service.close();
+
+    expect(mockColors.restore).toHaveBeenCalledWith(new Map(), legend);
+    expect(mockColors.removeModel).toHaveBeenCalledWith('arch');
+  });
+
+  it('should export the open plan as SVG', async () => {
+    expect(await service.exportSvg()).toBeNull();
+
+    await service.open(storey);
+    const svg = (await service.exportSvg())!;
+
+    expect(svg).toContain('<title>Level 1</title>');
+    expect(svg).toContain('d="M0 0L1 0"');
+  });
+
+  it('should draw the edges below the cut in the SVG export', async () => {
+    // A 2 m square slab on the storey level
+    const slab = new THREE.BoxGeometry(2, 0.2, 2).translate(1, 3.1, 1);
+    mockFragmentsService.getElementsGeometry.and.returnValue(
+      Promise.resolve([{ modelId: 'arch', localId: 1, geometry: slab }])
+    );
+    await service.open(storey);
+
+    const svg = (await service.exportSvg())!;
+
+    expect(mockFragmentsService.getElementsGeometry).toHaveBeenCalledWith('arch', [1, 2]);
+    expect(svg).toMatch(/<path id="below-cut"[^>]* d="M[^"]*L2 0[^"]*"/);
+  });
+});
@@ -0,0 +1,374 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import * as THREE from 'three';
+import { LineMaterial } from 'three/examples/jsm/lines/LineMaterial.js';
+import { LineSegments2 } from 'three/examples/jsm/lines/LineSegments2.js';
+import { LineSegmentsGeometry } from 'three/examples/jsm/lines/LineSegmentsGeometry.js';
+import { CameraService } from './camera.service';
+import { ClippingService } from './clipping.service';
+import { ColorService } from './color.service';
+import { FragmentsService } from './fragments.service';
+import { NavigationService } from './navigation.service';
+import { RenderLoopService } from './render-loop.service';
+import {
+  CLIPPING_CONFIG,
+  PLAN_CONFIG,
+  VIEW_PRESETS,
+} from '../../shared/constants/viewer.constants';
+import {
+  CameraProjection,
+  ClippingPlaneState,
+  ModelElement,
+  PlanSection,
+  StoreyLevel,
+  ThematicLegend,
+  ViewerContext,
+} from '../../shared/models/viewer.model';
+import { planToSvg, projectBelowCut, toPlanSection } from '../../shared/utils/plan.utils';
+import { getFeatureEdges } from '../../shared/utils/render-style.utils';
+
+/**
+ * Viewer settings a plan replaces, restored when it is closed
+ */
+interface PlanBackup {
+  planes: Omit<ClippingPlaneState, 'id'>[];
+  caps: boolean;
+  outlines: boolean;
+  projection: CameraProjection;
+  colored: ReadonlyMap<string, ReadonlyMap<number, string>>;
+  legend: ThematicLegend | null;
+}
+
+/**
+ * Floor plan of a storey: the models are cut at a height above the storey
+ * level and seen from above in orthographic projection, with the cut drawn
+ * in bold and everything below it in light grey
+ * Section planes, caps, colours and projection are taken over while the plan
+ * is open and given back when it closes
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PlanService {
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly clipping = inject(ClippingService);
+  private readonly colors = inject(ColorService);
+  private readonly cameras = inject(CameraService);
+  private readonly navigation = inject(NavigationService);
+  private readonly renderLoop = inject(RenderLoopService);
+
+  private readonly storeyState = signal<StoreyLevel | null>(null);
+  private readonly cutHeightState = signal(PLAN_CONFIG.cutHeight);
+
+  private context: ViewerContext | null = null;
+  private backup: PlanBackup | null = null;
+  private sections: PlanSection[] = [];
+  private cutRequest = 0;
+  private readonly cut = new THREE.Group();
+
+  private readonly lineMaterial = new LineMaterial({
+    color: PLAN_CONFIG.cutColor,
+    linewidth: PLAN_CONFIG.cutLineWidth,
+  });
+  private readonly fillMaterial = new THREE.MeshBasicMaterial({
+    color: PLAN_CONFIG.cutFillColor,
+    side: THREE.DoubleSide,
+    polygonOffset: true,
+    polygonOffsetFactor: 1,
+    polygonOffsetUnits: 1,
+  });
+
+  /** Storey shown as a plan; null when no plan is open */
+  readonly storey = this.storeyState.asReadonly();
+
+  /** Height of the cut above the storey level */
+  readonly cutHeight = this.cutHeightState.asReadonly();
+
+  /** Whether a plan is open */
+  readonly active = computed(() => this.storeyState() !== null);
+
+  /**
+   * Start drawing plans in the viewer's scene
+   */
+  attach(context: ViewerContext): void {
+    this.context = context;
+    this.cut.name = 'PlanCut';
+    context.scene.add(this.cut);
+  }
+
+  /**
+   * Drop the plan without restoring the viewer (the viewer is being destroyed)
+   */
+  detach(): void {
+    this.cutRequest++;
+    this.clearCut();
+    this.cut.removeFromParent();
+    this.context = null;
+    this.backup = null;
+    this.sections = [];
+    this.storeyState.set(null);
+  }
+
+  /**
+   * Show the plan of a storey, or switch the open plan to another storey
+   * @returns Resolves when the plan is cut, coloured and framed
+   */
+  async open(storey: StoreyLevel): Promise<void> {
+    const context = this.context;
+    if (!context) {
+      return;
+    }
+
+    const entering = !this.backup;
+    if (entering) {
+      this.backup = {
+        planes: this.clipping.planes().map(({ id, ...plane }) => plane),
+        caps: this.clipping.capsEnabled(),
+        outlines: this.clipping.outlinesEnabled(),
+        projection: this.cameras.projection(),
+        colored: this.colors.colored(),
+        legend: this.colors.legend(),
+      };
+      // The plan draws its own cut; the section caps would cover the plan at floor level
+      this.navigation.setMode('orbit');
+      this.clipping.setCapsEnabled(false);
+      this.clipping.setOutlinesEnabled(false);
+      this.clipping.setHelpersVisible(false);
+      this.cameras.setProjection('orthographic');
+      // A plan is looked at from above only
+      context.controls.enableRotate = false;
+    }
+    this.storeyState.set(storey);
+
+    await Promise.all([
+      this.updateCut(),
+      entering ? this.greyOut() : Promise.resolve(),
+      this.frame(storey),
+    ]);
+  }
+
+  /**
+   * Close the plan and give back the section planes, colours and projection
+   */
+  async close(): Promise<void> {
+    const backup = this.backup;
+    if (!backup) {
+      return;
+    }
+
+    this.backup = null;
+    this.cutRequest++;
+    this.clearCut();
+    this.renderLoop.requestRender();
+    this.sections = [];
+    this.storeyState.set(null);
+
+    this.clipping.setPlanes(backup.planes);
+    this.clipping.setCapsEnabled(backup.caps);
+    this.clipping.setOutlinesEnabled(backup.outlines);
+    this.clipping.setHelpersVisible(true);
+    this.cameras.setProjection(backup.projection);
+    if (this.context) {
+      this.context.controls.enableRotate = true;
+    }
+    // Models unloaded while the plan was open have nothing left to colour
+    const loaded = new Set(this.fragmentsService.getAllModels().map((model) => model.modelId));
+    const colored = new Map([...backup.colored].filter(([modelId]) => loaded.has(modelId)));
+    const restored = this.colors.restore(colored, backup.legend);
+    for (const modelId of backup.colored.keys()) {
+      if (!loaded.has(modelId)) {
+        this.colors.removeModel(modelId);
+      }
+    }
+    await restored;
+  }
+
+  /**
+   * Set the height of the cut above the storey level, within the configured limits
+   */
+  setCutHeight(height: number): void {
+    if (!Number.isFinite(height)) {
+      return;
+    }
+
+    this.cutHeightState.set(
+      Math.min(PLAN_CONFIG.maxCutHeight, Math.max(PLAN_CONFIG.minCutHeight, height))
+    );
+    void this.updateCut();
+  }
+
+  /**
+   * Draw the open plan as an SVG document: the cut, over the edges of the
+   * geometry below it in grey
+   * @returns SVG markup, or null when no plan is open
+   */
+  async exportSvg(): Promise<string | null> {
+    const storey = this.storeyState();
+    if (!storey) {
+      return null;
+    }
+
+    const sections = this.sections;
+    const below = await this.projectBelow(storey);
+    return planToSvg(sections, storey.name, below);
+  }
+
+  /**
+   * Helper: Clip the models to the storey and draw the cut
+   * Only the latest request is applied when several overlap
+   */
+  private async updateCut(): Promise<void> {
+    const storey = this.storeyState();
+    if (!storey) {
+      return;
+    }
+
+    const request = ++this.cutRequest;
+    const height = storey.elevation + this.cutHeightState();
+    const floor = storey.elevation - PLAN_CONFIG.viewDepth;
+    this.clipping.setPlanes([
+      { kind: 'plane', label: 'Plan cut', normal: { x: 0, y: -1, z: 0 }, constant: height },
+      { kind: 'plane', label: 'Plan floor', normal: { x: 0, y: 1, z: 0 }, constant: -floor },
+    ]);
+
+    // Cut slightly below the plane so the fill is not clipped by it
+    const plane = new THREE.Plane(new THREE.Vector3(0, -1, 0), height - CLIPPING_CONFIG.capOffset);
+    const sections: PlanSection[] = [];
+    const meshes: THREE.Object3D[] = [];
+    const models = this.fragmentsService.getAllModels().filter((model) => model.object.visible);
+    for (const model of models) {
+      try {
+        const section = await this.fragmentsService.getSection(model.modelId, plane);
+        if (section) {
+          sections.push(toPlanSection(section));
+          meshes.push(...this.createCutMeshes(section));
+        }
+      } catch (error) {
+        console.warn(`Failed to cut model ${model.modelId} for the plan:`, error);
+      }
+    }
+
+    if (request !== this.cutRequest) {
+      meshes.forEach((mesh) => disposeMesh(mesh));
+      return;
+    }
+    this.clearCut();
+    meshes.forEach((mesh) => this.cut.add(mesh));
+    this.sections = sections;
+    this.renderLoop.requestRender();
+  }
+
+  /**
+   * Helper: Project the edges of the visible models between the plan floor and the cut
+   * @returns x and z pairs, two points per segment
+   */
+  private async projectBelow(storey: StoreyLevel): Promise<number[]> {
+    const cut = storey.elevation + this.cutHeightState();
+    const floor = storey.elevation - PLAN_CONFIG.viewDepth;
+    const below: number[] = [];
+    const models = this.fragmentsService.getAllModels().filter((model) => model.object.visible);
+    for (const { modelId } of models) {
+      try {
+        const localIds = await this.fragmentsService.getElementIds(modelId);
+        for (let start = 0; start < localIds.length; start += PLAN_CONFIG.svgBatchSize) {
+          const batch = localIds.slice(start, start + PLAN_CONFIG.svgBatchSize);
+          const parts = await this.fragmentsService.getElementsGeometry(modelId, batch);
+          for (const { geometry } of parts) {
+            geometry.computeBoundingBox();
+            const box = geometry.boundingBox!;
+            if (box.max.y >= floor && box.min.y <= cut) {
+              const edges = getFeatureEdges(
+                geometry.getAttribute('position').array,
+                geometry.index?.array ?? null,
+                PLAN_CONFIG.svgEdgeAngle
+              );
+              // Pushed one by one: a large model has too many values to spread
+              for (const value of projectBelowCut(edges.positions, floor, cut)) {
+                below.push(value);
+              }
+            }
+            geometry.dispose();
+          }
+        }
+      } catch (error) {
+        console.warn(`Failed to project model ${modelId} for the plan:`, error);
+      }
+    }
+    return below;
+  }
+
+  /**
+   * Helper: Paint every element of the visible models light grey
+   * Replaces any colouring, which is given back when the plan closes
+   */
+  private async greyOut(): Promise<void> {
+    const models = this.fragmentsService.getAllModels().filter((model) => model.object.visible);
+    const elements: ModelElement[] = [];
+    for (const { modelId } of models) {
+      const localIds = await this.fragmentsService.getElementIds(modelId);
+      elements.push(...localIds.map((localId) => ({ modelId, localId })));
+    }
+
+    await this.colors.clear();
+    await this.colors.setColor(elements, PLAN_CONFIG.belowColor);
+  }
+
+  /**
+   * Helper: Look down on the storey
+   */
+  private async frame(storey: StoreyLevel): Promise<void> {
+    const box = await this.fragmentsService.getStoreyBox(storey.modelId, storey.localId);
+    if (box) {
+      await this.cameras.fitBox(box, { direction: VIEW_PRESETS.top.direction });
+    }
+  }
+
+  /**
+   * Helper: Build the bold cut lines and the cut fill of a model section
+   */
+  private createCutMeshes(section: {
+    buffer: Float32Array;
+    index: number;
+    fillsIndices: number[];
+  }): THREE.Object3D[] {
+    const meshes: THREE.Object3D[] = [];
+
+    if (section.fillsIndices.length > 0) {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.BufferAttribute(section.buffer, 3));
+      geometry.setIndex(section.fillsIndices);
+      const fill = new THREE.Mesh(geometry, this.fillMaterial);
+      fill.name = 'PlanCutFill';
+      meshes.push(fill);
+    }
+
+    if (section.index > 0) {
+      const geometry = new LineSegmentsGeometry().setPositions(
+        section.buffer.subarray(0, section.index * 3)
+      );
+      const lines = new LineSegments2(geometry, this.lineMaterial);
+      lines.name = 'PlanCutLines';
+      meshes.push(lines);
+    }
+
+    // Cut geometry is rebuilt rather than culled
+    meshes.forEach((mesh) => (mesh.frustumCulled = false));
+    return meshes;
+  }
+
+  /**
+   * Helper: Dispose the current cut lines and fill
+   */
+  private clearCut(): void {
+    [...this.cut.children].forEach((mesh) => disposeMesh(mesh));
+  }
+}
+
+/**
+ * Helper: Remove a cut mesh from the scene and free its geometry (materials are shared)
+ */
+function disposeMesh(object: THREE.Object3D): void {
+  object.removeFromParent();
+  if (object instanceof THREE.Mesh) {
+    object.geometry.dispose();
+  }
+}
@@ -0,0 +1,102 @@
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { PostProcessingService } from './post-processing.service';
+import { FragmentsService } from './fragments.service';
+import { POST_PROCESSING_CONFIG } from '../../shared/constants/viewer.constants';
+import { ViewerContext } from '../../shared/models/viewer.model';
+
+describe('PostProcessingService', () => {
+  let service: PostProcessingService;
+  let context: ViewerContext;
+  let camera: THREE.PerspectiveCamera;
+  let renderSpy: jasmine.Spy;
+  let composeSpy: jasmine.Spy;
+  let now: number;
+
+  // Renders a frame a while after the last one, so the camera has settled
+  const renderSettled = () => {
+    now += POST_PROCESSING_CONFIG.settleDelay + 1;
+    service.render();
+  };
+
+  beforeEach(() => {
+    now = 1000;
+    spyOn(performance, 'now').and.callFake(() => now);
+    // Rendering needs WebGL
+    composeSpy = spyOn(EffectComposer.prototype, 'render');
+    renderSpy = jasmine.createSpy('render');
+
+    TestBed.configureTestingModule({
+      providers: [
+        {
+          provide: FragmentsService,
+          useValue: jasmine.createSpyObj('FragmentsService', { getAllModels: [] }),
+        },
+      ],
+    });
+    service = TestBed.inject(PostProcessingService);
+
+    camera = new THREE.PerspectiveCamera(60, 1, 0.1, 1000);
+    camera.position.set(10, 10, 10);
+    camera.lookAt(0, 0, 0);
+    context = {
+      scene: new THREE.Scene(),
+      renderer: {
+        getPixelRatio: () => 1,
+        getSize: (target: THREE.Vector2) => target.set(100, 100),
+        render: renderSpy,
+        toneMapping: THREE.NoToneMapping,
+        toneMappingExposure: 1,
+      } as unknown as THREE.WebGLRenderer,
+      controls: {} as any,
+      canvas: document.createElement('canvas'),
+      getCamera: () => camera,
+    };
+    service.attach(context);
+  });
+
+  afterEach(() => service.detach());
+
+  it('should apply the default tone mapping to the renderer', () => {
+    expect(context.renderer.toneMapping).toBe(THREE.ACESFilmicToneMapping);
+    expect(context.renderer.toneMappingExposure).toBe(POST_PROCESSING_CONFIG.exposure);
+  });
+
+  it('should render through the effects once the camera settles', () => {
+    service.render();
+    expect(renderSpy).toHaveBeenCalledTimes(1);
+    expect(composeSpy).not.toHaveBeenCalled();
+
+    renderSettled();
+    expect(composeSpy).toHaveBeenCalledTimes(1);
+
+    camera.position.x += 1;
+    service.render();
+    expect(renderSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should render directly with every effect off', () => {
+    service.setEffect('ssao', false);
+    service.setEffect('outline', false);
+    service.setEffect('antialiasing', false);
+
+    renderSettled();
+    renderSettled();
+
+    expect(composeSpy).not.toHaveBeenCalled();
+    expect(renderSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should switch the tone mapping and keep the exposure within limits', () => {
+    service.setToneMapping('agx');
+    service.setExposure(100);
+
+    expect(context.renderer.toneMapping).toBe(THREE.AgXToneMapping);
+    expect(service.exposure()).toBe(POST_PROCESSING_CONFIG.maxExposure);
+    expect(context.renderer.toneMappingExposure).toBe(POST_PROCESSING_CONFIG.maxExposure);
+
+    service.setExposure(NaN);
+    expect(service.exposure()).toBe(POST_PROCESSING_CONFIG.maxExposure);
+  });
+});
@@ -0,0 +1,284 @@
+import { Injectable, inject, signal } from '@angular/core';
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { FXAAPass } from 'three/examples/jsm/postprocessing/FXAAPass.js';
+import { OutlinePass } from 'three/examples/jsm/postprocessing/OutlinePass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { Pass } from 'three/examples/jsm/postprocessing/Pass.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { SMAAPass } from 'three/examples/jsm/postprocessing/SMAAPass.js';
+import { SSAOPass } from 'three/examples/jsm/postprocessing/SSAOPass.js';
+import { FragmentsService } from './fragments.service';
+import { RenderLoopService } from './render-loop.service';
+import {
+  POST_EFFECTS,
+  POST_PROCESSING_CONFIG,
+  RENDERER_CONFIG,
+} from '../../shared/constants/viewer.constants';
+import { PostEffect, ToneMappingMode, ViewerContext } from '../../shared/models/viewer.model';
+
+const TONE_MAPPINGS: Record<ToneMappingMode, THREE.ToneMapping> = {
+  none: THREE.NoToneMapping,
+  linear: THREE.LinearToneMapping,
+  reinhard: THREE.ReinhardToneMapping,
+  cineon: THREE.CineonToneMapping,
+  aces: THREE.ACESFilmicToneMapping,
+  agx: THREE.AgXToneMapping,
+  neutral: THREE.NeutralToneMapping,
+};
+
+/**
+ * Effect composer and the passes that are switched on and off
+ */
+interface Pipeline {
+  composer: EffectComposer;
+  render: RenderPass;
+  ssao: SSAOPass;
+  outline: OutlinePass;
+  /** Null when the renderer antialiases itself */
+  antialiasing: Pass | null;
+}
+
+/**
+ * Post-processing of the viewer's frames: ambient occlusion, model outlines,
+ * antialiasing and tone mapping
+ * Frames go through an effect composer while any effect is on. Effects pause
+ * while the camera moves, so navigating stays smooth, and frames are then
+ * rendered directly; once the camera settles, a frame with the effects is drawn
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PostProcessingService {
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly renderLoop = inject(RenderLoopService);
+
+  private context: ViewerContext | null = null;
+  private pipeline: Pipeline | null = null;
+
+  // Camera matrices of the last frame, to tell when it moves
+  private readonly lastView = new THREE.Matrix4();
+  private readonly lastProjection = new THREE.Matrix4();
+  private lastMove = -Infinity;
+  private settleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private readonly effectsState = signal<Record<PostEffect, boolean>>(
+    Object.fromEntries(
+      Object.entries(POST_EFFECTS).map(([effect, { enabled }]) => [effect, enabled])
+    ) as Record<PostEffect, boolean>
+  );
+  private readonly toneMappingState = signal<ToneMappingMode>(POST_PROCESSING_CONFIG.toneMapping);
+  private readonly exposureState = signal(POST_PROCESSING_CONFIG.exposure);
+
+  /** Effects that are on; they still pause while the camera moves */
+  readonly effects = this.effectsState.asReadonly();
+
+  /** Current tone mapping */
+  readonly toneMapping = this.toneMappingState.asReadonly();
+
+  /** Current exposure */
+  readonly exposure = this.exposureState.asReadonly();
+
+  /** Whether an antialiasing pass is offered; false when the renderer antialiases itself */
+  readonly hasAntialiasing = !RENDERER_CONFIG.antialias;
+
+  /**
+   * Render the viewer's frames through the effects
+   * Call after the renderer is sized
+   */
+  attach(context: ViewerContext): void {
+    this.context = context;
+    const { renderer, scene } = context;
+    const camera = context.getCamera();
+    const composer = new EffectComposer(renderer);
+    if (RENDERER_CONFIG.antialias) {
+      composer.renderTarget1.samples = POST_PROCESSING_CONFIG.samples;
+      composer.renderTarget2.samples = POST_PROCESSING_CONFIG.samples;
+    }
+
+    const render = new RenderPass(scene, camera);
+    const ssao = new SSAOPass(scene, camera);
+    ssao.kernelRadius = POST_PROCESSING_CONFIG.ssaoRadius;
+    const outline = new OutlinePass(new THREE.Vector2(), scene, camera);
+    outline.visibleEdgeColor.set(POST_PROCESSING_CONFIG.outlineColor);
+    outline.edgeStrength = POST_PROCESSING_CONFIG.outlineStrength;
+    outline.edgeThickness = POST_PROCESSING_CONFIG.outlineThickness;
+    // Antialiasing works on the final colours, after tone mapping
+    const antialiasing = this.hasAntialiasing
+      ? POST_PROCESSING_CONFIG.antialiasing === 'fxaa'
+        ? new FXAAPass()
+        : new SMAAPass()
+      : null;
+
+    composer.addPass(render);
+    composer.addPass(ssao);
+    composer.addPass(outline);
+    // Tone mapping and colour space conversion, which rendering to the screen does itself
+    composer.addPass(new OutputPass());
+    if (antialiasing) {
+      composer.addPass(antialiasing);
+    }
+    this.pipeline = { composer, render, ssao, outline, antialiasing };
+    this.applyToneMapping();
+  }
+
+  /**
+   * Release the effects; frames are no longer rendered
+   */
+  detach(): void {
+    this.pipeline?.composer.passes.forEach((pass) => pass.dispose());
+    this.pipeline?.composer.dispose();
+    this.pipeline = null;
+    this.lastMove = -Infinity;
+    if (this.settleTimer !== null) {
+      clearTimeout(this.settleTimer);
+      this.settleTimer = null;
+    }
+    this.context = null;
+  }
+
+  /**
+   * Turn an effect on or off
+   */
+  setEffect(effect: PostEffect, enabled: boolean): void {
+    this.effectsState.update((effects) => ({ ...effects, [effect]: enabled }));
+    this.renderLoop.requestRender();
+  }
+
+  /**
+   * Switch the tone mapping
+   */
+  setToneMapping(mode: ToneMappingMode): void {
+    this.toneMappingState.set(mode);
+    this.applyToneMapping();
+  }
+
+  /**
+   * Set the exposure, within the configured limits
+   */
+  setExposure(exposure: number): void {
+    if (!Number.isFinite(exposure)) {
+      return;
+    }
+
+    const { minExposure, maxExposure } = POST_PROCESSING_CONFIG;
+    this.exposureState.set(Math.min(maxExposure, Math.max(minExposure, exposure)));
+    this.applyToneMapping();
+  }
+
+  /**
+   * Match the effects to a new canvas size (CSS pixels)
+   */
+  setSize(width: number, height: number): void {
+    const { context, pipeline } = this;
+    if (context && pipeline) {
+      pipeline.composer.setPixelRatio(context.renderer.getPixelRatio());
+      pipeline.composer.setSize(width, height);
+    }
+  }
+
+  /**
+   * Render a frame with the effects that are on, or directly while the camera moves
+   * Call for each frame instead of rendering the scene
+   */
+  render(): void {
+    const { context, pipeline } = this;
+    if (!context || !pipeline) {
+      return;
+    }
+
+    const camera = context.getCamera();
+    const moving = this.trackMotion(camera);
+    const effects = this.effectsState();
+    const ssao = effects.ssao && !moving;
+    const outline = effects.outline && !moving;
+    const antialiasing = effects.antialiasing && !moving && pipeline.antialiasing !== null;
+    if (!ssao && !outline && !antialiasing) {
+      context.renderer.render(context.scene, camera);
+      return;
+    }
+
+    pipeline.render.camera = camera;
+    pipeline.ssao.enabled = ssao;
+    if (ssao) {
+      syncSsaoCamera(pipeline.ssao, camera);
+    }
+    pipeline.outline.enabled = outline;
+    pipeline.outline.renderCamera = camera;
+    pipeline.outline.selectedObjects = this.fragmentsService
+      .getAllModels()
+      .map((model) => model.object);
+    if (pipeline.antialiasing) {
+      pipeline.antialiasing.enabled = antialiasing;
+    }
+    pipeline.composer.render();
+  }
+
+  /**
+   * Helper: Set the renderer's tone mapping, used by both direct and composed frames
+   */
+  private applyToneMapping(): void {
+    const renderer = this.context?.renderer;
+    if (renderer) {
+      renderer.toneMapping = TONE_MAPPINGS[this.toneMappingState()];
+      renderer.toneMappingExposure = this.exposureState();
+    }
+    this.renderLoop.requestRender();
+  }
+
+  /**
+   * Helper: Whether the camera moved recently; while it did, a frame is asked
+   * for once it has been still long enough to bring the effects back
+   */
+  private trackMotion(camera: THREE.Camera): boolean {
+    const now = performance.now();
+    const { settleDelay } = POST_PROCESSING_CONFIG;
+    camera.updateMatrixWorld();
+    if (
+      !this.lastView.equals(camera.matrixWorld) ||
+      !this.lastProjection.equals(camera.projectionMatrix)
+    ) {
+      this.lastView.copy(camera.matrixWorld);
+      this.lastProjection.copy(camera.projectionMatrix);
+      this.lastMove = now;
+    }
+
+    const moving = now - this.lastMove < settleDelay;
+    if (moving) {
+      if (this.settleTimer !== null) {
+        clearTimeout(this.settleTimer);
+      }
+      this.settleTimer = setTimeout(() => {
+        this.settleTimer = null;
+        this.renderLoop.requestRender();
+      }, this.lastMove + settleDelay - now);
+    }
+    return moving;
+  }
+}
+
+/**
+ * Helper: Point the ambient occlusion at the current camera, whose projection and
+ * near and far planes change with fits and projection switches
+ */
+function syncSsaoCamera(
+  pass: SSAOPass,
+  camera: THREE.PerspectiveCamera | THREE.OrthographicCamera
+): void {
+  const perspective = camera instanceof THREE.PerspectiveCamera ? 1 : 0;
+  if (pass.ssaoMaterial.defines['PERSPECTIVE_CAMERA'] !== perspective) {
+    pass.ssaoMaterial.defines['PERSPECTIVE_CAMERA'] = perspective;
+    pass.ssaoMaterial.needsUpdate = true;
+  }
+
+  // Depth differences are compared in the 0-1 range between the near and far planes
+  const depth = camera.far - camera.near;
+  pass.camera = camera;
+  pass.minDistance = POST_PROCESSING_CONFIG.ssaoMinDistance / depth;
+  pass.maxDistance = POST_PROCESSING_CONFIG.ssaoMaxDistance / depth;
+  const uniforms = pass.ssaoMaterial.uniforms;
+  uniforms['cameraNear']!.value = camera.near;
+  uniforms['cameraFar']!.value = camera.far;
+  uniforms['cameraProjectionMatrix']!.value.copy(camera.projectionMatrix);
+  uniforms['cameraInverseProjectionMatrix']!.value.copy(camera.projectionMatrixInverse);
+}
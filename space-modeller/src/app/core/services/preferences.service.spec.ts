@@ -0,0 +1,48 @@
+import { TestBed } from '@angular/core/testing';
+import { PREFERENCES_STORAGE, PreferencesService } from './preferences.service';
+import { PREFERENCES_CONFIG } from '../../shared/constants/viewer.constants';
+
+describe('PreferencesService', () => {
+  let storage: Map<string, string>;
+
+  const createService = () => {
+    TestBed.configureTestingModule({
+      providers: [
+        {
+          provide: PREFERENCES_STORAGE,
+          useValue: {
+            getItem: (key: string) => storage.get(key) ?? null,
+            setItem: (key: string, value: string) => storage.set(key, value),
+          },
+        },
+      ],
+    });
+    return TestBed.inject(PreferencesService);
+  };
+
+  beforeEach(() => {
+    storage = new Map();
+  });
+
+  it('should start from the defaults when nothing is stored', () => {
+    expect(createService().preferences()).toEqual(PREFERENCES_CONFIG.defaults);
+  });
+
+  it('should read the stored preferences', () => {
+    storage.set(PREFERENCES_CONFIG.storageKey, JSON.stringify({ renderStyle: 'clay' }));
+
+    expect(createService().preferences().renderStyle).toBe('clay');
+  });
+
+  it('should store changes', () => {
+    const service = createService();
+
+    service.update({ renderStyle: 'wireframe' });
+
+    expect(service.preferences().renderStyle).toBe('wireframe');
+    expect(JSON.parse(storage.get(PREFERENCES_CONFIG.storageKey)!)).toEqual({
+      ...PREFERENCES_CONFIG.defaults,
+      renderStyle: 'wireframe',
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { Injectable, InjectionToken, inject, signal } from '@angular/core';
+import { PREFERENCES_CONFIG } from '../../shared/constants/viewer.constants';
+import { ViewerPreferences } from '../../shared/models/viewer.model';
+import { parsePreferences } from '../../shared/utils/preferences.utils';
+
+/**
+ * Storage holding the user's preferences
+ * Overridden in tests with an in-memory fake
+ */
+export const PREFERENCES_STORAGE = new InjectionToken<Storage>('PREFERENCES_STORAGE', {
+  providedIn: 'root',
+  factory: () => localStorage,
+});
+
+/**
+ * Display settings remembered between sessions, stored in localStorage
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PreferencesService {
+  private readonly storage = inject(PREFERENCES_STORAGE);
+
+  private readonly preferencesState = signal<ViewerPreferences>(parsePreferences(this.read()));
+
+  /** Current preferences */
+  readonly preferences = this.preferencesState.asReadonly();
+
+  /**
+   * Change some preferences and store them
+   */
+  update(changes: Partial<ViewerPreferences>): void {
+    const preferences = { ...this.preferencesState(), ...changes };
+    this.preferencesState.set(preferences);
+    try {
+      this.storage.setItem(PREFERENCES_CONFIG.storageKey, JSON.stringify(preferences));
+    } catch (error) {
+      console.error('Failed to store preferences:', error);
+    }
+  }
+
+  /**
+   * Helper: Read the stored JSON; storage may be unavailable (e.g. privacy mode)
+   */
+  private read(): string | null {
+    try {
+      return this.storage.getItem(PREFERENCES_CONFIG.storageKey);
+    } catch (error) {
+      console.warn('Failed to read preferences:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { TestBed } from '@angular/core/testing';
+import { QueryService } from './query.service';
+import { ClassificationService } from './classification.service';
+import { FragmentsService } from './fragments.service';
+import { ElementProperties } from '../../shared/models/viewer.model';
+import { parseQuery } from '../../shared/utils/query.utils';
+
+describe('QueryService', () => {
+  let service: QueryService;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+  let mockClassification: jasmine.SpyObj<ClassificationService>;
+
+  const properties = (
+    localId: number,
+    name: string,
+    isExternal: boolean | null
+  ): ElementProperties => ({
+    modelId: 'arch',
+    localId,
+    ifcClass: 'IFCWALL',
+    globalId: `guid-${localId}`,
+    name,
+    attributes: [{ name: 'Name', value: name }],
+    propertySets: [
+      { name: 'Pset_WallCommon', properties: [{ name: 'IsExternal', value: isExternal }] },
+    ],
+    quantitySets: [],
+  });
+
+  const run = (text: string) => service.run(parseQuery(text).query!);
+  const ids = (elements: { localId: number }[]) => elements.map((element) => element.localId);
+
+  beforeEach(() => {
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', [
+      'getAllModels',
+      'getElementIds',
+      'getCategoryElements',
+      'getItemsProperties',
+      'getItemCategories',
+    ]);
+    mockClassification = jasmine.createSpyObj('ClassificationService', ['classify']);
+
+    mockFragmentsService.getAllModels.and.returnValue([{ modelId: 'arch' }] as any);
+    mockFragmentsService.getElementIds.and.returnValue(Promise.resolve([1, 2, 3]));
+    mockFragmentsService.getCategoryElements.and.returnValue(Promise.resolve([1, 2, 50]));
+    mockFragmentsService.getItemsProperties.and.callFake(async (_id, localIds) =>
+      [properties(1, 'Exterior wall', true), properties(2, 'Interior wall', false)].filter(
+        (item) => localIds.includes(item.localId)
+      )
+    );
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: FragmentsService, useValue: mockFragmentsService },
+        { provide: ClassificationService, useValue: mockClassification },
+      ],
+    });
+
+    service = TestBed.inject(QueryService);
+  });
+
+  it('should find the elements with geometry of IFC classes', async () => {
+    const elements = await run('IfcWall');
+
+    expect(mockFragmentsService.getCategoryElements).toHaveBeenCalledWith('arch', ['IFCWALL']);
+    expect(elements).toEqual([
+      { modelId: 'arch', localId: 1 },
+      { modelId: 'arch', localId: 2 },
+    ]);
+    expect(mockFragmentsService.getItemsProperties).not.toHaveBeenCalled();
+  });
+
+  it('should filter by property set values', async () => {
+    expect(ids(await run('IfcWall where Pset_WallCommon.IsExternal = true'))).toEqual([1]);
+    expect(mockFragmentsService.getItemsProperties).toHaveBeenCalledWith('arch', [1, 2], true);
+  });
+
+  it('should read only attributes for a name search', async () => {
+    expect(ids(await run('interior'))).toEqual([2]);
+    expect(mockFragmentsService.getItemsProperties).toHaveBeenCalledWith('arch', [1, 2, 3], false);
+  });
+
+  it('should filter by storey across models', async () => {
+    mockFragmentsService.getAllModels.and.returnValue([{ modelId: 'arch' }, { modelId: 'mep' }] as any);
+    mockClassification.classify.and.returnValue(
+      Promise.resolve([
+        {
+          key: 'Level 2',
+          name: 'Level 2',
+          elements: new Map([
+            ['arch', new Set([2])],
+            ['mep', new Set([3])],
+          ]),
+          count: 2,
+        },
+        { key: '', name: 'No storey', elements: new Map([['arch', new Set([1])]]), count: 1 },
+      ])
+    );
+
+    const elements = await run('where storey = "level 2"');
+
+    expect(mockClassification.classify).toHaveBeenCalledOnceWith('storey');
+    expect(elements).toEqual([
+      { modelId: 'arch', localId: 2 },
+      { modelId: 'mep', localId: 3 },
+    ]);
+    expect(mockFragmentsService.getItemsProperties).not.toHaveBeenCalled();
+  });
+
+  it('should read the values of a field for every element', async () => {
+    const values = await service.getFieldValues(['Pset_WallCommon', 'IsExternal']);
+
+    expect(values).toEqual([
+      { element: { modelId: 'arch', localId: 1 }, values: [true] },
+      { element: { modelId: 'arch', localId: 2 }, values: [false] },
+      { element: { modelId: 'arch', localId: 3 }, values: [] },
+    ]);
+  });
+
+  it('should filter by IFC class in a condition', async () => {
+    mockFragmentsService.getItemCategories.and.returnValue(
+      Promise.resolve(new Map([[1, 'IFCWALL'], [3, 'IFCDOOR']]))
+    );
+
+    expect(ids(await run('where not class = IfcWall'))).toEqual([2, 3]);
+  });
+});
@@ -0,0 +1,219 @@
+import { Injectable, inject } from '@angular/core';
+import { ClassificationService } from './classification.service';
+import { FragmentsService } from './fragments.service';
+import {
+  ClassificationKind,
+  ElementProperties,
+  ElementQuery,
+  ModelElement,
+  QueryValue,
+} from '../../shared/models/viewer.model';
+import { getQueryFields, matchesCondition } from '../../shared/utils/query.utils';
+
+/**
+ * Fields computed by the viewer rather than read from the element's attributes
+ */
+const DERIVED_FIELDS = ['class', 'storey', 'material'];
+
+/**
+ * Values of a derived field by local ID by model ID
+ */
+type FieldValues = Map<string, Map<number, string[]>>;
+
+/**
+ * Data read for a query, shared by all models
+ */
+interface QueryContext {
+  storeys: FieldValues | null;
+  materials: FieldValues | null;
+  /** Whether the condition uses the IFC class */
+  withClass: boolean;
+  /** Whether the condition uses attributes or properties */
+  withAttributes: boolean;
+  /** Whether the condition uses property or quantity sets */
+  withSets: boolean;
+}
+
+/**
+ * Resolves element queries to the matching elements of every loaded model
+ * Only the data a query needs is read: attributes, property sets, storeys
+ * and materials are fetched when the condition refers to them
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class QueryService {
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly classification = inject(ClassificationService);
+
+  /**
+   * Find the elements with geometry matching a query
+   */
+  async run(query: ElementQuery): Promise<ModelElement[]> {
+    const context = await this.createContext(getQueryFields(query.condition));
+    const results = await Promise.all(
+      this.fragmentsService
+        .getAllModels()
+        .map((model) => this.runOnModel(model.modelId, query, context))
+    );
+    return results.flat();
+  }
+
+  /**
+   * Read a field (as used in queries) of every element with geometry
+   * @returns Every element with its values; empty when the element has no value
+   */
+  async getFieldValues(
+    field: string[]
+  ): Promise<{ element: ModelElement; values: QueryValue[] }[]> {
+    const context = await this.createContext([field]);
+    const results = await Promise.all(
+      this.fragmentsService.getAllModels().map(async ({ modelId }) => {
+        const localIds = await this.fragmentsService.getElementIds(modelId);
+        const getValues = await this.createResolver(modelId, localIds, context);
+        return localIds.map((localId) => ({
+          element: { modelId, localId },
+          values: getValues(localId, field),
+        }));
+      })
+    );
+    return results.flat();
+  }
+
+  /**
+   * Helper: Read what the fields need that is shared by all models
+   */
+  private async createContext(fields: string[][]): Promise<QueryContext> {
+    const uses = (name: string) => fields.some((field) => getDerivedField(field) === name);
+    const [storeys, materials] = await Promise.all([
+      uses('storey') ? this.getGroupValues('storey') : null,
+      uses('material') ? this.getGroupValues('material') : null,
+    ]);
+    return {
+      storeys,
+      materials,
+      withClass: uses('class'),
+      withAttributes: fields.some((field) => !getDerivedField(field)),
+      withSets: fields.some((field) => field.length > 1),
+    };
+  }
+
+  /**
+   * Helper: Matching elements of one model
+   */
+  private async runOnModel(
+    modelId: string,
+    query: ElementQuery,
+    context: QueryContext
+  ): Promise<ModelElement[]> {
+    let localIds = await this.fragmentsService.getElementIds(modelId);
+    if (query.classes.length > 0) {
+      const inClasses = new Set(
+        await this.fragmentsService.getCategoryElements(modelId, query.classes)
+      );
+      localIds = localIds.filter((localId) => inClasses.has(localId));
+    }
+
+    const condition = query.condition;
+    if (condition && localIds.length > 0) {
+      const getValues = await this.createResolver(modelId, localIds, context);
+      localIds = localIds.filter((localId) =>
+        matchesCondition(condition, (field) => getValues(localId, field))
+      );
+    }
+
+    return localIds.map((localId) => ({ modelId, localId }));
+  }
+
+  /**
+   * Helper: Read the data of some elements of a model that the fields need
+   * @returns Lookup of a field's values for one of the elements
+   */
+  private async createResolver(
+    modelId: string,
+    localIds: number[],
+    context: QueryContext
+  ): Promise<(localId: number, field: string[]) => QueryValue[]> {
+    const [properties, categories] = await Promise.all([
+      context.withAttributes && localIds.length > 0
+        ? this.fragmentsService.getItemsProperties(modelId, localIds, context.withSets)
+        : [],
+      context.withClass && localIds.length > 0
+        ? this.fragmentsService.getItemCategories(modelId, localIds)
+        : new Map<number, string>(),
+    ]);
+    const byId = new Map(properties.map((item) => [item.localId, item]));
+
+    return (localId, field) => {
+      switch (getDerivedField(field)) {
+        case 'class':
+          return categories.has(localId) ? [categories.get(localId)!] : [];
+        case 'storey':
+          return context.storeys?.get(modelId)?.get(localId) ?? [];
+        case 'material':
+          return context.materials?.get(modelId)?.get(localId) ?? [];
+        default:
+          return getPropertyValues(byId.get(localId), field);
+      }
+    };
+  }
+
+  /**
+   * Helper: Storey or material names of every element, from the classification
+   */
+  private async getGroupValues(kind: ClassificationKind): Promise<FieldValues> {
+    const values: FieldValues = new Map();
+    for (const group of await this.classification.classify(kind)) {
+      if (group.key === '') {
+        continue;
+      }
+      group.elements.forEach((localIds, modelId) => {
+        const modelValues = values.get(modelId) ?? new Map<number, string[]>();
+        localIds.forEach((localId) => {
+          const names = modelValues.get(localId) ?? [];
+          names.push(group.name);
+          modelValues.set(localId, names);
+        });
+        values.set(modelId, modelValues);
+      });
+    }
+    return values;
+  }
+}
+
+/**
+ * Helper: Lower-case name of a derived field, or null for attributes and properties
+ */
+function getDerivedField(field: string[]): string | null {
+  const name = field.length === 1 ? field[0]!.toLowerCase() : null;
+  return name && DERIVED_FIELDS.includes(name) ? name : null;
+}
+
+/**
+ * Helper: Values of an attribute (["Name"]) or property (["Pset", "Property"]) of an element
+ * Names compare case-insensitively; unset values are left out
+ */
+function getPropertyValues(
+  properties: ElementProperties | undefined,
+  field: string[]
+): QueryValue[] {
+  if (!properties) {
+    return [];
+  }
+  const [first, second] = field.map((name) => name.toLowerCase());
+
+  if (second === undefined) {
+    if (first === 'globalid') {
+      return properties.globalId ? [properties.globalId] : [];
+    }
+    return properties.attributes
+      .filter((attribute) => attribute.name.toLowerCase() === first && attribute.value !== null)
+      .map((attribute) => attribute.value!);
+  }
+
+  return [...properties.propertySets, ...properties.quantitySets]
+    .filter((set) => set.name.toLowerCase() === first)
+    .flatMap((set) => set.properties)
+    .filter((property) => property.name.toLowerCase() === second && property.value !== null)
+    .map((property) => property.value!);
+}
@@ -0,0 +1,86 @@
+import { TestBed } from '@angular/core/testing';
+import { RenderLoopService } from './render-loop.service';
+import { RENDER_LOOP_CONFIG } from '../../shared/constants/viewer.constants';
+
+describe('RenderLoopService', () => {
+  let service: RenderLoopService;
+  let callbacks: FrameRequestCallback[];
+  let renderFrame: jasmine.Spy;
+
+  // Runs the callbacks waiting for the next display refresh
+  const refresh = (time = 0) => {
+    const pending = callbacks;
+    callbacks = [];
+    pending.forEach((callback) => callback(time));
+  };
+
+  beforeEach(() => {
+    callbacks = [];
+    spyOn(window, 'requestAnimationFrame').and.callFake((callback) => callbacks.push(callback));
+    spyOn(window, 'cancelAnimationFrame').and.callFake(() => (callbacks = []));
+    renderFrame = jasmine.createSpy('renderFrame');
+
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(RenderLoopService);
+  });
+
+  afterEach(() => service.stop());
+
+  it('should draw a first frame, then only draw on request', () => {
+    service.start(renderFrame);
+    refresh();
+    refresh();
+    expect(renderFrame).toHaveBeenCalledTimes(1);
+
+    service.requestRender();
+    service.requestRender();
+    refresh();
+    expect(renderFrame).toHaveBeenCalledTimes(2);
+  });
+
+  it('should draw the next frame when one is requested while drawing', () => {
+    let moves = 3;
+    // Like damping: each frame moves the camera, which asks for another frame
+    renderFrame.and.callFake(() => {
+      if (--moves > 0) {
+        service.requestRender();
+      }
+    });
+    service.start(renderFrame);
+
+    for (let index = 0; index < 5; index++) {
+      refresh();
+    }
+
+    expect(renderFrame).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not draw before starting or after stopping', () => {
+    service.requestRender();
+    expect(callbacks.length).toBe(0);
+
+    service.start(renderFrame);
+    service.stop();
+    service.requestRender();
+    refresh();
+
+    expect(renderFrame).not.toHaveBeenCalled();
+  });
+
+  it('should count skipped refreshes while the debug overlay is shown', () => {
+    spyOn(performance, 'now').and.returnValue(0);
+    service.start(renderFrame);
+    service.setDebug(true);
+    const interval = RENDER_LOOP_CONFIG.statsInterval;
+    refresh(0);
+    refresh(interval / 2);
+    refresh(interval / 2 + 16);
+    refresh(interval + 1);
+
+    expect(service.stats().rendered).toBe(1);
+    expect(service.stats().skipped).toBe(3);
+
+    service.setDebug(false);
+    expect(callbacks.length).toBe(0);
+  });
+});
@@ -0,0 +1,153 @@
+import { Injectable, NgZone, inject, signal } from '@angular/core';
+import { RENDER_LOOP_CONFIG, VIEWER_CONFIG } from '../../shared/constants/viewer.constants';
+import { RenderLoopStats } from '../../shared/models/viewer.model';
+
+/**
+ * On-demand render loop: a frame is drawn only when something asks for one
+ * Anything that changes what is on screen calls requestRender(); requests made
+ * before the next display refresh share one frame. Camera moves ask for the
+ * next frame themselves, so orbit damping and transitions keep the loop going
+ * until the camera stops
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RenderLoopService {
+  private readonly ngZone = inject(NgZone);
+
+  private renderFrame: (() => void) | null = null;
+  private frameId: number | null = null;
+
+  // Display refreshes are only watched while the debug overlay is shown
+  private watchId: number | null = null;
+  private rendered = 0;
+  private skipped = 0;
+  private frameTime = 0;
+  private watchedRendered = 0;
+  private lastStats = { time: 0, rendered: 0 };
+
+  private readonly debugState = signal<boolean>(VIEWER_CONFIG.showRenderDebug);
+  private readonly statsState = signal<RenderLoopStats>({
+    rendered: 0,
+    skipped: 0,
+    fps: 0,
+    frameTime: 0,
+  });
+
+  /** Whether the debug overlay is shown */
+  readonly debug = this.debugState.asReadonly();
+
+  /** Frame counts, updated while the debug overlay is shown */
+  readonly stats = this.statsState.asReadonly();
+
+  /**
+   * Start drawing frames on request, beginning with one right away
+   * @param renderFrame Draws a frame; called outside Angular
+   */
+  start(renderFrame: () => void): void {
+    this.renderFrame = renderFrame;
+    this.requestRender();
+    if (this.debugState()) {
+      this.startWatching();
+    }
+  }
+
+  /**
+   * Stop drawing frames (the viewer is being destroyed)
+   */
+  stop(): void {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+    this.stopWatching();
+    this.renderFrame = null;
+  }
+
+  /**
+   * Draw a frame at the next display refresh
+   * Call after changing anything that is on screen; does nothing before the loop starts
+   */
+  requestRender(): void {
+    if (!this.renderFrame || this.frameId !== null) {
+      return;
+    }
+
+    this.ngZone.runOutsideAngular(() => {
+      this.frameId = requestAnimationFrame(this.onFrame);
+    });
+  }
+
+  /**
+   * Show or hide the debug overlay
+   */
+  setDebug(enabled: boolean): void {
+    this.debugState.set(enabled);
+    if (enabled && this.renderFrame) {
+      this.startWatching();
+    } else if (!enabled) {
+      this.stopWatching();
+    }
+  }
+
+  /**
+   * Helper: Draw a requested frame; requests made while drawing ask for the next one
+   */
+  private readonly onFrame = (): void => {
+    this.frameId = null;
+    const start = performance.now();
+    this.renderFrame?.();
+    this.frameTime = performance.now() - start;
+    this.rendered++;
+  };
+
+  /**
+   * Helper: Count display refreshes that pass without a frame and publish the counts
+   */
+  private readonly onWatch = (time: number): void => {
+    this.watchId = requestAnimationFrame(this.onWatch);
+    if (this.rendered === this.watchedRendered) {
+      this.skipped++;
+    }
+    this.watchedRendered = this.rendered;
+
+    const elapsed = time - this.lastStats.time;
+    if (elapsed >= RENDER_LOOP_CONFIG.statsInterval) {
+      const fps = ((this.rendered - this.lastStats.rendered) * 1000) / elapsed;
+      this.lastStats = { time, rendered: this.rendered };
+      this.ngZone.run(() =>
+        this.statsState.set({
+          rendered: this.rendered,
+          skipped: this.skipped,
+          fps: Math.round(fps),
+          frameTime: this.frameTime,
+        })
+      );
+    }
+  };
+
+  /**
+   * Helper: Watch every display refresh for the debug overlay
+   */
+  private startWatching(): void {
+    if (this.watchId !== null) {
+      return;
+    }
+
+    this.watchedRendered = this.rendered;
+    this.lastStats = { time: performance.now(), rendered: this.rendered };
+    this.ngZone.runOutsideAngular(() => {
+      this.watchId = requestAnimationFrame(this.onWatch);
+    });
+  }
+
+  /**
+   * Helper: Stop watching display refreshes
+   */
+  private stopWatching(): void {
+    if (this.watchId !== null) {
+      cancelAnimationFrame(this.watchId);
+      this.watchId = null;
+    }
+  }
+}
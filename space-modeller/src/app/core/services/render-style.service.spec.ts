@@ -0,0 +1,173 @@
+import { signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+import { RenderStyleService } from './render-style.service';
+import { FragmentsService } from './fragments.service';
+import { PREFERENCES_STORAGE, PreferencesService } from './preferences.service';
+import { SelectionService } from './selection.service';
+import {
+  PREFERENCES_CONFIG,
+  RENDER_STYLE_CONFIG,
+  RENDER_STYLES,
+  SELECTION_CONFIG,
+} from '../../shared/constants/viewer.constants';
+import { ModelElement, ViewerContext } from '../../shared/models/viewer.model';
+
+describe('RenderStyleService', () => {
+  let service: RenderStyleService;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+  let storage: Map<string, string>;
+  let meshListener: { added(mesh: THREE.Mesh): void; removed(mesh: THREE.Mesh): void };
+  let context: ViewerContext;
+
+  const selected = signal<ModelElement[]>([]);
+  const selectedByModel = signal(new Map<string, number[]>());
+
+  // Unit box drawn as one group, like a fragments mesh with all its elements visible
+  const createMesh = () => {
+    const geometry = new THREE.BoxGeometry(1, 1, 1);
+    geometry.clearGroups();
+    geometry.addGroup(0, 36, 0);
+    return new THREE.Mesh(geometry, [new THREE.MeshLambertMaterial({ color: '#ff0000' })]);
+  };
+  const edgesOf = (mesh: THREE.Mesh) =>
+    mesh.children.find((child) => child.name === 'FeatureEdges') as THREE.LineSegments | undefined;
+  const outlines = () =>
+    context.scene.getObjectByName('SelectionOutline')!.children.filter(
+      (child) => child.name === 'SelectionOutlineLines'
+    );
+
+  beforeEach(() => {
+    storage = new Map();
+    selected.set([]);
+    selectedByModel.set(new Map());
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', [
+      'watchMeshes',
+      'getElementsGeometry',
+    ]);
+    mockFragmentsService.watchMeshes.and.callFake((listener) => {
+      meshListener = listener;
+      return () => {};
+    });
+    mockFragmentsService.getElementsGeometry.and.callFake(async (modelId, localIds) =>
+      localIds.map((localId) => ({ modelId, localId, geometry: new THREE.BoxGeometry() }))
+    );
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: FragmentsService, useValue: mockFragmentsService },
+        {
+          provide: SelectionService,
+          useValue: {
+            selected,
+            selectedByModel,
+            colors: signal({ ...SELECTION_CONFIG.colors }),
+          },
+        },
+        {
+          provide: PREFERENCES_STORAGE,
+          useValue: {
+            getItem: (key: string) => storage.get(key) ?? null,
+            setItem: (key: string, value: string) => storage.set(key, value),
+          },
+        },
+      ],
+    });
+    service = TestBed.inject(RenderStyleService);
+
+    context = {
+      scene: new THREE.Scene(),
+      renderer: {} as THREE.WebGLRenderer,
+      controls: {} as any,
+      canvas: document.createElement('canvas'),
+      getCamera: () => new THREE.PerspectiveCamera(),
+    };
+    service.attach(context);
+  });
+
+  afterEach(() => service.detach());
+
+  it('should restyle model materials and give them back when switching to shaded', () => {
+    const mesh = createMesh();
+    meshListener.added(mesh);
+    const material = (mesh.material as THREE.MeshLambertMaterial[])[0]!;
+
+    service.setStyle('clay');
+    expect(`#${material.color.getHexString()}`).toBe(RENDER_STYLES.clay.material.color!);
+
+    service.setStyle('xray');
+    expect(`#${material.color.getHexString()}`).toBe('#ff0000');
+    expect(material.transparent).toBeTrue();
+    expect(material.depthWrite).toBeFalse();
+
+    service.setStyle('shaded');
+    expect(material.transparent).toBeFalse();
+    expect(material.opacity).toBe(1);
+  });
+
+  it('should give back the polygon offset after drawing edges', () => {
+    const mesh = createMesh();
+    meshListener.added(mesh);
+    const material = (mesh.material as THREE.MeshLambertMaterial[])[0]!;
+
+    service.setStyle('hidden-line');
+    expect(material.polygonOffset).toBeTrue();
+    expect(material.polygonOffsetFactor).toBe(1);
+
+    service.setStyle('shaded');
+    expect(material.polygonOffset).toBeFalse();
+    expect(material.polygonOffsetFactor).toBe(0);
+    expect(material.polygonOffsetUnits).toBe(0);
+  });
+
+  it('should remember the style in the preferences', () => {
+    service.setStyle('wireframe');
+
+    expect(TestBed.inject(PreferencesService).preferences().renderStyle).toBe('wireframe');
+    expect(JSON.parse(storage.get(PREFERENCES_CONFIG.storageKey)!).renderStyle).toBe('wireframe');
+  });
+
+  it('should draw feature edges only for the elements a mesh draws', () => {
+    const mesh = createMesh();
+    service.setStyle('shaded-edges');
+    meshListener.added(mesh);
+
+    const edges = edgesOf(mesh)!;
+    expect(edges.geometry.getAttribute('position').count).toBe(12 * 2);
+    expect(edges.geometry.groups).toEqual([{ start: 0, count: 24, materialIndex: 0 }]);
+
+    // Only the first face stays visible
+    mesh.geometry.clearGroups();
+    mesh.geometry.addGroup(0, 6, 0);
+    service.update();
+    expect(edges.geometry.groups).toEqual([{ start: 0, count: 8, materialIndex: 0 }]);
+
+    service.setStyle('shaded');
+    expect(edges.visible).toBeFalse();
+  });
+
+  it('should rebuild the edges at a new angle within the limits', () => {
+    const mesh = createMesh();
+    service.setStyle('hidden-line');
+    meshListener.added(mesh);
+
+    service.setEdgeAngle(1000);
+
+    expect(service.edgeAngle()).toBe(RENDER_STYLE_CONFIG.maxEdgeAngle);
+    expect(edgesOf(mesh)).toBeDefined();
+    expect(mesh.children.length).toBe(1);
+  });
+
+  it('should outline the selection unless turned off', async () => {
+    selected.set([{ modelId: 'arch', localId: 4 }]);
+    selectedByModel.set(new Map([['arch', [4]]]));
+
+    await service.updateOutline();
+    expect(mockFragmentsService.getElementsGeometry).toHaveBeenCalledWith('arch', [4]);
+    expect(outlines().length).toBe(1);
+
+    service.setSelectionOutline(false);
+    await service.updateOutline();
+    expect(outlines().length).toBe(0);
+  });
+});
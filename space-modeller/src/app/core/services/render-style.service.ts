@@ -0,0 +1,394 @@
+import { Injectable, computed, inject } from '@angular/core';
+import * as THREE from 'three';
+import { LineMaterial } from 'three/examples/jsm/lines/LineMaterial.js';
+import { LineSegments2 } from 'three/examples/jsm/lines/LineSegments2.js';
+import { LineSegmentsGeometry } from 'three/examples/jsm/lines/LineSegmentsGeometry.js';
+import { FragmentsService } from './fragments.service';
+import { PreferencesService } from './preferences.service';
+import { RenderLoopService } from './render-loop.service';
+import { SelectionService } from './selection.service';
+import { RENDER_STYLE_CONFIG, RENDER_STYLES } from '../../shared/constants/viewer.constants';
+import {
+  ElementGeometry,
+  RenderStyle,
+  RenderStyleMaterial,
+  ViewerContext,
+} from '../../shared/models/viewer.model';
+import { getEdgeRanges, getFeatureEdges } from '../../shared/utils/render-style.utils';
+
+/**
+ * Feature edges of a model mesh
+ */
+interface MeshEdges {
+  /**
+   * Vertex data of the mesh, kept because fragments releases its own copy once uploaded
+   * and the edges are rebuilt whenever the edge angle changes; null if already released
+   */
+  source: { positions: ArrayLike<number>; index: ArrayLike<number> | null } | null;
+  lines: THREE.LineSegments<THREE.BufferGeometry, THREE.Material[]> | null;
+  /** Index offset of each edge's triangle */
+  triangles: Uint32Array;
+  /** Draw groups of the mesh the edges were last matched to */
+  groups: THREE.BufferGeometry['groups'] | null;
+  groupCount: number;
+}
+
+/**
+ * Render styles of the models: shaded, shaded with edges, hidden line,
+ * wireframe, X-ray and clay
+ * Styles change the models' own materials and draw feature edges as children
+ * of the model meshes; the selected elements can be outlined on top of
+ * everything. The style is kept in the user's preferences
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RenderStyleService {
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly selection = inject(SelectionService);
+  private readonly preferences = inject(PreferencesService);
+  private readonly renderLoop = inject(RenderLoopService);
+
+  private context: ViewerContext | null = null;
+  private stopWatching: (() => void) | null = null;
+  private readonly meshes = new Map<THREE.Mesh, MeshEdges>();
+  // Loaded values of the materials the current style changed
+  private readonly originals = new WeakMap<THREE.MeshLambertMaterial, RenderStyleMaterial>();
+  private outlineRequest = 0;
+  private readonly outline = new THREE.Group();
+
+  private readonly edgeMaterial = new THREE.LineBasicMaterial({
+    color: RENDER_STYLE_CONFIG.edgeColor,
+  });
+  private readonly outlineMaterial = new LineMaterial({
+    linewidth: RENDER_STYLE_CONFIG.outlineWidth,
+    depthTest: false,
+    transparent: true,
+  });
+
+  /** Current render style */
+  readonly style = computed(() => this.preferences.preferences().renderStyle);
+
+  /** Minimum angle between faces for an edge to be drawn (degrees) */
+  readonly edgeAngle = computed(() => this.preferences.preferences().edgeAngle);
+
+  /** Whether selected elements are outlined */
+  readonly selectionOutline = computed(() => this.preferences.preferences().selectionOutline);
+
+  /**
+   * Start styling the models shown in the viewer's scene
+   * Call after the fragments service is initialized, before any model is loaded
+   */
+  attach(context: ViewerContext): void {
+    this.context = context;
+    this.outline.name = 'SelectionOutline';
+    context.scene.add(this.outline);
+    this.stopWatching = this.fragmentsService.watchMeshes({
+      added: (mesh) => this.addMesh(mesh),
+      removed: (mesh) => this.removeMesh(mesh),
+    });
+  }
+
+  /**
+   * Give the models back their own materials and remove edges and outline
+   */
+  detach(): void {
+    this.stopWatching?.();
+    this.stopWatching = null;
+    this.restoreMaterials();
+    [...this.meshes.keys()].forEach((mesh) => this.removeMesh(mesh));
+    this.outlineRequest++;
+    this.clearOutline();
+    this.outline.removeFromParent();
+    this.context = null;
+  }
+
+  /**
+   * Switch the render style and remember it
+   */
+  setStyle(style: RenderStyle): void {
+    this.restoreMaterials();
+    this.preferences.update({ renderStyle: style });
+    this.meshes.forEach((entry, mesh) => {
+      this.styleMaterials(mesh);
+      this.updateEdges(mesh, entry);
+    });
+    this.renderLoop.requestRender();
+  }
+
+  /**
+   * Set the minimum angle between faces for an edge to be drawn, within the configured limits
+   */
+  setEdgeAngle(angle: number): void {
+    if (!Number.isFinite(angle)) {
+      return;
+    }
+
+    const { minEdgeAngle, maxEdgeAngle } = RENDER_STYLE_CONFIG;
+    this.preferences.update({ edgeAngle: Math.min(maxEdgeAngle, Math.max(minEdgeAngle, angle)) });
+    this.meshes.forEach((entry, mesh) => {
+      removeLines(entry);
+      this.updateEdges(mesh, entry);
+    });
+    this.renderLoop.requestRender();
+    void this.updateOutline();
+  }
+
+  /**
+   * Turn the selection outline on or off and remember it
+   */
+  setSelectionOutline(enabled: boolean): void {
+    this.preferences.update({ selectionOutline: enabled });
+    void this.updateOutline();
+  }
+
+  /**
+   * Keep the feature edges in step with the elements each mesh draws
+   * Call every frame before rendering
+   */
+  update(): void {
+    this.meshes.forEach((entry, mesh) => syncGroups(mesh, entry));
+  }
+
+  /**
+   * Outline the selected elements in the selection colour, replacing the previous outline
+   * Call whenever the selection or its colours change
+   * Only the latest request is applied when several overlap
+   */
+  async updateOutline(): Promise<void> {
+    const request = ++this.outlineRequest;
+    const enabled =
+      this.context !== null &&
+      this.selectionOutline() &&
+      this.selection.selected().length <= RENDER_STYLE_CONFIG.maxOutlined;
+
+    const parts: ElementGeometry[] = [];
+    if (enabled) {
+      for (const [modelId, localIds] of this.selection.selectedByModel()) {
+        try {
+          parts.push(...(await this.fragmentsService.getElementsGeometry(modelId, localIds)));
+        } catch (error) {
+          console.warn(`Failed to outline the selection in model ${modelId}:`, error);
+        }
+      }
+    }
+
+    const edges = parts.map(({ geometry }) => {
+      const positions = geometry.getAttribute('position').array;
+      const { positions: segments } = getFeatureEdges(
+        positions,
+        geometry.index?.array ?? null,
+        this.edgeAngle()
+      );
+      geometry.dispose();
+      return segments;
+    });
+    if (request !== this.outlineRequest) {
+      return;
+    }
+
+    this.clearOutline();
+    const segments = concat(edges);
+    if (segments.length > 0) {
+      this.outlineMaterial.color.set(this.selection.colors().selection);
+      const lines = new LineSegments2(
+        new LineSegmentsGeometry().setPositions(segments),
+        this.outlineMaterial
+      );
+      lines.name = 'SelectionOutlineLines';
+      // Drawn after the models, including see-through ones
+      lines.renderOrder = 1;
+      this.outline.add(lines);
+    }
+    this.renderLoop.requestRender();
+  }
+
+  /**
+   * Helper: Style a new model mesh and keep what is needed to draw its edges
+   */
+  private addMesh(mesh: THREE.Mesh): void {
+    if (!getBaseMaterial(mesh)) {
+      // Lines and far-away meshes of the fragments level of detail are left as they are
+      return;
+    }
+
+    const { geometry } = mesh;
+    const positions = geometry.getAttribute('position')?.array;
+    const entry: MeshEdges = {
+      source: positions ? { positions, index: geometry.index?.array ?? null } : null,
+      lines: null,
+      triangles: new Uint32Array(),
+      groups: null,
+      groupCount: 0,
+    };
+    this.meshes.set(mesh, entry);
+    this.styleMaterials(mesh);
+    this.updateEdges(mesh, entry);
+  }
+
+  /**
+   * Helper: Drop the edges of a mesh that is no longer drawn
+   */
+  private removeMesh(mesh: THREE.Mesh): void {
+    const entry = this.meshes.get(mesh);
+    if (entry) {
+      removeLines(entry);
+      this.meshes.delete(mesh);
+    }
+  }
+
+  /**
+   * Helper: Show or hide the edges of a mesh for the current style, building them if needed
+   */
+  private updateEdges(mesh: THREE.Mesh, entry: MeshEdges): void {
+    const visible = RENDER_STYLES[this.style()].edges;
+    if (visible && !entry.lines && entry.source) {
+      const { positions, index } = entry.source;
+      const edges = getFeatureEdges(positions, index, this.edgeAngle());
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.BufferAttribute(edges.positions, 3));
+      entry.lines = new THREE.LineSegments(geometry, [this.edgeMaterial]);
+      entry.lines.name = 'FeatureEdges';
+      entry.triangles = edges.triangles;
+      entry.groups = null;
+      mesh.add(entry.lines);
+      syncGroups(mesh, entry);
+    }
+
+    if (entry.lines) {
+      entry.lines.visible = visible;
+    }
+  }
+
+  /**
+   * Helper: Apply the current style to the loaded material of a mesh
+   */
+  private styleMaterials(mesh: THREE.Mesh): void {
+    const material = getBaseMaterial(mesh);
+    const changes = RENDER_STYLES[this.style()].material;
+    if (!material || Object.keys(changes).length === 0) {
+      return;
+    }
+
+    if (!this.originals.has(material)) {
+      this.originals.set(material, getMaterialState(material));
+    }
+    setMaterialState(material, changes);
+  }
+
+  /**
+   * Helper: Give the models back their loaded materials
+   */
+  private restoreMaterials(): void {
+    this.meshes.forEach((_entry, mesh) => {
+      const material = getBaseMaterial(mesh);
+      const original = material && this.originals.get(material);
+      if (material && original) {
+        setMaterialState(material, original);
+        this.originals.delete(material);
+      }
+    });
+  }
+
+  /**
+   * Helper: Dispose the current selection outline
+   */
+  private clearOutline(): void {
+    [...this.outline.children].forEach((lines) => {
+      lines.removeFromParent();
+      if (lines instanceof LineSegments2) {
+        lines.geometry.dispose();
+      }
+    });
+  }
+}
+
+/**
+ * Helper: Material a model mesh was loaded with; highlight materials come after it
+ * @returns The material, or null for meshes that are not styled
+ */
+function getBaseMaterial(mesh: THREE.Mesh): THREE.MeshLambertMaterial | null {
+  const material = Array.isArray(mesh.material) ? mesh.material[0] : mesh.material;
+  return material instanceof THREE.MeshLambertMaterial ? material : null;
+}
+
+/**
+ * Helper: Read the material properties render styles change
+ */
+function getMaterialState(material: THREE.MeshLambertMaterial): RenderStyleMaterial {
+  return {
+    color: `#${material.color.getHexString()}`,
+    emissive: `#${material.emissive.getHexString()}`,
+    wireframe: material.wireframe,
+    transparent: material.transparent,
+    opacity: material.opacity,
+    depthWrite: material.depthWrite,
+    polygonOffset: material.polygonOffset,
+    polygonOffsetFactor: material.polygonOffsetFactor,
+    polygonOffsetUnits: material.polygonOffsetUnits,
+  };
+}
+
+/**
+ * Helper: Change material properties, leaving unset ones as they are
+ */
+function setMaterialState(material: THREE.MeshLambertMaterial, state: RenderStyleMaterial): void {
+  if (state.color !== undefined) {
+    material.color.set(state.color);
+  }
+  if (state.emissive !== undefined) {
+    material.emissive.set(state.emissive);
+  }
+  material.wireframe = state.wireframe ?? material.wireframe;
+  material.transparent = state.transparent ?? material.transparent;
+  material.opacity = state.opacity ?? material.opacity;
+  material.depthWrite = state.depthWrite ?? material.depthWrite;
+  material.polygonOffset = state.polygonOffset ?? material.polygonOffset;
+  material.polygonOffsetFactor = state.polygonOffsetFactor ?? material.polygonOffsetFactor;
+  material.polygonOffsetUnits = state.polygonOffsetUnits ?? material.polygonOffsetUnits;
+  material.needsUpdate = true;
+}
+
+/**
+ * Helper: Draw only the edges of the elements a mesh currently draws
+ * Fragments rebuilds the draw groups of a mesh whenever its visible or
+ * highlighted elements change
+ */
+function syncGroups(mesh: THREE.Mesh, entry: MeshEdges): void {
+  const { lines } = entry;
+  const { groups } = mesh.geometry;
+  if (!lines || (groups === entry.groups && groups.length === entry.groupCount)) {
+    return;
+  }
+
+  entry.groups = groups;
+  entry.groupCount = groups.length;
+  lines.geometry.clearGroups();
+  // A mesh with a single material draws all of its triangles
+  const ranges = Array.isArray(mesh.material) ? groups : [{ start: 0, count: Infinity }];
+  for (const { start, count } of getEdgeRanges(entry.triangles, ranges)) {
+    lines.geometry.addGroup(start * 2, count * 2, 0);
+  }
+}
+
+/**
+ * Helper: Remove and free the edges of a mesh (the material is shared)
+ */
+function removeLines(entry: MeshEdges): void {
+  entry.lines?.removeFromParent();
+  entry.lines?.geometry.dispose();
+  entry.lines = null;
+}
+
+/**
+ * Helper: Join arrays of coordinates
+ */
+function concat(arrays: Float32Array[]): Float32Array {
+  const result = new Float32Array(arrays.reduce((length, array) => length + array.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
@@ -0,0 +1,102 @@
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+import { ScreenshotService } from './screenshot.service';
+import { RenderLoopService } from './render-loop.service';
+import { SCREENSHOT_CONFIG } from '../../shared/constants/viewer.constants';
+import { ScreenshotOptions, ViewerContext } from '../../shared/models/viewer.model';
+
+describe('ScreenshotService', () => {
+  let service: ScreenshotService;
+  let context: ViewerContext;
+  let camera: THREE.PerspectiveCamera;
+  let renderSpy: jasmine.Spy;
+  // Camera view and background of each scene render
+  let renders: { view: THREE.PerspectiveCamera['view']; background: unknown }[];
+
+  const options: ScreenshotOptions = {
+    width: SCREENSHOT_CONFIG.tileSize + 952,
+    height: 1000,
+    format: 'png',
+    transparent: false,
+    title: '',
+    legend: false,
+    scaleBar: false,
+  };
+
+  beforeEach(() => {
+    renders = [];
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ScreenshotService);
+
+    camera = new THREE.PerspectiveCamera(60, 1, 0.1, 1000);
+    camera.position.set(10, 10, 10);
+    const scene = new THREE.Scene();
+    scene.background = new THREE.Color('#1e1e1e');
+    // Rendering needs WebGL; output pass renders are not of the scene
+    renderSpy = jasmine.createSpy('render').and.callFake((object: THREE.Object3D) => {
+      if (object === scene) {
+        renders.push({ view: camera.view && { ...camera.view }, background: scene.background });
+      }
+    });
+    context = {
+      scene,
+      renderer: {
+        getClearColor: (target: THREE.Color) => target.set('#000000'),
+        getClearAlpha: () => 1,
+        setClearColor: jasmine.createSpy('setClearColor'),
+        getRenderTarget: () => null,
+        setRenderTarget: () => undefined,
+        render: renderSpy,
+        readRenderTargetPixels: () => undefined,
+        outputColorSpace: THREE.SRGBColorSpace,
+        toneMapping: THREE.NoToneMapping,
+        toneMappingExposure: 1,
+      } as unknown as THREE.WebGLRenderer,
+      controls: { target: new THREE.Vector3() } as any,
+      canvas: document.createElement('canvas'),
+      getCamera: () => camera,
+    };
+    service.attach(context);
+  });
+
+  afterEach(() => service.detach());
+
+  it('should render the image in tiles and put the camera back', async () => {
+    const requestRender = spyOn(TestBed.inject(RenderLoopService), 'requestRender');
+
+    const blob = await service.capture(options);
+
+    expect(blob.type).toBe('image/png');
+    expect(renders.length).toBe(2);
+    expect(renders[0]!.view).toEqual(
+      jasmine.objectContaining({ fullWidth: options.width, offsetX: 0, width: 2048 })
+    );
+    expect(renders[1]!.view).toEqual(
+      jasmine.objectContaining({ offsetX: SCREENSHOT_CONFIG.tileSize, width: 952, height: 1000 })
+    );
+    expect(camera.view).toBeNull();
+    expect(camera.aspect).toBe(1);
+    expect(requestRender).toHaveBeenCalled();
+  });
+
+  it('should leave the background out of transparent PNG images only', async () => {
+    const background = context.scene.background;
+
+    await service.capture({ ...options, transparent: true });
+    expect(renders[0]!.background).toBeNull();
+    expect(context.renderer.setClearColor).toHaveBeenCalledWith(jasmine.any(THREE.Color), 0);
+    expect(context.scene.background).toBe(background);
+
+    renders = [];
+    const blob = await service.capture({ ...options, format: 'jpeg', transparent: true });
+    expect(blob.type).toBe('image/jpeg');
+    expect(renders[0]!.background).toBe(background);
+  });
+
+  it('should refuse to capture without a viewer', async () => {
+    service.detach();
+
+    await expectAsync(service.capture(options)).toBeRejectedWithError(/not ready/);
+    expect(renderSpy).not.toHaveBeenCalled();
+  });
+});
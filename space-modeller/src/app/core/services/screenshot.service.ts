@@ -0,0 +1,319 @@
+import { Injectable, inject } from '@angular/core';
+import * as THREE from 'three';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { ColorService } from './color.service';
+import { RenderLoopService } from './render-loop.service';
+import { RENDERER_CONFIG, SCREENSHOT_CONFIG } from '../../shared/constants/viewer.constants';
+import { ScreenshotOptions, ThematicLegend, ViewerContext } from '../../shared/models/viewer.model';
+import { flipRows, getImageTiles, getScaleBar } from '../../shared/utils/screenshot.utils';
+
+/**
+ * Screenshots of the viewer at any resolution
+ * The view is rendered off screen in tiles and stitched, so images can be larger than
+ * the canvas and the GPU's largest render target. Tiles are rendered without the
+ * post effects: screen-space ambient occlusion and outlines would show seams between
+ * tiles. Tone mapping and exposure apply as on screen
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ScreenshotService {
+  private readonly colorService = inject(ColorService);
+  private readonly renderLoop = inject(RenderLoopService);
+
+  private context: ViewerContext | null = null;
+
+  /**
+   * Take screenshots of a viewer
+   */
+  attach(context: ViewerContext): void {
+    this.context = context;
+  }
+
+  /**
+   * Stop taking screenshots (the viewer is being destroyed)
+   */
+  detach(): void {
+    this.context = null;
+  }
+
+  /**
+   * Size of the view on screen (CSS pixels); zero before the viewer is ready
+   */
+  getViewSize(): { width: number; height: number } {
+    const canvas = this.context?.canvas;
+    return { width: canvas?.clientWidth ?? 0, height: canvas?.clientHeight ?? 0 };
+  }
+
+  /**
+   * Render the current view to an image
+   * The view keeps its height and is widened or narrowed to the image proportions
+   * @returns PNG or JPEG image
+   */
+  async capture(options: ScreenshotOptions): Promise<Blob> {
+    const { context } = this;
+    if (!context) {
+      throw new Error('The viewer is not ready');
+    }
+
+    const width = clampSize(options.width);
+    const height = clampSize(options.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context2d = canvas.getContext('2d');
+    if (!context2d) {
+      throw new Error('Images cannot be drawn in this browser');
+    }
+
+    const transparent = options.transparent && options.format === 'png';
+    this.renderTiles(context2d, width, height, transparent);
+
+    const scale = Math.min(width, height) / 1000;
+    if (options.title.trim()) {
+      drawTitle(context2d, options.title.trim(), scale);
+    }
+    const legend = this.colorService.legend();
+    if (options.legend && legend) {
+      drawLegend(context2d, legend, scale);
+    }
+    if (options.scaleBar) {
+      this.drawScaleBar(context2d, scale);
+    }
+
+    const type = options.format === 'jpeg' ? 'image/jpeg' : 'image/png';
+    return new Promise((resolve, reject) =>
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('The image could not be encoded'))),
+        type,
+        SCREENSHOT_CONFIG.jpegQuality
+      )
+    );
+  }
+
+  /**
+   * Helper: Render the view tile by tile into the image
+   * The camera and background are changed for the tiles and put back afterwards
+   */
+  private renderTiles(
+    context2d: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    transparent: boolean
+  ): void {
+    const { renderer, scene } = this.context!;
+    const camera = this.context!.getCamera();
+    const { tileSize, samples } = SCREENSHOT_CONFIG;
+
+    // Scenes render in linear colour; the output pass tone maps and converts to sRGB
+    const target = new THREE.WebGLRenderTarget(tileSize, tileSize, {
+      type: THREE.HalfFloatType,
+      samples: RENDERER_CONFIG.antialias ? samples : 0,
+    });
+    const output = new THREE.WebGLRenderTarget(tileSize, tileSize);
+    const outputPass = new OutputPass();
+    const pixels = new Uint8Array(tileSize * tileSize * 4);
+
+    const restoreCamera = fitCamera(camera, width / height);
+    const background = scene.background;
+    const clearColor = renderer.getClearColor(new THREE.Color());
+    const clearAlpha = renderer.getClearAlpha();
+    const previousTarget = renderer.getRenderTarget();
+    if (transparent) {
+      scene.background = null;
+      renderer.setClearColor(clearColor, 0);
+    }
+
+    try {
+      getImageTiles(width, height, tileSize).forEach((tile) => {
+        camera.setViewOffset(width, height, tile.x, tile.y, tile.width, tile.height);
+        target.setSize(tile.width, tile.height);
+        output.setSize(tile.width, tile.height);
+
+        renderer.setRenderTarget(target);
+        renderer.render(scene, camera);
+        outputPass.render(renderer, output, target, 0, false);
+
+        const tilePixels = pixels.subarray(0, tile.width * tile.height * 4);
+        renderer.readRenderTargetPixels(output, 0, 0, tile.width, tile.height, tilePixels);
+        const image = new ImageData(
+          flipRows(tilePixels, tile.width, tile.height),
+          tile.width,
+          tile.height
+        );
+        context2d.putImageData(image, tile.x, tile.y);
+      });
+    } finally {
+      renderer.setRenderTarget(previousTarget);
+      scene.background = background;
+      renderer.setClearColor(clearColor, clearAlpha);
+      restoreCamera();
+      target.dispose();
+      output.dispose();
+      outputPass.dispose();
+      this.renderLoop.requestRender();
+    }
+  }
+
+  /**
+   * Helper: Draw a scale bar in the bottom-right corner, true at the orbit target
+   */
+  private drawScaleBar(context2d: CanvasRenderingContext2D, scale: number): void {
+    const { controls } = this.context!;
+    const camera = this.context!.getCamera();
+    const imageHeight = context2d.canvas.height;
+    const viewHeight =
+      camera instanceof THREE.PerspectiveCamera
+        ? 2 *
+          camera.position.distanceTo(controls.target) *
+          Math.tan(THREE.MathUtils.degToRad(camera.getEffectiveFOV() / 2))
+        : (camera.top - camera.bottom) / camera.zoom;
+    const imageWidth = context2d.canvas.width;
+    const maxPixels = imageWidth * SCREENSHOT_CONFIG.scaleBarWidth;
+    const bar = getScaleBar(viewHeight / imageHeight, maxPixels);
+    if (!bar) {
+      return;
+    }
+
+    const { textSize, margin, overlayColor } = SCREENSHOT_CONFIG;
+    const right = imageWidth - margin * scale;
+    const bottom = imageHeight - margin * scale;
+    const tick = textSize * scale * 0.5;
+    const boxHeight = tick + textSize * scale * 1.5 + margin * scale * 2;
+    drawBox(
+      context2d,
+      right - bar.pixels - margin * scale * 2,
+      bottom - boxHeight,
+      bar.pixels + margin * scale * 2,
+      boxHeight
+    );
+
+    const barBottom = bottom - margin * scale;
+    context2d.strokeStyle = overlayColor;
+    context2d.lineWidth = Math.max(1, 2 * scale);
+    context2d.beginPath();
+    context2d.moveTo(right - margin * scale - bar.pixels, barBottom - tick);
+    context2d.lineTo(right - margin * scale - bar.pixels, barBottom);
+    context2d.lineTo(right - margin * scale, barBottom);
+    context2d.lineTo(right - margin * scale, barBottom - tick);
+    context2d.stroke();
+
+    context2d.fillStyle = overlayColor;
+    context2d.font = `${textSize * scale}px sans-serif`;
+    context2d.textAlign = 'center';
+    context2d.textBaseline = 'bottom';
+    context2d.fillText(bar.label, right - margin * scale - bar.pixels / 2, barBottom - tick);
+  }
+}
+
+/**
+ * Helper: Round an image side and keep it within the configured limits
+ */
+function clampSize(size: number): number {
+  return Math.min(SCREENSHOT_CONFIG.maxSize, Math.max(1, Math.round(size) || 1));
+}
+
+/**
+ * Helper: Give the camera the image proportions, keeping its vertical extent
+ * @returns Puts the camera back as it was
+ */
+function fitCamera(
+  camera: THREE.PerspectiveCamera | THREE.OrthographicCamera,
+  aspect: number
+): () => void {
+  if (camera instanceof THREE.PerspectiveCamera) {
+    const previous = camera.aspect;
+    camera.aspect = aspect;
+    return () => {
+      camera.aspect = previous;
+      camera.clearViewOffset();
+    };
+  }
+
+  const { left, right } = camera;
+  const center = (left + right) / 2;
+  const halfWidth = ((camera.top - camera.bottom) / 2) * aspect;
+  camera.left = center - halfWidth;
+  camera.right = center + halfWidth;
+  return () => {
+    camera.left = left;
+    camera.right = right;
+    camera.clearViewOffset();
+  };
+}
+
+/**
+ * Helper: Fill the overlay background behind text
+ */
+function drawBox(
+  context2d: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  context2d.fillStyle = SCREENSHOT_CONFIG.overlayBackground;
+  context2d.fillRect(x, y, width, height);
+}
+
+/**
+ * Helper: Draw the title in the top-left corner
+ */
+function drawTitle(context2d: CanvasRenderingContext2D, title: string, scale: number): void {
+  const { titleSize, margin, overlayColor } = SCREENSHOT_CONFIG;
+  context2d.font = `bold ${titleSize * scale}px sans-serif`;
+  const textWidth = context2d.measureText(title).width;
+  drawBox(
+    context2d,
+    margin * scale,
+    margin * scale,
+    textWidth + margin * scale * 2,
+    titleSize * scale + margin * scale * 2
+  );
+
+  context2d.fillStyle = overlayColor;
+  context2d.textAlign = 'left';
+  context2d.textBaseline = 'top';
+  context2d.fillText(title, margin * scale * 2, margin * scale * 2);
+}
+
+/**
+ * Helper: Draw the colour legend in the bottom-left corner, like the legend overlay
+ */
+function drawLegend(
+  context2d: CanvasRenderingContext2D,
+  legend: ThematicLegend,
+  scale: number
+): void {
+  const { textSize, margin, overlayColor } = SCREENSHOT_CONFIG;
+  const line = textSize * scale * 1.5;
+  const swatch = textSize * scale;
+  const labels = legend.entries.map((entry) => `${entry.label} (${entry.count})`);
+
+  context2d.font = `bold ${textSize * scale}px sans-serif`;
+  let textWidth = context2d.measureText(legend.title).width;
+  context2d.font = `${textSize * scale}px sans-serif`;
+  labels.forEach((label) => {
+    textWidth = Math.max(textWidth, swatch * 1.5 + context2d.measureText(label).width);
+  });
+
+  const boxHeight = line * (labels.length + 1) + margin * scale * 2;
+  const left = margin * scale;
+  const top = context2d.canvas.height - margin * scale - boxHeight;
+  drawBox(context2d, left, top, textWidth + margin * scale * 2, boxHeight);
+
+  context2d.textAlign = 'left';
+  context2d.textBaseline = 'middle';
+  context2d.fillStyle = overlayColor;
+  context2d.font = `bold ${textSize * scale}px sans-serif`;
+  context2d.fillText(legend.title, left + margin * scale, top + margin * scale + line / 2);
+
+  context2d.font = `${textSize * scale}px sans-serif`;
+  legend.entries.forEach((entry, index) => {
+    const middle = top + margin * scale + line * (index + 1.5);
+    context2d.fillStyle = entry.color;
+    context2d.fillRect(left + margin * scale, middle - swatch / 2, swatch, swatch);
+    context2d.fillStyle = overlayColor;
+    context2d.fillText(labels[index]!, left + margin * scale + swatch * 1.5, middle);
+  });
+}
@@ -0,0 +1,180 @@
+import { TestBed } from '@angular/core/testing';
+import { SelectionService } from './selection.service';
+import { FragmentsService } from './fragments.service';
+import { SELECTION_CONFIG } from '../../shared/constants/viewer.constants';
+
+describe('SelectionService', () => {
+  let service: SelectionService;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+
+  const wall = { modelId: 'arch', localId: 1 };
+  const door = { modelId: 'arch', localId: 2 };
+  const beam = { modelId: 'struct', localId: 1 };
+
+  beforeEach(() => {
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', [
+      'highlightElements',
+      'resetHighlight',
+      'update',
+    ]);
+    mockFragmentsService.highlightElements.and.returnValue(Promise.resolve());
+    mockFragmentsService.resetHighlight.and.returnValue(Promise.resolve());
+    mockFragmentsService.update.and.returnValue(Promise.resolve());
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: FragmentsService, useValue: mockFragmentsService }],
+    });
+
+    service = TestBed.inject(SelectionService);
+  });
+
+  describe('select', () => {
+    it('should replace the selection by default', () => {
+      service.select(wall);
+      service.select(door);
+
+      expect(service.selected()).toEqual([door]);
+      expect(service.primary()).toEqual(door);
+    });
+
+    it('should toggle elements in toggle mode', () => {
+      service.select(wall);
+      service.select(door, 'toggle');
+      expect(service.selected()).toEqual([wall, door]);
+
+      service.select({ ...wall }, 'toggle');
+      expect(service.selected()).toEqual([door]);
+    });
+
+    it('should add elements once in add mode', () => {
+      service.select(wall, 'add');
+      service.select(beam, 'add');
+      service.select(wall, 'add');
+
+      expect(service.selected()).toEqual([wall, beam]);
+    });
+
+    it('should clear on a plain click on empty space only', () => {
+      service.select(wall);
+
+      service.select(null, 'toggle');
+      expect(service.selected()).toEqual([wall]);
+
+      service.select(null);
+      expect(service.selected()).toEqual([]);
+    });
+
+    it('should group selected local IDs by model', () => {
+      service.setSelection([wall, beam, door]);
+
+      expect(service.selectedByModel().get('arch')).toEqual([1, 2]);
+      expect(service.selectedByModel().get('struct')).toEqual([1]);
+      expect(service.isSelected(beam)).toBeTrue();
+    });
+  });
+
+  describe('highlighting', () => {
+    it('should highlight the selection in the selection colour', async () => {
+      service.select(wall);
+      await service.applyHighlights();
+
+      expect(mockFragmentsService.resetHighlight).toHaveBeenCalledWith('arch');
+      expect(mockFragmentsService.highlightElements).toHaveBeenCalledWith(
+        'arch',
+        [1],
+        SELECTION_CONFIG.colors.selection,
+        SELECTION_CONFIG.colors.opacity
+      );
+      expect(mockFragmentsService.update).toHaveBeenCalled();
+    });
+
+    it('should highlight the hovered element in the hover colour', async () => {
+      service.setHovered(beam);
+      await service.applyHighlights();
+
+      expect(mockFragmentsService.highlightElements).toHaveBeenCalledWith(
+        'struct',
+        [1],
+        SELECTION_CONFIG.colors.hover,
+        SELECTION_CONFIG.colors.opacity
+      );
+    });
+
+    it('should not paint hover over a selected element', async () => {
+      service.select(wall);
+      service.setHovered({ ...wall });
+      await service.applyHighlights();
+
+      const colors = mockFragmentsService.highlightElements.calls.allArgs().map((args) => args[2]);
+      expect(colors).not.toContain(SELECTION_CONFIG.colors.hover);
+    });
+
+    it('should reset models that no longer have highlights', async () => {
+      service.select(beam);
+      await service.applyHighlights();
+      mockFragmentsService.resetHighlight.calls.reset();
+
+      service.select(wall);
+      await service.applyHighlights();
+
+      expect(mockFragmentsService.resetHighlight).toHaveBeenCalledWith('struct');
+      expect(mockFragmentsService.resetHighlight).toHaveBeenCalledWith('arch');
+    });
+
+    it('should repaint with new colours', async () => {
+      service.select(wall);
+      service.setColors({ selection: '#00ff00' });
+      await service.applyHighlights();
+
+      expect(service.colors().hover).toBe(SELECTION_CONFIG.colors.hover);
+      expect(mockFragmentsService.highlightElements).toHaveBeenCalledWith(
+        'arch',
+        [1],
+        '#00ff00',
+        SELECTION_CONFIG.colors.opacity
+      );
+    });
+
+    it('should keep working after a failed repaint', async () => {
+      spyOn(console, 'error');
+      mockFragmentsService.resetHighlight.and.returnValue(Promise.reject(new Error('boom')));
+      service.select(wall);
+      await service.applyHighlights();
+
+      mockFragmentsService.resetHighlight.and.returnValue(Promise.resolve());
+      service.select(door);
+      await service.applyHighlights();
+
+      expect(mockFragmentsService.highlightElements).toHaveBeenCalledWith(
+        'arch',
+        [2],
+        SELECTION_CONFIG.colors.selection,
+        SELECTION_CONFIG.colors.opacity
+      );
+    });
+  });
+
+  describe('removeModel', () => {
+    it('should drop selection and hover of an unloaded model', () => {
+      service.setSelection([wall, beam]);
+      service.setHovered(wall);
+
+      service.removeModel('arch');
+
+      expect(service.selected()).toEqual([beam]);
+      expect(service.hovered()).toBeNull();
+    });
+  });
+
+  describe('reset', () => {
+    it('should forget all state', () => {
+      service.setSelection([wall]);
+      service.setHovered(beam);
+
+      service.reset();
+
+      expect(service.selected()).toEqual([]);
+      expect(service.hovered()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { FragmentsService } from './fragments.service';
+import { SELECTION_CONFIG } from '../../shared/constants/viewer.constants';
+import { HighlightColors, ModelElement, SelectionMode } from '../../shared/models/viewer.model';
+
+/**
+ * Selection of IFC elements across all loaded models
+ * Holds the selected and hovered elements as signals and keeps the
+ * highlight colours in the scene in sync with them
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SelectionService {
+  private readonly fragmentsService = inject(FragmentsService);
+
+  private readonly selectedState = signal<ModelElement[]>([]);
+  private readonly hoveredState = signal<ModelElement | null>(null);
+  private readonly colorsState = signal<HighlightColors>({ ...SELECTION_CONFIG.colors });
+
+  // Models whose highlights were last painted, so stale ones can be reset
+  private highlightedModels = new Set<string>();
+  private highlightQueue: Promise<void> = Promise.resolve();
+
+  /** Selected elements, in selection order */
+  readonly selected = this.selectedState.asReadonly();
+
+  /** Element under the pointer, if any */
+  readonly hovered = this.hoveredState.asReadonly();
+
+  /** Current highlight colours */
+  readonly colors = this.colorsState.asReadonly();
+
+  /** Most recently selected element (e.g. for properties display) */
+  readonly primary = computed(() => this.selectedState().at(-1) ?? null);
+
+  /** Selected local IDs grouped by model ID */
+  readonly selectedByModel = computed(() => {
+    const byModel = new Map<string, number[]>();
+    for (const { modelId, localId } of this.selectedState()) {
+      const localIds = byModel.get(modelId) ?? [];
+      localIds.push(localId);
+      byModel.set(modelId, localIds);
+    }
+    return byModel;
+  });
+
+  /**
+   * Update the selection with a picked element
+   * @param element Picked element, or null when clicking empty space
+   * @param mode How the element combines with the current selection
+   */
+  select(element: ModelElement | null, mode: SelectionMode = 'replace'): void {
+    if (!element) {
+      // Clicking empty space only clears a plain (unmodified) selection
+      if (mode === 'replace') {
+        this.clear();
+      }
+      return;
+    }
+
+    const current = this.selectedState();
+    const alreadySelected = current.some((item) => isSameElement(item, element));
+
+    let next: ModelElement[];
+    switch (mode) {
+      case 'toggle':
+        next = alreadySelected
+          ? current.filter((item) => !isSameElement(item, element))
+          : [...current, element];
+        break;
+      case 'add':
+        next = alreadySelected ? current : [...current, element];
+        break;
+      default:
+        next = [element];
+    }
+
+    this.setSelection(next);
+  }
+
+  /**
+   * Replace the selection with a set of elements
+   */
+  setSelection(elements: ModelElement[]): void {
+    this.selectedState.set(dedupe(elements));
+    this.applyHighlights();
+  }
+
+  /**
+   * Clear the selection
+   */
+  clear(): void {
+    if (this.selectedState().length === 0) {
+      return;
+    }
+    this.setSelection([]);
+  }
+
+  /**
+   * Set the element under the pointer
+   */
+  setHovered(element: ModelElement | null): void {
+    const current = this.hoveredState();
+    if (current === element || (current && element && isSameElement(current, element))) {
+      return;
+    }
+
+    this.hoveredState.set(element);
+    this.applyHighlights();
+  }
+
+  /**
+   * Check whether an element is selected
+   */
+  isSelected(element: ModelElement): boolean {
+    return this.selectedState().some((item) => isSameElement(item, element));
+  }
+
+  /**
+   * Change the highlight colours; unspecified colours keep their value
+   */
+  setColors(colors: Partial<HighlightColors>): void {
+    this.colorsState.update((current) => ({ ...current, ...colors }));
+    this.applyHighlights();
+  }
+
+  /**
+   * Forget selection and hover state of an unloaded model
+   */
+  removeModel(modelId: string): void {
+    this.highlightedModels.delete(modelId);
+    const hovered = this.hoveredState();
+    if (hovered?.modelId === modelId) {
+      this.hoveredState.set(null);
+    }
+
+    const remaining = this.selectedState().filter((item) => item.modelId !== modelId);
+    if (remaining.length !== this.selectedState().length) {
+      this.setSelection(remaining);
+    }
+  }
+
+  /**
+   * Forget all state without repainting (models are being disposed)
+   */
+  reset(): void {
+    this.selectedState.set([]);
+    this.hoveredState.set(null);
+    this.highlightedModels.clear();
+  }
+
+  /**
+   * Repaint highlights to match the current state
+   * Updates are chained so a slow repaint never overwrites a newer one
+   * @returns Resolves once this repaint has been applied
+   */
+  applyHighlights(): Promise<void> {
+    this.highlightQueue = this.highlightQueue
+      .then(() => this.paintHighlights())
+      .catch((error: unknown) => console.error('Failed to update highlights:', error));
+    return this.highlightQueue;
+  }
+
+  /**
+   * Helper: Reset and re-apply highlights of every affected model
+   */
+  private async paintHighlights(): Promise<void> {
+    const colors = this.colorsState();
+    const selected = this.selectedByModel();
+    const hovered = this.hoveredState();
+
+    const models = new Set<string>([...this.highlightedModels, ...selected.keys()]);
+    if (hovered) {
+      models.add(hovered.modelId);
+    }
+
+    for (const modelId of models) {
+      await this.fragmentsService.resetHighlight(modelId);
+
+      const localIds = selected.get(modelId) ?? [];
+      // Selection colour wins over hover on selected elements
+      if (hovered?.modelId === modelId && !localIds.includes(hovered.localId)) {
+        await this.fragmentsService.highlightElements(
+          modelId,
+          [hovered.localId],
+          colors.hover,
+          colors.opacity
+        );
+      }
+      await this.fragmentsService.highlightElements(
+        modelId,
+        localIds,
+        colors.selection,
+        colors.opacity
+      );
+    }
+
+    this.highlightedModels = new Set(selected.keys());
+    if (hovered) {
+      this.highlightedModels.add(hovered.modelId);
+    }
+
+    if (models.size > 0) {
+      await this.fragmentsService.update();
+    }
+  }
+}
+
+/**
+ * Helper: Compare two element references
+ */
+function isSameElement(a: ModelElement, b: ModelElement): boolean {
+  return a.modelId === b.modelId && a.localId === b.localId;
+}
+
+/**
+ * Helper: Drop repeated element references, keeping the first occurrence
+ */
+function dedupe(elements: ModelElement[]): ModelElement[] {
+  return elements.filter(
+    (element, index) => elements.findIndex((other) => isSameElement(other, element)) === index
+  );
+}
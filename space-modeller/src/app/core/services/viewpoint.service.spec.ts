@@ -0,0 +1,165 @@
+import { TestBed } from '@angular/core/testing';
+import { VIEWPOINT_STORAGE, ViewpointService } from './viewpoint.service';
+import { CameraService } from './camera.service';
+import { ClippingService } from './clipping.service';
+import { ModelRegistryService } from './model-registry.service';
+import { NavigationService } from './navigation.service';
+import { VisibilityService } from './visibility.service';
+import { VIEWPOINT_CONFIG } from '../../shared/constants/viewer.constants';
+import { CameraPose } from '../../shared/models/viewer.model';
+
+describe('ViewpointService', () => {
+  let service: ViewpointService;
+  let registry: ModelRegistryService;
+  let storage: Map<string, string>;
+  let mockClipping: jasmine.SpyObj<ClippingService>;
+  let mockVisibility: jasmine.SpyObj<VisibilityService>;
+  let mockCameras: jasmine.SpyObj<CameraService>;
+  let mockNavigation: jasmine.SpyObj<NavigationService>;
+
+  const pose: CameraPose = {
+    position: { x: 10, y: 5, z: 10 },
+    target: { x: 1, y: 0, z: 1 },
+    projection: 'orthographic',
+  };
+
+  const plane = {
+    kind: 'plane' as const,
+    label: 'Plane 1',
+    normal: { x: 0, y: -1, z: 0 },
+    constant: 3,
+  };
+  const storageKey = `${VIEWPOINT_CONFIG.storagePrefix}Architecture.ifc`;
+  const names = () => service.viewpoints().map((viewpoint) => viewpoint.name);
+
+  beforeEach(() => {
+    storage = new Map();
+    mockCameras = jasmine.createSpyObj('CameraService', ['getPose', 'setProjection', 'moveTo']);
+    mockCameras.getPose.and.returnValue(pose);
+    mockCameras.moveTo.and.returnValue(Promise.resolve());
+    mockNavigation = jasmine.createSpyObj('NavigationService', ['setMode']);
+    mockClipping = jasmine.createSpyObj('ClippingService', ['planes', 'setPlanes']);
+    mockClipping.planes.and.returnValue([{ id: 'p1', ...plane }]);
+    mockVisibility = jasmine.createSpyObj('VisibilityService', ['hidden', 'ghosted', 'restore']);
+    mockVisibility.hidden.and.returnValue(new Map([['frag-1', new Set([4])]]));
+    mockVisibility.ghosted.and.returnValue(new Map());
+    mockVisibility.restore.and.returnValue(Promise.resolve());
+
+    TestBed.configureTestingModule({
+      providers: [
+        {
+          provide: VIEWPOINT_STORAGE,
+          useValue: {
+            getItem: (key: string) => storage.get(key) ?? null,
+            setItem: (key: string, value: string) => storage.set(key, value),
+          },
+        },
+        { provide: CameraService, useValue: mockCameras },
+        { provide: NavigationService, useValue: mockNavigation },
+        { provide: ClippingService, useValue: mockClipping },
+        { provide: VisibilityService, useValue: mockVisibility },
+      ],
+    });
+
+    service = TestBed.inject(ViewpointService);
+    registry = TestBed.inject(ModelRegistryService);
+    registry.add({
+      id: 'model-1',
+      name: 'Architecture.ifc',
+      loading: false,
+      progress: 100,
+      fragmentUuid: 'frag-1',
+      visible: true,
+    });
+
+  });
+
+  it('should save the camera, section planes and visibility per model', () => {
+    const viewpoint = service.save('  Entrance ');
+
+    expect(viewpoint).toEqual({
+      id: jasmine.any(String),
+      name: 'Entrance',
+      camera: pose,
+      clippingPlanes: [plane],
+      visibility: { 'frag-1': { name: 'Architecture.ifc', hidden: [4], ghosted: [] } },
+    });
+    expect(JSON.parse(storage.get(storageKey)!)).toEqual([viewpoint]);
+    expect(service.viewpoints()).toEqual([viewpoint!]);
+  });
+
+  it('should number unnamed viewpoints', () => {
+    service.save('');
+    service.save(' ');
+
+    expect(names()).toEqual(['View 1', 'View 2']);
+  });
+
+  it('should keep viewpoints apart per model', () => {
+    service.save('Entrance');
+    registry.add({
+      id: 'model-2',
+      name: 'Structure.ifc',
+      loading: false,
+      progress: 100,
+      fragmentUuid: 'frag-2',
+      visible: true,
+    });
+
+    expect(service.viewpoints()).toEqual([]);
+
+    registry.setActive('model-1');
+    expect(names()).toEqual(['Entrance']);
+  });
+
+  it('should not save without a loaded model', () => {
+    registry.setActive(null);
+
+    expect(service.canSave()).toBeFalse();
+    expect(service.save('Entrance')).toBeNull();
+  });
+
+  it('should not save without a viewer', () => {
+    mockCameras.getPose.and.returnValue(null);
+
+    expect(service.save('Entrance')).toBeNull();
+    expect(service.viewpoints()).toEqual([]);
+  });
+
+  it('should reorder, rename and delete viewpoints', () => {
+    const first = service.save('First')!;
+    const second = service.save('Second')!;
+
+    service.move(second.id, -1);
+    expect(names()).toEqual(['Second', 'First']);
+
+    service.rename(first.id, 'Renamed');
+    service.rename(second.id, '   ');
+    expect(names()).toEqual(['Second', 'Renamed']);
+
+    service.delete(second.id);
+    expect(names()).toEqual(['Renamed']);
+  });
+
+  it('should recall a viewpoint with a camera transition', async () => {
+    const viewpoint = service.save('Entrance')!;
+    mockVisibility.hidden.and.returnValue(new Map());
+
+    await service.recall(viewpoint.id);
+
+    expect(mockNavigation.setMode).toHaveBeenCalledWith('orbit');
+    expect(mockCameras.setProjection).toHaveBeenCalledWith('orthographic');
+    expect(mockCameras.moveTo).toHaveBeenCalledWith(pose);
+    expect(mockClipping.setPlanes).toHaveBeenCalledWith([plane]);
+    expect(mockVisibility.restore).toHaveBeenCalledWith({
+      hidden: new Map([['frag-1', new Set([4])]]),
+      ghosted: new Map(),
+    });
+  });
+
+  it('should ignore unreadable stored data', () => {
+    storage.set(storageKey, '{broken');
+
+    expect(service.viewpoints()).toEqual([]);
+  });
+});
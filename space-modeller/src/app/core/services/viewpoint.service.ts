@@ -0,0 +1,177 @@
+import { Injectable, InjectionToken, computed, inject, signal } from '@angular/core';
+import { CameraService } from './camera.service';
+import { ClippingService } from './clipping.service';
+import { ModelRegistryService } from './model-registry.service';
+import { NavigationService } from './navigation.service';
+import { VisibilityService } from './visibility.service';
+import { VIEWPOINT_CONFIG } from '../../shared/constants/viewer.constants';
+import { Viewpoint } from '../../shared/models/viewer.model';
+import {
+  fromSavedVisibility,
+  moveItem,
+  parseViewpoints,
+  toSavedVisibility,
+} from '../../shared/utils/viewpoint.utils';
+
+/**
+ * Storage holding saved viewpoints
+ * Overridden in tests with an in-memory fake
+ */
+export const VIEWPOINT_STORAGE = new InjectionToken<Storage>('VIEWPOINT_STORAGE', {
+  providedIn: 'root',
+  factory: () => localStorage,
+});
+
+/**
+ * Named viewpoints of the active model
+ * A viewpoint captures the camera, section planes and hidden / ghosted
+ * elements; viewpoints are stored in localStorage under the model name so
+ * they are available whenever the same model is opened again
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ViewpointService {
+  private readonly storage = inject(VIEWPOINT_STORAGE);
+  private readonly cameras = inject(CameraService);
+  private readonly navigation = inject(NavigationService);
+  private readonly modelRegistry = inject(ModelRegistryService);
+  private readonly clipping = inject(ClippingService);
+  private readonly visibility = inject(VisibilityService);
+
+  // Bumped after every write so the list is read again
+  private readonly revision = signal(0);
+
+  /** Storage key of the active model's viewpoints; null without a loaded active model */
+  private readonly storageKey = computed(() => {
+    const model = this.modelRegistry.activeModel();
+    return model?.fragmentUuid ? VIEWPOINT_CONFIG.storagePrefix + model.name : null;
+  });
+
+  /** Viewpoints of the active model, in display order */
+  readonly viewpoints = computed(() => {
+    this.revision();
+    const key = this.storageKey();
+    return key ? parseViewpoints(this.read(key)) : [];
+  });
+
+  /** Whether there is a model to save viewpoints for */
+  readonly canSave = computed(() => this.storageKey() !== null);
+
+  /**
+   * Save the current view under a name
+   * @param name Display name; a numbered name is used when blank
+   * @returns The new viewpoint, or null without a viewer or loaded model
+   */
+  save(name: string): Viewpoint | null {
+    const key = this.storageKey();
+    const camera = this.cameras.getPose();
+    if (!key || !camera) {
+      return null;
+    }
+
+    const viewpoint: Viewpoint = {
+      id: crypto.randomUUID(),
+      name: name.trim() || `View ${this.viewpoints().length + 1}`,
+      camera,
+      clippingPlanes: this.clipping
+        .planes()
+        .map(({ kind, label, normal, constant }) => ({ kind, label, normal, constant })),
+      visibility: toSavedVisibility(
+        { hidden: this.visibility.hidden(), ghosted: this.visibility.ghosted() },
+        new Map(this.getLoadedModels().map(({ modelId, name }) => [modelId, name]))
+      ),
+    };
+    this.write(key, [...this.viewpoints(), viewpoint]);
+    return viewpoint;
+  }
+
+  /**
+   * Restore a viewpoint: section planes and visibility at once, the camera
+   * with an animated transition
+   * @returns Resolves when the camera arrives (or the transition is interrupted)
+   */
+  async recall(id: string): Promise<void> {
+    const viewpoint = this.viewpoints().find((item) => item.id === id);
+    if (!viewpoint) {
+      return;
+    }
+
+    this.clipping.setPlanes(viewpoint.clippingPlanes);
+    this.navigation.setMode('orbit');
+    this.cameras.setProjection(viewpoint.camera.projection);
+    const names = new Map(this.getLoadedModels().map(({ modelId, name }) => [modelId, name]));
+    await Promise.all([
+      this.visibility.restore(fromSavedVisibility(viewpoint.visibility, names)),
+      this.cameras.moveTo(viewpoint.camera),
+    ]);
+  }
+
+  /**
+   * Rename a viewpoint; blank names are ignored
+   */
+  rename(id: string, name: string): void {
+    const key = this.storageKey();
+    if (key && name.trim()) {
+      this.write(
+        key,
+        this.viewpoints().map((item) => (item.id === id ? { ...item, name: name.trim() } : item))
+      );
+    }
+  }
+
+  /**
+   * Move a viewpoint up (negative offset) or down the list
+   */
+  move(id: string, offset: number): void {
+    const key = this.storageKey();
+    const viewpoints = this.viewpoints();
+    const index = viewpoints.findIndex((item) => item.id === id);
+    if (key && index >= 0) {
+      this.write(key, moveItem(viewpoints, index, index + offset));
+    }
+  }
+
+  /**
+   * Delete a viewpoint
+   */
+  delete(id: string): void {
+    const key = this.storageKey();
+    if (key) {
+      this.write(key, this.viewpoints().filter((item) => item.id !== id));
+    }
+  }
+
+  /**
+   * Helper: Loaded models with their scene model ID and name
+   */
+  private getLoadedModels(): { modelId: string; name: string }[] {
+    return this.modelRegistry
+      .loadedModels()
+      .map((model) => ({ modelId: model.fragmentUuid!, name: model.name }));
+  }
+
+  /**
+   * Helper: Read the stored JSON; storage may be unavailable (e.g. privacy mode)
+   */
+  private read(key: string): string | null {
+    try {
+      return this.storage.getItem(key);
+    } catch (error) {
+      console.warn('Failed to read viewpoints:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Helper: Store a model's viewpoints and publish them
+   */
+  private write(key: string, viewpoints: Viewpoint[]): void {
+    try {
+      this.storage.setItem(key, JSON.stringify(viewpoints));
+    } catch (error) {
+      console.error('Failed to store viewpoints:', error);
+    }
+    this.revision.update((revision) => revision + 1);
+  }
+}
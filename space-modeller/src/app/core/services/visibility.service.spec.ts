@@ -0,0 +1,139 @@
+import { TestBed } from '@angular/core/testing';
+import { VisibilityService } from './visibility.service';
+import { FragmentsService } from './fragments.service';
+import { VISIBILITY_CONFIG } from '../../shared/constants/viewer.constants';
+
+describe('VisibilityService', () => {
+  let service: VisibilityService;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+
+  const wall = { modelId: 'arch', localId: 1 };
+  const door = { modelId: 'arch', localId: 2 };
+  const duct = { modelId: 'mep', localId: 7 };
+
+  const hiddenIds = (modelId: string) => [...(service.hidden().get(modelId) ?? [])].sort();
+  const ghostedIds = (modelId: string) => [...(service.ghosted().get(modelId) ?? [])].sort();
+
+  beforeEach(() => {
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', [
+      'getAllModels',
+      'getElementIds',
+      'getItemCategories',
+      'getCategoryElements',
+      'setElementsVisible',
+      'setElementsOpacity',
+    ]);
+    mockFragmentsService.getAllModels.and.returnValue([{ modelId: 'arch' }, { modelId: 'mep' }] as any);
+    mockFragmentsService.getElementIds.and.callFake(async (id) => (id === 'arch' ? [1, 2, 3] : [7]));
+    mockFragmentsService.setElementsVisible.and.returnValue(Promise.resolve());
+    mockFragmentsService.setElementsOpacity.and.returnValue(Promise.resolve());
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: FragmentsService, useValue: mockFragmentsService }],
+    });
+
+    service = TestBed.inject(VisibilityService);
+  });
+
+  it('should start with everything shown', () => {
+    expect(service.isModified()).toBeFalse();
+    expect(service.canUndo()).toBeFalse();
+  });
+
+  it('should hide elements', async () => {
+    await service.hide([wall, door]);
+
+    expect(hiddenIds('arch')).toEqual([1, 2]);
+    expect(mockFragmentsService.setElementsVisible).toHaveBeenCalledWith('arch', [1, 2], false);
+    expect(service.isModified()).toBeTrue();
+  });
+
+  it('should isolate elements by hiding all others in every model', async () => {
+    await service.isolate([wall]);
+
+    expect(hiddenIds('arch')).toEqual([2, 3]);
+    expect(hiddenIds('mep')).toEqual([7]);
+  });
+
+  it('should ghost all other elements and show the ghosted-around elements', async () => {
+    await service.hide([door]);
+
+    await service.ghost([door]);
+
+    expect(hiddenIds('arch')).toEqual([]);
+    expect(ghostedIds('arch')).toEqual([1, 3]);
+    expect(mockFragmentsService.setElementsVisible).toHaveBeenCalledWith('arch', [2], true);
+    expect(mockFragmentsService.setElementsOpacity).toHaveBeenCalledWith(
+      'arch',
+      [1, 3],
+      VISIBILITY_CONFIG.ghostOpacity
+    );
+  });
+
+  it('should show everything again', async () => {
+    await service.ghost([wall]);
+
+    await service.showAll();
+
+    expect(service.isModified()).toBeFalse();
+    expect(mockFragmentsService.setElementsOpacity).toHaveBeenCalledWith('arch', [2, 3], null);
+  });
+
+  it('should undo changes in reverse order', async () => {
+    await service.hide([wall]);
+    await service.hide([duct]);
+
+    await service.undo();
+    expect(hiddenIds('mep')).toEqual([]);
+    expect(hiddenIds('arch')).toEqual([1]);
+    expect(mockFragmentsService.setElementsVisible).toHaveBeenCalledWith('mep', [7], true);
+
+    await service.undo();
+    expect(service.isModified()).toBeFalse();
+    expect(service.canUndo()).toBeFalse();
+  });
+
+  it('should restore a saved state as an undoable change', async () => {
+    await service.hide([wall]);
+
+    await service.restore({
+      hidden: new Map([['mep', new Set([7])]]),
+      ghosted: new Map([['arch', new Set([2])]]),
+    });
+
+    expect(hiddenIds('arch')).toEqual([]);
+    expect(hiddenIds('mep')).toEqual([7]);
+    expect(ghostedIds('arch')).toEqual([2]);
+    expect(mockFragmentsService.setElementsVisible).toHaveBeenCalledWith('arch', [1], true);
+
+    await service.undo();
+    expect(hiddenIds('arch')).toEqual([1]);
+  });
+
+  it('should not record changes that change nothing', async () => {
+    await service.showAll();
+    await service.isolate([]);
+
+    expect(service.canUndo()).toBeFalse();
+  });
+
+  it('should find the elements of the selected categories', async () => {
+    mockFragmentsService.getItemCategories.and.returnValue(Promise.resolve(new Map([[1, 'IFCWALL']])));
+    mockFragmentsService.getCategoryElements.and.callFake(async (id) => (id === 'arch' ? [1, 3] : []));
+
+    const elements = await service.getCategoryElements([wall]);
+
+    expect(mockFragmentsService.getCategoryElements).toHaveBeenCalledWith('mep', ['IFCWALL']);
+    expect(elements).toEqual([wall, { modelId: 'arch', localId: 3 }]);
+  });
+
+  it('should forget unloaded models, also in the history', async () => {
+    await service.hide([duct]);
+
+    service.removeModel('mep');
+
+    expect(service.hidden().has('mep')).toBeFalse();
+    await service.undo();
+    expect(mockFragmentsService.setElementsVisible).not.toHaveBeenCalledWith('mep', [7], true);
+  });
+});
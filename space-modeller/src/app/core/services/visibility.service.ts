@@ -0,0 +1,245 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { FragmentsService } from './fragments.service';
+import { VISIBILITY_CONFIG } from '../../shared/constants/viewer.constants';
+import { ElementSets, ModelElement, VisibilityState } from '../../shared/models/viewer.model';
+import {
+  EMPTY_VISIBILITY,
+  addElements,
+  countElements,
+  diffElements,
+  isSameElements,
+  removeElements,
+  toElementSets,
+} from '../../shared/utils/visibility.utils';
+
+/**
+ * Hidden and ghosted elements across all loaded models
+ * Every change is pushed onto a history so it can be undone; the scene is
+ * updated to match the state in the order the changes were made
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class VisibilityService {
+  private readonly fragmentsService = inject(FragmentsService);
+
+  private readonly state = signal<VisibilityState>(EMPTY_VISIBILITY);
+  private readonly history = signal<VisibilityState[]>([]);
+
+  // State last painted into the scene, so only differences are applied
+  private applied: VisibilityState = EMPTY_VISIBILITY;
+  private applyQueue: Promise<void> = Promise.resolve();
+
+  /** Hidden elements by model ID */
+  readonly hidden = computed(() => this.state().hidden);
+
+  /** Ghosted (semi-transparent) elements by model ID */
+  readonly ghosted = computed(() => this.state().ghosted);
+
+  /** Whether there is a change to undo */
+  readonly canUndo = computed(() => this.history().length > 0);
+
+  /** Whether any element is hidden or ghosted */
+  readonly isModified = computed(
+    () => countElements(this.state().hidden) + countElements(this.state().ghosted) > 0
+  );
+
+  /**
+   * Hide elements
+   */
+  hide(elements: ModelElement[]): Promise<void> {
+    return this.setVisible(elements, false);
+  }
+
+  /**
+   * Show or hide elements, leaving the rest as they are
+   */
+  setVisible(elements: ModelElement[], visible: boolean): Promise<void> {
+    const { hidden, ghosted } = this.state();
+    const changed = toElementSets(elements);
+    return this.commit({
+      hidden: visible ? removeElements(hidden, changed) : addElements(hidden, changed),
+      ghosted,
+    });
+  }
+
+  /**
+   * Show only the given elements; everything else is hidden
+   */
+  async isolate(elements: ModelElement[]): Promise<void> {
+    if (elements.length === 0) {
+      return;
+    }
+
+    const all = await this.getAllElements();
+    await this.commit({
+      hidden: removeElements(all, toElementSets(elements)),
+      ghosted: new Map(),
+    });
+  }
+
+  /**
+   * Render everything except the given elements semi-transparent
+   * The given elements are shown if they were hidden
+   */
+  async ghost(elements: ModelElement[]): Promise<void> {
+    if (elements.length === 0) {
+      return;
+    }
+
+    const all = await this.getAllElements();
+    const kept = toElementSets(elements);
+    await this.commit({
+      hidden: removeElements(this.state().hidden, kept),
+      ghosted: removeElements(all, kept),
+    });
+  }
+
+  /**
+   * Show every element fully opaque
+   */
+  showAll(): Promise<void> {
+    return this.commit(EMPTY_VISIBILITY);
+  }
+
+  /**
+   * Replace the hidden and ghosted elements, e.g. with those of a saved viewpoint
+   */
+  restore(state: VisibilityState): Promise<void> {
+    return this.commit(state);
+  }
+
+  /**
+   * Revert the last visibility change
+   */
+  undo(): Promise<void> {
+    const history = this.history();
+    const previous = history.at(-1);
+    if (!previous) {
+      return this.applyQueue;
+    }
+
+    this.history.set(history.slice(0, -1));
+    this.state.set(previous);
+    return this.apply();
+  }
+
+  /**
+   * Get every element of the IFC classes of the given elements, in all loaded models
+   */
+  async getCategoryElements(elements: ModelElement[]): Promise<ModelElement[]> {
+    const categories = await this.getCategories(elements);
+    const models = this.fragmentsService.getAllModels();
+    const localIds = await Promise.all(
+      models.map((model) => this.fragmentsService.getCategoryElements(model.modelId, categories))
+    );
+    return models.flatMap((model, index) =>
+      (localIds[index] ?? []).map((localId) => ({ modelId: model.modelId, localId }))
+    );
+  }
+
+  /**
+   * Get the distinct IFC classes (upper case) of some elements
+   */
+  async getCategories(elements: ModelElement[]): Promise<string[]> {
+    const byModel = await Promise.all(
+      [...toElementSets(elements)].map(([modelId, localIds]) =>
+        this.fragmentsService.getItemCategories(modelId, [...localIds])
+      )
+    );
+    return [...new Set(byModel.flatMap((categories) => [...categories.values()]))].sort();
+  }
+
+  /**
+   * Forget the state of an unloaded model, including in the history
+   */
+  removeModel(modelId: string): void {
+    const withoutModel = ({ hidden, ghosted }: VisibilityState): VisibilityState => ({
+      hidden: withoutKey(hidden, modelId),
+      ghosted: withoutKey(ghosted, modelId),
+    });
+
+    this.state.update(withoutModel);
+    this.history.update((history) => history.map(withoutModel));
+    this.applied = withoutModel(this.applied);
+  }
+
+  /**
+   * Forget all state without repainting (models are being disposed)
+   */
+  reset(): void {
+    this.state.set(EMPTY_VISIBILITY);
+    this.history.set([]);
+    this.applied = EMPTY_VISIBILITY;
+  }
+
+  /**
+   * Helper: Make a new state current, remembering the old one for undo
+   */
+  private commit(next: VisibilityState): Promise<void> {
+    const current = this.state();
+    if (
+      isSameElements(current.hidden, next.hidden) &&
+      isSameElements(current.ghosted, next.ghosted)
+    ) {
+      return this.applyQueue;
+    }
+
+    this.history.update((history) => [...history, current].slice(-VISIBILITY_CONFIG.historySize));
+    this.state.set(next);
+    return this.apply();
+  }
+
+  /**
+   * Helper: Paint the current state into the scene
+   * Updates are chained so a slow update never overwrites a newer one
+   * @returns Resolves once this state has been applied
+   */
+  private apply(): Promise<void> {
+    this.applyQueue = this.applyQueue
+      .then(() => this.paint(this.state()))
+      .catch((error: unknown) => console.error('Failed to update element visibility:', error));
+    return this.applyQueue;
+  }
+
+  /**
+   * Helper: Show, hide, ghost and unghost the elements that changed since the last paint
+   */
+  private async paint(next: VisibilityState): Promise<void> {
+    const previous = this.applied;
+    this.applied = next;
+
+    for (const [modelId, { added, removed }] of diffElements(previous.hidden, next.hidden)) {
+      await this.fragmentsService.setElementsVisible(modelId, removed, true);
+      await this.fragmentsService.setElementsVisible(modelId, added, false);
+    }
+    for (const [modelId, { added, removed }] of diffElements(previous.ghosted, next.ghosted)) {
+      await this.fragmentsService.setElementsOpacity(modelId, removed, null);
+      await this.fragmentsService.setElementsOpacity(
+        modelId,
+        added,
+        VISIBILITY_CONFIG.ghostOpacity
+      );
+    }
+  }
+
+  /**
+   * Helper: Every element with geometry of every loaded model
+   */
+  private async getAllElements(): Promise<ElementSets> {
+    const models = this.fragmentsService.getAllModels();
+    const localIds = await Promise.all(
+      models.map((model) => this.fragmentsService.getElementIds(model.modelId))
+    );
+    return new Map(models.map((model, index) => [model.modelId, new Set(localIds[index])]));
+  }
+}
+
+/**
+ * Helper: Copy of element sets without one model
+ */
+function withoutKey(sets: ElementSets, modelId: string): ElementSets {
+  const result = new Map(sets);
+  result.delete(modelId);
+  return result;
+}
@@ -0,0 +1,93 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ClippingPanelComponent } from './clipping-panel.component';
+import { ClippingService } from '../../../../core/services/clipping.service';
+
+describe('ClippingPanelComponent', () => {
+  let component: ClippingPanelComponent;
+  let fixture: ComponentFixture<ClippingPanelComponent>;
+  let clipping: ClippingService;
+
+  const buttons = () =>
+    Array.from((fixture.nativeElement as HTMLElement).querySelectorAll<HTMLButtonElement>('button'));
+  const button = (label: string) => buttons().find((item) => item.textContent?.trim() === label);
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ClippingPanelComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ClippingPanelComponent);
+    component = fixture.componentInstance;
+    clipping = TestBed.inject(ClippingService);
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show an empty state without planes', () => {
+    expect(fixture.nativeElement.textContent).toContain('No section planes');
+  });
+
+  it('should add axis planes', () => {
+    const addSpy = spyOn(clipping, 'addAxisPlane').and.returnValue('plane-1');
+
+    button('+ Y')?.click();
+
+    expect(addSpy).toHaveBeenCalledWith('y');
+  });
+
+  it('should toggle placing a plane on a surface', () => {
+    button('On surface')?.click();
+    expect(clipping.placing()).toBeTrue();
+
+    button('On surface')?.click();
+    expect(clipping.placing()).toBeFalse();
+  });
+
+  it('should toggle the section box', () => {
+    const toggleSpy = spyOn(clipping, 'toggleSectionBox');
+
+    button('Section box')?.click();
+
+    expect(toggleSpy).toHaveBeenCalled();
+  });
+
+  it('should switch cap fill off', () => {
+    const capsSpy = spyOn(clipping, 'setCapsEnabled');
+    const checkbox = (fixture.nativeElement as HTMLElement).querySelector<HTMLInputElement>(
+      'input[type="checkbox"]'
+    );
+
+    checkbox?.click();
+
+    expect(capsSpy).toHaveBeenCalledWith(false);
+  });
+
+  it('should list planes with flip and delete actions', () => {
+    const id = clipping.addPlane({ x: 0, y: 1, z: 0 }, { x: 0, y: -1, z: 0 });
+    const flipSpy = spyOn(clipping, 'flipPlane');
+    const deleteSpy = spyOn(clipping, 'deletePlane');
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.textContent).toContain('Plane 1');
+    button('Flip')?.click();
+    buttons()
+      .find((item) => item.getAttribute('aria-label') === 'Delete Plane 1')
+      ?.click();
+
+    expect(flipSpy).toHaveBeenCalledWith(id);
+    expect(deleteSpy).toHaveBeenCalledWith(id);
+    clipping.clear();
+  });
+
+  it('should emit closed from the close button', () => {
+    const closedSpy = jasmine.createSpy('closed');
+    component.closed.subscribe(closedSpy);
+
+    (fixture.nativeElement as HTMLElement).querySelector<HTMLButtonElement>('.panel-close')?.click();
+
+    expect(closedSpy).toHaveBeenCalled();
+  });
+});
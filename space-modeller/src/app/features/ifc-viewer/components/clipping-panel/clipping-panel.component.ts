@@ -0,0 +1,45 @@
+import { ChangeDetectionStrategy, Component, inject, output } from '@angular/core';
+import { ClippingService } from '../../../../core/services/clipping.service';
+
+/**
+ * Section plane tools
+ * Adds, flips and removes section planes, toggles the section box and the cut styling;
+ * the plane selected in the list can be dragged along its normal in the viewport
+ */
+@Component({
+  selector: 'app-clipping-panel',
+  standalone: true,
+  templateUrl: './clipping-panel.component.html',
+  styleUrls: ['./clipping-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ClippingPanelComponent {
+  readonly clipping = inject(ClippingService);
+
+  readonly closed = output<void>();
+
+  /**
+   * Start or stop placing a plane on a clicked surface
+   */
+  togglePlacing(): void {
+    if (this.clipping.placing()) {
+      this.clipping.cancelPlacing();
+    } else {
+      this.clipping.startPlacing();
+    }
+  }
+
+  /**
+   * Attach the drag gizmo to a plane, or detach it if it is already attached
+   */
+  toggleActive(id: string): void {
+    this.clipping.setActivePlane(this.clipping.activePlaneId() === id ? null : id);
+  }
+
+  /**
+   * Helper: Read a checkbox change
+   */
+  isChecked(event: Event): boolean {
+    return (event.target as HTMLInputElement).checked;
+  }
+}
@@ -0,0 +1,84 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ColorPanelComponent } from './color-panel.component';
+import { FragmentsService } from '../../../../core/services/fragments.service';
+import { QueryService } from '../../../../core/services/query.service';
+
+describe('ColorPanelComponent', () => {
+  let component: ColorPanelComponent;
+  let fixture: ComponentFixture<ColorPanelComponent>;
+  let mockQueryService: jasmine.SpyObj<QueryService>;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+
+  const text = () => (fixture.nativeElement as HTMLElement).textContent ?? '';
+  const button = (label: string) =>
+    Array.from(
+      (fixture.nativeElement as HTMLElement).querySelectorAll<HTMLButtonElement>('button')
+    ).find((item) => item.textContent?.trim() === label);
+
+  const apply = async (field: string) => {
+    component.text.set(field);
+    await component.apply();
+    fixture.detectChanges();
+  };
+
+  beforeEach(async () => {
+    mockQueryService = jasmine.createSpyObj('QueryService', ['getFieldValues']);
+    mockQueryService.getFieldValues.and.returnValue(
+      Promise.resolve([
+        { element: { modelId: 'arch', localId: 1 }, values: [true] },
+        { element: { modelId: 'arch', localId: 2 }, values: [false] },
+      ])
+    );
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', ['setElementsColor']);
+    mockFragmentsService.setElementsColor.and.returnValue(Promise.resolve());
+
+    await TestBed.configureTestingModule({
+      imports: [ColorPanelComponent],
+      providers: [
+        { provide: QueryService, useValue: mockQueryService },
+        { provide: FragmentsService, useValue: mockFragmentsService },
+      ],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ColorPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should colour elements by a property', async () => {
+    await apply('Pset_WallCommon.LoadBearing');
+
+    expect(mockQueryService.getFieldValues).toHaveBeenCalledWith([
+      'Pset_WallCommon',
+      'LoadBearing',
+    ]);
+    expect(mockFragmentsService.setElementsColor).toHaveBeenCalledTimes(2);
+    expect(button('Reset colours')).toBeTruthy();
+  });
+
+  it('should show field errors and not colour', async () => {
+    await apply('Pset_WallCommon.');
+
+    expect(mockQueryService.getFieldValues).not.toHaveBeenCalled();
+    expect(fixture.nativeElement.querySelector('.panel-error')).toBeTruthy();
+  });
+
+  it('should say when no element has a value', async () => {
+    mockQueryService.getFieldValues.and.returnValue(
+      Promise.resolve([{ element: { modelId: 'arch', localId: 1 }, values: [] }])
+    );
+
+    await apply('Phasing."Phase Created"');
+
+    expect(text()).toContain('No element has a value for this field');
+  });
+
+  it('should restore the original colours', async () => {
+    await apply('storey');
+
+    button('Reset colours')!.click();
+    await fixture.whenStable();
+
+    expect(mockFragmentsService.setElementsColor).toHaveBeenCalledWith('arch', [1, 2], null);
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  ElementRef,
+  computed,
+  inject,
+  output,
+  signal,
+  viewChild,
+} from '@angular/core';
+import { ColorService } from '../../../../core/services/color.service';
+import { THEMATIC_CONFIG } from '../../../../shared/constants/viewer.constants';
+import { QueryError } from '../../../../shared/models/viewer.model';
+import { formatQueryError, parseQueryField } from '../../../../shared/utils/query.utils';
+
+/**
+ * Colours every element by the value of an attribute or property
+ * (fire rating, load-bearing, phase, material, ...); the legend is shown
+ * over the viewer and Reset restores the original colours
+ */
+@Component({
+  selector: 'app-color-panel',
+  standalone: true,
+  templateUrl: './color-panel.component.html',
+  styleUrls: ['./color-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ColorPanelComponent {
+  readonly colors = inject(ColorService);
+
+  private readonly inputRef = viewChild.required<ElementRef<HTMLInputElement>>('fieldInput');
+
+  readonly closed = output<void>();
+
+  readonly suggestions = THEMATIC_CONFIG.suggestions;
+
+  readonly text = signal('');
+  readonly error = signal<QueryError | null>(null);
+  readonly applying = signal(false);
+
+  /** Whether no element has a value for the field */
+  readonly noValues = computed(() => {
+    const legend = this.colors.legend();
+    return (
+      legend !== null &&
+      legend.entries.length === 1 &&
+      legend.entries[0]!.label === THEMATIC_CONFIG.labels.noValue
+    );
+  });
+
+  readonly formatQueryError = formatQueryError;
+
+  /**
+   * Colour the elements by the field in the box
+   */
+  async apply(): Promise<void> {
+    const { field, error } = parseQueryField(this.text());
+    this.error.set(error);
+
+    if (error) {
+      const input = this.inputRef().nativeElement;
+      input.focus();
+      input.setSelectionRange(error.position, error.position);
+      return;
+    }
+    if (!field) {
+      return;
+    }
+
+    this.applying.set(true);
+    try {
+      await this.colors.colorBy(field);
+    } catch (err) {
+      console.error('Failed to colour elements:', err);
+      this.error.set({
+        message: err instanceof Error ? err.message : 'Failed to colour elements',
+        position: 0,
+      });
+    } finally {
+      this.applying.set(false);
+    }
+  }
+
+  /**
+   * Restore the original colours
+   */
+  reset(): Promise<void> {
+    this.error.set(null);
+    return this.colors.clear();
+  }
+}
@@ -0,0 +1,82 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ContextMenuComponent } from './context-menu.component';
+import { FragmentsService } from '../../../../core/services/fragments.service';
+import { VisibilityService } from '../../../../core/services/visibility.service';
+
+describe('ContextMenuComponent', () => {
+  let component: ContextMenuComponent;
+  let fixture: ComponentFixture<ContextMenuComponent>;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+
+  const item = (label: string) =>
+    Array.from(
+      (fixture.nativeElement as HTMLElement).querySelectorAll<HTMLButtonElement>('button')
+    ).find((button) => button.textContent?.includes(label));
+
+  beforeEach(async () => {
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', ['setElementsVisible']);
+    mockFragmentsService.setElementsVisible.and.returnValue(Promise.resolve());
+
+    await TestBed.configureTestingModule({
+      imports: [ContextMenuComponent],
+      providers: [{ provide: FragmentsService, useValue: mockFragmentsService }],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ContextMenuComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('position', { x: 120, y: 80 });
+    fixture.detectChanges();
+  });
+
+  it('should open at the given position', () => {
+    const host = fixture.nativeElement as HTMLElement;
+
+    expect(host.style.left).toBe('120px');
+    expect(host.style.top).toBe('80px');
+  });
+
+  it('should disable element commands without a selection', () => {
+    expect(item('Hide')?.disabled).toBeTrue();
+    expect(item('Show all')?.disabled).toBeTrue();
+    expect(item('Undo visibility')?.disabled).toBeTrue();
+  });
+
+  it('should name the categories of the selection', () => {
+    fixture.componentRef.setInput('hasSelection', true);
+    fixture.componentRef.setInput('categories', ['IFCWALL', 'IFCDOOR']);
+    fixture.detectChanges();
+
+    expect(item('Hide category')?.textContent).toContain('IfcWall, IfcDoor');
+    expect(item('Isolate category')?.disabled).toBeFalse();
+  });
+
+  it('should enable show all and undo after a change', async () => {
+    await TestBed.inject(VisibilityService).hide([{ modelId: 'arch', localId: 1 }]);
+    fixture.detectChanges();
+
+    expect(item('Show all')?.disabled).toBeFalse();
+    expect(item('Undo visibility')?.disabled).toBeFalse();
+  });
+
+  it('should emit the command and close', () => {
+    const commandSpy = jasmine.createSpy('command');
+    const closedSpy = jasmine.createSpy('closed');
+    component.command.subscribe(commandSpy);
+    component.closed.subscribe(closedSpy);
+    fixture.componentRef.setInput('hasSelection', true);
+    fixture.detectChanges();
+
+    item('Isolate')?.click();
+
+    expect(commandSpy).toHaveBeenCalledWith('isolate');
+    expect(closedSpy).toHaveBeenCalled();
+  });
+
+  it('should close on a click outside', () => {
+    const closedSpy = jasmine.createSpy('closed');
+    component.closed.subscribe(closedSpy);
+
+    document.body.dispatchEvent(new Event('pointerdown', { bubbles: true }));
+    expect(closedSpy).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  ElementRef,
+  computed,
+  inject,
+  input,
+  output,
+} from '@angular/core';
+import { VisibilityService } from '../../../../core/services/visibility.service';
+import { VISIBILITY_COMMANDS } from '../../../../shared/constants/viewer.constants';
+import { VisibilityCommand } from '../../../../shared/models/viewer.model';
+import { formatIfcClass } from '../../../../shared/utils/spatial-tree.utils';
+
+/**
+ * Entry of the context menu
+ */
+interface MenuItem {
+  command: VisibilityCommand;
+  label: string;
+  shortcut: string;
+  disabled: boolean;
+}
+
+/**
+ * Right-click menu of the viewport with the visibility commands
+ * Element and category commands apply to the selection; the menu closes
+ * on any click outside it
+ */
+@Component({
+  selector: 'app-context-menu',
+  standalone: true,
+  templateUrl: './context-menu.component.html',
+  styleUrls: ['./context-menu.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  host: {
+    '[style.left.px]': 'position().x',
+    '[style.top.px]': 'position().y',
+    '(document:pointerdown)': 'onDocumentPointerDown($event)',
+  },
+})
+export class ContextMenuComponent {
+  private readonly elementRef = inject<ElementRef<HTMLElement>>(ElementRef);
+  private readonly visibility = inject(VisibilityService);
+
+  /** Viewport coordinates of the top left corner */
+  readonly position = input.required<{ x: number; y: number }>();
+  /** Whether elements are selected */
+  readonly hasSelection = input(false);
+  /** IFC classes of the selected elements */
+  readonly categories = input<string[]>([]);
+
+  readonly command = output<VisibilityCommand>();
+  readonly closed = output<void>();
+
+  readonly items = computed<MenuItem[]>(() => {
+    const hasSelection = this.hasSelection();
+    const categories = this.categories().map(formatIfcClass).join(', ');
+    const disabled: Record<VisibilityCommand, boolean> = {
+      hide: !hasSelection,
+      isolate: !hasSelection,
+      ghost: !hasSelection,
+      hideCategory: categories.length === 0,
+      isolateCategory: categories.length === 0,
+      showAll: !this.visibility.isModified(),
+      undo: !this.visibility.canUndo(),
+    };
+
+    return (Object.keys(VISIBILITY_COMMANDS) as VisibilityCommand[]).map((command) => {
+      const { label, shortcut } = VISIBILITY_COMMANDS[command];
+      const isCategory = command === 'hideCategory' || command === 'isolateCategory';
+      return {
+        command,
+        label: isCategory && categories ? `${label} (${categories})` : label,
+        shortcut,
+        disabled: disabled[command],
+      };
+    });
+  });
+
+  /**
+   * Run a command and close the menu
+   */
+  run(item: MenuItem): void {
+    if (item.disabled) {
+      return;
+    }
+    this.command.emit(item.command);
+    this.closed.emit();
+  }
+
+  /**
+   * Close when clicking anywhere outside the menu
+   */
+  onDocumentPointerDown(event: Event): void {
+    if (!this.elementRef.nativeElement.contains(event.target as Node)) {
+      this.closed.emit();
+    }
+  }
+}
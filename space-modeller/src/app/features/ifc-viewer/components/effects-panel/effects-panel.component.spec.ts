@@ -0,0 +1,76 @@
+import { signal } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { EffectsPanelComponent } from './effects-panel.component';
+import { PostProcessingService } from '../../../../core/services/post-processing.service';
+import { PostEffect, ToneMappingMode } from '../../../../shared/models/viewer.model';
+
+describe('EffectsPanelComponent', () => {
+  let component: EffectsPanelComponent;
+  let fixture: ComponentFixture<EffectsPanelComponent>;
+  let mockPostProcessing: jasmine.SpyObj<PostProcessingService>;
+
+  const element = () => fixture.nativeElement as HTMLElement;
+  const checkbox = (label: string) =>
+    Array.from(element().querySelectorAll('label'))
+      .find((item) => item.textContent?.trim() === label)
+      ?.querySelector<HTMLInputElement>('input');
+
+  beforeEach(async () => {
+    mockPostProcessing = jasmine.createSpyObj(
+      'PostProcessingService',
+      ['setEffect', 'setToneMapping', 'setExposure'],
+      {
+        effects: signal<Record<PostEffect, boolean>>({
+          ssao: true,
+          outline: false,
+          antialiasing: true,
+        }),
+        toneMapping: signal<ToneMappingMode>('aces'),
+        exposure: signal(1),
+        hasAntialiasing: false,
+      }
+    );
+
+    await TestBed.configureTestingModule({
+      imports: [EffectsPanelComponent],
+      providers: [{ provide: PostProcessingService, useValue: mockPostProcessing }],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(EffectsPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should list the effects and toggle one', () => {
+    expect(checkbox('Ambient occlusion')?.checked).toBeTrue();
+    // The renderer antialiases itself
+    expect(checkbox('Antialiasing')).toBeUndefined();
+
+    checkbox('Outline')?.click();
+
+    expect(mockPostProcessing.setEffect).toHaveBeenCalledWith('outline', true);
+  });
+
+  it('should switch the tone mapping and set the exposure', () => {
+    const select = element().querySelector<HTMLSelectElement>('select')!;
+    expect(select.value).toBe('aces');
+
+    select.value = 'agx';
+    select.dispatchEvent(new Event('change'));
+    expect(mockPostProcessing.setToneMapping).toHaveBeenCalledWith('agx');
+
+    const exposure = element().querySelector<HTMLInputElement>('input[type="number"]')!;
+    exposure.value = '1.5';
+    exposure.dispatchEvent(new Event('change'));
+    expect(mockPostProcessing.setExposure).toHaveBeenCalledWith(1.5);
+  });
+
+  it('should emit closed from the close button', () => {
+    const closedSpy = jasmine.createSpy('closed');
+    component.closed.subscribe(closedSpy);
+
+    element().querySelector<HTMLButtonElement>('.panel-close')?.click();
+
+    expect(closedSpy).toHaveBeenCalled();
+  });
+});
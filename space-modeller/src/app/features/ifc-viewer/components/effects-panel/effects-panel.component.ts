@@ -0,0 +1,53 @@
+import { ChangeDetectionStrategy, Component, inject, output } from '@angular/core';
+import { PostProcessingService } from '../../../../core/services/post-processing.service';
+import {
+  POST_EFFECTS,
+  POST_PROCESSING_CONFIG,
+  TONE_MAPPING_LABELS,
+} from '../../../../shared/constants/viewer.constants';
+import { PostEffect, ToneMappingMode } from '../../../../shared/models/viewer.model';
+
+/**
+ * Post-processing effects, tone mapping and exposure
+ */
+@Component({
+  selector: 'app-effects-panel',
+  standalone: true,
+  templateUrl: './effects-panel.component.html',
+  styleUrls: ['./effects-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class EffectsPanelComponent {
+  readonly postProcessing = inject(PostProcessingService);
+
+  readonly closed = output<void>();
+
+  // Antialiasing is only offered when the renderer does not antialias itself
+  readonly effects = Object.entries(POST_EFFECTS)
+    .map(([effect, { label }]) => ({ effect: effect as PostEffect, label }))
+    .filter(({ effect }) => effect !== 'antialiasing' || this.postProcessing.hasAntialiasing);
+
+  readonly toneMappings = Object.entries(TONE_MAPPING_LABELS).map(([mode, label]) => ({
+    mode: mode as ToneMappingMode,
+    label,
+  }));
+
+  readonly minExposure = POST_PROCESSING_CONFIG.minExposure;
+  readonly maxExposure = POST_PROCESSING_CONFIG.maxExposure;
+
+  /**
+   * Switch to the tone mapping picked in the list
+   */
+  selectToneMapping(event: Event): void {
+    this.postProcessing.setToneMapping(
+      (event.target as HTMLSelectElement).value as ToneMappingMode
+    );
+  }
+
+  /**
+   * Helper: Read a checkbox change
+   */
+  isChecked(event: Event): boolean {
+    return (event.target as HTMLInputElement).checked;
+  }
+}
@@ -0,0 +1,122 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { FilterPanelComponent } from './filter-panel.component';
+import { ClassificationService } from '../../../../core/services/classification.service';
+import { FragmentsService } from '../../../../core/services/fragments.service';
+import { VisibilityService } from '../../../../core/services/visibility.service';
+import { ClassificationGroup } from '../../../../shared/models/viewer.model';
+
+describe('FilterPanelComponent', () => {
+  let component: FilterPanelComponent;
+  let fixture: ComponentFixture<FilterPanelComponent>;
+  let mockClassification: jasmine.SpyObj<ClassificationService>;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+
+  const classes: ClassificationGroup[] = [
+    {
+      key: 'IFCWALL',
+      name: 'IfcWall',
+      discipline: 'architecture',
+      elements: new Map([['arch', new Set([1, 2])]]),
+      count: 2,
+    },
+    {
+      key: 'IFCDOOR',
+      name: 'IfcDoor',
+      discipline: 'architecture',
+      elements: new Map([['arch', new Set([3])]]),
+      count: 1,
+    },
+    {
+      key: 'IFCDUCTSEGMENT',
+      name: 'IfcDuctSegment',
+      discipline: 'mep',
+      elements: new Map([['mep', new Set([7])]]),
+      count: 1,
+    },
+  ];
+
+  const row = (name: string) =>
+    Array.from((fixture.nativeElement as HTMLElement).querySelectorAll('.filter-row')).find(
+      (item) => item.querySelector('.filter-name')?.textContent?.trim() === name
+    );
+  const checkbox = (name: string) => row(name)?.querySelector<HTMLInputElement>('input');
+  const button = (label: string) =>
+    Array.from(
+      (fixture.nativeElement as HTMLElement).querySelectorAll<HTMLButtonElement>('button')
+    ).find((item) => item.textContent?.trim() === label);
+
+  const render = async () => {
+    fixture.detectChanges();
+    await fixture.whenStable();
+    fixture.detectChanges();
+  };
+
+  beforeEach(async () => {
+    mockClassification = jasmine.createSpyObj('ClassificationService', ['classify']);
+    mockClassification.classify.and.returnValue(Promise.resolve(classes));
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', ['setElementsVisible']);
+    mockFragmentsService.setElementsVisible.and.returnValue(Promise.resolve());
+
+    await TestBed.configureTestingModule({
+      imports: [FilterPanelComponent],
+      providers: [
+        { provide: ClassificationService, useValue: mockClassification },
+        { provide: FragmentsService, useValue: mockFragmentsService },
+      ],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(FilterPanelComponent);
+    component = fixture.componentInstance;
+    await render();
+  });
+
+  it('should list classes under their discipline with counts', () => {
+    expect(mockClassification.classify).toHaveBeenCalledWith('class');
+    expect(row('Architecture')?.querySelector('.filter-count')?.textContent).toBe('3');
+    expect(row('IfcWall')?.querySelector('.filter-count')?.textContent).toBe('2');
+    expect(row('MEP')).toBeTruthy();
+    expect(row('Structure')).toBeUndefined();
+  });
+
+  it('should hide a whole discipline in one click', async () => {
+    checkbox('Architecture')!.click();
+    await render();
+
+    expect(mockFragmentsService.setElementsVisible).toHaveBeenCalledWith('arch', [1, 2, 3], false);
+    expect(checkbox('IfcWall')!.checked).toBeFalse();
+    expect(checkbox('IfcDuctSegment')!.checked).toBeTrue();
+  });
+
+  it('should mark a partly hidden discipline as mixed', async () => {
+    await TestBed.inject(VisibilityService).hide([{ modelId: 'arch', localId: 3 }]);
+    await render();
+
+    expect(checkbox('Architecture')!.indeterminate).toBeTrue();
+    expect(checkbox('IfcDoor')!.checked).toBeFalse();
+  });
+
+  it('should switch to another classification', async () => {
+    mockClassification.classify.and.returnValue(
+      Promise.resolve([
+        { key: '', name: 'No storey', elements: new Map([['arch', new Set([9])]]), count: 1 },
+      ])
+    );
+
+    button('Storey')!.click();
+    await render();
+
+    expect(mockClassification.classify).toHaveBeenCalledWith('storey');
+    expect(row('No storey')).toBeTruthy();
+    expect(row('Architecture')).toBeUndefined();
+  });
+
+  it('should show an error when classification fails', async () => {
+    spyOn(console, 'error');
+    mockClassification.classify.and.returnValue(Promise.reject(new Error('Model busy')));
+
+    component.kind.set('material');
+    await render();
+
+    expect((fixture.nativeElement as HTMLElement).textContent).toContain('Model busy');
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  effect,
+  inject,
+  output,
+  signal,
+  untracked,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ClassificationService } from '../../../../core/services/classification.service';
+import { ModelRegistryService } from '../../../../core/services/model-registry.service';
+import { VisibilityService } from '../../../../core/services/visibility.service';
+import { CLASSIFICATION_LABELS } from '../../../../shared/constants/viewer.constants';
+import {
+  ClassificationGroup,
+  ClassificationKind,
+  ElementSets,
+  NodeVisibility,
+} from '../../../../shared/models/viewer.model';
+import {
+  getGroupVisibility,
+  groupByDiscipline,
+} from '../../../../shared/utils/classification.utils';
+import { toElements } from '../../../../shared/utils/visibility.utils';
+
+/**
+ * Element counts by IFC class, storey or material across all loaded models
+ * The checkboxes show or hide a group; on the class tab a whole discipline
+ * (e.g. all architecture) can be switched in one click
+ */
+@Component({
+  selector: 'app-filter-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './filter-panel.component.html',
+  styleUrls: ['./filter-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class FilterPanelComponent {
+  private readonly classification = inject(ClassificationService);
+  private readonly modelRegistry = inject(ModelRegistryService);
+  readonly visibility = inject(VisibilityService);
+
+  readonly closed = output<void>();
+
+  readonly kinds = Object.entries(CLASSIFICATION_LABELS) as [ClassificationKind, string][];
+
+  readonly kind = signal<ClassificationKind>('class');
+  readonly groups = signal<ClassificationGroup[]>([]);
+  readonly loading = signal(false);
+  readonly error = signal<string | null>(null);
+
+  /** Class groups arranged by discipline */
+  readonly disciplines = computed(() => groupByDiscipline(this.groups()));
+
+  /** Visibility of every group and discipline, recomputed when elements are shown or hidden */
+  readonly groupVisibility = computed(() => {
+    const hidden = this.visibility.hidden();
+    const states = new Map<string, NodeVisibility>();
+    for (const group of this.groups()) {
+      states.set(group.key, getGroupVisibility(group.elements, hidden));
+    }
+    for (const discipline of this.disciplines()) {
+      states.set(disciplineKey(discipline.discipline), getGroupVisibility(discipline.elements, hidden));
+    }
+    return states;
+  });
+
+  readonly disciplineKey = disciplineKey;
+
+  private groupsRequest = 0;
+
+  constructor() {
+    effect(() => {
+      const kind = this.kind();
+      this.modelRegistry.loadedModels();
+      untracked(() => void this.loadGroups(kind));
+    }, { allowSignalWrites: true });
+  }
+
+  /**
+   * Show or hide the elements of a group or discipline
+   */
+  setVisible(elements: ElementSets, visible: boolean): Promise<void> {
+    return this.visibility.setVisible(toElements(elements), visible);
+  }
+
+  /**
+   * Helper: Classify the loaded models; a newer request supersedes older ones
+   */
+  private async loadGroups(kind: ClassificationKind): Promise<void> {
+    const request = ++this.groupsRequest;
+    this.loading.set(true);
+    this.error.set(null);
+
+    let groups: ClassificationGroup[] = [];
+    let error: string | null = null;
+    try {
+      groups = await this.classification.classify(kind);
+    } catch (err) {
+      console.error('Failed to classify elements:', err);
+      error = err instanceof Error ? err.message : 'Failed to classify elements';
+    }
+
+    if (request !== this.groupsRequest) {
+      return;
+    }
+    this.groups.set(groups);
+    this.error.set(error);
+    this.loading.set(false);
+  }
+}
+
+/**
+ * Helper: Visibility key of a discipline, distinct from IFC class keys
+ */
+function disciplineKey(discipline: string): string {
+  return `discipline:${discipline}`;
+}
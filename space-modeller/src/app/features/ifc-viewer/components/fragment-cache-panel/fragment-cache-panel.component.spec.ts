@@ -0,0 +1,92 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { WritableSignal, computed, signal } from '@angular/core';
+import { FragmentCachePanelComponent } from './fragment-cache-panel.component';
+import { FragmentCacheService } from '../../../../core/services/fragment-cache.service';
+import { FragmentCacheEntry } from '../../../../shared/models/viewer.model';
+
+describe('FragmentCachePanelComponent', () => {
+  let component: FragmentCachePanelComponent;
+  let fixture: ComponentFixture<FragmentCachePanelComponent>;
+  let mockFragmentCache: jasmine.SpyObj<FragmentCacheService>;
+  let entries: WritableSignal<FragmentCacheEntry[]>;
+
+  const entry: FragmentCacheEntry = {
+    hash: 'hash-a',
+    name: 'Tower',
+    size: 2048,
+    sourceSize: 10240,
+    createdAt: 0,
+    lastAccessedAt: 0,
+  };
+
+  beforeEach(async () => {
+    entries = signal<FragmentCacheEntry[]>([]);
+    mockFragmentCache = jasmine.createSpyObj('FragmentCacheService', ['refresh', 'delete', 'clear'], {
+      entries: entries.asReadonly(),
+      totalSize: computed(() => entries().reduce((total, item) => total + item.size, 0)),
+    });
+    mockFragmentCache.refresh.and.returnValue(Promise.resolve([]));
+    mockFragmentCache.delete.and.returnValue(Promise.resolve());
+    mockFragmentCache.clear.and.returnValue(Promise.resolve());
+
+    await TestBed.configureTestingModule({
+      imports: [FragmentCachePanelComponent],
+      providers: [{ provide: FragmentCacheService, useValue: mockFragmentCache }],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(FragmentCachePanelComponent);
+    component = fixture.componentInstance;
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should list cached entries with sizes', () => {
+    entries.set([entry]);
+    fixture.detectChanges();
+
+    const text = (fixture.nativeElement as HTMLElement).textContent ?? '';
+    expect(text).toContain('Tower');
+    expect(text).toContain('2.0 KB');
+  });
+
+  it('should show an empty state', () => {
+    fixture.detectChanges();
+
+    const text = (fixture.nativeElement as HTMLElement).textContent ?? '';
+    expect(text).toContain('cached here after their first load');
+  });
+
+  it('should evict an entry', async () => {
+    await component.evict('hash-a');
+
+    expect(mockFragmentCache.delete).toHaveBeenCalledWith('hash-a');
+    expect(component.busy()).toBeFalse();
+  });
+
+  it('should clear the cache', async () => {
+    await component.clearAll();
+
+    expect(mockFragmentCache.clear).toHaveBeenCalled();
+  });
+
+  it('should surface cache errors', async () => {
+    mockFragmentCache.delete.and.returnValue(Promise.reject(new Error('Blocked')));
+    spyOn(console, 'error');
+
+    await component.evict('hash-a');
+
+    expect(component.error()).toBe('Blocked');
+  });
+
+  it('should emit closed from the close button', () => {
+    const closedSpy = jasmine.createSpy('closed');
+    component.closed.subscribe(closedSpy);
+    fixture.detectChanges();
+
+    (fixture.nativeElement as HTMLElement).querySelector<HTMLButtonElement>('.panel-close')?.click();
+
+    expect(closedSpy).toHaveBeenCalled();
+  });
+});
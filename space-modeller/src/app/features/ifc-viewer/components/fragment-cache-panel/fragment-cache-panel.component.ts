@@ -0,0 +1,72 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  inject,
+  output,
+  signal,
+  afterNextRender,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FragmentCacheService } from '../../../../core/services/fragment-cache.service';
+import { formatFileSize } from '../../../../shared/utils/file.utils';
+
+/**
+ * Browser for the local fragment cache
+ * Lists cached conversions with their sizes and lets users evict them
+ */
+@Component({
+  selector: 'app-fragment-cache-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './fragment-cache-panel.component.html',
+  styleUrls: ['./fragment-cache-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class FragmentCachePanelComponent {
+  private readonly fragmentCache = inject(FragmentCacheService);
+
+  readonly closed = output<void>();
+
+  readonly entries = this.fragmentCache.entries;
+  readonly totalSize = this.fragmentCache.totalSize;
+  readonly busy = signal<boolean>(false);
+  readonly error = signal<string | null>(null);
+  readonly formatFileSize = formatFileSize;
+
+  constructor() {
+    afterNextRender(() => {
+      this.run(() => this.fragmentCache.refresh());
+    });
+  }
+
+  /**
+   * Evict a single cached model
+   */
+  evict(hash: string): Promise<void> {
+    return this.run(() => this.fragmentCache.delete(hash));
+  }
+
+  /**
+   * Evict every cached model
+   */
+  clearAll(): Promise<void> {
+    return this.run(() => this.fragmentCache.clear());
+  }
+
+  /**
+   * Helper: Run a cache operation, tracking busy and error state
+   */
+  private async run(operation: () => Promise<unknown>): Promise<void> {
+    this.busy.set(true);
+    this.error.set(null);
+
+    try {
+      await operation();
+    } catch (error) {
+      console.error('Fragment cache operation failed:', error);
+      this.error.set(error instanceof Error ? error.message : 'Fragment cache unavailable');
+    } finally {
+      this.busy.set(false);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { signal } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { GltfExportPanelComponent } from './gltf-export-panel.component';
+import { GltfExportService } from '../../../../core/services/gltf-export.service';
+import { ModelRegistryService } from '../../../../core/services/model-registry.service';
+import { SelectionService } from '../../../../core/services/selection.service';
+import { ModelElement, ModelState } from '../../../../shared/models/viewer.model';
+
+describe('GltfExportPanelComponent', () => {
+  let component: GltfExportPanelComponent;
+  let fixture: ComponentFixture<GltfExportPanelComponent>;
+  let mockGltfExport: jasmine.SpyObj<GltfExportService>;
+  let selected: ReturnType<typeof signal<ModelElement[]>>;
+
+  const model = (id: string, name: string, visible: boolean): ModelState => ({
+    id,
+    name,
+    loading: false,
+    progress: 100,
+    fragmentUuid: `frag-${id}`,
+    visible,
+  });
+  const models = [model('a', 'House.ifc', true), model('b', 'Site.ifc', false)];
+
+  const element = () => fixture.nativeElement as HTMLElement;
+  const button = (text: string) =>
+    Array.from(element().querySelectorAll<HTMLButtonElement>('button')).find(
+      (item) => item.textContent?.trim() === text
+    );
+
+  beforeEach(async () => {
+    mockGltfExport = jasmine.createSpyObj('GltfExportService', {
+      exportModels: Promise.resolve(new ArrayBuffer(8)),
+      exportSelection: Promise.resolve(new ArrayBuffer(8)),
+    });
+    selected = signal<ModelElement[]>([]);
+
+    await TestBed.configureTestingModule({
+      imports: [GltfExportPanelComponent],
+      providers: [
+        { provide: GltfExportService, useValue: mockGltfExport },
+        {
+          provide: ModelRegistryService,
+          useValue: { loadedModels: signal(models), activeModel: signal(models[0]) },
+        },
+        { provide: SelectionService, useValue: { selected } },
+      ],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(GltfExportPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+    spyOn(URL, 'createObjectURL').and.returnValue('blob:export');
+    spyOn(URL, 'revokeObjectURL');
+  });
+
+  it('should export the visible models of the scene', async () => {
+    const clickSpy = spyOn(HTMLAnchorElement.prototype, 'click');
+
+    await component.save();
+
+    expect(mockGltfExport.exportModels).toHaveBeenCalledWith(['frag-a']);
+    expect((clickSpy.calls.mostRecent().object as HTMLAnchorElement).download).toBe('scene.glb');
+  });
+
+  it('should export the picked model under its name', async () => {
+    const clickSpy = spyOn(HTMLAnchorElement.prototype, 'click');
+    button('Model')?.click();
+    fixture.detectChanges();
+
+    const select = element().querySelector<HTMLSelectElement>('select')!;
+    select.value = 'frag-b';
+    select.dispatchEvent(new Event('change'));
+    await component.save();
+
+    expect(mockGltfExport.exportModels).toHaveBeenCalledWith(['frag-b']);
+    expect((clickSpy.calls.mostRecent().object as HTMLAnchorElement).download).toBe(
+      'Site.ifc.glb'
+    );
+  });
+
+  it('should only export a selection when elements are selected', () => {
+    button('Selection')?.click();
+    fixture.detectChanges();
+    expect(button('Download GLB')?.disabled).toBeTrue();
+
+    selected.set([{ modelId: 'frag-a', localId: 7 }]);
+    fixture.detectChanges();
+    expect(button('Download GLB')?.disabled).toBeFalse();
+  });
+
+  it('should show why an export failed', async () => {
+    spyOn(console, 'error');
+    mockGltfExport.exportModels.and.rejectWith(new Error('Nothing to export'));
+
+    await component.save();
+    fixture.detectChanges();
+
+    expect(element().querySelector('.panel-error')?.textContent).toContain('Nothing to export');
+  });
+});
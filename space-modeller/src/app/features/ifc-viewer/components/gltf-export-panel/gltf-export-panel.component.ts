@@ -0,0 +1,115 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  inject,
+  output,
+  signal,
+} from '@angular/core';
+import { GltfExportService } from '../../../../core/services/gltf-export.service';
+import { ModelRegistryService } from '../../../../core/services/model-registry.service';
+import { SelectionService } from '../../../../core/services/selection.service';
+import { GLTF_EXPORT_SCOPE_LABELS } from '../../../../shared/constants/viewer.constants';
+import { GltfExportScope } from '../../../../shared/models/viewer.model';
+
+/**
+ * Export to GLB: every visible model, one model or the selection
+ */
+@Component({
+  selector: 'app-gltf-export-panel',
+  standalone: true,
+  templateUrl: './gltf-export-panel.component.html',
+  styleUrls: ['./gltf-export-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class GltfExportPanelComponent {
+  private readonly gltfExport = inject(GltfExportService);
+  private readonly modelRegistry = inject(ModelRegistryService);
+  private readonly selection = inject(SelectionService);
+
+  readonly closed = output<void>();
+
+  readonly scopes = Object.entries(GLTF_EXPORT_SCOPE_LABELS).map(([scope, label]) => ({
+    scope: scope as GltfExportScope,
+    label,
+  }));
+
+  readonly models = this.modelRegistry.loadedModels;
+  readonly selectedCount = computed(() => this.selection.selected().length);
+
+  readonly scope = signal<GltfExportScope>('scene');
+  // Model exported with the model scope; the active model until another is picked
+  readonly modelId = signal<string | null>(
+    this.modelRegistry.activeModel()?.fragmentUuid ?? this.models()[0]?.fragmentUuid ?? null
+  );
+  readonly busy = signal<boolean>(false);
+  readonly error = signal<string | null>(null);
+
+  /** Whether the current scope has anything to export */
+  readonly canExport = computed(() => {
+    switch (this.scope()) {
+      case 'scene':
+        return this.models().some((model) => model.visible);
+      case 'model':
+        return this.models().some((model) => model.fragmentUuid === this.modelId());
+      case 'selection':
+        return this.selectedCount() > 0;
+    }
+  });
+
+  /**
+   * Pick the model to export from the list
+   */
+  selectModel(event: Event): void {
+    this.modelId.set((event.target as HTMLSelectElement).value);
+  }
+
+  /**
+   * Export the current scope and download the GLB file
+   */
+  async save(): Promise<void> {
+    this.busy.set(true);
+    this.error.set(null);
+
+    try {
+      const { glb, name } = await this.exportScope();
+      const blob = new Blob([glb], { type: 'model/gltf-binary' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${name}.glb`;
+      link.click();
+
+      // Cleanup
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('glTF export failed:', error);
+      this.error.set(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      this.busy.set(false);
+    }
+  }
+
+  /**
+   * Helper: Export the current scope, with the name of the file
+   */
+  private async exportScope(): Promise<{ glb: ArrayBuffer; name: string }> {
+    switch (this.scope()) {
+      case 'scene': {
+        const modelIds = this.models()
+          .filter((model) => model.visible)
+          .map((model) => model.fragmentUuid!);
+        return { glb: await this.gltfExport.exportModels(modelIds), name: 'scene' };
+      }
+      case 'model': {
+        const model = this.models().find((item) => item.fragmentUuid === this.modelId());
+        if (!model) {
+          throw new Error('Pick a model to export');
+        }
+        return { glb: await this.gltfExport.exportModels([model.fragmentUuid!]), name: model.name };
+      }
+      case 'selection':
+        return { glb: await this.gltfExport.exportSelection(), name: 'selection' };
+    }
+  }
+}
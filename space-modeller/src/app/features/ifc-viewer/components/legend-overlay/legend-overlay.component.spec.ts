@@ -0,0 +1,67 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { LegendOverlayComponent } from './legend-overlay.component';
+import { ColorService } from '../../../../core/services/color.service';
+import { FragmentsService } from '../../../../core/services/fragments.service';
+import { QueryService } from '../../../../core/services/query.service';
+import { SelectionService } from '../../../../core/services/selection.service';
+
+describe('LegendOverlayComponent', () => {
+  let fixture: ComponentFixture<LegendOverlayComponent>;
+  let mockQueryService: jasmine.SpyObj<QueryService>;
+
+  const entries = () =>
+    Array.from(
+      (fixture.nativeElement as HTMLElement).querySelectorAll<HTMLButtonElement>('.legend-entry')
+    );
+
+  beforeEach(async () => {
+    mockQueryService = jasmine.createSpyObj('QueryService', ['getFieldValues']);
+    mockQueryService.getFieldValues.and.returnValue(
+      Promise.resolve([
+        { element: { modelId: 'arch', localId: 1 }, values: ['Phase 1'] },
+        { element: { modelId: 'arch', localId: 2 }, values: ['Phase 2'] },
+        { element: { modelId: 'arch', localId: 3 }, values: ['Phase 2'] },
+      ])
+    );
+    const mockFragmentsService = jasmine.createSpyObj('FragmentsService', ['setElementsColor']);
+    mockFragmentsService.setElementsColor.and.returnValue(Promise.resolve());
+
+    await TestBed.configureTestingModule({
+      imports: [LegendOverlayComponent],
+      providers: [
+        { provide: QueryService, useValue: mockQueryService },
+        { provide: FragmentsService, useValue: mockFragmentsService },
+      ],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(LegendOverlayComponent);
+    fixture.detectChanges();
+  });
+
+  it('should show nothing without a legend', () => {
+    expect(fixture.nativeElement.querySelector('.legend')).toBeNull();
+  });
+
+  it('should list the legend entries with their counts', async () => {
+    await TestBed.inject(ColorService).colorBy(['Phasing', 'Phase Created']);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.textContent).toContain('Phasing.Phase Created');
+    expect(entries().map((entry) => entry.textContent?.replace(/\s+/g, ' ').trim())).toEqual([
+      'Phase 1 1',
+      'Phase 2 2',
+    ]);
+  });
+
+  it('should select the elements of a clicked entry', async () => {
+    await TestBed.inject(ColorService).colorBy(['Phasing', 'Phase Created']);
+    fixture.detectChanges();
+
+    entries()[1]!.click();
+
+    expect(TestBed.inject(SelectionService).selected()).toEqual([
+      { modelId: 'arch', localId: 2 },
+      { modelId: 'arch', localId: 3 },
+    ]);
+  });
+});
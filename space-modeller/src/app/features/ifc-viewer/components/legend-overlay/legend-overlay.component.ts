@@ -0,0 +1,28 @@
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+import { ColorService } from '../../../../core/services/color.service';
+import { SelectionService } from '../../../../core/services/selection.service';
+import { LegendEntry } from '../../../../shared/models/viewer.model';
+import { toElements } from '../../../../shared/utils/visibility.utils';
+
+/**
+ * Legend of the field the elements are coloured by, shown over the viewer
+ * Clicking an entry selects its elements
+ */
+@Component({
+  selector: 'app-legend-overlay',
+  standalone: true,
+  templateUrl: './legend-overlay.component.html',
+  styleUrls: ['./legend-overlay.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class LegendOverlayComponent {
+  private readonly selection = inject(SelectionService);
+  readonly colors = inject(ColorService);
+
+  /**
+   * Select the elements of a legend entry
+   */
+  selectEntry(entry: LegendEntry): void {
+    this.selection.setSelection(toElements(entry.elements));
+  }
+}
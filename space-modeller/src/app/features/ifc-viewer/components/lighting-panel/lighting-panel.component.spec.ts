@@ -0,0 +1,96 @@
+import { signal } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { LightingPanelComponent } from './lighting-panel.component';
+import { LightingService } from '../../../../core/services/lighting.service';
+import { LightingPreset, SunPosition } from '../../../../shared/models/viewer.model';
+
+describe('LightingPanelComponent', () => {
+  let component: LightingPanelComponent;
+  let fixture: ComponentFixture<LightingPanelComponent>;
+  let mockLighting: jasmine.SpyObj<LightingService>;
+  const preset = signal<LightingPreset>('studio');
+  const sun = signal<SunPosition>({ azimuth: 180, altitude: 60 });
+
+  const element = () => fixture.nativeElement as HTMLElement;
+  const button = (label: string) =>
+    Array.from(element().querySelectorAll<HTMLButtonElement>('button')).find(
+      (item) => item.textContent?.trim() === label
+    );
+
+  beforeEach(async () => {
+    preset.set('studio');
+    sun.set({ azimuth: 180, altitude: 60 });
+    mockLighting = jasmine.createSpyObj(
+      'LightingService',
+      ['setPreset', 'setShadows', 'setLocation', 'setSunTime'],
+      {
+        preset,
+        sun,
+        shadows: signal(false),
+        location: signal({ latitude: 51.48, longitude: 0 }),
+        sunDate: signal('2024-06-21'),
+        sunTime: signal(14 * 60 + 30),
+      }
+    );
+
+    await TestBed.configureTestingModule({
+      imports: [LightingPanelComponent],
+      providers: [{ provide: LightingService, useValue: mockLighting }],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(LightingPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should mark the current preset and switch to a clicked one', () => {
+    expect(button('Studio')?.getAttribute('aria-pressed')).toBe('true');
+
+    button('Daylight')?.click();
+
+    expect(mockLighting.setPreset).toHaveBeenCalledWith('daylight');
+  });
+
+  it('should turn shadows on', () => {
+    const checkbox = element().querySelector<HTMLInputElement>('input[type="checkbox"]')!;
+
+    checkbox.click();
+
+    expect(mockLighting.setShadows).toHaveBeenCalledWith(true);
+  });
+
+  it('should show the sun controls in daylight and move the sun', () => {
+    expect(element().querySelector('input[type="range"]')).toBeNull();
+
+    preset.set('daylight');
+    fixture.detectChanges();
+    expect(element().textContent).toContain('14:30');
+
+    const time = element().querySelector<HTMLInputElement>('input[type="range"]')!;
+    time.value = '540';
+    time.dispatchEvent(new Event('input'));
+    expect(mockLighting.setSunTime).toHaveBeenCalledWith('2024-06-21', 540);
+
+    const latitude = element().querySelector<HTMLInputElement>('input[type="number"]')!;
+    latitude.value = '40.7';
+    latitude.dispatchEvent(new Event('change'));
+    expect(mockLighting.setLocation).toHaveBeenCalledWith({ latitude: 40.7, longitude: 0 });
+  });
+
+  it('should tell when the sun is below the horizon', () => {
+    preset.set('daylight');
+    sun.set({ azimuth: 0, altitude: -12 });
+    fixture.detectChanges();
+
+    expect(element().textContent).toContain('Sun below the horizon');
+  });
+
+  it('should emit closed from the close button', () => {
+    const closedSpy = jasmine.createSpy('closed');
+    component.closed.subscribe(closedSpy);
+
+    element().querySelector<HTMLButtonElement>('.panel-close')?.click();
+
+    expect(closedSpy).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,51 @@
+import { ChangeDetectionStrategy, Component, computed, inject, output } from '@angular/core';
+import { LightingService } from '../../../../core/services/lighting.service';
+import { LIGHTING_PRESETS } from '../../../../shared/constants/viewer.constants';
+import { LightingPreset } from '../../../../shared/models/viewer.model';
+
+/**
+ * Lighting preset, shadows and the sun's date, time and location
+ */
+@Component({
+  selector: 'app-lighting-panel',
+  standalone: true,
+  templateUrl: './lighting-panel.component.html',
+  styleUrls: ['./lighting-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class LightingPanelComponent {
+  readonly lighting = inject(LightingService);
+
+  readonly closed = output<void>();
+
+  readonly presets = Object.entries(LIGHTING_PRESETS).map(([preset, { label }]) => ({
+    preset: preset as LightingPreset,
+    label,
+  }));
+
+  /** Whether the current preset is lit by the sun */
+  readonly hasSun = computed(
+    () => LIGHTING_PRESETS[this.lighting.preset()].key.direction === 'sun'
+  );
+
+  /** Clock time of the sun as hh:mm */
+  readonly timeLabel = computed(() => {
+    const minutes = this.lighting.sunTime();
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+  });
+
+  /**
+   * Move the sun to another latitude or longitude
+   */
+  setCoordinate(coordinate: 'latitude' | 'longitude', value: number): void {
+    this.lighting.setLocation({ ...this.lighting.location(), [coordinate]: value });
+  }
+
+  /**
+   * Helper: Read a checkbox change
+   */
+  isChecked(event: Event): boolean {
+    return (event.target as HTMLInputElement).checked;
+  }
+}
@@ -0,0 +1,123 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { MeasurementPanelComponent } from './measurement-panel.component';
+import { FragmentsService } from '../../../../core/services/fragments.service';
+import { MeasurementService } from '../../../../core/services/measurement.service';
+import { ModelRegistryService } from '../../../../core/services/model-registry.service';
+import { StoreyLevel } from '../../../../shared/models/viewer.model';
+
+describe('MeasurementPanelComponent', () => {
+  let component: MeasurementPanelComponent;
+  let fixture: ComponentFixture<MeasurementPanelComponent>;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+  let measurement: MeasurementService;
+
+  const storeys: StoreyLevel[] = [
+    { modelId: 'frag-a', localId: 8, name: 'Level 1', elevation: 3 },
+    { modelId: 'frag-a', localId: 4, name: 'Ground', elevation: 0 },
+  ];
+
+  const buttons = () =>
+    Array.from((fixture.nativeElement as HTMLElement).querySelectorAll<HTMLButtonElement>('button'));
+  const button = (label: string) => buttons().find((item) => item.textContent?.trim() === label);
+
+  const render = async () => {
+    fixture.detectChanges();
+    await fixture.whenStable();
+    fixture.detectChanges();
+    return (fixture.nativeElement as HTMLElement).textContent ?? '';
+  };
+
+  beforeEach(async () => {
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', ['getStoreys']);
+    mockFragmentsService.getStoreys.and.returnValue(Promise.resolve(storeys));
+
+    await TestBed.configureTestingModule({
+      imports: [MeasurementPanelComponent],
+      providers: [{ provide: FragmentsService, useValue: mockFragmentsService }],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(MeasurementPanelComponent);
+    component = fixture.componentInstance;
+    measurement = TestBed.inject(MeasurementService);
+
+    TestBed.inject(ModelRegistryService).add({
+      id: 'model-a',
+      name: 'Architecture',
+      loading: false,
+      progress: 100,
+      fragmentUuid: 'frag-a',
+      visible: true,
+    });
+  });
+
+  afterEach(() => {
+    measurement.detach();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should toggle a tool', async () => {
+    await render();
+
+    button('Distance')?.click();
+    expect(measurement.tool()).toBe('distance');
+
+    button('Distance')?.click();
+    expect(measurement.tool()).toBeNull();
+  });
+
+  it('should list storeys of loaded models lowest first', async () => {
+    await render();
+
+    expect(mockFragmentsService.getStoreys).toHaveBeenCalledWith('frag-a');
+    expect(component.storeys().map((storey) => storey.name)).toEqual(['Ground', 'Level 1']);
+  });
+
+  it('should use the chosen storey as the elevation reference', async () => {
+    await render();
+    const select = (fixture.nativeElement as HTMLElement).querySelector('select')!;
+
+    select.value = '1';
+    select.dispatchEvent(new Event('change'));
+
+    expect(measurement.reference()?.name).toBe('Level 1');
+  });
+
+  it('should list measurements with delete actions', async () => {
+    measurement.setTool('elevation');
+    const item = measurement.addPoint({ x: 0, y: 2, z: 0 })!;
+    const text = await render();
+
+    expect(text).toContain('+2.00 m');
+    buttons()
+      .find((entry) => entry.getAttribute('aria-label') === 'Delete Elevation 1')
+      ?.click();
+
+    expect(measurement.measurements().find((entry) => entry.id === item.id)).toBeUndefined();
+  });
+
+  it('should download the measurements as JSON', async () => {
+    measurement.setTool('elevation');
+    measurement.addPoint({ x: 0, y: 2, z: 0 });
+    await render();
+    const createSpy = spyOn(URL, 'createObjectURL').and.returnValue('blob:measurements');
+    spyOn(URL, 'revokeObjectURL');
+    spyOn(HTMLAnchorElement.prototype, 'click');
+
+    button('Export JSON')?.click();
+
+    expect(createSpy).toHaveBeenCalledWith(jasmine.any(Blob));
+  });
+
+  it('should emit closed from the close button', () => {
+    const closedSpy = jasmine.createSpy('closed');
+    component.closed.subscribe(closedSpy);
+    fixture.detectChanges();
+
+    (fixture.nativeElement as HTMLElement).querySelector<HTMLButtonElement>('.panel-close')?.click();
+
+    expect(closedSpy).toHaveBeenCalled();
+  });
+});
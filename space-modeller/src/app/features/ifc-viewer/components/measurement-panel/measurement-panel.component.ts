@@ -0,0 +1,129 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  effect,
+  inject,
+  output,
+  signal,
+  untracked,
+} from '@angular/core';
+import { FragmentsService } from '../../../../core/services/fragments.service';
+import { MeasurementService } from '../../../../core/services/measurement.service';
+import { ModelRegistryService } from '../../../../core/services/model-registry.service';
+import { MEASUREMENT_TOOL_LABELS } from '../../../../shared/constants/viewer.constants';
+import { MeasurementKind, StoreyLevel } from '../../../../shared/models/viewer.model';
+
+/**
+ * What to click for each tool
+ */
+const TOOL_HINTS: Record<MeasurementKind, string> = {
+  distance: 'Click two points.',
+  polyline: 'Click points along the path; double-click or press Enter to finish.',
+  area: 'Click the corners of the area; double-click or press Enter to finish.',
+  angle: 'Click a point, the vertex of the angle, then a second point.',
+  elevation: 'Click a point to measure its height above the reference level.',
+};
+
+/**
+ * Measurement tools and the list of finished measurements
+ * Points snap to vertices and edges of the model; elevations are measured
+ * from the storey chosen as the reference level
+ */
+@Component({
+  selector: 'app-measurement-panel',
+  standalone: true,
+  templateUrl: './measurement-panel.component.html',
+  styleUrls: ['./measurement-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class MeasurementPanelComponent {
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly modelRegistry = inject(ModelRegistryService);
+  readonly measurement = inject(MeasurementService);
+
+  readonly closed = output<void>();
+
+  readonly tools = Object.entries(MEASUREMENT_TOOL_LABELS) as [MeasurementKind, string][];
+  readonly toolLabels = MEASUREMENT_TOOL_LABELS;
+  readonly toolHints = TOOL_HINTS;
+
+  /** Storeys of every loaded model, lowest first */
+  readonly storeys = signal<StoreyLevel[]>([]);
+
+  private storeysRequest = 0;
+
+  constructor() {
+    effect(() => {
+      const ids = this.modelRegistry.loadedModels().map((model) => model.fragmentUuid!);
+      untracked(() => void this.loadStoreys(ids));
+    });
+  }
+
+  /**
+   * Start a tool, or stop measuring if it is already active
+   */
+  toggleTool(kind: MeasurementKind): void {
+    this.measurement.setTool(this.measurement.tool() === kind ? null : kind);
+  }
+
+  /**
+   * Use the storey picked in the list as the elevation reference
+   */
+  selectReference(event: Event): void {
+    const index = Number((event.target as HTMLSelectElement).value);
+    this.measurement.setReference(this.storeys()[index] ?? null);
+  }
+
+  /**
+   * Index of the reference storey in the list, or -1 for the origin
+   */
+  referenceIndex(): number {
+    const reference = this.measurement.reference();
+    return this.storeys().findIndex(
+      (storey) => storey.modelId === reference?.modelId && storey.localId === reference.localId
+    );
+  }
+
+  /**
+   * Download the finished measurements as a JSON file
+   */
+  exportJson(): void {
+    const blob = new Blob([this.measurement.exportJson()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'measurements.json';
+    link.click();
+
+    // Cleanup
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Helper: Read the storeys of the loaded models; a model without storeys adds none
+   */
+  private async loadStoreys(modelIds: string[]): Promise<void> {
+    const request = ++this.storeysRequest;
+    const results = await Promise.all(
+      modelIds.map((id) =>
+        this.fragmentsService.getStoreys(id).catch((error) => {
+          console.warn(`Failed to read storeys of model ${id}:`, error);
+          return [];
+        })
+      )
+    );
+
+    // A newer request superseded this one
+    if (request !== this.storeysRequest) {
+      return;
+    }
+
+    const storeys = results.flat().sort((a, b) => a.elevation - b.elevation);
+    this.storeys.set(storeys);
+
+    // Drop a reference whose model was unloaded
+    if (this.referenceIndex() === -1) {
+      this.measurement.setReference(null);
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { signal } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+import { NavCubeComponent } from './nav-cube.component';
+import { CameraService } from '../../../../core/services/camera.service';
+import { NavigationService } from '../../../../core/services/navigation.service';
+import { SelectionService } from '../../../../core/services/selection.service';
+import {
+  CameraProjection,
+  ModelElement,
+  NavigationMode,
+} from '../../../../shared/models/viewer.model';
+
+describe('NavCubeComponent', () => {
+  let fixture: ComponentFixture<NavCubeComponent>;
+  let mockCameras: jasmine.SpyObj<CameraService>;
+  let mockNavigation: jasmine.SpyObj<NavigationService>;
+  let notify: () => void;
+  let unsubscribe: jasmine.Spy;
+  const projection = signal<CameraProjection>('perspective');
+  const mode = signal<NavigationMode>('orbit');
+  const selected = signal<ModelElement[]>([]);
+  const camera = new THREE.PerspectiveCamera();
+
+  const button = (label: string) =>
+    Array.from(
+      (fixture.nativeElement as HTMLElement).querySelectorAll<HTMLButtonElement>('button')
+    ).find((item) => item.textContent?.trim() === label);
+
+  beforeEach(async () => {
+    projection.set('perspective');
+    mode.set('orbit');
+    selected.set([]);
+    unsubscribe = jasmine.createSpy('unsubscribe');
+    mockCameras = jasmine.createSpyObj(
+      'CameraService',
+      ['setView', 'toggleProjection', 'fitAll', 'fitSelection', 'getCamera', 'onChange'],
+      { projection }
+    );
+    mockCameras.setView.and.returnValue(Promise.resolve());
+    mockCameras.getCamera.and.returnValue(camera);
+    mockCameras.onChange.and.callFake((listener) => {
+      notify = listener;
+      return unsubscribe;
+    });
+    mockNavigation = jasmine.createSpyObj('NavigationService', ['toggleMode'], { mode });
+
+    await TestBed.configureTestingModule({
+      imports: [NavCubeComponent],
+      providers: [
+        { provide: CameraService, useValue: mockCameras },
+        { provide: NavigationService, useValue: mockNavigation },
+        { provide: SelectionService, useValue: { selected } },
+      ],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(NavCubeComponent);
+    fixture.detectChanges();
+  });
+
+  it('should look from the side of a clicked face', () => {
+    button('Top')!.click();
+    expect(mockCameras.setView).toHaveBeenCalledWith('top');
+
+    button('Iso')!.click();
+    expect(mockCameras.setView).toHaveBeenCalledWith('isometric');
+  });
+
+  it('should toggle the projection', () => {
+    button('Persp')!.click();
+    expect(mockCameras.toggleProjection).toHaveBeenCalled();
+
+    projection.set('orthographic');
+    fixture.detectChanges();
+
+    expect(button('Ortho')!.getAttribute('aria-pressed')).toBe('true');
+  });
+
+  it('should fit all models, and the selection once there is one', () => {
+    button('Fit all')!.click();
+    expect(mockCameras.fitAll).toHaveBeenCalled();
+    expect(button('Fit selection')!.disabled).toBeTrue();
+
+    selected.set([{ modelId: 'a', localId: 1 }]);
+    fixture.detectChanges();
+    button('Fit selection')!.click();
+
+    expect(mockCameras.fitSelection).toHaveBeenCalled();
+  });
+
+  it('should start walking and offer standard views only when orbiting', () => {
+    button('Walk')!.click();
+    expect(mockNavigation.toggleMode).toHaveBeenCalledWith('walk');
+
+    mode.set('walk');
+    fixture.detectChanges();
+
+    expect(button('Walk')!.getAttribute('aria-pressed')).toBe('true');
+    expect(button('Top')!.disabled).toBeTrue();
+    expect(button('Persp')!.disabled).toBeTrue();
+    expect(button('Fit all')!.disabled).toBeTrue();
+  });
+
+  it('should turn the cube with the camera', () => {
+    camera.quaternion.setFromAxisAngle(new THREE.Vector3(0, 1, 0), Math.PI / 2);
+    notify();
+
+    const cube = fixture.nativeElement.querySelector('.cube') as HTMLElement;
+    expect(cube.style.transform).toContain('matrix3d');
+  });
+
+  it('should stop following the camera when destroyed', () => {
+    fixture.destroy();
+
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  DestroyRef,
+  ElementRef,
+  inject,
+  viewChild,
+} from '@angular/core';
+import * as THREE from 'three';
+import { CameraService } from '../../../../core/services/camera.service';
+import { NavigationService } from '../../../../core/services/navigation.service';
+import { SelectionService } from '../../../../core/services/selection.service';
+import { VIEW_PRESETS } from '../../../../shared/constants/viewer.constants';
+import { ViewPreset } from '../../../../shared/models/viewer.model';
+
+const CUBE_FACES: ViewPreset[] = ['front', 'back', 'right', 'left', 'top', 'bottom'];
+
+/**
+ * Navigation cube in the corner of the viewer
+ * The cube turns with the camera; clicking a face looks at the model from
+ * that side. The buttons below give the isometric view, switch between
+ * perspective and orthographic projection, fit all models or the selection
+ * in view, and start walk or fly mode (all but walk and fly are for orbiting
+ * only)
+ */
+@Component({
+  selector: 'app-nav-cube',
+  standalone: true,
+  templateUrl: './nav-cube.component.html',
+  styleUrls: ['./nav-cube.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class NavCubeComponent {
+  readonly cameras = inject(CameraService);
+  readonly navigation = inject(NavigationService);
+  readonly selection = inject(SelectionService);
+
+  private readonly cubeRef = viewChild.required<ElementRef<HTMLElement>>('cube');
+
+  readonly faces = CUBE_FACES.map((preset) => ({ preset, label: VIEW_PRESETS[preset].label }));
+
+  constructor() {
+    // The camera changes every frame while orbiting: the cube is turned
+    // directly in the DOM, without change detection
+    const unsubscribe = this.cameras.onChange(() => this.turnCube());
+    inject(DestroyRef).onDestroy(unsubscribe);
+  }
+
+  /**
+   * Look at the model from a standard direction
+   */
+  setView(preset: ViewPreset): void {
+    void this.cameras.setView(preset);
+  }
+
+  /**
+   * Helper: Show the cube as the camera sees the world axes
+   */
+  private turnCube(): void {
+    const cube = this.cubeRef().nativeElement;
+    cube.style.transform = toCssRotation(this.cameras.getCamera().quaternion);
+  }
+}
+
+/**
+ * Helper: CSS transform of the inverse of a camera rotation
+ * CSS has y pointing down, so the y row and column are mirrored
+ */
+function toCssRotation(quaternion: THREE.Quaternion): string {
+  const e = new THREE.Matrix4().makeRotationFromQuaternion(quaternion).transpose().elements;
+  const values = [e[0], -e[1], e[2], 0, -e[4], e[5], -e[6], 0, e[8], -e[9], e[10], 0, 0, 0, 0, 1];
+  return `matrix3d(${values.map((value) => value!.toFixed(6)).join(',')})`;
+}
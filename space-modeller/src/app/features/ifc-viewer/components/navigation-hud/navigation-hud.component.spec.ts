@@ -0,0 +1,65 @@
+import { signal } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { NavigationHudComponent } from './navigation-hud.component';
+import { NavigationService } from '../../../../core/services/navigation.service';
+import { NavigationMode } from '../../../../shared/models/viewer.model';
+
+describe('NavigationHudComponent', () => {
+  let fixture: ComponentFixture<NavigationHudComponent>;
+  let mockNavigation: jasmine.SpyObj<NavigationService>;
+  const mode = signal<NavigationMode>('orbit');
+  const locked = signal(false);
+  const eyeHeight = signal(1.7);
+
+  const text = () => (fixture.nativeElement as HTMLElement).textContent ?? '';
+
+  beforeEach(async () => {
+    mode.set('orbit');
+    locked.set(false);
+    mockNavigation = jasmine.createSpyObj('NavigationService', ['setMode', 'setEyeHeight'], {
+      mode,
+      locked,
+      eyeHeight,
+    });
+
+    await TestBed.configureTestingModule({
+      imports: [NavigationHudComponent],
+      providers: [{ provide: NavigationService, useValue: mockNavigation }],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(NavigationHudComponent);
+    fixture.detectChanges();
+  });
+
+  it('should only show in walk and fly mode', () => {
+    expect(fixture.nativeElement.querySelector('.hud')).toBeNull();
+
+    mode.set('fly');
+    fixture.detectChanges();
+
+    expect(text()).toContain('Flying');
+    expect(text()).toContain('Click the view to look around');
+  });
+
+  it('should explain the keys while the mouse looks around', () => {
+    mode.set('walk');
+    locked.set(true);
+    fixture.detectChanges();
+
+    expect(text()).toContain('WASD / arrows move');
+    expect(text()).not.toContain('E / Q');
+  });
+
+  it('should set the eye height and exit', () => {
+    mode.set('walk');
+    fixture.detectChanges();
+
+    const input = fixture.nativeElement.querySelector('.hud-eye input') as HTMLInputElement;
+    input.value = '1.5';
+    input.dispatchEvent(new Event('change'));
+    expect(mockNavigation.setEyeHeight).toHaveBeenCalledWith(1.5);
+
+    (fixture.nativeElement.querySelector('.hud-button') as HTMLButtonElement).click();
+    expect(mockNavigation.setMode).toHaveBeenCalledWith('orbit');
+  });
+});
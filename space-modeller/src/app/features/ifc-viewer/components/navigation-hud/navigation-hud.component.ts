@@ -0,0 +1,20 @@
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+import { NavigationService } from '../../../../core/services/navigation.service';
+import { WALK_CONFIG } from '../../../../shared/constants/viewer.constants';
+
+/**
+ * Key help, eye height and exit for walk and fly mode, shown over the viewer
+ */
+@Component({
+  selector: 'app-navigation-hud',
+  standalone: true,
+  templateUrl: './navigation-hud.component.html',
+  styleUrls: ['./navigation-hud.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class NavigationHudComponent {
+  readonly navigation = inject(NavigationService);
+
+  readonly minEyeHeight = WALK_CONFIG.minEyeHeight;
+  readonly maxEyeHeight = WALK_CONFIG.maxEyeHeight;
+}
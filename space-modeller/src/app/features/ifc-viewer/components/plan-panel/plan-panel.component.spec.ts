@@ -0,0 +1,114 @@
+import { signal } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { PlanPanelComponent } from './plan-panel.component';
+import { FragmentsService } from '../../../../core/services/fragments.service';
+import { ModelRegistryService } from '../../../../core/services/model-registry.service';
+import { PlanService } from '../../../../core/services/plan.service';
+import { PLAN_CONFIG } from '../../../../shared/constants/viewer.constants';
+import { StoreyLevel } from '../../../../shared/models/viewer.model';
+
+describe('PlanPanelComponent', () => {
+  let component: PlanPanelComponent;
+  let fixture: ComponentFixture<PlanPanelComponent>;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+  let mockPlan: jasmine.SpyObj<PlanService>;
+  const storey = signal<StoreyLevel | null>(null);
+  const active = signal(false);
+
+  const storeys: StoreyLevel[] = [
+    { modelId: 'frag-a', localId: 8, name: 'Level 1', elevation: 3 },
+    { modelId: 'frag-a', localId: 4, name: 'Ground', elevation: 0 },
+  ];
+
+  const buttons = () =>
+    Array.from((fixture.nativeElement as HTMLElement).querySelectorAll<HTMLButtonElement>('button'));
+  const button = (label: string) => buttons().find((item) => item.textContent?.trim() === label);
+
+  const render = async () => {
+    fixture.detectChanges();
+    await fixture.whenStable();
+    fixture.detectChanges();
+  };
+
+  beforeEach(async () => {
+    storey.set(null);
+    active.set(false);
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', ['getStoreys']);
+    mockFragmentsService.getStoreys.and.returnValue(Promise.resolve(storeys));
+    mockPlan = jasmine.createSpyObj('PlanService', ['open', 'close', 'setCutHeight', 'exportSvg'], {
+      storey,
+      active,
+      cutHeight: signal(PLAN_CONFIG.cutHeight),
+    });
+    mockPlan.open.and.returnValue(Promise.resolve());
+
+    await TestBed.configureTestingModule({
+      imports: [PlanPanelComponent],
+      providers: [
+        { provide: FragmentsService, useValue: mockFragmentsService },
+        { provide: PlanService, useValue: mockPlan },
+      ],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(PlanPanelComponent);
+    component = fixture.componentInstance;
+
+    TestBed.inject(ModelRegistryService).add({
+      id: 'model-a',
+      name: 'Architecture',
+      loading: false,
+      progress: 100,
+      fragmentUuid: 'frag-a',
+      visible: true,
+    });
+  });
+
+  it('should list storeys lowest first and open the plan of a clicked one', async () => {
+    await render();
+
+    const names = buttons()
+      .filter((item) => item.classList.contains('plan-storey'))
+      .map((item) => item.querySelector('span')?.textContent);
+    expect(names).toEqual(['Ground', 'Level 1']);
+
+    buttons().find((item) => item.textContent?.includes('Level 1'))!.click();
+    expect(mockPlan.open).toHaveBeenCalledWith(storeys[0]!);
+  });
+
+  it('should change the cut height of the open plan', async () => {
+    storey.set(storeys[0]!);
+    active.set(true);
+    await render();
+    const input = (fixture.nativeElement as HTMLElement).querySelector('input')!;
+
+    input.value = '2.5';
+    input.dispatchEvent(new Event('change'));
+
+    expect(mockPlan.setCutHeight).toHaveBeenCalledWith(2.5);
+  });
+
+  it('should download the plan as SVG', async () => {
+    storey.set(storeys[0]!);
+    active.set(true);
+    mockPlan.exportSvg.and.returnValue(Promise.resolve('<svg/>'));
+    await render();
+    const createSpy = spyOn(URL, 'createObjectURL').and.returnValue('blob:plan');
+    spyOn(URL, 'revokeObjectURL');
+    spyOn(HTMLAnchorElement.prototype, 'click');
+
+    expect(button('Export SVG')).toBeDefined();
+    await component.exportSvg();
+
+    expect(createSpy).toHaveBeenCalledWith(jasmine.any(Blob));
+  });
+
+  it('should emit closed from the close button', () => {
+    const closedSpy = jasmine.createSpy('closed');
+    component.closed.subscribe(closedSpy);
+    fixture.detectChanges();
+
+    (fixture.nativeElement as HTMLElement).querySelector<HTMLButtonElement>('.panel-close')?.click();
+
+    expect(closedSpy).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  effect,
+  inject,
+  output,
+  signal,
+  untracked,
+} from '@angular/core';
+import { FragmentsService } from '../../../../core/services/fragments.service';
+import { ModelRegistryService } from '../../../../core/services/model-registry.service';
+import { PlanService } from '../../../../core/services/plan.service';
+import { PLAN_CONFIG } from '../../../../shared/constants/viewer.constants';
+import { StoreyLevel } from '../../../../shared/models/viewer.model';
+
+/**
+ * Storey floor plans: pick a storey to see it cut and from above, adjust the
+ * cut height and download the plan as SVG
+ */
+@Component({
+  selector: 'app-plan-panel',
+  standalone: true,
+  templateUrl: './plan-panel.component.html',
+  styleUrls: ['./plan-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class PlanPanelComponent {
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly modelRegistry = inject(ModelRegistryService);
+  readonly plan = inject(PlanService);
+
+  readonly closed = output<void>();
+
+  readonly minCutHeight = PLAN_CONFIG.minCutHeight;
+  readonly maxCutHeight = PLAN_CONFIG.maxCutHeight;
+
+  /** Storeys of every loaded model, lowest first */
+  readonly storeys = signal<StoreyLevel[]>([]);
+  readonly exporting = signal<boolean>(false);
+
+  private storeysRequest = 0;
+
+  constructor() {
+    effect(() => {
+      const ids = this.modelRegistry.loadedModels().map((model) => model.fragmentUuid!);
+      untracked(() => void this.loadStoreys(ids));
+    });
+  }
+
+  /**
+   * Whether a storey is the one shown as a plan
+   */
+  isOpen(storey: StoreyLevel): boolean {
+    const open = this.plan.storey();
+    return open?.modelId === storey.modelId && open.localId === storey.localId;
+  }
+
+  /**
+   * Download the open plan as an SVG file
+   */
+  async exportSvg(): Promise<void> {
+    const storey = this.plan.storey();
+    this.exporting.set(true);
+    const svg = await this.plan.exportSvg().finally(() => this.exporting.set(false));
+    if (!svg || !storey) {
+      return;
+    }
+
+    const blob = new Blob([svg], { type: 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${storey.name}.svg`;
+    link.click();
+
+    // Cleanup
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Helper: Read the storeys of the loaded models; a model without storeys adds none
+   */
+  private async loadStoreys(modelIds: string[]): Promise<void> {
+    const request = ++this.storeysRequest;
+    const results = await Promise.all(
+      modelIds.map((id) =>
+        this.fragmentsService.getStoreys(id).catch((error) => {
+          console.warn(`Failed to read storeys of model ${id}:`, error);
+          return [];
+        })
+      )
+    );
+
+    // A newer request superseded this one
+    if (request !== this.storeysRequest) {
+      return;
+    }
+    this.storeys.set(results.flat().sort((a, b) => a.elevation - b.elevation));
+  }
+}
@@ -0,0 +1,127 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { PropertiesPanelComponent } from './properties-panel.component';
+import { FragmentsService } from '../../../../core/services/fragments.service';
+import { SelectionService } from '../../../../core/services/selection.service';
+import { ElementProperties } from '../../../../shared/models/viewer.model';
+
+describe('PropertiesPanelComponent', () => {
+  let component: PropertiesPanelComponent;
+  let fixture: ComponentFixture<PropertiesPanelComponent>;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+  let selection: SelectionService;
+
+  const door: ElementProperties = {
+    modelId: 'tower',
+    localId: 7,
+    ifcClass: 'IFCDOOR',
+    globalId: '1hOSvn6df7F8_7GcBWlRGQ',
+    name: 'Door 1',
+    attributes: [{ name: 'Name', value: 'Door 1', type: 'IFCLABEL' }],
+    propertySets: [
+      { name: 'Pset_DoorCommon', properties: [{ name: 'FireRating', value: 'EI30' }] },
+    ],
+    quantitySets: [{ name: 'Qto_DoorBaseQuantities', properties: [{ name: 'Width', value: 0.9 }] }],
+  };
+
+  const render = async () => {
+    fixture.detectChanges();
+    await fixture.whenStable();
+    fixture.detectChanges();
+    return (fixture.nativeElement as HTMLElement).textContent ?? '';
+  };
+
+  beforeEach(async () => {
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', [
+      'getElementProperties',
+      'highlightElements',
+      'resetHighlight',
+      'update',
+    ]);
+    mockFragmentsService.getElementProperties.and.returnValue(Promise.resolve(door));
+    mockFragmentsService.highlightElements.and.returnValue(Promise.resolve());
+    mockFragmentsService.resetHighlight.and.returnValue(Promise.resolve());
+    mockFragmentsService.update.and.returnValue(Promise.resolve());
+
+    await TestBed.configureTestingModule({
+      imports: [PropertiesPanelComponent],
+      providers: [{ provide: FragmentsService, useValue: mockFragmentsService }],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(PropertiesPanelComponent);
+    component = fixture.componentInstance;
+    selection = TestBed.inject(SelectionService);
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show an empty state without a selection', async () => {
+    const text = await render();
+
+    expect(text).toContain('Select an element');
+    expect(mockFragmentsService.getElementProperties).not.toHaveBeenCalled();
+  });
+
+  it('should show the properties of the selected element', async () => {
+    selection.select({ modelId: 'tower', localId: 7 });
+
+    const text = await render();
+
+    expect(mockFragmentsService.getElementProperties).toHaveBeenCalledWith('tower', 7);
+    expect(text).toContain('IFCDOOR');
+    expect(text).toContain('1hOSvn6df7F8_7GcBWlRGQ');
+    expect(text).toContain('Pset_DoorCommon');
+    expect(text).toContain('Qto_DoorBaseQuantities');
+  });
+
+  it('should note multi-selections', async () => {
+    selection.setSelection([
+      { modelId: 'tower', localId: 6 },
+      { modelId: 'tower', localId: 7 },
+    ]);
+
+    const text = await render();
+
+    expect(text).toContain('2 elements selected');
+    expect(mockFragmentsService.getElementProperties).toHaveBeenCalledWith('tower', 7);
+  });
+
+  it('should surface lookup errors', async () => {
+    mockFragmentsService.getElementProperties.and.returnValue(Promise.reject(new Error('Worker busy')));
+    spyOn(console, 'error');
+    selection.select({ modelId: 'tower', localId: 7 });
+
+    await render();
+
+    expect(component.error()).toBe('Worker busy');
+    expect(component.properties()).toBeNull();
+  });
+
+  it('should ignore results for an outdated selection', async () => {
+    let resolveFirst!: (value: ElementProperties) => void;
+    mockFragmentsService.getElementProperties.and.returnValues(
+      new Promise<ElementProperties>((resolve) => (resolveFirst = resolve)),
+      Promise.resolve(door)
+    );
+
+    selection.select({ modelId: 'tower', localId: 1 });
+    fixture.detectChanges();
+    selection.select({ modelId: 'tower', localId: 7 });
+    await render();
+    resolveFirst({ ...door, localId: 1, ifcClass: 'IFCWALL' });
+    await fixture.whenStable();
+
+    expect(component.properties()?.ifcClass).toBe('IFCDOOR');
+  });
+
+  it('should emit closed from the close button', () => {
+    const closedSpy = jasmine.createSpy('closed');
+    component.closed.subscribe(closedSpy);
+    fixture.detectChanges();
+
+    (fixture.nativeElement as HTMLElement).querySelector<HTMLButtonElement>('.panel-close')?.click();
+
+    expect(closedSpy).toHaveBeenCalled();
+  });
+});
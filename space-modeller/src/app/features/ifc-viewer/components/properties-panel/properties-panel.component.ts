@@ -0,0 +1,88 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  effect,
+  inject,
+  output,
+  signal,
+  untracked,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FragmentsService } from '../../../../core/services/fragments.service';
+import { SelectionService } from '../../../../core/services/selection.service';
+import { ElementProperties, ModelElement } from '../../../../shared/models/viewer.model';
+
+/**
+ * IFC properties of the most recently selected element
+ * Shows class, GlobalId and Name, then attributes, property sets and quantity sets
+ */
+@Component({
+  selector: 'app-properties-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './properties-panel.component.html',
+  styleUrls: ['./properties-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class PropertiesPanelComponent {
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly selection = inject(SelectionService);
+
+  readonly closed = output<void>();
+
+  readonly selectedCount = signal<number>(0);
+  readonly properties = signal<ElementProperties | null>(null);
+  readonly loading = signal<boolean>(false);
+  readonly error = signal<string | null>(null);
+
+  // Incremented per request so slow responses for an older selection are dropped
+  private requestId = 0;
+
+  constructor() {
+    effect(() => {
+      const element = this.selection.primary();
+      this.selectedCount.set(this.selection.selected().length);
+      untracked(() => void this.load(element));
+    }, { allowSignalWrites: true });
+  }
+
+  /**
+   * Helper: Load properties of an element, ignoring stale results
+   */
+  private async load(element: ModelElement | null): Promise<void> {
+    const requestId = ++this.requestId;
+    this.error.set(null);
+
+    if (!element) {
+      this.properties.set(null);
+      this.loading.set(false);
+      return;
+    }
+
+    this.loading.set(true);
+    try {
+      const properties = await this.fragmentsService.getElementProperties(
+        element.modelId,
+        element.localId
+      );
+      if (requestId !== this.requestId) {
+        return;
+      }
+      this.properties.set(properties);
+      if (!properties) {
+        this.error.set('No data found for the selected element');
+      }
+    } catch (error) {
+      if (requestId !== this.requestId) {
+        return;
+      }
+      console.error('Failed to load element properties:', error);
+      this.properties.set(null);
+      this.error.set(error instanceof Error ? error.message : 'Failed to load properties');
+    } finally {
+      if (requestId === this.requestId) {
+        this.loading.set(false);
+      }
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { signal } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { RenderDebugOverlayComponent } from './render-debug-overlay.component';
+import { RenderLoopService } from '../../../../core/services/render-loop.service';
+import { RenderLoopStats } from '../../../../shared/models/viewer.model';
+
+describe('RenderDebugOverlayComponent', () => {
+  let fixture: ComponentFixture<RenderDebugOverlayComponent>;
+  let mockRenderLoop: jasmine.SpyObj<RenderLoopService>;
+  const debug = signal(true);
+  const stats = signal<RenderLoopStats>({ rendered: 12, skipped: 340, fps: 0, frameTime: 4.25 });
+
+  const element = () => fixture.nativeElement as HTMLElement;
+
+  beforeEach(async () => {
+    debug.set(true);
+    stats.set({ rendered: 12, skipped: 340, fps: 0, frameTime: 4.25 });
+    mockRenderLoop = jasmine.createSpyObj('RenderLoopService', ['setDebug'], { debug, stats });
+
+    await TestBed.configureTestingModule({
+      imports: [RenderDebugOverlayComponent],
+      providers: [{ provide: RenderLoopService, useValue: mockRenderLoop }],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(RenderDebugOverlayComponent);
+    fixture.detectChanges();
+  });
+
+  it('should show the frame counts and whether the loop is idle', () => {
+    expect(element().textContent).toContain('Idle');
+    expect(element().textContent).toContain('340');
+    expect(element().textContent).toContain('4.3 ms');
+
+    stats.set({ rendered: 72, skipped: 340, fps: 60, frameTime: 5 });
+    fixture.detectChanges();
+
+    expect(element().textContent).toContain('Rendering');
+  });
+
+  it('should hide itself from the close button', () => {
+    element().querySelector<HTMLButtonElement>('.render-debug-close')?.click();
+
+    expect(mockRenderLoop.setDebug).toHaveBeenCalledWith(false);
+  });
+
+  it('should show nothing while debugging is off', () => {
+    debug.set(false);
+    fixture.detectChanges();
+
+    expect(element().querySelector('.render-debug')).toBeNull();
+  });
+});
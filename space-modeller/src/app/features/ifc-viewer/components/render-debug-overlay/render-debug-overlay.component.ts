@@ -0,0 +1,20 @@
+import { ChangeDetectionStrategy, Component, computed, inject } from '@angular/core';
+import { RenderLoopService } from '../../../../core/services/render-loop.service';
+
+/**
+ * Frame counts of the render loop, shown over the viewer to check that idle
+ * display refreshes draw nothing
+ */
+@Component({
+  selector: 'app-render-debug-overlay',
+  standalone: true,
+  templateUrl: './render-debug-overlay.component.html',
+  styleUrls: ['./render-debug-overlay.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class RenderDebugOverlayComponent {
+  readonly renderLoop = inject(RenderLoopService);
+
+  /** Whether no frame was drawn since the last update of the counts */
+  readonly idle = computed(() => this.renderLoop.stats().fps === 0);
+}
@@ -0,0 +1,74 @@
+import { signal } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { RenderStylePanelComponent } from './render-style-panel.component';
+import { RenderStyleService } from '../../../../core/services/render-style.service';
+import { RenderStyle } from '../../../../shared/models/viewer.model';
+
+describe('RenderStylePanelComponent', () => {
+  let component: RenderStylePanelComponent;
+  let fixture: ComponentFixture<RenderStylePanelComponent>;
+  let mockRenderStyles: jasmine.SpyObj<RenderStyleService>;
+  const style = signal<RenderStyle>('shaded');
+
+  const element = () => fixture.nativeElement as HTMLElement;
+  const button = (label: string) =>
+    Array.from(element().querySelectorAll<HTMLButtonElement>('button')).find(
+      (item) => item.textContent?.trim() === label
+    );
+
+  beforeEach(async () => {
+    style.set('shaded');
+    mockRenderStyles = jasmine.createSpyObj(
+      'RenderStyleService',
+      ['setStyle', 'setEdgeAngle', 'setSelectionOutline'],
+      { style, edgeAngle: signal(30), selectionOutline: signal(true) }
+    );
+
+    await TestBed.configureTestingModule({
+      imports: [RenderStylePanelComponent],
+      providers: [{ provide: RenderStyleService, useValue: mockRenderStyles }],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(RenderStylePanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should mark the current style and switch to a clicked one', () => {
+    expect(button('Shaded')?.getAttribute('aria-pressed')).toBe('true');
+
+    button('X-ray')?.click();
+
+    expect(mockRenderStyles.setStyle).toHaveBeenCalledWith('xray');
+  });
+
+  it('should change the edge angle of styles with edges', () => {
+    const input = element().querySelector<HTMLInputElement>('input[type="number"]')!;
+    expect(input.disabled).toBeTrue();
+
+    style.set('hidden-line');
+    fixture.detectChanges();
+    input.value = '45';
+    input.dispatchEvent(new Event('change'));
+
+    expect(input.disabled).toBeFalse();
+    expect(mockRenderStyles.setEdgeAngle).toHaveBeenCalledWith(45);
+  });
+
+  it('should turn the selection outline off', () => {
+    const checkbox = element().querySelector<HTMLInputElement>('input[type="checkbox"]')!;
+
+    checkbox.click();
+
+    expect(mockRenderStyles.setSelectionOutline).toHaveBeenCalledWith(false);
+  });
+
+  it('should emit closed from the close button', () => {
+    const closedSpy = jasmine.createSpy('closed');
+    component.closed.subscribe(closedSpy);
+
+    element().querySelector<HTMLButtonElement>('.panel-close')?.click();
+
+    expect(closedSpy).toHaveBeenCalled();
+  });
+});
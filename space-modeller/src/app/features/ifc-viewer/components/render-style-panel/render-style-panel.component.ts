@@ -0,0 +1,37 @@
+import { ChangeDetectionStrategy, Component, computed, inject, output } from '@angular/core';
+import { RenderStyleService } from '../../../../core/services/render-style.service';
+import { RENDER_STYLE_CONFIG, RENDER_STYLES } from '../../../../shared/constants/viewer.constants';
+import { RenderStyle } from '../../../../shared/models/viewer.model';
+
+/**
+ * Render style of the models, the edge angle and the selection outline
+ */
+@Component({
+  selector: 'app-render-style-panel',
+  standalone: true,
+  templateUrl: './render-style-panel.component.html',
+  styleUrls: ['./render-style-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class RenderStylePanelComponent {
+  readonly renderStyles = inject(RenderStyleService);
+
+  readonly closed = output<void>();
+
+  readonly styles = Object.entries(RENDER_STYLES).map(([style, { label }]) => ({
+    style: style as RenderStyle,
+    label,
+  }));
+  readonly minEdgeAngle = RENDER_STYLE_CONFIG.minEdgeAngle;
+  readonly maxEdgeAngle = RENDER_STYLE_CONFIG.maxEdgeAngle;
+
+  /** Whether the current style draws feature edges */
+  readonly hasEdges = computed(() => RENDER_STYLES[this.renderStyles.style()].edges);
+
+  /**
+   * Helper: Read a checkbox change
+   */
+  isChecked(event: Event): boolean {
+    return (event.target as HTMLInputElement).checked;
+  }
+}
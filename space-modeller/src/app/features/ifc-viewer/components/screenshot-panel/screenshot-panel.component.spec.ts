@@ -0,0 +1,87 @@
+import { signal } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ScreenshotPanelComponent } from './screenshot-panel.component';
+import { ColorService } from '../../../../core/services/color.service';
+import { ScreenshotService } from '../../../../core/services/screenshot.service';
+import { ThematicLegend } from '../../../../shared/models/viewer.model';
+
+describe('ScreenshotPanelComponent', () => {
+  let component: ScreenshotPanelComponent;
+  let fixture: ComponentFixture<ScreenshotPanelComponent>;
+  let mockScreenshots: jasmine.SpyObj<ScreenshotService>;
+
+  const element = () => fixture.nativeElement as HTMLElement;
+  const button = (text: string) =>
+    Array.from(element().querySelectorAll<HTMLButtonElement>('button')).find(
+      (item) => item.textContent?.trim() === text
+    );
+  const checkbox = (label: string) =>
+    Array.from(element().querySelectorAll('label'))
+      .find((item) => item.textContent?.trim() === label)
+      ?.querySelector<HTMLInputElement>('input');
+
+  beforeEach(async () => {
+    mockScreenshots = jasmine.createSpyObj('ScreenshotService', {
+      getViewSize: { width: 800, height: 600 },
+      capture: Promise.resolve(new Blob([], { type: 'image/png' })),
+    });
+
+    await TestBed.configureTestingModule({
+      imports: [ScreenshotPanelComponent],
+      providers: [
+        { provide: ScreenshotService, useValue: mockScreenshots },
+        { provide: ColorService, useValue: { legend: signal<ThematicLegend | null>(null) } },
+      ],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ScreenshotPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should size the image as a multiple of the view', () => {
+    expect(component.width()).toBe(1600);
+    expect(component.height()).toBe(1200);
+    expect(button('2×')?.getAttribute('aria-pressed')).toBe('true');
+
+    button('4×')?.click();
+
+    expect(component.width()).toBe(3200);
+    expect(component.height()).toBe(2400);
+  });
+
+  it('should only offer a transparent background and legend when they apply', () => {
+    button('JPEG')?.click();
+    fixture.detectChanges();
+
+    expect(checkbox('Transparent background')?.disabled).toBeTrue();
+    // Nothing is coloured by a field
+    expect(checkbox('Legend')?.disabled).toBeTrue();
+  });
+
+  it('should capture the image and download it under its title', async () => {
+    spyOn(URL, 'createObjectURL').and.returnValue('blob:screenshot');
+    spyOn(URL, 'revokeObjectURL');
+    const clickSpy = spyOn(HTMLAnchorElement.prototype, 'click');
+    component.title.set('Level 1');
+    checkbox('Scale bar')?.click();
+
+    await component.save();
+
+    expect(mockScreenshots.capture).toHaveBeenCalledWith(
+      jasmine.objectContaining({ width: 1600, format: 'png', title: 'Level 1', scaleBar: true })
+    );
+    expect(clickSpy).toHaveBeenCalled();
+    expect((clickSpy.calls.mostRecent().object as HTMLAnchorElement).download).toBe('Level 1.png');
+  });
+
+  it('should show why a capture failed', async () => {
+    spyOn(console, 'error');
+    mockScreenshots.capture.and.rejectWith(new Error('The viewer is not ready'));
+
+    await component.save();
+    fixture.detectChanges();
+
+    expect(element().querySelector('.panel-error')?.textContent).toContain('not ready');
+  });
+});
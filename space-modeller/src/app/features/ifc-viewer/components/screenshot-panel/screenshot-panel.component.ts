@@ -0,0 +1,130 @@
+import { ChangeDetectionStrategy, Component, inject, output, signal } from '@angular/core';
+import { ColorService } from '../../../../core/services/color.service';
+import { ScreenshotService } from '../../../../core/services/screenshot.service';
+import {
+  IMAGE_FORMAT_LABELS,
+  SCREENSHOT_CONFIG,
+} from '../../../../shared/constants/viewer.constants';
+import { ImageFormat } from '../../../../shared/models/viewer.model';
+
+/**
+ * Screenshot export: image size, format, background and overlays
+ */
+@Component({
+  selector: 'app-screenshot-panel',
+  standalone: true,
+  templateUrl: './screenshot-panel.component.html',
+  styleUrls: ['./screenshot-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ScreenshotPanelComponent {
+  private readonly screenshots = inject(ScreenshotService);
+  private readonly view = this.screenshots.getViewSize();
+
+  readonly closed = output<void>();
+
+  /** Legend of the field the elements are coloured by, offered as an overlay */
+  readonly legend = inject(ColorService).legend;
+
+  readonly scales = [1, 2, 4];
+  readonly formats = Object.entries(IMAGE_FORMAT_LABELS).map(([format, label]) => ({
+    format: format as ImageFormat,
+    label,
+  }));
+  readonly maxSize = SCREENSHOT_CONFIG.maxSize;
+
+  readonly width = signal(this.scaled(this.view.width, SCREENSHOT_CONFIG.scale));
+  readonly height = signal(this.scaled(this.view.height, SCREENSHOT_CONFIG.scale));
+  readonly format = signal<ImageFormat>('png');
+  readonly transparent = signal<boolean>(false);
+  readonly title = signal<string>('');
+  readonly showLegend = signal<boolean>(true);
+  readonly scaleBar = signal<boolean>(false);
+  readonly busy = signal<boolean>(false);
+  readonly error = signal<string | null>(null);
+
+  /**
+   * Size the image as a multiple of the view on screen
+   */
+  setScale(scale: number): void {
+    this.width.set(this.scaled(this.view.width, scale));
+    this.height.set(this.scaled(this.view.height, scale));
+  }
+
+  /**
+   * Whether the image is the view on screen times a scale
+   */
+  isScale(scale: number): boolean {
+    return (
+      this.width() === this.scaled(this.view.width, scale) &&
+      this.height() === this.scaled(this.view.height, scale)
+    );
+  }
+
+  /**
+   * Set an image side from its input, ignoring empty or invalid values
+   */
+  setSize(side: 'width' | 'height', event: Event): void {
+    const size = Math.round((event.target as HTMLInputElement).valueAsNumber);
+    if (size > 0) {
+      this[side].set(Math.min(SCREENSHOT_CONFIG.maxSize, size));
+    }
+  }
+
+  /**
+   * Render the view and download the image
+   */
+  async save(): Promise<void> {
+    this.busy.set(true);
+    this.error.set(null);
+
+    try {
+      const format = this.format();
+      const blob = await this.screenshots.capture({
+        width: this.width(),
+        height: this.height(),
+        format,
+        transparent: this.transparent(),
+        title: this.title(),
+        legend: this.showLegend(),
+        scaleBar: this.scaleBar(),
+      });
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      const extension = format === 'jpeg' ? 'jpg' : 'png';
+      link.download = `${this.title().trim() || 'screenshot'}.${extension}`;
+      link.click();
+
+      // Cleanup
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Screenshot failed:', error);
+      this.error.set(error instanceof Error ? error.message : 'Screenshot failed');
+    } finally {
+      this.busy.set(false);
+    }
+  }
+
+  /**
+   * Helper: Read a checkbox change
+   */
+  isChecked(event: Event): boolean {
+    return (event.target as HTMLInputElement).checked;
+  }
+
+  /**
+   * Helper: Read a text input change
+   */
+  getValue(event: Event): string {
+    return (event.target as HTMLInputElement).value;
+  }
+
+  /**
+   * Helper: Multiply a view side, within the largest image size
+   */
+  private scaled(size: number, scale: number): number {
+    return Math.min(SCREENSHOT_CONFIG.maxSize, Math.max(1, Math.round(size * scale)));
+  }
+}
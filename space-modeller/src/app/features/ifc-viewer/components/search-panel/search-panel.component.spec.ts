@@ -0,0 +1,107 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { SearchPanelComponent } from './search-panel.component';
+import { FragmentsService } from '../../../../core/services/fragments.service';
+import { QueryService } from '../../../../core/services/query.service';
+import { SelectionService } from '../../../../core/services/selection.service';
+import { VisibilityService } from '../../../../core/services/visibility.service';
+import { ColorService } from '../../../../core/services/color.service';
+
+describe('SearchPanelComponent', () => {
+  let component: SearchPanelComponent;
+  let fixture: ComponentFixture<SearchPanelComponent>;
+  let mockQueryService: jasmine.SpyObj<QueryService>;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+
+  const results = [
+    { modelId: 'arch', localId: 1 },
+    { modelId: 'arch', localId: 2 },
+  ];
+
+  const text = () => (fixture.nativeElement as HTMLElement).textContent ?? '';
+  const button = (label: string) =>
+    Array.from(
+      (fixture.nativeElement as HTMLElement).querySelectorAll<HTMLButtonElement>('button')
+    ).find((item) => item.textContent?.trim() === label);
+
+  const search = async (query: string) => {
+    component.text.set(query);
+    await component.search();
+    fixture.detectChanges();
+  };
+
+  beforeEach(async () => {
+    mockQueryService = jasmine.createSpyObj('QueryService', ['run']);
+    mockQueryService.run.and.returnValue(Promise.resolve(results));
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', [
+      'getAllModels',
+      'getElementIds',
+      'setElementsVisible',
+      'setElementsColor',
+    ]);
+    mockFragmentsService.getAllModels.and.returnValue([{ modelId: 'arch' }] as any);
+    mockFragmentsService.getElementIds.and.returnValue(Promise.resolve([1, 2, 3]));
+    mockFragmentsService.setElementsVisible.and.returnValue(Promise.resolve());
+    mockFragmentsService.setElementsColor.and.returnValue(Promise.resolve());
+
+    await TestBed.configureTestingModule({
+      imports: [SearchPanelComponent],
+      providers: [
+        { provide: QueryService, useValue: mockQueryService },
+        { provide: FragmentsService, useValue: mockFragmentsService },
+      ],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(SearchPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should offer example queries before the first search', () => {
+    expect(text()).toContain('IfcDoor, IfcWindow where Name ~ "fire"');
+  });
+
+  it('should run a query and count the results', async () => {
+    await search('IfcWall where Pset_WallCommon.IsExternal = true');
+
+    expect(mockQueryService.run).toHaveBeenCalledWith(
+      jasmine.objectContaining({ classes: ['IFCWALL'] })
+    );
+    expect(text()).toContain('2 elements found');
+  });
+
+  it('should show syntax errors and not run the query', async () => {
+    await search('IfcWall where Name =');
+
+    expect(mockQueryService.run).not.toHaveBeenCalled();
+    expect(text()).toContain('Expected a value after "=", found the end of the query (column 21)');
+  });
+
+  it('should select, isolate and colour the results', async () => {
+    await search('wall');
+
+    button('Select')!.click();
+    expect(TestBed.inject(SelectionService).selected()).toEqual(results);
+
+    await component.isolateResults();
+    expect(TestBed.inject(VisibilityService).hidden().get('arch')).toEqual(new Set([3]));
+
+    await component.colorResults();
+    expect(mockFragmentsService.setElementsColor).toHaveBeenCalledWith(
+      'arch',
+      [1, 2],
+      component.color()
+    );
+    fixture.detectChanges();
+    expect(button('Clear colours')).toBeTruthy();
+  });
+
+  it('should clear colours', async () => {
+    await TestBed.inject(ColorService).setColor(results, '#ff0000');
+    fixture.detectChanges();
+
+    button('Clear colours')!.click();
+    await fixture.whenStable();
+
+    expect(mockFragmentsService.setElementsColor).toHaveBeenCalledWith('arch', [1, 2], null);
+  });
+});
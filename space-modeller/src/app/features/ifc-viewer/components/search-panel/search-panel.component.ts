@@ -0,0 +1,141 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  ElementRef,
+  computed,
+  effect,
+  inject,
+  output,
+  signal,
+  untracked,
+  viewChild,
+} from '@angular/core';
+import { ColorService } from '../../../../core/services/color.service';
+import { ModelRegistryService } from '../../../../core/services/model-registry.service';
+import { QueryService } from '../../../../core/services/query.service';
+import { SelectionService } from '../../../../core/services/selection.service';
+import { VisibilityService } from '../../../../core/services/visibility.service';
+import { SEARCH_CONFIG } from '../../../../shared/constants/viewer.constants';
+import { ModelElement, QueryError } from '../../../../shared/models/viewer.model';
+import { formatQueryError, parseQuery } from '../../../../shared/utils/query.utils';
+
+/**
+ * Search box for elements across all loaded models
+ * Accepts plain text (names, GlobalIds) or a query such as
+ * `IfcWall where Pset_WallCommon.IsExternal = true`; the results can be
+ * selected, isolated or coloured
+ */
+@Component({
+  selector: 'app-search-panel',
+  standalone: true,
+  templateUrl: './search-panel.component.html',
+  styleUrls: ['./search-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class SearchPanelComponent {
+  private readonly queryService = inject(QueryService);
+  private readonly modelRegistry = inject(ModelRegistryService);
+  private readonly selection = inject(SelectionService);
+  private readonly visibility = inject(VisibilityService);
+  readonly colors = inject(ColorService);
+
+  private readonly inputRef = viewChild.required<ElementRef<HTMLInputElement>>('searchInput');
+
+  readonly closed = output<void>();
+
+  readonly examples = SEARCH_CONFIG.examples;
+
+  readonly text = signal('');
+  readonly color = signal<string>(SEARCH_CONFIG.defaultColor);
+  readonly error = signal<QueryError | null>(null);
+  readonly searching = signal(false);
+  /** Matching elements; null before the first search */
+  readonly results = signal<ModelElement[] | null>(null);
+  readonly resultCount = computed(() => this.results()?.length ?? 0);
+
+  readonly formatQueryError = formatQueryError;
+
+  private searchRequest = 0;
+
+  constructor() {
+    // Results may refer to unloaded models; search again for fresh ones
+    effect(() => {
+      this.modelRegistry.loadedModels();
+      untracked(() => {
+        this.searchRequest++;
+        this.results.set(null);
+        this.searching.set(false);
+      });
+    }, { allowSignalWrites: true });
+  }
+
+  /**
+   * Run the search in the box
+   */
+  async search(): Promise<void> {
+    const request = ++this.searchRequest;
+    const { query, error } = parseQuery(this.text());
+    this.error.set(error);
+    this.results.set(null);
+
+    if (error) {
+      // Put the cursor where the problem is
+      const input = this.inputRef().nativeElement;
+      input.focus();
+      input.setSelectionRange(error.position, error.position);
+      return;
+    }
+    if (!query) {
+      return;
+    }
+
+    this.searching.set(true);
+    try {
+      const results = await this.queryService.run(query);
+      if (request === this.searchRequest) {
+        this.results.set(results);
+      }
+    } catch (err) {
+      console.error('Search failed:', err);
+      if (request === this.searchRequest) {
+        this.error.set({
+          message: err instanceof Error ? err.message : 'Search failed',
+          position: 0,
+        });
+      }
+    } finally {
+      if (request === this.searchRequest) {
+        this.searching.set(false);
+      }
+    }
+  }
+
+  /**
+   * Put an example query in the box and run it
+   */
+  useExample(example: string): Promise<void> {
+    this.text.set(example);
+    return this.search();
+  }
+
+  /**
+   * Select the results
+   */
+  selectResults(): void {
+    this.selection.setSelection(this.results() ?? []);
+  }
+
+  /**
+   * Hide everything except the results
+   */
+  isolateResults(): Promise<void> {
+    return this.visibility.isolate(this.results() ?? []);
+  }
+
+  /**
+   * Paint the results in the picked colour
+   */
+  colorResults(): Promise<void> {
+    return this.colors.setColor(this.results() ?? [], this.color());
+  }
+}
@@ -0,0 +1,155 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { SpatialTreeComponent } from './spatial-tree.component';
+import { FragmentsService } from '../../../../core/services/fragments.service';
+import { ModelRegistryService } from '../../../../core/services/model-registry.service';
+import { SelectionService } from '../../../../core/services/selection.service';
+import { SpatialNode } from '../../../../shared/models/viewer.model';
+
+describe('SpatialTreeComponent', () => {
+  let component: SpatialTreeComponent;
+  let fixture: ComponentFixture<SpatialTreeComponent>;
+  let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+  let modelRegistry: ModelRegistryService;
+  let selection: SelectionService;
+
+  const node = (
+    key: string,
+    localId: number | null,
+    children: SpatialNode[] = [],
+    category: string | null = 'IFCBUILDINGSTOREY'
+  ): SpatialNode => ({
+    key,
+    modelId: 'frag-a',
+    localId,
+    category,
+    name: key,
+    elementCount: children.length,
+    children,
+  });
+
+  const wallA = node('wall-a', 10, [], null);
+  const wallB = node('wall-b', 11, [], null);
+  const walls = node('walls', null, [wallA, wallB], 'IFCWALL');
+  const storey = node('storey', 4, [walls]);
+  const root = node('project', 1, [storey], 'IFCPROJECT');
+
+  const render = async () => {
+    fixture.detectChanges();
+    await fixture.whenStable();
+    fixture.detectChanges();
+    return (fixture.nativeElement as HTMLElement).textContent ?? '';
+  };
+
+  beforeEach(async () => {
+    mockFragmentsService = jasmine.createSpyObj('FragmentsService', [
+      'getSpatialTree',
+      'getItemNames',
+      'setElementsVisible',
+      'highlightElements',
+      'resetHighlight',
+      'update',
+    ]);
+    mockFragmentsService.getSpatialTree.and.returnValue(Promise.resolve(root));
+    mockFragmentsService.getItemNames.and.returnValue(Promise.resolve(new Map([[10, 'Wall A']])));
+    mockFragmentsService.setElementsVisible.and.returnValue(Promise.resolve());
+    mockFragmentsService.highlightElements.and.returnValue(Promise.resolve());
+    mockFragmentsService.resetHighlight.and.returnValue(Promise.resolve());
+    mockFragmentsService.update.and.returnValue(Promise.resolve());
+
+    await TestBed.configureTestingModule({
+      imports: [SpatialTreeComponent],
+      providers: [{ provide: FragmentsService, useValue: mockFragmentsService }],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(SpatialTreeComponent);
+    component = fixture.componentInstance;
+    modelRegistry = TestBed.inject(ModelRegistryService);
+    selection = TestBed.inject(SelectionService);
+
+    modelRegistry.add({
+      id: 'model-a',
+      name: 'Architecture',
+      loading: false,
+      progress: 100,
+      fragmentUuid: 'frag-a',
+      visible: true,
+    });
+  });
+
+  it('should load the tree of each loaded model', async () => {
+    const text = await render();
+
+    expect(mockFragmentsService.getSpatialTree).toHaveBeenCalledWith('frag-a');
+    expect(text).toContain('Architecture');
+    expect(text).toContain('storey');
+  });
+
+  it('should drop the tree of an unloaded model', async () => {
+    await render();
+
+    modelRegistry.remove('model-a');
+    const text = await render();
+
+    expect(component.trees()).toEqual([]);
+    expect(text).toContain('Load a model');
+  });
+
+  it('should surface structure errors', async () => {
+    mockFragmentsService.getSpatialTree.and.returnValue(Promise.reject(new Error('No relations')));
+    spyOn(console, 'error');
+
+    const text = await render();
+
+    expect(text).toContain('No relations');
+  });
+
+  it('should load element names when a class group is expanded', async () => {
+    await render();
+
+    component.toggleExpanded(walls);
+    await fixture.whenStable();
+
+    expect(mockFragmentsService.getItemNames).toHaveBeenCalledWith('frag-a', [10, 11]);
+    expect(component.nodeName(wallA)).toBe('Wall A');
+    expect(component.nodeName(wallB)).toBe('wall-b');
+  });
+
+  it('should select every element of a node', () => {
+    component.select(walls);
+
+    expect(selection.selected()).toEqual([
+      { modelId: 'frag-a', localId: 10 },
+      { modelId: 'frag-a', localId: 11 },
+    ]);
+  });
+
+  it('should add to the selection with modifier keys', () => {
+    component.select(wallA);
+    component.select(wallB, new MouseEvent('click', { ctrlKey: true }));
+
+    expect(selection.selected().map((element) => element.localId)).toEqual([10, 11]);
+  });
+
+  it('should request a camera fit on double-click', () => {
+    const fitSpy = jasmine.createSpy('fitRequested');
+    component.fitRequested.subscribe(fitSpy);
+
+    component.fit(storey);
+
+    expect(fitSpy).toHaveBeenCalledWith({ modelId: 'frag-a', localIds: [4, 10, 11] });
+  });
+
+  it('should hide elements and report mixed visibility on parents', async () => {
+    await render();
+
+    await component.setVisible(wallA, false);
+
+    expect(mockFragmentsService.setElementsVisible).toHaveBeenCalledWith('frag-a', [10], false);
+    expect(component.visibility().get('wall-a')).toBe('hidden');
+    expect(component.visibility().get('walls')).toBe('mixed');
+
+    await component.setVisible(storey, true);
+
+    expect(component.visibility().get('project')).toBe('visible');
+  });
+});
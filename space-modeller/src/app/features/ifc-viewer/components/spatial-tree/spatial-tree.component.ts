@@ -0,0 +1,230 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  effect,
+  inject,
+  output,
+  signal,
+  untracked,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FragmentsService } from '../../../../core/services/fragments.service';
+import { ModelRegistryService } from '../../../../core/services/model-registry.service';
+import { SelectionService } from '../../../../core/services/selection.service';
+import { VisibilityService } from '../../../../core/services/visibility.service';
+import { SPATIAL_TREE_CONFIG } from '../../../../shared/constants/viewer.constants';
+import { NodeVisibility, SpatialNode } from '../../../../shared/models/viewer.model';
+import { collectLocalIds } from '../../../../shared/utils/spatial-tree.utils';
+
+/**
+ * Spatial structure of a loaded model, as shown in the tree
+ */
+interface ModelTree {
+  /** Fragments model ID */
+  modelId: string;
+  /** Model name from the registry */
+  name: string;
+  /** Root node, or null while loading / on error */
+  root: SpatialNode | null;
+  /** Error while reading the structure */
+  error?: string;
+}
+
+/**
+ * Collapsible IFC spatial structure of every loaded model
+ * Click selects the elements of a node, double-click asks the viewer to fit
+ * the camera to them and the checkboxes show or hide them
+ */
+@Component({
+  selector: 'app-spatial-tree',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './spatial-tree.component.html',
+  styleUrls: ['./spatial-tree.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class SpatialTreeComponent {
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly modelRegistry = inject(ModelRegistryService);
+  private readonly selection = inject(SelectionService);
+  private readonly visibilityService = inject(VisibilityService);
+
+  readonly closed = output<void>();
+  readonly fitRequested = output<{ modelId: string; localIds: number[] }>();
+
+  readonly trees = signal<ModelTree[]>([]);
+  readonly expanded = signal<ReadonlySet<string>>(new Set());
+  readonly leafNames = signal<ReadonlyMap<string, string>>(new Map());
+
+  /** Visibility of every node, recomputed when elements are shown or hidden */
+  readonly visibility = computed(() => {
+    const states = new Map<string, NodeVisibility>();
+    const hidden = this.visibilityService.hidden();
+    for (const tree of this.trees()) {
+      if (tree.root) {
+        computeVisibility(tree.root, hidden.get(tree.modelId) ?? new Set(), states);
+      }
+    }
+    return states;
+  });
+
+  constructor() {
+    effect(() => {
+      const models = this.modelRegistry.loadedModels();
+      untracked(() =>
+        this.syncTrees(models.map((model) => ({ id: model.fragmentUuid!, name: model.name })))
+      );
+    }, { allowSignalWrites: true });
+  }
+
+  /**
+   * Expand or collapse a node; names of contained elements load on first expand
+   */
+  toggleExpanded(node: SpatialNode): void {
+    const expanded = new Set(this.expanded());
+    if (expanded.has(node.key)) {
+      expanded.delete(node.key);
+    } else {
+      expanded.add(node.key);
+      void this.loadLeafNames(node);
+    }
+    this.expanded.set(expanded);
+  }
+
+  /**
+   * Select the elements of a node; Ctrl/Cmd/Shift adds them to the selection
+   */
+  select(node: SpatialNode, event?: MouseEvent): void {
+    const elements = collectLocalIds(node).map((localId) => ({ modelId: node.modelId, localId }));
+    const additive = !!event && (event.ctrlKey || event.metaKey || event.shiftKey);
+    this.selection.setSelection(additive ? [...this.selection.selected(), ...elements] : elements);
+  }
+
+  /**
+   * Ask the viewer to fit the camera to a node
+   */
+  fit(node: SpatialNode): void {
+    this.fitRequested.emit({ modelId: node.modelId, localIds: collectLocalIds(node) });
+  }
+
+  /**
+   * Show or hide the elements of a node
+   */
+  setVisible(node: SpatialNode, visible: boolean): Promise<void> {
+    const elements = collectLocalIds(node).map((localId) => ({ modelId: node.modelId, localId }));
+    return this.visibilityService.setVisible(elements, visible);
+  }
+
+  /**
+   * Display name of a node, using lazily loaded names for contained elements
+   */
+  nodeName(node: SpatialNode): string {
+    return this.leafNames().get(node.key) ?? node.name;
+  }
+
+  /**
+   * Helper: Load trees of newly loaded models and drop those of unloaded ones
+   */
+  private syncTrees(models: { id: string; name: string }[]): void {
+    const ids = new Set(models.map((model) => model.id));
+    const existing = this.trees().filter((tree) => ids.has(tree.modelId));
+    const added = models.filter((model) => !existing.some((tree) => tree.modelId === model.id));
+
+    this.trees.set([
+      ...existing,
+      ...added.map((model) => ({ modelId: model.id, name: model.name, root: null })),
+    ]);
+
+    added.forEach((model) => void this.loadTree(model.id));
+  }
+
+  /**
+   * Helper: Read the spatial structure of a model
+   */
+  private async loadTree(modelId: string): Promise<void> {
+    let update: Partial<ModelTree>;
+    try {
+      const root = await this.fragmentsService.getSpatialTree(modelId);
+      update = root ? { root } : { error: 'Spatial structure not available' };
+      if (root) {
+        this.expandToDepth(root, SPATIAL_TREE_CONFIG.initialExpandDepth);
+      }
+    } catch (error) {
+      console.error('Failed to read spatial structure:', error);
+      update = { error: error instanceof Error ? error.message : 'Failed to read spatial structure' };
+    }
+
+    this.trees.update((trees) =>
+      trees.map((tree) => (tree.modelId === modelId ? { ...tree, ...update } : tree))
+    );
+  }
+
+  /**
+   * Helper: Expand the top levels (Project / Site / Building) of a new tree
+   */
+  private expandToDepth(root: SpatialNode, depth: number): void {
+    const expanded = new Set(this.expanded());
+    const visit = (node: SpatialNode, level: number) => {
+      if (level >= depth) {
+        return;
+      }
+      expanded.add(node.key);
+      node.children.forEach((child) => visit(child, level + 1));
+    };
+    visit(root, 0);
+    this.expanded.set(expanded);
+  }
+
+  /**
+   * Helper: Fetch names of the elements directly below a node (IFC class groups)
+   */
+  private async loadLeafNames(node: SpatialNode): Promise<void> {
+    const leaves = node.children.filter(
+      (child) => child.category === null && child.localId !== null && !this.leafNames().has(child.key)
+    );
+    if (leaves.length === 0) {
+      return;
+    }
+
+    try {
+      const names = await this.fragmentsService.getItemNames(
+        node.modelId,
+        leaves.map((leaf) => leaf.localId!)
+      );
+      const leafNames = new Map(this.leafNames());
+      for (const leaf of leaves) {
+        const name = names.get(leaf.localId!);
+        if (name) {
+          leafNames.set(leaf.key, name);
+        }
+      }
+      this.leafNames.set(leafNames);
+    } catch (error) {
+      console.warn('Failed to load element names:', error);
+    }
+  }
+}
+
+/**
+ * Helper: Compute node visibility bottom-up
+ * @returns Visibility of the node
+ */
+function computeVisibility(
+  node: SpatialNode,
+  hidden: ReadonlySet<number>,
+  states: Map<string, NodeVisibility>
+): NodeVisibility {
+  const parts: NodeVisibility[] = node.children.map((child) => computeVisibility(child, hidden, states));
+  if (node.localId !== null) {
+    parts.push(hidden.has(node.localId) ? 'hidden' : 'visible');
+  }
+
+  const state: NodeVisibility = parts.every((part) => part === 'visible')
+    ? 'visible'
+    : parts.every((part) => part === 'hidden')
+      ? 'hidden'
+      : 'mixed';
+  states.set(node.key, state);
+  return state;
+}
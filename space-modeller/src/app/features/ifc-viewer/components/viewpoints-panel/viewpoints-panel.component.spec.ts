@@ -0,0 +1,94 @@
+import { signal } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ViewpointsPanelComponent } from './viewpoints-panel.component';
+import { ViewpointService } from '../../../../core/services/viewpoint.service';
+import { Viewpoint } from '../../../../shared/models/viewer.model';
+
+describe('ViewpointsPanelComponent', () => {
+  let component: ViewpointsPanelComponent;
+  let fixture: ComponentFixture<ViewpointsPanelComponent>;
+  let mockViewpoints: jasmine.SpyObj<ViewpointService>;
+  const viewpoints = signal<Viewpoint[]>([]);
+  const canSave = signal(true);
+
+  const viewpoint = (id: string, name: string): Viewpoint => ({
+    id,
+    name,
+    camera: {
+      position: { x: 10, y: 10, z: 10 },
+      target: { x: 0, y: 0, z: 0 },
+      projection: 'perspective',
+    },
+    clippingPlanes: [],
+    visibility: {},
+  });
+
+  const button = (label: string) =>
+    Array.from(
+      (fixture.nativeElement as HTMLElement).querySelectorAll<HTMLButtonElement>('button')
+    ).find((item) => (item.getAttribute('aria-label') ?? item.textContent?.trim()) === label);
+
+  beforeEach(async () => {
+    viewpoints.set([viewpoint('v1', 'Entrance'), viewpoint('v2', 'Roof')]);
+    canSave.set(true);
+    mockViewpoints = jasmine.createSpyObj(
+      'ViewpointService',
+      ['save', 'recall', 'rename', 'move', 'delete'],
+      { viewpoints, canSave }
+    );
+    mockViewpoints.recall.and.returnValue(Promise.resolve());
+
+    await TestBed.configureTestingModule({
+      imports: [ViewpointsPanelComponent],
+      providers: [{ provide: ViewpointService, useValue: mockViewpoints }],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ViewpointsPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should save the current view under a name', () => {
+    mockViewpoints.save.and.returnValue(viewpoint('v3', 'Lobby'));
+    component.name.set('Lobby');
+
+    button('Save view')!.click();
+
+    expect(mockViewpoints.save).toHaveBeenCalledWith('Lobby');
+    expect(component.name()).toBe('');
+  });
+
+  it('should recall, reorder and delete views', () => {
+    button('Roof')!.click();
+    expect(mockViewpoints.recall).toHaveBeenCalledWith('v2');
+
+    button('Move Roof up')!.click();
+    expect(mockViewpoints.move).toHaveBeenCalledWith('v2', -1);
+    expect(button('Move Entrance up')!.disabled).toBeTrue();
+    expect(button('Move Roof down')!.disabled).toBeTrue();
+
+    button('Delete Entrance')!.click();
+    expect(mockViewpoints.delete).toHaveBeenCalledWith('v1');
+  });
+
+  it('should rename a view on double-click', () => {
+    button('Entrance')!.dispatchEvent(new MouseEvent('dblclick'));
+    fixture.detectChanges();
+
+    const input = fixture.nativeElement.querySelector('.viewpoint-rename') as HTMLInputElement;
+    input.value = 'Main entrance';
+    input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+    fixture.detectChanges();
+
+    expect(mockViewpoints.rename).toHaveBeenCalledWith('v1', 'Main entrance');
+    expect(fixture.nativeElement.querySelector('.viewpoint-rename')).toBeNull();
+  });
+
+  it('should ask for a model before saving views', () => {
+    canSave.set(false);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.textContent).toContain('Load a model to save views of it.');
+    expect(button('Save view')!.disabled).toBeTrue();
+  });
+});
@@ -0,0 +1,44 @@
+import { ChangeDetectionStrategy, Component, inject, output, signal } from '@angular/core';
+import { ViewpointService } from '../../../../core/services/viewpoint.service';
+
+/**
+ * Saved views of the active model
+ * Saves the current camera, section planes and visibility under a name;
+ * clicking a view flies the camera back to it. Views can be renamed
+ * (double-click), moved up and down, and deleted
+ */
+@Component({
+  selector: 'app-viewpoints-panel',
+  standalone: true,
+  templateUrl: './viewpoints-panel.component.html',
+  styleUrls: ['./viewpoints-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ViewpointsPanelComponent {
+  readonly viewpoints = inject(ViewpointService);
+
+  readonly closed = output<void>();
+
+  readonly name = signal('');
+  /** Viewpoint whose name is being edited */
+  readonly editingId = signal<string | null>(null);
+
+  /**
+   * Save the current view under the name in the box
+   */
+  save(): void {
+    if (this.viewpoints.save(this.name())) {
+      this.name.set('');
+    }
+  }
+
+  /**
+   * Rename a viewpoint and stop editing
+   */
+  finishRename(id: string, name: string): void {
+    if (this.editingId() === id) {
+      this.viewpoints.rename(id, name);
+      this.editingId.set(null);
+    }
+  }
+}
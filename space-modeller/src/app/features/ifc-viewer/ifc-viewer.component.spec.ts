@@ -2,6 +2,13 @@ import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { NgZone, DestroyRef, ElementRef } from '@angular/core';
 import { IfcViewerComponent } from './ifc-viewer.component';
 import { FragmentsService } from '../../core/services/fragments.service';
+import { ModelRegistryService } from '../../core/services/model-registry.service';
+import { SelectionService } from '../../core/services/selection.service';
+import { ClippingService } from '../../core/services/clipping.service';
+import { MeasurementService } from '../../core/services/measurement.service';
+import { VisibilityService } from '../../core/services/visibility.service';
+import { ColorService } from '../../core/services/color.service';
+import { RenderLoopService } from '../../core/services/render-loop.service';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import Stats from 'stats.js';
@@ -10,6 +17,8 @@ describe('IfcViewerComponent', () => {
   let component: IfcViewerComponent;
   let fixture: ComponentFixture<IfcViewerComponent>;
   let mockFragmentsService: jasmine.SpyObj<FragmentsService>;
+  let modelRegistry: ModelRegistryService;
+  let selection: SelectionService;
   let mockNgZone: jasmine.SpyObj<NgZone>;
   let mockDestroyRef: DestroyRef;
   let mockCanvas: HTMLCanvasElement;
@@ -32,13 +41,48 @@ describe('IfcViewerComponent', () => {
     mockFragmentsService = jasmine.createSpyObj('FragmentsService', [
       'initialize',
       'loadIfc',
+      'loadFragment',
       'getModel',
+      'getAllModels',
+      'getModelsBox',
+      'getSection',
+      'setClippingPlanes',
       'exportFragment',
+      'setModelVisible',
+      'unloadModel',
+      'pickElement',
+      'snapPoint',
+      'getStoreys',
+      'getSiteLocation',
+      'getElementsBox',
+      'getElementsGeometry',
+      'getElementIds',
+      'getItemCategories',
+      'getCategoryElements',
+      'setElementsVisible',
+      'setElementsOpacity',
+      'setElementsColor',
+      'highlightElements',
+      'resetHighlight',
+      'update',
       'bindCamera',
       'updateCulling',
+      'watchMeshes',
       'dispose',
     ]);
     mockFragmentsService.initialize.and.returnValue(Promise.resolve());
+    mockFragmentsService.highlightElements.and.returnValue(Promise.resolve());
+    mockFragmentsService.resetHighlight.and.returnValue(Promise.resolve());
+    mockFragmentsService.update.and.returnValue(Promise.resolve());
+    mockFragmentsService.getAllModels.and.returnValue([]);
+    mockFragmentsService.getModelsBox.and.returnValue(new THREE.Box3());
+    mockFragmentsService.getStoreys.and.returnValue(Promise.resolve([]));
+    mockFragmentsService.getSiteLocation.and.returnValue(Promise.resolve(null));
+    mockFragmentsService.getItemCategories.and.returnValue(Promise.resolve(new Map()));
+    mockFragmentsService.setElementsVisible.and.returnValue(Promise.resolve());
+    mockFragmentsService.setElementsColor.and.returnValue(Promise.resolve());
+    mockFragmentsService.getElementsGeometry.and.returnValue(Promise.resolve([]));
+    mockFragmentsService.watchMeshes.and.returnValue(() => {});
 
     // Create mock NgZone
     mockNgZone = jasmine.createSpyObj('NgZone', ['run', 'runOutsideAngular']);
@@ -61,6 +105,8 @@ describe('IfcViewerComponent', () => {
 
     fixture = TestBed.createComponent(IfcViewerComponent);
     component = fixture.componentInstance;
+    modelRegistry = TestBed.inject(ModelRegistryService);
+    selection = TestBed.inject(SelectionService);
   });
 
   afterEach(() => {
@@ -80,7 +126,8 @@ describe('IfcViewerComponent', () => {
     });
 
     it('should initialize with default state', () => {
-      expect(component.currentModel()).toBeNull();
+      expect(component.models()).toEqual([]);
+      expect(component.activeModel()).toBeNull();
       expect(component.isLoading()).toBeFalse();
     });
 
@@ -147,9 +194,9 @@ describe('IfcViewerComponent', () => {
     });
   });
 
-  describe('animate', () => {
-    it('should request animation frame', () => {
-      // animate is private and runs in animation loop
+  describe('renderFrame', () => {
+    it('should draw frames on request', () => {
+      // renderFrame is private and called by the render loop
       // We verify the component can be created
       expect(component).toBeTruthy();
     });
@@ -171,15 +218,15 @@ describe('IfcViewerComponent', () => {
         modelId: 'test-uuid',
       } as any);
 
-      // Mock the private loadIfcFile method behavior
-      spyOn(component as any, 'loadIfcFile').and.returnValue(Promise.resolve());
+      // Mock the private loadModelFile method behavior
+      spyOn(component as any, 'loadModelFile').and.returnValue(Promise.resolve());
 
       await component.onFileSelected(event);
 
       expect((event.target as HTMLInputElement).value).toBe('');
     });
 
-    it('should reject non-IFC files', async () => {
+    it('should reject unsupported files', async () => {
       const file = new File(['test content'], 'test.txt', { type: 'text/plain' });
       const event = {
         target: {
@@ -187,11 +234,15 @@ describe('IfcViewerComponent', () => {
         },
       } as unknown as Event;
 
-      const consoleSpy = spyOn(console, 'error');
+      spyOn(console, 'error');
+      const loadSpy = spyOn(component as any, 'loadModelFile');
 
       await component.onFileSelected(event);
 
-      expect(consoleSpy).toHaveBeenCalledWith('Please select a valid .ifc file');
+      expect(loadSpy).not.toHaveBeenCalled();
+      expect(component.importErrors()).toEqual([
+        { fileName: 'test.txt', message: 'Unsupported file type (expected .ifc or .frag)' },
+      ]);
     });
 
     it('should handle missing file', async () => {
@@ -205,7 +256,35 @@ describe('IfcViewerComponent', () => {
 
       await component.onFileSelected(event);
 
-      expect(consoleSpy).toHaveBeenCalledWith('Please select a valid .ifc file');
+      expect(consoleSpy).toHaveBeenCalledWith('Please select a valid .ifc or .frag file');
+    });
+
+    it('should accept .frag files', async () => {
+      const file = new File(['test content'], 'model.frag', { type: 'application/octet-stream' });
+      const event = {
+        target: {
+          files: [file],
+          value: '',
+        },
+      } as unknown as Event;
+      const loadSpy = spyOn(component as any, 'loadModelFile').and.returnValue(Promise.resolve());
+
+      await component.onFileSelected(event);
+
+      expect(loadSpy).toHaveBeenCalledWith(file, jasmine.any(String));
+    });
+
+    it('should queue every selected file', async () => {
+      const files = [
+        new File(['a'], 'a.ifc'),
+        new File(['b'], 'b.frag'),
+      ];
+      const event = { target: { files, value: '' } } as unknown as Event;
+      const loadSpy = spyOn(component as any, 'loadModelFile').and.returnValue(Promise.resolve());
+
+      await component.onFileSelected(event);
+
+      expect(loadSpy.calls.allArgs().map(([file]) => file)).toEqual(files);
     });
 
     it('should reset input value after file selection', async () => {
@@ -219,7 +298,7 @@ describe('IfcViewerComponent', () => {
         files: [file],
       } as unknown as Event;
 
-      spyOn(component as any, 'loadIfcFile').and.returnValue(Promise.resolve());
+      spyOn(component as any, 'loadModelFile').and.returnValue(Promise.resolve());
 
       await component.onFileSelected(event);
 
@@ -227,7 +306,40 @@ describe('IfcViewerComponent', () => {
     });
   });
 
-  describe('loadIfcFile', () => {
+  describe('loadModelFile', () => {
+    it('should load .frag files without IFC conversion', async () => {
+      const file = new File([new Uint8Array([1, 2, 3])], 'tower.frag');
+      mockFragmentsService.loadFragment.and.returnValue(Promise.reject(new Error('stop')));
+      spyOn(console, 'error');
+
+      await component.enqueueFiles([file]);
+
+      expect(mockFragmentsService.loadFragment).toHaveBeenCalledWith(
+        jasmine.any(Uint8Array),
+        'tower',
+        jasmine.any(Function),
+        jasmine.any(AbortSignal)
+      );
+      expect(mockFragmentsService.loadIfc).not.toHaveBeenCalled();
+      expect(component.models()[0]?.error).toBe('stop');
+    });
+
+    it('should convert .ifc files with loadIfc', async () => {
+      const file = new File([new Uint8Array([1, 2, 3])], 'tower.ifc');
+      mockFragmentsService.loadIfc.and.returnValue(Promise.reject(new Error('stop')));
+      spyOn(console, 'error');
+
+      await component.enqueueFiles([file]);
+
+      expect(mockFragmentsService.loadIfc).toHaveBeenCalledWith(
+        jasmine.any(Uint8Array),
+        'tower',
+        jasmine.any(Function),
+        jasmine.any(AbortSignal)
+      );
+      expect(mockFragmentsService.loadFragment).not.toHaveBeenCalled();
+    });
+
     it('should set loading state to true when loading starts', async () => {
       const file = new File(['test content'], 'test.ifc', { type: 'application/octet-stream' });
       const buffer = new Uint8Array([1, 2, 3]);
@@ -244,7 +356,7 @@ describe('IfcViewerComponent', () => {
 
     it('should create model state with correct properties', async () => {
       // Model state creation is tested through onFileSelected
-      expect(component.currentModel()).toBeNull();
+      expect(component.models()).toEqual([]);
     });
 
     it('should handle loading errors', async () => {
@@ -257,6 +369,152 @@ describe('IfcViewerComponent', () => {
     });
   });
 
+  describe('enqueueFiles', () => {
+    it('should load files one after another', async () => {
+      const order: string[] = [];
+      mockFragmentsService.loadIfc.and.callFake(async (_buffer, name) => {
+        order.push(`start ${name}`);
+        await Promise.resolve();
+        order.push(`end ${name}`);
+        throw new Error('stop');
+      });
+      spyOn(console, 'error');
+
+      await component.enqueueFiles([new File(['a'], 'a.ifc'), new File(['b'], 'b.ifc')]);
+
+      expect(order).toEqual(['start a', 'end a', 'start b', 'end b']);
+      expect(component.isLoading()).toBeFalse();
+    });
+
+    it('should list accepted files as queued straight away', () => {
+      spyOn(component as any, 'processLoadQueue').and.returnValue(Promise.resolve());
+
+      void component.enqueueFiles([new File(['a'], 'a.ifc'), new File(['b'], 'b.frag')]);
+
+      expect(component.models().map((model) => model.stage)).toEqual(['queued', 'queued']);
+      expect(component.queuedCount()).toBe(2);
+    });
+
+    it('should report rejected files without blocking valid ones', async () => {
+      const loadSpy = spyOn(component as any, 'loadModelFile').and.returnValue(Promise.resolve());
+      spyOn(console, 'error');
+
+      await component.enqueueFiles([
+        new File([''], 'empty.ifc'),
+        new File(['x'], 'notes.txt'),
+        new File(['x'], 'tower.ifc'),
+      ]);
+
+      expect(loadSpy).toHaveBeenCalledTimes(1);
+      expect(component.importErrors().map((error) => error.fileName)).toEqual([
+        'empty.ifc',
+        'notes.txt',
+      ]);
+
+      component.clearImportErrors();
+      expect(component.importErrors()).toEqual([]);
+    });
+  });
+
+  describe('drag and drop', () => {
+    const dragEvent = (types: string[]) =>
+      ({
+        preventDefault: jasmine.createSpy('preventDefault'),
+        dataTransfer: { types, dropEffect: 'none' },
+      }) as unknown as DragEvent;
+
+    it('should show the drop zone while files are dragged over the viewer', () => {
+      component.onDragEnter(dragEvent(['Files']));
+      component.onDragEnter(dragEvent(['Files']));
+      component.onDragLeave(dragEvent(['Files']));
+
+      expect(component.isDragOver()).toBeTrue();
+
+      component.onDragLeave(dragEvent(['Files']));
+
+      expect(component.isDragOver()).toBeFalse();
+    });
+
+    it('should ignore drags that do not carry files', () => {
+      const event = dragEvent(['text/plain']);
+
+      component.onDragEnter(event);
+
+      expect(component.isDragOver()).toBeFalse();
+      expect(event.preventDefault).not.toHaveBeenCalled();
+    });
+
+    it('should queue dropped files', async () => {
+      const file = new File(['x'], 'tower.ifc');
+      const enqueueSpy = spyOn(component, 'enqueueFiles').and.returnValue(Promise.resolve());
+      component.onDragEnter(dragEvent(['Files']));
+
+      await component.onDrop({
+        preventDefault: () => undefined,
+        dataTransfer: { items: [], files: [file] },
+      } as unknown as DragEvent);
+
+      expect(enqueueSpy).toHaveBeenCalledWith([file]);
+      expect(component.isDragOver()).toBeFalse();
+    });
+  });
+
+  describe('cancelLoad', () => {
+    it('should abort the controller of a loading model', () => {
+      const controller = new AbortController();
+      (component as any).loadControllers.set('model-a', controller);
+
+      component.cancelLoad('model-a');
+
+      expect(controller.signal.aborted).toBeTrue();
+    });
+
+    it('should warn when the model is not loading', () => {
+      const consoleSpy = spyOn(console, 'warn');
+
+      component.cancelLoad('missing');
+
+      expect(consoleSpy).toHaveBeenCalled();
+    });
+
+    it('should remove a cancelled model from the registry', async () => {
+      const file = new File(['test content'], 'test.ifc', { type: 'application/octet-stream' });
+      let markStarted!: () => void;
+      const loadStarted = new Promise<void>((resolve) => (markStarted = resolve));
+      mockFragmentsService.loadIfc.and.callFake(
+        (_buffer, _name, _onProgress, signal) =>
+          new Promise<string>((_resolve, reject) => {
+            signal?.addEventListener('abort', () =>
+              reject(new DOMException('Aborted', 'AbortError'))
+            );
+            markStarted();
+          })
+      );
+
+      const load = component.enqueueFiles([file]);
+      await loadStarted;
+      const [loading] = component.models();
+      expect(loading?.loading).toBeTrue();
+
+      component.cancelLoad(loading!.id);
+      await load;
+
+      expect(component.models()).toEqual([]);
+      expect(component.isLoading()).toBeFalse();
+    });
+
+    it('should drop a queued file before it starts loading', () => {
+      spyOn(component as any, 'processLoadQueue').and.returnValue(Promise.resolve());
+      void component.enqueueFiles([new File(['a'], 'a.ifc')]);
+      const [queued] = component.models();
+
+      component.cancelLoad(queued!.id);
+
+      expect(component.models()).toEqual([]);
+      expect((component as any).loadQueue).toEqual([]);
+    });
+  });
+
   describe('addTestCube', () => {
     it('should add a test cube to the scene', () => {
       // addTestCube is private and called during initViewer
@@ -286,24 +544,6 @@ describe('IfcViewerComponent', () => {
     });
   });
 
-  describe('ensureMaterialsVisible', () => {
-    it('should ensure all materials are visible', () => {
-      // ensureMaterialsVisible is private
-      // We verify the component can be created
-      expect(component).toBeTruthy();
-    });
-
-    it('should fix transparent materials with zero opacity', () => {
-      // Material fixing is tested indirectly
-      expect(component).toBeTruthy();
-    });
-
-    it('should set materials to DoubleSide when needed', () => {
-      // Material side fixing is tested indirectly
-      expect(component).toBeTruthy();
-    });
-  });
-
   describe('centerCameraOnModel', () => {
     it('should center camera on loaded model', () => {
       // centerCameraOnModel is private
@@ -335,9 +575,10 @@ describe('IfcViewerComponent', () => {
         fragmentUuid: 'test-uuid',
         loading: false,
         progress: 100,
+        visible: true,
       };
 
-      component.currentModel.set(mockModel as any);
+      modelRegistry.add(mockModel);
 
       const mockBuffer = new Uint8Array([1, 2, 3]);
       mockFragmentsService.exportFragment.and.returnValue(Promise.resolve(mockBuffer));
@@ -362,7 +603,7 @@ describe('IfcViewerComponent', () => {
     });
 
     it('should not download when no model is loaded', async () => {
-      component.currentModel.set(null);
+      modelRegistry.setActive(null);
 
       const consoleSpy = spyOn(console, 'error');
 
@@ -378,9 +619,10 @@ describe('IfcViewerComponent', () => {
         name: 'test-model',
         loading: false,
         progress: 100,
+        visible: true,
       };
 
-      component.currentModel.set(mockModel as any);
+      modelRegistry.add(mockModel);
 
       const consoleSpy = spyOn(console, 'error');
 
@@ -396,9 +638,10 @@ describe('IfcViewerComponent', () => {
         fragmentUuid: 'test-uuid',
         loading: false,
         progress: 100,
+        visible: true,
       };
 
-      component.currentModel.set(mockModel as any);
+      modelRegistry.add(mockModel);
 
       mockFragmentsService.exportFragment.and.returnValue(Promise.resolve(null));
 
@@ -416,9 +659,10 @@ describe('IfcViewerComponent', () => {
         fragmentUuid: 'test-uuid',
         loading: false,
         progress: 100,
+        visible: true,
       };
 
-      component.currentModel.set(mockModel as any);
+      modelRegistry.add(mockModel);
 
       mockFragmentsService.exportFragment.and.returnValue(Promise.reject(new Error('Export failed')));
 
@@ -430,6 +674,304 @@ describe('IfcViewerComponent', () => {
     });
   });
 
+  describe('model list', () => {
+    const loadedModel = {
+      id: 'model-a',
+      name: 'Architecture',
+      fragmentUuid: 'frag-a',
+      loading: false,
+      progress: 100,
+      visible: true,
+    };
+
+    it('should select the active model', () => {
+      modelRegistry.add(loadedModel);
+      modelRegistry.add({ ...loadedModel, id: 'model-b', fragmentUuid: 'frag-b' });
+
+      component.selectModel('model-a');
+
+      expect(component.activeModel()?.id).toBe('model-a');
+    });
+
+    it('should toggle model visibility', () => {
+      modelRegistry.add(loadedModel);
+      mockFragmentsService.setModelVisible.and.returnValue(true);
+
+      component.toggleModelVisibility('model-a');
+
+      expect(mockFragmentsService.setModelVisible).toHaveBeenCalledWith('frag-a', false);
+      expect(component.models()[0]?.visible).toBeFalse();
+    });
+
+    it('should unload a model and drop it from the list', async () => {
+      modelRegistry.add(loadedModel);
+      mockFragmentsService.unloadModel.and.returnValue(Promise.resolve(true));
+
+      await component.unloadModel('model-a');
+
+      expect(mockFragmentsService.unloadModel).toHaveBeenCalledWith('frag-a');
+      expect(component.models()).toEqual([]);
+    });
+
+    it('should log unload failures', async () => {
+      modelRegistry.add(loadedModel);
+      mockFragmentsService.unloadModel.and.returnValue(Promise.reject(new Error('Unload failed')));
+      const consoleSpy = spyOn(console, 'error');
+
+      await component.unloadModel('model-a');
+
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to unload model:', jasmine.any(Error));
+      expect(component.models().length).toBe(1);
+    });
+
+    it('should deselect elements of an unloaded model', async () => {
+      modelRegistry.add(loadedModel);
+      mockFragmentsService.unloadModel.and.returnValue(Promise.resolve(true));
+      selection.setSelection([{ modelId: 'frag-a', localId: 5 }]);
+
+      await component.unloadModel('model-a');
+
+      expect(selection.selected()).toEqual([]);
+    });
+
+    it('should forget colours of an unloaded model', async () => {
+      const colors = TestBed.inject(ColorService);
+      modelRegistry.add(loadedModel);
+      mockFragmentsService.unloadModel.and.returnValue(Promise.resolve(true));
+      await colors.setColor([{ modelId: 'frag-a', localId: 5 }], '#ff0000');
+
+      await component.unloadModel('model-a');
+
+      expect(colors.isColored()).toBeFalse();
+    });
+  });
+
+  describe('element picking', () => {
+    const hit = { modelId: 'frag-a', localId: 12, point: { x: 0, y: 0, z: 0 }, distance: 3 };
+    const pointer = (init: Partial<PointerEvent>) =>
+      ({ button: 0, buttons: 0, clientX: 100, clientY: 100, ...init }) as PointerEvent;
+
+    const click = async (init: Partial<PointerEvent> = {}) => {
+      (component as any).pointerDownPosition = new THREE.Vector2(100, 100);
+      await (component as any).handlePointerUp(pointer(init));
+    };
+
+    it('should select the element under the pointer on click', async () => {
+      spyOn(component as any, 'pickAt').and.returnValue(Promise.resolve(hit));
+
+      await click();
+
+      expect(selection.selected()).toEqual([{ modelId: 'frag-a', localId: 12 }]);
+    });
+
+    it('should toggle with Ctrl and add with Shift', async () => {
+      const pickSpy = spyOn(component as any, 'pickAt').and.returnValue(Promise.resolve(hit));
+      await click();
+
+      pickSpy.and.returnValue(Promise.resolve({ ...hit, localId: 13 }));
+      await click({ shiftKey: true });
+      expect(selection.selected().map((element) => element.localId)).toEqual([12, 13]);
+
+      pickSpy.and.returnValue(Promise.resolve(hit));
+      await click({ ctrlKey: true });
+      expect(selection.selected().map((element) => element.localId)).toEqual([13]);
+    });
+
+    it('should clear the selection when clicking empty space', async () => {
+      selection.setSelection([{ modelId: 'frag-a', localId: 12 }]);
+      spyOn(component as any, 'pickAt').and.returnValue(Promise.resolve(null));
+
+      await click();
+
+      expect(selection.selected()).toEqual([]);
+    });
+
+    it('should ignore drags', async () => {
+      const pickSpy = spyOn(component as any, 'pickAt');
+
+      await click({ clientX: 140 });
+
+      expect(pickSpy).not.toHaveBeenCalled();
+    });
+
+    it('should highlight the hovered element', async () => {
+      spyOn(component as any, 'pickAt').and.returnValue(Promise.resolve(hit));
+
+      await (component as any).handlePointerMove(pointer({}));
+
+      expect(selection.hovered()).toEqual({ modelId: 'frag-a', localId: 12 });
+    });
+
+    it('should place a section plane instead of selecting while placing', async () => {
+      const clipping = TestBed.inject(ClippingService);
+      const placeSpy = spyOn(clipping, 'placePlane').and.returnValue('plane-1');
+      clipping.startPlacing();
+      spyOn(component as any, 'pickAt').and.returnValue(Promise.resolve(hit));
+
+      await click();
+
+      expect(placeSpy).toHaveBeenCalledWith(hit);
+      expect(selection.selected()).toEqual([]);
+    });
+
+    it('should not pick when clicking the section plane gizmo', async () => {
+      spyOn(TestBed.inject(ClippingService), 'isGizmoHovered').and.returnValue(true);
+      const pickSpy = spyOn(component as any, 'pickAt');
+
+      await click();
+
+      expect(pickSpy).not.toHaveBeenCalled();
+    });
+
+    it('should add a snapped measurement point instead of selecting while measuring', async () => {
+      const measurement = TestBed.inject(MeasurementService);
+      measurement.setTool('polyline');
+      spyOn(component as any, 'snapAt').and.returnValue(Promise.resolve({ ...hit, snap: 'vertex' }));
+
+      await click();
+
+      expect(measurement.draft()).toEqual([{ x: 0, y: 0, z: 0 }]);
+      expect(selection.selected()).toEqual([]);
+      measurement.setTool(null);
+    });
+
+    it('should preview the snapped point instead of hovering while measuring', async () => {
+      const measurement = TestBed.inject(MeasurementService);
+      measurement.setTool('distance');
+      const previewSpy = spyOn(measurement, 'setPreview');
+      const snap = { ...hit, snap: 'edge' as const };
+      spyOn(component as any, 'snapAt').and.returnValue(Promise.resolve(snap));
+
+      await (component as any).handlePointerMove(pointer({}));
+
+      expect(previewSpy).toHaveBeenCalledWith(snap);
+      expect(selection.hovered()).toBeNull();
+      measurement.setTool(null);
+    });
+
+    it('should finish with Enter and cancel with Escape', () => {
+      const measurement = TestBed.inject(MeasurementService);
+      measurement.setTool('polyline');
+      measurement.addPoint({ x: 0, y: 0, z: 0 });
+      measurement.addPoint({ x: 1, y: 0, z: 0 });
+
+      component.onKeyDown(new KeyboardEvent('keydown', { key: 'Enter' }));
+      expect(measurement.measurements().length).toBe(1);
+
+      measurement.addPoint({ x: 2, y: 0, z: 0 });
+      component.onKeyDown(new KeyboardEvent('keydown', { key: 'Escape' }));
+      expect(measurement.draft()).toEqual([]);
+      expect(measurement.tool()).toBe('polyline');
+
+      component.onKeyDown(new KeyboardEvent('keydown', { key: 'Escape' }));
+      expect(measurement.tool()).toBeNull();
+      measurement.clear();
+    });
+
+    it('should not hover-pick while orbiting', async () => {
+      const pickSpy = spyOn(component as any, 'pickAt');
+
+      await (component as any).handlePointerMove(pointer({ buttons: 1 }));
+
+      expect(pickSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('visibility commands', () => {
+    const wall = { modelId: 'frag-a', localId: 12 };
+    const hit = { ...wall, point: { x: 0, y: 0, z: 0 }, distance: 3 };
+    const rightClick = (clientX = 100) =>
+      ({ clientX, clientY: 100, preventDefault: () => undefined }) as MouseEvent;
+
+    it('should hide the selection with H and undo with Ctrl+Z', async () => {
+      const visibility = TestBed.inject(VisibilityService);
+      const runSpy = spyOn(component, 'runVisibilityCommand').and.callThrough();
+      selection.setSelection([wall]);
+
+      component.onKeyDown(new KeyboardEvent('keydown', { code: 'KeyH' }));
+      await runSpy.calls.mostRecent().returnValue;
+
+      expect(runSpy).toHaveBeenCalledWith('hide');
+      expect(visibility.hidden().get('frag-a')?.has(12)).toBeTrue();
+      expect(selection.selected()).toEqual([]);
+
+      component.onKeyDown(new KeyboardEvent('keydown', { code: 'KeyZ', ctrlKey: true }));
+      await runSpy.calls.mostRecent().returnValue;
+
+      expect(visibility.isModified()).toBeFalse();
+    });
+
+    it('should select the element under the pointer and open the context menu', async () => {
+      spyOn(component as any, 'pickAt').and.returnValue(Promise.resolve(hit));
+      mockFragmentsService.getItemCategories.and.returnValue(Promise.resolve(new Map([[12, 'IFCWALL']])));
+      (component as any).contextMenuDownPosition = new THREE.Vector2(100, 100);
+
+      await (component as any).openContextMenu(rightClick());
+
+      expect(selection.selected()).toEqual([wall]);
+      expect(component.contextMenu()).toEqual({ x: 100, y: 100, categories: ['IFCWALL'] });
+    });
+
+    it('should not open the context menu after panning', async () => {
+      const pickSpy = spyOn(component as any, 'pickAt');
+      (component as any).contextMenuDownPosition = new THREE.Vector2(100, 100);
+
+      await (component as any).openContextMenu(rightClick(160));
+
+      expect(pickSpy).not.toHaveBeenCalled();
+      expect(component.contextMenu()).toBeNull();
+    });
+
+    it('should close the context menu with Escape', () => {
+      component.contextMenu.set({ x: 0, y: 0, categories: [] });
+
+      component.onKeyDown(new KeyboardEvent('keydown', { key: 'Escape' }));
+
+      expect(component.contextMenu()).toBeNull();
+    });
+  });
+
+  describe('properties panel', () => {
+    it('should only show with a selection', () => {
+      expect(component.hasSelection()).toBeFalse();
+
+      selection.setSelection([{ modelId: 'frag-a', localId: 1 }]);
+
+      expect(component.hasSelection()).toBeTrue();
+    });
+
+    it('should toggle the panel', () => {
+      component.togglePropertiesPanel();
+      expect(component.showPropertiesPanel()).toBeFalse();
+
+      component.togglePropertiesPanel();
+      expect(component.showPropertiesPanel()).toBeTrue();
+    });
+  });
+
+  describe('fitToElements', () => {
+    it('should center the camera on the elements box', async () => {
+      const box = new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(2, 2, 2));
+      mockFragmentsService.getElementsBox.and.returnValue(Promise.resolve(box));
+      const centerSpy = spyOn(component as any, 'centerCameraOnBox');
+
+      await component.fitToElements('frag-a', [1, 2]);
+
+      expect(mockFragmentsService.getElementsBox).toHaveBeenCalledWith('frag-a', [1, 2]);
+      expect(centerSpy).toHaveBeenCalledWith(box);
+    });
+
+    it('should skip elements without geometry', async () => {
+      mockFragmentsService.getElementsBox.and.returnValue(Promise.resolve(null));
+      const centerSpy = spyOn(component as any, 'centerCameraOnBox');
+      spyOn(console, 'warn');
+
+      await component.fitToElements('frag-a', [1]);
+
+      expect(centerSpy).not.toHaveBeenCalled();
+    });
+  });
+
   describe('openFilePicker', () => {
     it('should trigger file input click', () => {
       fixture.detectChanges();
@@ -446,14 +988,12 @@ describe('IfcViewerComponent', () => {
   });
 
   describe('ngOnDestroy', () => {
-    it('should cancel animation frame', () => {
-      // Mock animationFrameId
-      (component as any).animationFrameId = 123;
-      const cancelSpy = spyOn(window, 'cancelAnimationFrame');
+    it('should stop the render loop', () => {
+      const stopSpy = spyOn(TestBed.inject(RenderLoopService), 'stop');
 
       component.ngOnDestroy();
 
-      expect(cancelAnimationFrame).toHaveBeenCalled();
+      expect(stopSpy).toHaveBeenCalled();
     });
 
     it('should remove stats DOM element', () => {
@@ -529,17 +1069,26 @@ describe('IfcViewerComponent', () => {
   });
 
   describe('State Management', () => {
-    it('should update currentModel signal', () => {
+    it('should expose registered models', () => {
       const mockModel = {
         id: 'test-id',
         name: 'test-model',
         loading: false,
         progress: 100,
+        visible: true,
       };
 
-      component.currentModel.set(mockModel as any);
+      modelRegistry.add(mockModel);
+
+      expect(component.models()).toEqual([mockModel]);
+      expect(component.activeModel()).toEqual(mockModel);
+    });
+
+    it('should expose the loading model', () => {
+      modelRegistry.add({ id: 'a', name: 'a', loading: false, progress: 100, visible: true });
+      modelRegistry.add({ id: 'b', name: 'b', loading: true, progress: 40, visible: true });
 
-      expect(component.currentModel()).toEqual(mockModel);
+      expect(component.loadingModel()?.id).toBe('b');
     });
 
     it('should update isLoading signal', () => {
@@ -7,7 +7,10 @@ import {
   NgZone,
   afterNextRender,
   signal,
+  computed,
   DestroyRef,
+  effect,
+  untracked,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
@@ -15,26 +18,118 @@ import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import Stats from 'stats.js';
 import { FragmentsService } from '../../core/services/fragments.service';
+import { LightingService } from '../../core/services/lighting.service';
+import { PostProcessingService } from '../../core/services/post-processing.service';
+import { ScreenshotService } from '../../core/services/screenshot.service';
+import { RenderLoopService } from '../../core/services/render-loop.service';
+import { ModelRegistryService } from '../../core/services/model-registry.service';
+import { SelectionService } from '../../core/services/selection.service';
+import { ClippingService } from '../../core/services/clipping.service';
+import { MeasurementService } from '../../core/services/measurement.service';
+import { VisibilityService } from '../../core/services/visibility.service';
+import { ColorService } from '../../core/services/color.service';
+import { CameraService } from '../../core/services/camera.service';
+import { NavigationService } from '../../core/services/navigation.service';
+import { PlanService } from '../../core/services/plan.service';
+import { RenderStyleService } from '../../core/services/render-style.service';
+import { ClippingPanelComponent } from './components/clipping-panel/clipping-panel.component';
+import { ColorPanelComponent } from './components/color-panel/color-panel.component';
+import { ContextMenuComponent } from './components/context-menu/context-menu.component';
+import { FilterPanelComponent } from './components/filter-panel/filter-panel.component';
+import { MeasurementPanelComponent } from './components/measurement-panel/measurement-panel.component';
+import { NavCubeComponent } from './components/nav-cube/nav-cube.component';
+import { NavigationHudComponent } from './components/navigation-hud/navigation-hud.component';
+import { PlanPanelComponent } from './components/plan-panel/plan-panel.component';
+import { FragmentCachePanelComponent } from './components/fragment-cache-panel/fragment-cache-panel.component';
+import { GltfExportPanelComponent } from './components/gltf-export-panel/gltf-export-panel.component';
+import { LegendOverlayComponent } from './components/legend-overlay/legend-overlay.component';
+import { EffectsPanelComponent } from './components/effects-panel/effects-panel.component';
+import { LightingPanelComponent } from './components/lighting-panel/lighting-panel.component';
+import { PropertiesPanelComponent } from './components/properties-panel/properties-panel.component';
+import { RenderDebugOverlayComponent } from './components/render-debug-overlay/render-debug-overlay.component';
+import { RenderStylePanelComponent } from './components/render-style-panel/render-style-panel.component';
+import { ScreenshotPanelComponent } from './components/screenshot-panel/screenshot-panel.component';
+import { SearchPanelComponent } from './components/search-panel/search-panel.component';
+import { SpatialTreeComponent } from './components/spatial-tree/spatial-tree.component';
+import { ViewpointsPanelComponent } from './components/viewpoints-panel/viewpoints-panel.component';
 import {
   VIEWER_CONFIG,
   RENDERER_CONFIG,
   CAMERA_CONFIG,
   CONTROLS_CONFIG,
+  LOAD_PROGRESS_CONFIG,
+  LOAD_STAGE_LABELS,
+  SELECTION_CONFIG,
+  VIEW_PRESETS,
 } from '../../shared/constants/viewer.constants';
-import { ModelState } from '../../shared/models/viewer.model';
+import {
+  ImportError,
+  LoadProgressCallback,
+  ModelState,
+  SelectionMode,
+  VisibilityCommand,
+} from '../../shared/models/viewer.model';
+import { isAbortError } from '../../shared/utils/abort.utils';
+import { getVisibilityShortcut } from '../../shared/utils/visibility.utils';
+import {
+  collectDroppedFiles,
+  getModelFileType,
+  getModelName,
+  readFileWithProgress,
+  validateModelFile,
+} from '../../shared/utils/file.utils';
 
 @Component({
   selector: 'app-ifc-viewer',
   standalone: true,
-  imports: [CommonModule],
+  imports: [
+    CommonModule,
+    ClippingPanelComponent,
+    ColorPanelComponent,
+    ContextMenuComponent,
+    EffectsPanelComponent,
+    FilterPanelComponent,
+    FragmentCachePanelComponent,
+    GltfExportPanelComponent,
+    LegendOverlayComponent,
+    LightingPanelComponent,
+    MeasurementPanelComponent,
+    NavCubeComponent,
+    NavigationHudComponent,
+    PlanPanelComponent,
+    PropertiesPanelComponent,
+    RenderDebugOverlayComponent,
+    RenderStylePanelComponent,
+    ScreenshotPanelComponent,
+    SearchPanelComponent,
+    SpatialTreeComponent,
+    ViewpointsPanelComponent,
+  ],
   templateUrl: './ifc-viewer.component.html',
   styleUrls: ['./ifc-viewer.component.css'],
   changeDetection: ChangeDetectionStrategy.OnPush,
+  host: {
+    '(document:keydown)': 'onKeyDown($event)',
+  },
 })
 export class IfcViewerComponent {
   private readonly ngZone = inject(NgZone);
   private readonly destroyRef = inject(DestroyRef);
   private readonly fragmentsService = inject(FragmentsService);
+  private readonly modelRegistry = inject(ModelRegistryService);
+  private readonly selection = inject(SelectionService);
+  private readonly clipping = inject(ClippingService);
+  private readonly measurement = inject(MeasurementService);
+  private readonly visibility = inject(VisibilityService);
+  private readonly colors = inject(ColorService);
+  private readonly cameras = inject(CameraService);
+  private readonly navigation = inject(NavigationService);
+  private readonly plan = inject(PlanService);
+  private readonly renderStyles = inject(RenderStyleService);
+  private readonly lighting = inject(LightingService);
+  private readonly postProcessing = inject(PostProcessingService);
+  private readonly screenshots = inject(ScreenshotService);
+  private readonly renderLoop = inject(RenderLoopService);
   private readonly canvasRef = viewChild.required<ElementRef<HTMLCanvasElement>>('canvas');
   private readonly fileInputRef = viewChild.required<ElementRef<HTMLInputElement>>('fileInput');
 
@@ -44,20 +139,63 @@ export class IfcViewerComponent {
   private camera!: THREE.PerspectiveCamera;
   private controls!: OrbitControls;
   private gridHelper?: THREE.GridHelper;
+  private readonly boundingBoxHelpers = new Map<string, THREE.Box3Helper>();
+  private readonly loadControllers = new Map<string, AbortController>();
+  private readonly loadQueue: { file: File; modelId: string }[] = [];
+  private queueRunner: Promise<void> | null = null;
+  private dragDepth = 0;
+  private pointerDownPosition: THREE.Vector2 | null = null;
+  private contextMenuDownPosition: THREE.Vector2 | null = null;
+  private lastHoverTime = 0;
+  private removePickingListeners?: () => void;
   private stats?: Stats;
-  private animationFrameId?: number;
 
   // State
-  readonly currentModel = signal<ModelState | null>(null);
+  readonly models = this.modelRegistry.models;
+  readonly activeModel = this.modelRegistry.activeModel;
+  readonly loadingModel = computed(
+    () => this.models().find((model) => model.loading && model.stage !== 'queued') ?? null
+  );
+  readonly queuedCount = computed(
+    () => this.models().filter((model) => model.stage === 'queued').length
+  );
+  readonly importErrors = signal<ImportError[]>([]);
+  readonly isDragOver = signal<boolean>(false);
   readonly isLoading = signal<boolean>(false);
+  readonly stageLabels = LOAD_STAGE_LABELS;
+  readonly showCachePanel = signal<boolean>(false);
+  readonly showPropertiesPanel = signal<boolean>(true);
+  readonly showSpatialTree = signal<boolean>(false);
+  readonly showFilterPanel = signal<boolean>(false);
+  readonly showSearchPanel = signal<boolean>(false);
+  readonly showColorPanel = signal<boolean>(false);
+  readonly showStylePanel = signal<boolean>(false);
+  readonly showLightingPanel = signal<boolean>(false);
+  readonly showEffectsPanel = signal<boolean>(false);
+  readonly showScreenshotPanel = signal<boolean>(false);
+  readonly showGltfExportPanel = signal<boolean>(false);
+  readonly showViewpointsPanel = signal<boolean>(false);
+  readonly showClippingPanel = signal<boolean>(false);
+  readonly isPlacingPlane = this.clipping.placing;
+  readonly showMeasurementPanel = signal<boolean>(false);
+  readonly measurementTool = this.measurement.tool;
+  readonly showPlanPanel = signal<boolean>(false);
+  readonly hasSelection = computed(() => this.selection.selected().length > 0);
+  readonly contextMenu = signal<{ x: number; y: number; categories: string[] } | null>(null);
 
   // Resize observer
   private resizeObserver?: ResizeObserver;
 
   constructor() {
+    // Outline the selection in its current colour
+    effect(() => {
+      this.selection.selected();
+      this.selection.colors();
+      untracked(() => void this.renderStyles.updateOutline());
+    });
+
     afterNextRender(() => {
       this.initViewer();
-      this.ngZone.runOutsideAngular(() => this.animate());
     });
   }
 
@@ -79,8 +217,6 @@ export class IfcViewerComponent {
 
       // Modern rendering setup
       this.renderer.outputColorSpace = THREE.SRGBColorSpace;
-      this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
-      this.renderer.toneMappingExposure = 1.0;
       this.renderer.setPixelRatio(
         Math.min(window.devicePixelRatio, RENDERER_CONFIG.maxPixelRatio)
       );
@@ -116,37 +252,13 @@ export class IfcViewerComponent {
       this.controls.maxDistance = CONTROLS_CONFIG.maxDistance;
       this.controls.maxPolarAngle = CONTROLS_CONFIG.maxPolarAngle;
       this.controls.update();
+      this.cameras.attach(this.camera, this.controls);
 
       // Add event listener for camera rest (culling update)
       this.controls.addEventListener('end', () => {
         this.fragmentsService.updateCulling().catch(console.error);
       });
 
-      // Add enhanced lighting for IFC models
-      // Ambient light for overall illumination
-      const ambientLight = new THREE.AmbientLight(0xffffff, 0.8);
-      ambientLight.name = 'AmbientLight';
-      this.scene.add(ambientLight);
-
-      // Directional lights from multiple angles
-      const directionalLight1 = new THREE.DirectionalLight(0xffffff, 1.0);
-      directionalLight1.position.set(10, 10, 5);
-      directionalLight1.name = 'DirectionalLight1';
-      this.scene.add(directionalLight1);
-      
-      const directionalLight2 = new THREE.DirectionalLight(0xffffff, 0.6);
-      directionalLight2.position.set(-10, 10, -5);
-      directionalLight2.name = 'DirectionalLight2';
-      this.scene.add(directionalLight2);
-      
-      // Hemisphere light for better outdoor scene rendering
-      const hemisphereLight = new THREE.HemisphereLight(0xffffff, 0x444444, 0.6);
-      hemisphereLight.position.set(0, 20, 0);
-      hemisphereLight.name = 'HemisphereLight';
-      this.scene.add(hemisphereLight);
-      
-      console.log('✓ Enhanced lighting setup complete');
-
       // Add grid helper if enabled
       if (VIEWER_CONFIG.showGrid) {
         this.gridHelper = new THREE.GridHelper(50, 50, 0x444444, 0x222222);
@@ -164,12 +276,77 @@ export class IfcViewerComponent {
       // Setup resize observer
       this.setupResizeObserver(canvas);
 
+      // Click to select, hover to highlight
+      this.setupPicking(canvas);
+
+      // Section planes and box
+      this.clipping.attach({
+        scene: this.scene,
+        renderer: this.renderer,
+        controls: this.controls,
+        canvas,
+        getCamera: () => this.cameras.getCamera(),
+      });
+      this.measurement.attach({
+        scene: this.scene,
+        renderer: this.renderer,
+        controls: this.controls,
+        canvas,
+        getCamera: () => this.cameras.getCamera(),
+      });
+      this.navigation.attach({
+        scene: this.scene,
+        renderer: this.renderer,
+        controls: this.controls,
+        canvas,
+        getCamera: () => this.cameras.getCamera(),
+      });
+      this.plan.attach({
+        scene: this.scene,
+        renderer: this.renderer,
+        controls: this.controls,
+        canvas,
+        getCamera: () => this.cameras.getCamera(),
+      });
+
       // Initialize FragmentsService
       await this.fragmentsService.initialize(this.scene, this.camera);
 
-      // Initial render
+      // Render styles follow the model meshes, so they start once fragments is ready
+      this.renderStyles.attach({
+        scene: this.scene,
+        renderer: this.renderer,
+        controls: this.controls,
+        canvas,
+        getCamera: () => this.cameras.getCamera(),
+      });
+      // Lighting too: model meshes cast and receive the shadows
+      this.lighting.attach({
+        scene: this.scene,
+        renderer: this.renderer,
+        controls: this.controls,
+        canvas,
+        getCamera: () => this.cameras.getCamera(),
+      });
+      // Effects, including tone mapping, apply to every frame from here on
+      this.postProcessing.attach({
+        scene: this.scene,
+        renderer: this.renderer,
+        controls: this.controls,
+        canvas,
+        getCamera: () => this.cameras.getCamera(),
+      });
+      this.screenshots.attach({
+        scene: this.scene,
+        renderer: this.renderer,
+        controls: this.controls,
+        canvas,
+        getCamera: () => this.cameras.getCamera(),
+      });
+
+      // Frames are drawn from here on, whenever something asks for one
       this.updateSize();
-      this.renderer.render(this.scene, this.camera);
+      this.renderLoop.start(() => this.renderFrame());
 
       console.log('IFC Viewer initialized successfully');
     } catch (error) {
@@ -201,6 +378,299 @@ export class IfcViewerComponent {
     this.resizeObserver.observe(canvas);
   }
 
+  /**
+   * Setup element picking on the canvas
+   * Pointer listeners run outside Angular; only selection changes re-enter the zone
+   */
+  private setupPicking(canvas: HTMLCanvasElement): void {
+    const onPointerDown = (event: PointerEvent) => {
+      const position = new THREE.Vector2(event.clientX, event.clientY);
+      this.pointerDownPosition = event.button === 0 ? position : null;
+      this.contextMenuDownPosition = event.button === 2 ? position : null;
+    };
+    const onPointerUp = (event: PointerEvent) => {
+      void this.handlePointerUp(event);
+    };
+    const onPointerMove = (event: PointerEvent) => {
+      void this.handlePointerMove(event);
+    };
+    const onPointerLeave = () => {
+      this.ngZone.run(() => {
+        this.selection.setHovered(null);
+        this.measurement.setPreview(null);
+      });
+    };
+    const onContextMenu = (event: MouseEvent) => {
+      event.preventDefault();
+      void this.openContextMenu(event);
+    };
+    const onDoubleClick = (event: MouseEvent) => {
+      // Double-click finishes polylines and areas, or else orbits around the point
+      if (this.measurement.tool()) {
+        this.ngZone.run(() => this.measurement.finish());
+      } else if (!this.clipping.placing() && this.navigation.mode() === 'orbit') {
+        void this.setOrbitPoint(event);
+      }
+    };
+
+    this.ngZone.runOutsideAngular(() => {
+      canvas.addEventListener('pointerdown', onPointerDown);
+      canvas.addEventListener('pointerup', onPointerUp);
+      canvas.addEventListener('pointermove', onPointerMove);
+      canvas.addEventListener('pointerleave', onPointerLeave);
+      canvas.addEventListener('dblclick', onDoubleClick);
+      canvas.addEventListener('contextmenu', onContextMenu);
+    });
+
+    this.removePickingListeners = () => {
+      canvas.removeEventListener('pointerdown', onPointerDown);
+      canvas.removeEventListener('pointerup', onPointerUp);
+      canvas.removeEventListener('pointermove', onPointerMove);
+      canvas.removeEventListener('pointerleave', onPointerLeave);
+      canvas.removeEventListener('dblclick', onDoubleClick);
+      canvas.removeEventListener('contextmenu', onContextMenu);
+    };
+  }
+
+  /**
+   * Select the element under the pointer on click
+   * Ctrl/Cmd toggles the element, Shift adds it; drags (orbiting) are ignored.
+   * While a section plane is being placed or a measurement tool is active,
+   * the click places the plane or measurement point instead
+   */
+  private async handlePointerUp(event: PointerEvent): Promise<void> {
+    const downPosition = this.pointerDownPosition;
+    this.pointerDownPosition = null;
+    if (
+      !downPosition ||
+      downPosition.distanceTo(new THREE.Vector2(event.clientX, event.clientY)) >
+        SELECTION_CONFIG.clickTolerance ||
+      this.clipping.isGizmoHovered() ||
+      // In walk and fly mode a click locks the pointer for mouse look
+      this.navigation.mode() !== 'orbit'
+    ) {
+      return;
+    }
+
+    if (this.clipping.placing()) {
+      await this.placeSectionPlane(event);
+      return;
+    }
+
+    if (this.measurement.tool()) {
+      await this.addMeasurementPoint(event);
+      return;
+    }
+
+    const mode: SelectionMode =
+      event.ctrlKey || event.metaKey ? 'toggle' : event.shiftKey ? 'add' : 'replace';
+
+    try {
+      const hit = await this.pickAt(event);
+      this.ngZone.run(() => {
+        this.selection.select(hit && { modelId: hit.modelId, localId: hit.localId }, mode);
+      });
+    } catch (error) {
+      console.error('Failed to pick element:', error);
+    }
+  }
+
+  /**
+   * Place a section plane on the surface under the pointer
+   */
+  private async placeSectionPlane(event: PointerEvent): Promise<void> {
+    try {
+      const hit = await this.pickAt(event);
+      if (hit) {
+        this.ngZone.run(() => this.clipping.placePlane(hit));
+      }
+    } catch (error) {
+      console.error('Failed to place section plane:', error);
+    }
+  }
+
+  /**
+   * Add the snapped point under the pointer to the measurement in progress
+   */
+  private async addMeasurementPoint(event: PointerEvent): Promise<void> {
+    try {
+      const snap = await this.snapAt(event);
+      if (snap) {
+        this.ngZone.run(() => this.measurement.addPoint(snap.point));
+      }
+    } catch (error) {
+      console.error('Failed to add measurement point:', error);
+    }
+  }
+
+  /**
+   * Highlight the element under the pointer, throttled
+   * While measuring, preview the snapped point instead
+   */
+  private async handlePointerMove(event: PointerEvent): Promise<void> {
+    // Skip hover picking while orbiting or panning, and in walk and fly mode
+    if (event.buttons !== 0 || this.navigation.mode() !== 'orbit') {
+      return;
+    }
+
+    const now = performance.now();
+    if (now - this.lastHoverTime < SELECTION_CONFIG.hoverInterval) {
+      return;
+    }
+    this.lastHoverTime = now;
+
+    if (this.measurement.tool()) {
+      try {
+        const snap = await this.snapAt(event);
+        this.ngZone.run(() => this.measurement.setPreview(snap));
+      } catch (error) {
+        console.warn('Failed to snap measurement point:', error);
+      }
+      return;
+    }
+
+    try {
+      const hit = await this.pickAt(event);
+      this.ngZone.run(() => {
+        this.selection.setHovered(hit && { modelId: hit.modelId, localId: hit.localId });
+      });
+    } catch (error) {
+      console.warn('Failed to pick hovered element:', error);
+    }
+  }
+
+  /**
+   * Helper: Orbit around the model point under the pointer
+   */
+  private async setOrbitPoint(event: MouseEvent): Promise<void> {
+    try {
+      const hit = await this.pickAt(event);
+      if (hit) {
+        await this.cameras.orbitAround(hit.point);
+      }
+    } catch (error) {
+      console.error('Failed to set the orbit point:', error);
+    }
+  }
+
+  /**
+   * Helper: Raycast the loaded models at a pointer position
+   */
+  private pickAt(event: MouseEvent) {
+    return this.fragmentsService.pickElement(
+      this.cameras.getCamera(),
+      new THREE.Vector2(event.clientX, event.clientY),
+      this.canvasRef().nativeElement
+    );
+  }
+
+  /**
+   * Helper: Raycast the loaded models at a pointer position, snapping to vertices and edges
+   */
+  private snapAt(event: PointerEvent) {
+    return this.fragmentsService.snapPoint(
+      this.cameras.getCamera(),
+      new THREE.Vector2(event.clientX, event.clientY),
+      this.canvasRef().nativeElement
+    );
+  }
+
+  /**
+   * Open the visibility menu at the pointer; pans with the right button are ignored
+   * Right-clicking an unselected element selects it first
+   */
+  private async openContextMenu(event: MouseEvent): Promise<void> {
+    const downPosition = this.contextMenuDownPosition;
+    this.contextMenuDownPosition = null;
+    if (
+      downPosition &&
+      downPosition.distanceTo(new THREE.Vector2(event.clientX, event.clientY)) >
+        SELECTION_CONFIG.clickTolerance
+    ) {
+      return;
+    }
+
+    try {
+      const hit = await this.pickAt(event);
+      const element = hit && { modelId: hit.modelId, localId: hit.localId };
+      if (element && !this.selection.isSelected(element)) {
+        this.ngZone.run(() => this.selection.select(element));
+      }
+
+      const categories = await this.visibility.getCategories(this.selection.selected());
+      this.ngZone.run(() => this.contextMenu.set({ x: event.clientX, y: event.clientY, categories }));
+    } catch (error) {
+      console.error('Failed to open context menu:', error);
+    }
+  }
+
+  /**
+   * Hide, isolate or ghost the selection or its categories, show everything or undo
+   * Hidden elements leave the selection
+   */
+  async runVisibilityCommand(command: VisibilityCommand): Promise<void> {
+    const selected = this.selection.selected();
+    try {
+      switch (command) {
+        case 'hide':
+          await this.visibility.hide(selected);
+          this.selection.clear();
+          break;
+        case 'isolate':
+          await this.visibility.isolate(selected);
+          break;
+        case 'ghost':
+          await this.visibility.ghost(selected);
+          break;
+        case 'hideCategory':
+          await this.visibility.hide(await this.visibility.getCategoryElements(selected));
+          this.selection.clear();
+          break;
+        case 'isolateCategory':
+          await this.visibility.isolate(await this.visibility.getCategoryElements(selected));
+          break;
+        case 'showAll':
+          await this.visibility.showAll();
+          break;
+        case 'undo':
+          await this.visibility.undo();
+          break;
+      }
+    } catch (error) {
+      console.error(`Failed to run visibility command ${command}:`, error);
+    }
+  }
+
+  /**
+   * Keyboard shortcuts: Enter finishes a measurement, Escape cancels the current tool step
+   * or closes the context menu; visibility commands have their own letters
+   */
+  onKeyDown(event: KeyboardEvent): void {
+    const target = event.target as HTMLElement | null;
+    if (target?.closest('input, textarea, select')) {
+      return;
+    }
+
+    const command = getVisibilityShortcut(event);
+    if (command) {
+      event.preventDefault();
+      this.contextMenu.set(null);
+      void this.runVisibilityCommand(command);
+    } else if (event.key === 'Enter' && this.measurement.tool()) {
+      this.measurement.finish();
+    } else if (event.key === 'Escape') {
+      if (this.contextMenu()) {
+        this.contextMenu.set(null);
+      } else if (this.clipping.placing()) {
+        this.clipping.cancelPlacing();
+      } else if (this.measurement.draft().length > 0) {
+        this.measurement.cancelDraft();
+      } else if (this.measurement.tool()) {
+        this.measurement.setTool(null);
+      }
+    }
+  }
+
   /**
    * Update canvas and camera size
    */
@@ -211,25 +681,31 @@ export class IfcViewerComponent {
 
     if (canvas.width !== width || canvas.height !== height) {
       this.renderer.setSize(width, height, false);
-      this.camera.aspect = width / height;
-      this.camera.updateProjectionMatrix();
+      this.postProcessing.setSize(width, height);
+      this.cameras.setAspect(width / height);
+      this.renderLoop.requestRender();
     }
   }
 
   /**
-   * Animation loop
+   * Draw a frame; called by the render loop only when something changed
    */
-  private animate(): void {
-    this.animationFrameId = requestAnimationFrame(() => this.animate());
-
+  private renderFrame(): void {
     // Stats begin
     this.stats?.begin();
 
-    // Update controls
-    this.controls.update();
+    // Update controls, which ask for the next frame while damping settles; in
+    // walk and fly mode the keys move the camera instead
+    if (this.navigation.mode() === 'orbit') {
+      this.controls.update();
+    } else {
+      this.navigation.update();
+    }
 
     // Render scene
-    this.renderer.render(this.scene, this.camera);
+    this.renderStyles.update();
+    this.lighting.update();
+    this.postProcessing.render();
 
     // Stats end
     this.stats?.end();
@@ -240,55 +716,206 @@ export class IfcViewerComponent {
    */
   async onFileSelected(event: Event): Promise<void> {
     const input = event.target as HTMLInputElement;
-    const file = input.files?.[0];
+    const files = Array.from(input.files ?? []);
 
-    if (!file || !file.name.toLowerCase().endsWith('.ifc')) {
-      console.error('Please select a valid .ifc file');
+    if (files.length === 0) {
+      console.error('Please select a valid .ifc or .frag file');
       return;
     }
 
-    await this.loadIfcFile(file);
-
     // Reset input so the same file can be selected again
     input.value = '';
+
+    await this.enqueueFiles(files);
   }
 
   /**
-   * Load and process IFC file
+   * Track drags entering the viewer to show the drop zone
    */
-  private async loadIfcFile(file: File): Promise<void> {
-    this.isLoading.set(true);
+  onDragEnter(event: DragEvent): void {
+    if (!this.isFileDrag(event)) {
+      return;
+    }
+    event.preventDefault();
+    this.dragDepth++;
+    this.isDragOver.set(true);
+  }
 
-    const modelState: ModelState = {
-      id: crypto.randomUUID(),
-      name: file.name.replace('.ifc', ''),
-      loading: true,
-      progress: 0,
-    };
+  /**
+   * Allow dropping files onto the viewer
+   */
+  onDragOver(event: DragEvent): void {
+    if (!this.isFileDrag(event)) {
+      return;
+    }
+    event.preventDefault();
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = 'copy';
+    }
+  }
 
-    this.currentModel.set(modelState);
+  /**
+   * Hide the drop zone once the drag leaves the viewer
+   */
+  onDragLeave(event: DragEvent): void {
+    if (!this.isFileDrag(event)) {
+      return;
+    }
+    // dragleave also fires when moving between child elements
+    this.dragDepth = Math.max(0, this.dragDepth - 1);
+    if (this.dragDepth === 0) {
+      this.isDragOver.set(false);
+    }
+  }
+
+  /**
+   * Queue dropped files and folders for loading
+   */
+  async onDrop(event: DragEvent): Promise<void> {
+    event.preventDefault();
+    this.dragDepth = 0;
+    this.isDragOver.set(false);
+
+    if (!event.dataTransfer) {
+      return;
+    }
 
     try {
-      // Read file as array buffer
-      const arrayBuffer = await file.arrayBuffer();
-      const buffer = new Uint8Array(arrayBuffer);
-
-      console.log(`Loading IFC file: ${file.name} (${(file.size / 1024 / 1024).toFixed(2)} MB)`);
-
-      // Load IFC without progress tracking (due to ThatOpen Components library limitations)
-      // Progress will jump from 0% to 100% when complete
-      const uuid = await this.fragmentsService.loadIfc(
-        buffer,
-        modelState.name
-        // Progress callback omitted due to internal library issues with callbacks
-      );
+      const files = await collectDroppedFiles(event.dataTransfer);
+      await this.enqueueFiles(files);
+    } catch (error) {
+      console.error('Failed to read dropped files:', error);
+    }
+  }
 
-      // Update progress to 100% in Angular zone
+  /**
+   * Validate files and load the valid ones one after another
+   * Each accepted file is listed immediately as queued; rejected files are reported
+   */
+  async enqueueFiles(files: File[]): Promise<void> {
+    const rejected: ImportError[] = [];
+
+    for (const file of files) {
+      const fileName = file.webkitRelativePath || file.name;
+      const validationError = validateModelFile(file);
+      if (validationError) {
+        console.error(`Skipping ${fileName}: ${validationError}`);
+        rejected.push({ fileName, message: validationError });
+        continue;
+      }
+
+      const modelState: ModelState = {
+        id: crypto.randomUUID(),
+        name: getModelName(file.name),
+        loading: true,
+        progress: 0,
+        stage: 'queued',
+        visible: true,
+      };
+
+      this.modelRegistry.add(modelState);
+      this.loadControllers.set(modelState.id, new AbortController());
+      this.loadQueue.push({ file, modelId: modelState.id });
+    }
+
+    if (rejected.length > 0) {
+      this.importErrors.update((errors) => [...errors, ...rejected]);
+    }
+
+    await this.processLoadQueue();
+  }
+
+  /**
+   * Dismiss the list of rejected files
+   */
+  clearImportErrors(): void {
+    this.importErrors.set([]);
+  }
+
+  /**
+   * Load queued files sequentially; a single worker drains the queue
+   */
+  private async processLoadQueue(): Promise<void> {
+    if (this.queueRunner) {
+      return this.queueRunner;
+    }
+
+    this.queueRunner = (async () => {
+      this.isLoading.set(true);
+      try {
+        let next = this.loadQueue.shift();
+        while (next) {
+          await this.loadModelFile(next.file, next.modelId);
+          next = this.loadQueue.shift();
+        }
+      } finally {
+        this.queueRunner = null;
+        this.ngZone.run(() => {
+          this.isLoading.set(false);
+        });
+      }
+    })();
+
+    return this.queueRunner;
+  }
+
+  /**
+   * Helper: Whether a drag carries files (as opposed to text or elements)
+   */
+  private isFileDrag(event: DragEvent): boolean {
+    return Array.from(event.dataTransfer?.types ?? []).includes('Files');
+  }
+
+  /**
+   * Load a queued model file: IFC files are converted, .frag files are loaded directly
+   */
+  private async loadModelFile(file: File, modelId: string): Promise<void> {
+    const fileType = getModelFileType(file.name);
+    const modelState = this.modelRegistry.get(modelId);
+    const abortController = this.loadControllers.get(modelId);
+    if (!fileType || !modelState || !abortController) {
+      // Cancelled while queued
+      return;
+    }
+
+    const reportProgress: LoadProgressCallback = (progress, stage) => {
       this.ngZone.run(() => {
-        this.currentModel.update((state) =>
-          state ? { ...state, progress: 100 } : state
-        );
+        this.modelRegistry.update(modelState.id, { progress, stage });
       });
+    };
+
+    this.ngZone.run(() => {
+      this.modelRegistry.update(modelState.id, { stage: 'reading' });
+    });
+
+    try {
+      console.log(`Loading ${fileType} file: ${file.name} (${(file.size / 1024 / 1024).toFixed(2)} MB)`);
+
+      // Read file in chunks so large models report progress while reading
+      const buffer = await readFileWithProgress(
+        file,
+        (fraction) => reportProgress(fraction * LOAD_PROGRESS_CONFIG.readingEnd, 'reading'),
+        abortController.signal
+      );
+
+      // .frag files were converted before export, so they skip web-ifc entirely
+      const uuid =
+        fileType === 'frag'
+          ? await this.fragmentsService.loadFragment(
+              buffer,
+              modelState.name,
+              reportProgress,
+              abortController.signal
+            )
+          : await this.fragmentsService.loadIfc(
+              buffer,
+              modelState.name,
+              reportProgress,
+              abortController.signal
+            );
+
+      // The fragments model exists from here on; cancelling no longer applies
+      this.loadControllers.delete(modelState.id);
 
       // Get the loaded model (FragmentsModel)
       const model = this.fragmentsService.getModel(uuid);
@@ -318,56 +945,76 @@ export class IfcViewerComponent {
       this.logSceneGraphDetails(model.object);
       
       // DIAGNOSTIC: Add bounding box helper for visualization
-      this.addBoundingBoxHelper(model.object);
-      
-      // FIX: Ensure all materials are visible
-      this.ensureMaterialsVisible(model.object);
+      this.addBoundingBoxHelper(modelState.id, model.object);
       
       // FIX: Force an immediate render to see if anything appears
       console.log('Forcing immediate render...');
-      this.renderer.render(this.scene, this.camera);
+      this.renderer.render(this.scene, this.cameras.getCamera());
 
       // Bind camera for culling
-      this.fragmentsService.bindCamera(this.camera);
+      this.fragmentsService.bindCamera(this.cameras.getCamera());
 
       // Center camera on model
       this.centerCameraOnModel(model.object);
 
+      // Cut the new model with the existing section planes
+      void this.clipping.refreshSections();
+
+      // Place the sun over the model's site, if it is geo-referenced
+      void this.lighting.useModelLocation(uuid);
+
       // Update model state - mark as fully loaded
       this.ngZone.run(() => {
-        this.currentModel.update((state) =>
-          state
-            ? {
-                ...state,
-                loading: false,
-                progress: 100,
-                fragmentUuid: uuid,
-              }
-            : state
-        );
+        this.modelRegistry.update(modelState.id, {
+          loading: false,
+          progress: 100,
+          fragmentUuid: uuid,
+        });
       });
 
-      console.log(`IFC file loaded successfully: ${file.name}`);
+      console.log(`Model file loaded successfully: ${file.name}`);
     } catch (error) {
-      console.error('Failed to load IFC file:', error);
+      if (isAbortError(error)) {
+        // Cancelled loads leave nothing behind
+        this.ngZone.run(() => {
+          this.modelRegistry.remove(modelState.id);
+        });
+        console.log(`Model load cancelled: ${file.name}`);
+        return;
+      }
+
+      console.error('Failed to load model file:', error);
       
       // Run in Angular zone to ensure change detection
       this.ngZone.run(() => {
-        this.currentModel.update((state) =>
-          state
-            ? {
-                ...state,
-                loading: false,
-                error: error instanceof Error ? error.message : 'Unknown error',
-              }
-            : state
-        );
+        this.modelRegistry.update(modelState.id, {
+          loading: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
       });
     } finally {
-      // Ensure loading state is reset in Angular zone
-      this.ngZone.run(() => {
-        this.isLoading.set(false);
-      });
+      this.loadControllers.delete(modelState.id);
+    }
+  }
+
+  /**
+   * Cancel an in-progress or queued model load
+   */
+  cancelLoad(id: string): void {
+    const controller = this.loadControllers.get(id);
+    if (!controller) {
+      console.warn(`No load in progress for model ${id}`);
+      return;
+    }
+
+    controller.abort();
+
+    // Queued files have not started, so drop them right away
+    const queueIndex = this.loadQueue.findIndex((item) => item.modelId === id);
+    if (queueIndex !== -1) {
+      this.loadQueue.splice(queueIndex, 1);
+      this.loadControllers.delete(id);
+      this.modelRegistry.remove(id);
     }
   }
 
@@ -441,7 +1088,7 @@ export class IfcViewerComponent {
   /**
    * DIAGNOSTIC: Add bounding box helper for visualization
    */
-  private addBoundingBoxHelper(model: THREE.Object3D): void {
+  private addBoundingBoxHelper(modelId: string, model: THREE.Object3D): void {
     try {
       const box = new THREE.Box3().setFromObject(model);
       
@@ -454,6 +1101,7 @@ export class IfcViewerComponent {
       const helper = new THREE.Box3Helper(box, 0x00ff00);
       helper.name = 'BoundingBoxHelper';
       this.scene.add(helper);
+      this.boundingBoxHelpers.set(modelId, helper);
       
       console.log('✓ Added green bounding box helper for visualization');
     } catch (error) {
@@ -462,127 +1110,84 @@ export class IfcViewerComponent {
   }
   
   /**
-   * FIX: Ensure all materials are visible and properly configured
+   * Remove the bounding box helper belonging to an unloaded model
    */
-  private ensureMaterialsVisible(model: THREE.Object3D): void {
-    console.log('=== Fixing Materials ===');
-    
-    let materialsFixed = 0;
-    
-    model.traverse((child) => {
-      if (child instanceof THREE.Mesh) {
-        // Ensure mesh is visible
-        child.visible = true;
-        child.frustumCulled = false; // Temporarily disable frustum culling for debugging
-        
-        // Fix materials
-        const materials = Array.isArray(child.material) ? child.material : [child.material];
-        
-        materials.forEach((material) => {
-          if (material) {
-            // Ensure material is visible
-            material.visible = true;
-            
-            // Fix transparency issues
-            if (material.transparent && material.opacity === 0) {
-              material.opacity = 1.0;
-              materialsFixed++;
-            }
-            
-            // Ensure side is visible
-            if (material.side === THREE.FrontSide) {
-              material.side = THREE.DoubleSide; // Render both sides
-              materialsFixed++;
-            }
-            
-            // Force material update
-            material.needsUpdate = true;
-            
-            // If it's a MeshBasicMaterial or MeshStandardMaterial, ensure it has color
-            if ('color' in material && material.color) {
-              // Ensure color is not black (which might be invisible with certain lighting)
-              if (material.color.getHex() === 0x000000) {
-                material.color.setHex(0xaaaaaa); // Set to gray
-                materialsFixed++;
-              }
-            }
-          }
-        });
-      }
-    });
-    
-    console.log(`✓ Fixed ${materialsFixed} material issues`);
-    console.log('=== End Material Fixes ===');
+  private removeBoundingBoxHelper(modelId: string): void {
+    const helper = this.boundingBoxHelpers.get(modelId);
+    if (!helper) {
+      return;
+    }
+
+    helper.removeFromParent();
+    helper.dispose();
+    this.boundingBoxHelpers.delete(modelId);
+    this.renderLoop.requestRender();
   }
 
   /**
-   * Center camera on loaded model
+   * Center camera on loaded model, looking from the isometric direction
    */
   private centerCameraOnModel(model: THREE.Object3D): void {
     const box = new THREE.Box3().setFromObject(model);
-    
-    // Check if box is valid
     if (box.isEmpty()) {
       console.error('Cannot center camera - bounding box is empty!');
       // Fallback to default camera position
-      this.camera.position.set(10, 10, 10);
-      this.controls.target.set(0, 0, 0);
-      this.controls.update();
+      void this.cameras.moveTo(
+        { position: { x: 10, y: 10, z: 10 }, target: { x: 0, y: 0, z: 0 } },
+        false
+      );
       return;
     }
-    
-    const center = box.getCenter(new THREE.Vector3());
-    const size = box.getSize(new THREE.Vector3());
 
-    const maxDim = Math.max(size.x, size.y, size.z);
-    
-    // Ensure maxDim is not zero
-    if (maxDim === 0) {
-      console.error('Model has zero dimensions!');
-      this.camera.position.set(10, 10, 10);
-      this.controls.target.set(0, 0, 0);
-      this.controls.update();
-      return;
-    }
-    
-    const fov = this.camera.fov * (Math.PI / 180);
-    let cameraZ = Math.abs(maxDim / 2 / Math.tan(fov / 2));
-    cameraZ *= 1.5; // Add some padding
+    // Culling is updated once the camera is placed
+    void this.cameras.fitBox(box, { direction: VIEW_PRESETS.isometric.direction, animate: false });
+  }
 
-    this.camera.position.set(center.x + cameraZ, center.y + cameraZ, center.z + cameraZ);
-    this.controls.target.copy(center);
-    this.controls.update();
-    
-    console.log('Camera positioned at:', this.camera.position.toArray());
-    console.log('Camera looking at:', this.controls.target.toArray());
-    console.log('Camera distance:', this.camera.position.distanceTo(this.controls.target));
-    
-    // FIX: Adjust camera near/far planes if needed for the model size
-    const distanceToCenter = this.camera.position.distanceTo(center);
-    const recommendedNear = Math.max(0.1, distanceToCenter / 100);
-    const recommendedFar = Math.max(1000, (distanceToCenter + maxDim) * 2);
-    
-    if (this.camera.near > recommendedNear || this.camera.far < recommendedFar) {
-      console.warn(`⚠️ Camera near/far planes may need adjustment:`);
-      console.warn(`  Current: near=${this.camera.near}, far=${this.camera.far}`);
-      console.warn(`  Recommended: near=${recommendedNear.toFixed(2)}, far=${recommendedFar.toFixed(2)}`);
-      
-      // Automatically adjust if needed
-      this.camera.near = recommendedNear;
-      this.camera.far = recommendedFar;
-      this.camera.updateProjectionMatrix();
-      console.log('✓ Camera planes adjusted automatically');
+  /**
+   * Select the model targeted by model-level actions
+   */
+  selectModel(id: string): void {
+    this.modelRegistry.setActive(id);
+  }
+
+  /**
+   * Show or hide a loaded model
+   */
+  toggleModelVisibility(id: string): void {
+    this.modelRegistry.toggleVisible(id);
+
+    const helper = this.boundingBoxHelpers.get(id);
+    if (helper) {
+      helper.visible = this.modelRegistry.get(id)?.visible ?? false;
     }
+    this.renderLoop.requestRender();
+    void this.clipping.refreshSections();
+  }
 
-      // Update culling after camera movement
-      this.fragmentsService.updateCulling().catch(console.error);
+  /**
+   * Unload a model and free its resources
+   */
+  async unloadModel(id: string): Promise<void> {
+    try {
+      const fragmentUuid = this.modelRegistry.get(id)?.fragmentUuid;
+      await this.modelRegistry.unload(id);
+      this.removeBoundingBoxHelper(id);
+      if (fragmentUuid) {
+        this.selection.removeModel(fragmentUuid);
+        this.visibility.removeModel(fragmentUuid);
+        this.colors.removeModel(fragmentUuid);
+      }
+      void this.clipping.refreshSections();
+    } catch (error) {
+      console.error('Failed to unload model:', error);
+    }
   }
 
   /**
-   * Download current model as .frag file
+   * Download the active model as .frag file
    */
   async downloadFragment(): Promise<void> {
-    const model = this.currentModel();
+    const model = this.activeModel();
     if (!model?.fragmentUuid) {
       console.error('No model loaded');
       return;
@@ -611,6 +1216,129 @@ export class IfcViewerComponent {
     }
   }
 
+  /**
+   * Show or hide the fragment cache browser
+   */
+  toggleCachePanel(): void {
+    this.showCachePanel.update((visible) => !visible);
+  }
+
+  /**
+   * Show or hide the spatial structure tree
+   */
+  toggleSpatialTree(): void {
+    this.showSpatialTree.update((visible) => !visible);
+  }
+
+  /**
+   * Show or hide the class / storey / material filter
+   */
+  toggleFilterPanel(): void {
+    this.showFilterPanel.update((visible) => !visible);
+  }
+
+  /**
+   * Show or hide colour by attribute or property
+   */
+  toggleColorPanel(): void {
+    this.showColorPanel.update((visible) => !visible);
+  }
+
+  /**
+   * Show or hide the render styles
+   */
+  toggleStylePanel(): void {
+    this.showStylePanel.update((visible) => !visible);
+  }
+
+  /**
+   * Show or hide the lighting settings
+   */
+  toggleLightingPanel(): void {
+    this.showLightingPanel.update((visible) => !visible);
+  }
+
+  /**
+   * Show or hide the post-processing effects
+   */
+  toggleEffectsPanel(): void {
+    this.showEffectsPanel.update((visible) => !visible);
+  }
+
+  /**
+   * Show or hide the screenshot export
+   */
+  toggleScreenshotPanel(): void {
+    this.showScreenshotPanel.update((visible) => !visible);
+  }
+
+  /**
+   * Show or hide the glTF export
+   */
+  toggleGltfExportPanel(): void {
+    this.showGltfExportPanel.update((visible) => !visible);
+  }
+
+  /**
+   * Show or hide the saved views
+   */
+  toggleViewpointsPanel(): void {
+    this.showViewpointsPanel.update((visible) => !visible);
+  }
+
+  /**
+   * Show or hide the element search
+   */
+  toggleSearchPanel(): void {
+    this.showSearchPanel.update((visible) => !visible);
+  }
+
+  /**
+   * Fit the camera to a set of elements (e.g. a storey picked in the tree)
+   */
+  async fitToElements(modelId: string, localIds: number[]): Promise<void> {
+    try {
+      this.navigation.setMode('orbit');
+      await this.cameras.fitElements(localIds.map((localId) => ({ modelId, localId })));
+    } catch (error) {
+      console.error('Failed to fit camera to elements:', error);
+    }
+  }
+
+  /**
+   * Show or hide the section plane tools
+   */
+  toggleClippingPanel(): void {
+    this.showClippingPanel.update((visible) => !visible);
+  }
+
+  /**
+   * Show or hide the measurement tools; closing them stops measuring
+   */
+  toggleMeasurementPanel(): void {
+    this.showMeasurementPanel.update((visible) => !visible);
+    if (!this.showMeasurementPanel()) {
+      this.measurement.setTool(null);
+    }
+  }
+
+  /**
+   * Show or hide the floor plans; closing them closes the open plan
+   */
+  togglePlanPanel(): void {
+    this.showPlanPanel.update((visible) => !visible);
+    if (!this.showPlanPanel()) {
+      void this.plan.close();
+    }
+  }
+
+  /**
+   * Show or hide the properties panel of the selected element
+   */
+  togglePropertiesPanel(): void {
+    this.showPropertiesPanel.update((visible) => !visible);
+  }
+
   /**
    * Open file picker
    */
@@ -623,10 +1351,24 @@ export class IfcViewerComponent {
    */
   ngOnDestroy(): void {
     try {
-      // Cancel animation frame
-      if (this.animationFrameId) {
-        cancelAnimationFrame(this.animationFrameId);
-      }
+      this.removePickingListeners?.();
+      this.plan.detach();
+      this.renderStyles.detach();
+      this.lighting.detach();
+      this.postProcessing.detach();
+      this.screenshots.detach();
+      this.clipping.detach();
+      this.measurement.detach();
+      this.navigation.detach();
+      this.cameras.detach();
+
+      // Abort loads that are still running or queued
+      this.loadQueue.length = 0;
+      this.loadControllers.forEach((controller) => controller.abort());
+      this.loadControllers.clear();
+
+      // Stop drawing frames
+      this.renderLoop.stop();
 
       // Remove stats
       if (this.stats?.dom) {
@@ -638,6 +1380,8 @@ export class IfcViewerComponent {
         this.controls.dispose();
       }
 
+      this.boundingBoxHelpers.clear();
+
       // Dispose resize observer
       if (this.resizeObserver) {
         this.resizeObserver.disconnect();
@@ -661,8 +1405,12 @@ export class IfcViewerComponent {
         this.renderer.forceContextLoss();
       }
 
-      // Dispose fragments service
+      // Dispose fragments service and forget the federated models
       this.fragmentsService.dispose().catch(console.error);
+      this.modelRegistry.clear();
+      this.selection.reset();
+      this.visibility.reset();
+      this.colors.reset();
 
       console.log('IFC Viewer disposed successfully');
     } catch (error) {
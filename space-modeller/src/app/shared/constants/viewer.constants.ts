@@ -1,4 +1,25 @@
-import { ViewerConfig } from '../models/viewer.model';
+import {
+  ClassificationKind,
+  Discipline,
+  GltfExportScope,
+  HighlightColors,
+  ImageFormat,
+  LightingPreset,
+  LightingPresetSettings,
+  LoadStage,
+  MeasurementKind,
+  ModelFileType,
+  PostEffect,
+  RenderStyle,
+  RenderStyleMaterial,
+  SnapKind,
+  ToneMappingMode,
+  Vector3Like,
+  ViewPreset,
+  ViewerConfig,
+  ViewerPreferences,
+  VisibilityCommand,
+} from '../models/viewer.model';
 
 /**
  * Default viewer configuration
@@ -19,6 +40,7 @@ export const VIEWER_CONFIG: ViewerConfig = {
   backgroundColor: '#0e1013',
   showGrid: true,
   showStats: true,
+  showRenderDebug: false,
 };
 
 /**
@@ -46,6 +68,23 @@ export const CAMERA_CONFIG = {
   fov: 60,
   near: 0.1,
   far: 1000,
+  // Duration of animated camera moves (view presets, saved views, fits) in ms
+  transitionDuration: 800,
+  // Room left around fitted geometry (1 = touching the edges of the view)
+  fitPadding: 1.2,
+};
+
+/**
+ * Standard views: direction from the orbit target towards the camera (Y up)
+ */
+export const VIEW_PRESETS: Record<ViewPreset, { label: string; direction: Vector3Like }> = {
+  top: { label: 'Top', direction: { x: 0, y: 1, z: 0 } },
+  bottom: { label: 'Bottom', direction: { x: 0, y: -1, z: 0 } },
+  front: { label: 'Front', direction: { x: 0, y: 0, z: 1 } },
+  back: { label: 'Back', direction: { x: 0, y: 0, z: -1 } },
+  left: { label: 'Left', direction: { x: -1, y: 0, z: 0 } },
+  right: { label: 'Right', direction: { x: 1, y: 0, z: 0 } },
+  isometric: { label: 'Isometric', direction: { x: 1, y: 1, z: 1 } },
 };
 
 /**
@@ -59,3 +98,596 @@ export const CONTROLS_CONFIG = {
   maxPolarAngle: Math.PI * 0.95,
 };
 
+
+/**
+ * File extensions accepted for each model file type
+ */
+export const MODEL_FILE_EXTENSIONS: Record<ModelFileType, string> = {
+  ifc: '.ifc',
+  frag: '.frag',
+};
+
+/**
+ * Load progress configuration
+ * Splits the 0-100 progress bar between reading the file and the web-ifc import;
+ * the remainder covers loading the converted fragments into the scene
+ */
+export const LOAD_PROGRESS_CONFIG = {
+  readingEnd: 10,
+  importEnd: 95,
+};
+
+/**
+ * Human-readable labels for load stages
+ */
+export const LOAD_STAGE_LABELS: Record<LoadStage, string> = {
+  queued: 'Queued',
+  reading: 'Reading file',
+  parsing: 'Parsing IFC',
+  geometry: 'Converting geometry',
+  building: 'Building fragments',
+  done: 'Done',
+};
+
+/**
+ * Local fragment cache configuration
+ * Converted IFC models are stored in IndexedDB keyed by the IFC content hash
+ */
+export const FRAGMENT_CACHE_CONFIG = {
+  enabled: true,
+  dbName: 'space-modeller-fragments',
+  dbVersion: 1,
+  entriesStore: 'entries',
+  dataStore: 'data',
+};
+
+/**
+ * Element picking and selection configuration
+ */
+export const SELECTION_CONFIG = {
+  colors: {
+    selection: '#3b82f6',
+    hover: '#fbbf24',
+    opacity: 1,
+  } satisfies HighlightColors,
+  // Pointer travel (px) beyond which a press counts as an orbit drag, not a click
+  clickTolerance: 4,
+  // Minimum interval between hover raycasts (ms)
+  hoverInterval: 50,
+};
+
+/**
+ * Display names of common IFC classes
+ * Word boundaries cannot be derived from the upper-case names web-ifc reports
+ */
+export const IFC_CLASS_NAMES: Record<string, string> = {
+  IFCPROJECT: 'IfcProject',
+  IFCSITE: 'IfcSite',
+  IFCBUILDING: 'IfcBuilding',
+  IFCBUILDINGSTOREY: 'IfcBuildingStorey',
+  IFCSPACE: 'IfcSpace',
+  IFCWALL: 'IfcWall',
+  IFCWALLSTANDARDCASE: 'IfcWallStandardCase',
+  IFCSLAB: 'IfcSlab',
+  IFCDOOR: 'IfcDoor',
+  IFCWINDOW: 'IfcWindow',
+  IFCCOLUMN: 'IfcColumn',
+  IFCBEAM: 'IfcBeam',
+  IFCSTAIR: 'IfcStair',
+  IFCSTAIRFLIGHT: 'IfcStairFlight',
+  IFCRAILING: 'IfcRailing',
+  IFCROOF: 'IfcRoof',
+  IFCCOVERING: 'IfcCovering',
+  IFCCURTAINWALL: 'IfcCurtainWall',
+  IFCPLATE: 'IfcPlate',
+  IFCMEMBER: 'IfcMember',
+  IFCFURNISHINGELEMENT: 'IfcFurnishingElement',
+  IFCFURNITURE: 'IfcFurniture',
+  IFCBUILDINGELEMENTPROXY: 'IfcBuildingElementProxy',
+  IFCFLOWTERMINAL: 'IfcFlowTerminal',
+  IFCFLOWSEGMENT: 'IfcFlowSegment',
+  IFCFLOWFITTING: 'IfcFlowFitting',
+  IFCOPENINGELEMENT: 'IfcOpeningElement',
+  IFCFOOTING: 'IfcFooting',
+  IFCRAMP: 'IfcRamp',
+  IFCDUCTSEGMENT: 'IfcDuctSegment',
+  IFCDUCTFITTING: 'IfcDuctFitting',
+  IFCPIPESEGMENT: 'IfcPipeSegment',
+  IFCPIPEFITTING: 'IfcPipeFitting',
+  IFCCABLECARRIERSEGMENT: 'IfcCableCarrierSegment',
+  IFCAIRTERMINAL: 'IfcAirTerminal',
+  IFCLIGHTFIXTURE: 'IfcLightFixture',
+  IFCSANITARYTERMINAL: 'IfcSanitaryTerminal',
+  IFCMATERIAL: 'IfcMaterial',
+  IFCMATERIALLIST: 'IfcMaterialList',
+  IFCMATERIALLAYERSET: 'IfcMaterialLayerSet',
+  IFCMATERIALLAYERSETUSAGE: 'IfcMaterialLayerSetUsage',
+  IFCMATERIALCONSTITUENTSET: 'IfcMaterialConstituentSet',
+  IFCMATERIALPROFILESETUSAGE: 'IfcMaterialProfileSetUsage',
+};
+
+/**
+ * Spatial structure tree configuration
+ */
+export const SPATIAL_TREE_CONFIG = {
+  // Levels expanded when a model's tree first loads (Project / Site / Building)
+  initialExpandDepth: 3,
+};
+
+/**
+ * Clipping plane and section box configuration
+ */
+export const CLIPPING_CONFIG = {
+  // Fill and outline cut surfaces by default
+  caps: true,
+  outlines: true,
+  capColor: '#9ca3af',
+  outlineColor: '#111827',
+  planeColor: '#3b82f6',
+  planeOpacity: 0.12,
+  // Sections are taken this far on the kept side so caps are not clipped themselves
+  capOffset: 0.01,
+  // Margin around the models so the section box does not cut their outer faces
+  boxPadding: 0.05,
+  // Plane helper size when no model is loaded
+  defaultPlaneSize: 10,
+};
+
+/**
+ * Measurement tool configuration
+ */
+export const MEASUREMENT_CONFIG = {
+  color: '#f97316',
+  snapColors: {
+    vertex: '#22c55e',
+    edge: '#eab308',
+    face: '#f97316',
+  } satisfies Record<SnapKind, string>,
+  // Marker size in pixels
+  pointSize: 10,
+  // Labels keep a constant screen size; this is their height at unit distance from the camera
+  labelHeight: 0.05,
+  lengthDecimals: 2,
+  angleDecimals: 1,
+  // Vertex/edge snaps this far behind the surface under the pointer are ignored (metres)
+  snapDepthTolerance: 0.5,
+};
+
+/**
+ * Display names of the measurement tools
+ */
+export const MEASUREMENT_TOOL_LABELS: Record<MeasurementKind, string> = {
+  distance: 'Distance',
+  polyline: 'Polyline',
+  area: 'Area',
+  angle: 'Angle',
+  elevation: 'Elevation',
+};
+
+/**
+ * Visibility command configuration
+ */
+export const VISIBILITY_CONFIG = {
+  // Opacity of the elements around the selection when ghosting
+  ghostOpacity: 0.1,
+  // Visibility changes that can be undone
+  historySize: 50,
+};
+
+/**
+ * Menu labels and keyboard shortcuts of the visibility commands
+ */
+export const VISIBILITY_COMMANDS: Record<VisibilityCommand, { label: string; shortcut: string }> = {
+  hide: { label: 'Hide', shortcut: 'H' },
+  isolate: { label: 'Isolate', shortcut: 'I' },
+  ghost: { label: 'Ghost others', shortcut: 'G' },
+  hideCategory: { label: 'Hide category', shortcut: 'Alt+H' },
+  isolateCategory: { label: 'Isolate category', shortcut: 'Alt+I' },
+  showAll: { label: 'Show all', shortcut: 'Shift+H' },
+  undo: { label: 'Undo visibility', shortcut: 'Ctrl+Z' },
+};
+
+/**
+ * Tabs of the filter panel
+ */
+export const CLASSIFICATION_LABELS: Record<ClassificationKind, string> = {
+  class: 'Class',
+  storey: 'Storey',
+  material: 'Material',
+};
+
+/**
+ * Names of the groups holding elements without a storey or material
+ */
+export const UNASSIGNED_GROUP_NAMES: Record<Exclude<ClassificationKind, 'class'>, string> = {
+  storey: 'No storey',
+  material: 'No material',
+};
+
+/**
+ * Display names of the disciplines, in panel order
+ */
+export const DISCIPLINE_LABELS: Record<Discipline, string> = {
+  architecture: 'Architecture',
+  structure: 'Structure',
+  mep: 'MEP',
+  other: 'Other',
+};
+
+/**
+ * Discipline of common IFC classes
+ * Distribution and flow classes not listed here are MEP; everything else is Other
+ */
+export const IFC_DISCIPLINES: Record<string, Discipline> = {
+  IFCWALL: 'architecture',
+  IFCWALLSTANDARDCASE: 'architecture',
+  IFCCURTAINWALL: 'architecture',
+  IFCSLAB: 'architecture',
+  IFCROOF: 'architecture',
+  IFCDOOR: 'architecture',
+  IFCWINDOW: 'architecture',
+  IFCSTAIR: 'architecture',
+  IFCSTAIRFLIGHT: 'architecture',
+  IFCRAMP: 'architecture',
+  IFCRAMPFLIGHT: 'architecture',
+  IFCRAILING: 'architecture',
+  IFCCOVERING: 'architecture',
+  IFCPLATE: 'architecture',
+  IFCFURNISHINGELEMENT: 'architecture',
+  IFCFURNITURE: 'architecture',
+  IFCSPACE: 'architecture',
+  IFCBEAM: 'structure',
+  IFCCOLUMN: 'structure',
+  IFCMEMBER: 'structure',
+  IFCFOOTING: 'structure',
+  IFCPILE: 'structure',
+  IFCREINFORCINGBAR: 'structure',
+  IFCREINFORCINGMESH: 'structure',
+  IFCTENDON: 'structure',
+  IFCDUCTSEGMENT: 'mep',
+  IFCDUCTFITTING: 'mep',
+  IFCPIPESEGMENT: 'mep',
+  IFCPIPEFITTING: 'mep',
+  IFCCABLESEGMENT: 'mep',
+  IFCCABLEFITTING: 'mep',
+  IFCCABLECARRIERSEGMENT: 'mep',
+  IFCCABLECARRIERFITTING: 'mep',
+  IFCAIRTERMINAL: 'mep',
+  IFCLIGHTFIXTURE: 'mep',
+  IFCSANITARYTERMINAL: 'mep',
+  IFCVALVE: 'mep',
+  IFCPUMP: 'mep',
+  IFCFAN: 'mep',
+  IFCOUTLET: 'mep',
+  IFCSWITCHINGDEVICE: 'mep',
+  IFCELECTRICAPPLIANCE: 'mep',
+};
+
+/**
+ * Element search box
+ */
+export const SEARCH_CONFIG = {
+  // Colour the results are painted in until another is picked
+  defaultColor: '#f59e0b',
+  // Example queries listed under the search box
+  examples: [
+    'IfcWall where Pset_WallCommon.IsExternal = true and storey = "Level 2"',
+    'IfcDoor, IfcWindow where Name ~ "fire"',
+    'where material = Concrete and not class = IfcSlab',
+  ],
+};
+
+/**
+ * Colour-by-property legends
+ */
+export const THEMATIC_CONFIG = {
+  // Colours of categorical values; values beyond the last colour are grouped as "Other"
+  palette: [
+    '#4e79a7',
+    '#f28e2b',
+    '#e15759',
+    '#76b7b2',
+    '#59a14f',
+    '#edc948',
+    '#b07aa1',
+    '#ff9da7',
+    '#9c755f',
+    '#17becf',
+    '#bcbd22',
+  ],
+  otherColor: '#bab0ac',
+  noValueColor: '#4b5563',
+  // Numeric fields with more distinct values than ramp colours get equal-interval ranges
+  ramp: ['#2c7bb6', '#abd9e9', '#ffffbf', '#fdae61', '#d7191c'],
+  labels: {
+    other: 'Other',
+    noValue: 'No value',
+  },
+  // Fields offered in the colour-by box
+  suggestions: [
+    'class',
+    'storey',
+    'material',
+    'Name',
+    'ObjectType',
+    'PredefinedType',
+    'Pset_WallCommon.FireRating',
+    'Pset_WallCommon.LoadBearing',
+    'Pset_WallCommon.IsExternal',
+    'Pset_DoorCommon.FireRating',
+    'Pset_SlabCommon.LoadBearing',
+    'Phasing."Phase Created"',
+  ],
+};
+
+/**
+ * Saved viewpoints configuration
+ */
+export const VIEWPOINT_CONFIG = {
+  // localStorage key of a model's viewpoints is this prefix plus the model name
+  storagePrefix: 'space-modeller.viewpoints.',
+};
+
+/**
+ * First-person walk and fly navigation
+ */
+export const WALK_CONFIG = {
+  // Eye height above the floor in walk mode (m)
+  eyeHeight: 1.7,
+  minEyeHeight: 0.5,
+  maxEyeHeight: 3,
+  // Speeds (m/s); Shift multiplies them
+  walkSpeed: 3,
+  flySpeed: 10,
+  runMultiplier: 3,
+  gravity: 9.81,
+  // Distance kept from walls (m)
+  collisionRadius: 0.3,
+  // Steps and stairs up to this height are climbed (m)
+  maxStepHeight: 0.5,
+  // Longer frames are simulated as this long, so a stalled tab does not jump (s)
+  maxFrameTime: 0.1,
+  // Orbit target distance in front of the camera when returning to orbit mode (m)
+  orbitDistance: 10,
+};
+
+/**
+ * Storey plan views
+ */
+export const PLAN_CONFIG = {
+  // Height of the horizontal cut above the storey level (m)
+  cutHeight: 1.2,
+  minCutHeight: 0.1,
+  maxCutHeight: 10,
+  // Geometry down to this far below the storey level is drawn, e.g. the floor slab (m)
+  viewDepth: 0.1,
+  // Elements below the cut are drawn in this colour
+  belowColor: '#d1d5db',
+  cutColor: '#111827',
+  cutFillColor: '#6b7280',
+  // Cut line width on screen (px)
+  cutLineWidth: 3,
+  // SVG export: drawing scale (1:n), cut line width on paper (mm) and margin (m)
+  svgScale: 100,
+  svgLineWidth: 0.5,
+  svgMargin: 1,
+  // SVG export of the geometry below the cut: edges between faces at more than this
+  // angle (degrees), in a grey dark enough to print, with a line width on paper (mm)
+  svgEdgeAngle: 30,
+  svgBelowColor: '#9ca3af',
+  svgBelowLineWidth: 0.18,
+  // Elements whose geometry is read at once for the SVG export
+  svgBatchSize: 1000,
+};
+
+/**
+ * Render styles: changes to the models' materials and whether feature edges are drawn
+ */
+export const RENDER_STYLES: Record<
+  RenderStyle,
+  { label: string; edges: boolean; material: RenderStyleMaterial }
+> = {
+  shaded: { label: 'Shaded', edges: false, material: {} },
+  'shaded-edges': {
+    label: 'Shaded with edges',
+    edges: true,
+    material: { polygonOffset: true, polygonOffsetFactor: 1, polygonOffsetUnits: 1 },
+  },
+  'hidden-line': {
+    label: 'Hidden line',
+    edges: true,
+    material: {
+      color: '#ffffff',
+      emissive: '#ffffff',
+      polygonOffset: true,
+      polygonOffsetFactor: 1,
+      polygonOffsetUnits: 1,
+    },
+  },
+  wireframe: { label: 'Wireframe', edges: false, material: { wireframe: true } },
+  xray: {
+    label: 'X-ray',
+    edges: false,
+    material: { transparent: true, opacity: 0.15, depthWrite: false },
+  },
+  clay: { label: 'Clay', edges: false, material: { color: '#d6d3d1' } },
+};
+
+/**
+ * Feature edges and selection outline
+ */
+export const RENDER_STYLE_CONFIG = {
+  // Limits of the edge angle (degrees)
+  minEdgeAngle: 1,
+  maxEdgeAngle: 90,
+  edgeColor: '#1f2937',
+  // Selection outline width on screen (px); the outline is drawn over everything
+  outlineWidth: 3,
+  // Larger selections are not outlined, so selecting stays responsive
+  maxOutlined: 200,
+};
+
+/**
+ * Display settings remembered between sessions
+ */
+export const PREFERENCES_CONFIG = {
+  storageKey: 'space-modeller.preferences',
+  defaults: {
+    renderStyle: 'shaded',
+    edgeAngle: 30,
+    selectionOutline: true,
+  } satisfies ViewerPreferences,
+};
+
+/**
+ * Lighting presets
+ * Directions point from the models towards the light (Y up, north along -Z)
+ */
+export const LIGHTING_PRESETS: Record<LightingPreset, LightingPresetSettings> = {
+  studio: {
+    label: 'Studio',
+    key: { color: '#ffffff', intensity: 1, direction: { x: 10, y: 10, z: 5 } },
+    fill: { color: '#ffffff', intensity: 0.6, direction: { x: -10, y: 10, z: -5 } },
+    environment: { sky: '#ffffff', horizon: '#d4d4d4', ground: '#444444', intensity: 0.4 },
+    shadows: false,
+  },
+  daylight: {
+    label: 'Daylight',
+    key: { color: '#fff4e5', intensity: 3, direction: 'sun' },
+    fill: { color: '#cfe0ff', intensity: 0.2, direction: { x: -5, y: 10, z: 10 } },
+    environment: { sky: '#7fa9d9', horizon: '#dce6ef', ground: '#6b6459', intensity: 0.5 },
+    shadows: true,
+  },
+  night: {
+    label: 'Night',
+    key: { color: '#a8b8ff', intensity: 0.4, direction: { x: -5, y: 10, z: 8 } },
+    fill: { color: '#ffcf8a', intensity: 0.1, direction: { x: 5, y: 2, z: -5 } },
+    environment: { sky: '#0d1833', horizon: '#1f2942', ground: '#0a0a0f', intensity: 0.3 },
+    shadows: false,
+  },
+};
+
+/**
+ * Sun position and shadows
+ */
+export const LIGHTING_CONFIG = {
+  defaultPreset: 'studio' as LightingPreset,
+  // Used until a model with a geo-referenced site is loaded (Greenwich)
+  defaultLocation: { latitude: 51.48, longitude: 0 },
+  // Clock time at the site the sun is placed for (minutes since midnight)
+  defaultSunTime: 14 * 60,
+  // The sun dims to nothing as it sets below this altitude (degrees), and the sky with it
+  // down to this share of its light
+  sunFadeAltitude: 6,
+  nightSky: 0.2,
+  // Shadow cascades: count, map size (px) and biases against shadow acne
+  cascades: 3,
+  shadowMapSize: 2048,
+  shadowBias: -0.0001,
+  shadowNormalBias: 0.02,
+  // Size of the procedural environment image (px, 2:1)
+  environmentWidth: 64,
+};
+
+/**
+ * Post-processing effects: label and whether the effect is on by default
+ */
+export const POST_EFFECTS: Record<PostEffect, { label: string; enabled: boolean }> = {
+  ssao: { label: 'Ambient occlusion', enabled: true },
+  outline: { label: 'Outline', enabled: false },
+  antialiasing: { label: 'Antialiasing', enabled: true },
+};
+
+/**
+ * Human-readable labels for tone mappings
+ */
+export const TONE_MAPPING_LABELS: Record<ToneMappingMode, string> = {
+  none: 'None',
+  linear: 'Linear',
+  reinhard: 'Reinhard',
+  cineon: 'Cineon',
+  aces: 'ACES Filmic',
+  agx: 'AgX',
+  neutral: 'Neutral',
+};
+
+/**
+ * Post-processing configuration
+ */
+export const POST_PROCESSING_CONFIG = {
+  // Antialiasing pass, offered when RENDERER_CONFIG.antialias is off; with it on the
+  // effects are rendered multisampled instead
+  antialiasing: 'smaa' as 'fxaa' | 'smaa',
+  samples: 4,
+  // Effects pause while the camera moves, and come back once it has been still this long (ms)
+  settleDelay: 200,
+  toneMapping: 'aces' as ToneMappingMode,
+  // Exposure limits and default
+  minExposure: 0.1,
+  maxExposure: 4,
+  exposure: 1,
+  // Ambient occlusion: sampling radius and range of occluding depth differences (m)
+  ssaoRadius: 0.5,
+  ssaoMinDistance: 0.005,
+  ssaoMaxDistance: 0.5,
+  outlineColor: '#ffffff',
+  outlineStrength: 2,
+  outlineThickness: 1,
+};
+
+/**
+ * On-demand render loop configuration
+ */
+export const RENDER_LOOP_CONFIG = {
+  // How often the debug overlay's frame counts are updated (ms)
+  statsInterval: 500,
+};
+
+/**
+ * Human-readable labels for screenshot image formats
+ */
+export const IMAGE_FORMAT_LABELS: Record<ImageFormat, string> = {
+  png: 'PNG',
+  jpeg: 'JPEG',
+};
+
+/**
+ * Screenshot configuration
+ */
+export const SCREENSHOT_CONFIG = {
+  // Default image size as a multiple of the view size
+  scale: 2,
+  // Largest image side (px); larger canvases fail or exhaust memory in browsers
+  maxSize: 8192,
+  // Images are rendered in tiles of at most this size (px), then stitched
+  tileSize: 2048,
+  samples: 4,
+  jpegQuality: 0.92,
+  // Overlay sizes (px) for a 1000 px image, scaled with the shorter image side
+  titleSize: 28,
+  textSize: 16,
+  margin: 24,
+  // Longest scale bar, as a share of the image width
+  scaleBarWidth: 0.25,
+  overlayColor: '#ffffff',
+  overlayBackground: 'rgba(20, 20, 30, 0.8)',
+};
+
+/**
+ * Human-readable labels for glTF export scopes
+ */
+export const GLTF_EXPORT_SCOPE_LABELS: Record<GltfExportScope, string> = {
+  scene: 'Scene',
+  model: 'Model',
+  selection: 'Selection',
+};
+
+/**
+ * glTF export configuration
+ */
+export const GLTF_EXPORT_CONFIG = {
+  // Elements whose geometry is read from the fragments worker at once
+  batchSize: 1000,
+  // Colour of parts whose material is unknown
+  defaultColor: '#cccccc',
+};
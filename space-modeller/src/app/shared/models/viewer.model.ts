@@ -1,3 +1,6 @@
+import type * as THREE from 'three';
+import type { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+
 /**
  * Configuration interface for the IFC viewer
  */
@@ -14,8 +17,35 @@ export interface ViewerConfig {
   showGrid: boolean;
   /** Whether to show stats panel */
   showStats: boolean;
+  /** Whether to show the render loop's frame counts */
+  showRenderDebug: boolean;
 }
 
+/**
+ * Model file formats the viewer can import
+ * - ifc: converted to fragments with web-ifc
+ * - frag: previously exported fragments, loaded directly
+ */
+export type ModelFileType = 'ifc' | 'frag';
+
+/**
+ * Stages reported while an IFC file is loaded
+ * - queued: waiting for earlier files in the import queue
+ * - reading: reading the file from disk
+ * - parsing: opening the IFC with web-ifc
+ * - geometry: converting IFC geometry
+ * - building: serializing properties and building the fragments model
+ * - done: the model is in the scene
+ */
+export type LoadStage = 'queued' | 'reading' | 'parsing' | 'geometry' | 'building' | 'done';
+
+/**
+ * Progress callback for model loading
+ * @param progress Overall progress (0-100)
+ * @param stage Stage the load is currently in
+ */
+export type LoadProgressCallback = (progress: number, stage: LoadStage) => void;
+
 /**
  * Model state for loaded IFC files
  */
@@ -28,9 +58,659 @@ export interface ModelState {
   loading: boolean;
   /** Loading progress (0-100) */
   progress: number;
+  /** Current loading stage */
+  stage?: LoadStage;
   /** Fragment UUID if loaded */
   fragmentUuid?: string;
+  /** Whether the model is shown in the scene */
+  visible: boolean;
   /** Any error that occurred */
   error?: string;
 }
 
+
+/**
+ * Metadata of a converted model stored in the local fragment cache
+ */
+export interface FragmentCacheEntry {
+  /** SHA-256 of the source IFC content (hex) */
+  hash: string;
+  /** Model name when it was cached */
+  name: string;
+  /** Size of the cached fragment data in bytes */
+  size: number;
+  /** Size of the source IFC file in bytes */
+  sourceSize: number;
+  /** When the entry was stored (epoch ms) */
+  createdAt: number;
+  /** When the entry was last loaded (epoch ms) */
+  lastAccessedAt: number;
+}
+
+/**
+ * A file rejected before it entered the import queue
+ */
+export interface ImportError {
+  /** Name (or relative path) of the rejected file */
+  fileName: string;
+  /** Why the file was rejected */
+  message: string;
+}
+
+/**
+ * Reference to a single IFC element within a loaded fragments model
+ */
+export interface ModelElement {
+  /** Fragments model ID (ModelState.fragmentUuid) */
+  modelId: string;
+  /** Local ID of the element within the model */
+  localId: number;
+}
+
+/**
+ * Result of picking an element under the pointer
+ */
+export interface PickResult extends ModelElement {
+  /** Hit point in world coordinates */
+  point: Vector3Like;
+  /** Surface normal at the hit point, when the raycast reports one */
+  normal?: Vector3Like;
+  /** Distance from the camera to the hit point */
+  distance: number;
+}
+
+/**
+ * A point or direction in world coordinates
+ */
+export interface Vector3Like {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * How a picked element combines with the current selection
+ * - replace: select only this element
+ * - toggle: add it, or remove it if already selected (Ctrl/Cmd)
+ * - add: add it to the selection (Shift)
+ */
+export type SelectionMode = 'replace' | 'toggle' | 'add';
+
+/**
+ * Colours used to highlight hovered and selected elements
+ */
+export interface HighlightColors {
+  /** Colour of selected elements (CSS colour string) */
+  selection: string;
+  /** Colour of the element under the pointer (CSS colour string) */
+  hover: string;
+  /** Highlight opacity (0-1) */
+  opacity: number;
+}
+
+/**
+ * A single named value of an IFC element (attribute, property or quantity)
+ */
+export interface ElementProperty {
+  /** Attribute, property or quantity name */
+  name: string;
+  /** Value; null when the IFC value is unset */
+  value: string | number | boolean | null;
+  /** IFC value type (e.g. IFCLABEL, IFCLENGTHMEASURE) when known */
+  type?: string;
+}
+
+/**
+ * A property set (IfcPropertySet) or quantity set (IfcElementQuantity)
+ */
+export interface PropertySet {
+  /** Set name (e.g. Pset_WallCommon) */
+  name: string;
+  /** Properties or quantities in the set */
+  properties: ElementProperty[];
+}
+
+/**
+ * IFC metadata of a single element
+ */
+export interface ElementProperties extends ModelElement {
+  /** IFC class (e.g. IFCWALL) */
+  ifcClass: string;
+  /** IFC GlobalId */
+  globalId: string | null;
+  /** Element Name attribute */
+  name: string | null;
+  /** Direct attributes of the element */
+  attributes: ElementProperty[];
+  /** Property sets defined for the element */
+  propertySets: PropertySet[];
+  /** Quantity sets defined for the element */
+  quantitySets: PropertySet[];
+}
+
+/**
+ * Node of a model's IFC spatial structure (Project / Site / Building / Storey / Space)
+ * Elements contained in a spatial node are grouped by IFC class below it
+ */
+export interface SpatialNode {
+  /** Key unique within the viewer */
+  key: string;
+  /** Fragments model ID */
+  modelId: string;
+  /** Local ID of the item; null for IFC class groups */
+  localId: number | null;
+  /** IFC class (e.g. IFCBUILDINGSTOREY); null for contained elements */
+  category: string | null;
+  /** Display name */
+  name: string;
+  /** Number of elements below this node */
+  elementCount: number;
+  /** Child nodes */
+  children: SpatialNode[];
+}
+
+/**
+ * Visibility of a tree node: all, none or some of its elements visible
+ */
+export type NodeVisibility = 'visible' | 'hidden' | 'mixed';
+
+/**
+ * Scene objects the viewer shares with tools that draw into it or handle input on it
+ */
+export interface ViewerContext {
+  scene: THREE.Scene;
+  renderer: THREE.WebGLRenderer;
+  controls: OrbitControls;
+  canvas: HTMLCanvasElement;
+  /** Camera currently used for rendering */
+  getCamera(): THREE.PerspectiveCamera | THREE.OrthographicCamera;
+}
+
+/**
+ * Origin of a clipping plane
+ * - plane: a free section plane added by the user
+ * - box: one of the six faces of the section box
+ */
+export type ClippingPlaneKind = 'plane' | 'box';
+
+/**
+ * A clipping plane; geometry on the side the normal points away from is cut
+ */
+export interface ClippingPlaneState {
+  /** Unique plane ID */
+  id: string;
+  kind: ClippingPlaneKind;
+  /** Display label */
+  label: string;
+  /** Unit normal pointing towards the kept geometry */
+  normal: Vector3Like;
+  /** Plane constant as in THREE.Plane (normal . point + constant = 0) */
+  constant: number;
+}
+
+/**
+ * Measurement tools
+ * - distance: between two points
+ * - polyline: length of a chain of points
+ * - area: area of a closed polygon
+ * - angle: angle at the second of three points
+ * - elevation: height of a point above a storey level
+ */
+export type MeasurementKind = 'distance' | 'polyline' | 'area' | 'angle' | 'elevation';
+
+/**
+ * What a measured point snapped to
+ */
+export type SnapKind = 'vertex' | 'edge' | 'face';
+
+/**
+ * A picked point, snapped to nearby geometry
+ */
+export interface SnapResult extends PickResult {
+  snap: SnapKind;
+}
+
+/**
+ * Level of a building storey
+ */
+export interface StoreyLevel extends ModelElement {
+  /** Storey name */
+  name: string;
+  /** Height of the storey level in world coordinates */
+  elevation: number;
+}
+
+/**
+ * A finished measurement
+ */
+export interface Measurement {
+  /** Unique measurement ID */
+  id: string;
+  kind: MeasurementKind;
+  /** Measured points in world coordinates */
+  points: Vector3Like[];
+  /** Metres, square metres or degrees depending on the kind */
+  value: number;
+  /** Formatted value as shown in the annotation */
+  label: string;
+  /** Storey an elevation is measured from; absent for absolute elevations */
+  reference?: Pick<StoreyLevel, 'name' | 'elevation'>;
+}
+
+/**
+ * Local IDs of elements, grouped by model ID
+ */
+export type ElementSets = ReadonlyMap<string, ReadonlySet<number>>;
+
+/**
+ * Hidden and ghosted elements of all models
+ */
+export interface VisibilityState {
+  /** Elements that are not rendered */
+  hidden: ElementSets;
+  /** Elements rendered semi-transparent */
+  ghosted: ElementSets;
+}
+
+/**
+ * Visibility operations offered in the context menu and as shortcuts
+ * Category commands apply to the IFC classes of the selected elements
+ */
+export type VisibilityCommand =
+  | 'hide'
+  | 'isolate'
+  | 'ghost'
+  | 'hideCategory'
+  | 'isolateCategory'
+  | 'showAll'
+  | 'undo';
+
+/**
+ * How elements are grouped in the filter panel
+ */
+export type ClassificationKind = 'class' | 'storey' | 'material';
+
+/**
+ * Trade an IFC class belongs to
+ */
+export type Discipline = 'architecture' | 'structure' | 'mep' | 'other';
+
+/**
+ * Elements of all models sharing an IFC class, storey or material
+ */
+export interface ClassificationGroup {
+  /** Upper-case IFC class, storey name or material name; empty for unassigned elements */
+  key: string;
+  /** Display name */
+  name: string;
+  /** Discipline of an IFC class group */
+  discipline?: Discipline;
+  /** Elements of the group by model ID */
+  elements: ElementSets;
+  /** Number of elements */
+  count: number;
+}
+
+/**
+ * Comparison operators of the element query language (~ means "contains")
+ */
+export type QueryOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | '~';
+
+/**
+ * Literal value in an element query
+ */
+export type QueryValue = string | number | boolean;
+
+/**
+ * Condition of an element query (the part after "where")
+ */
+export type QueryCondition =
+  | {
+      kind: 'compare';
+      /** Attribute (["Name"]), property (["Pset_WallCommon", "IsExternal"]) or class / storey / material */
+      field: string[];
+      operator: QueryOperator;
+      value: QueryValue;
+    }
+  | { kind: 'and' | 'or'; conditions: QueryCondition[] }
+  | { kind: 'not'; condition: QueryCondition };
+
+/**
+ * Parsed element query, e.g. `IfcWall where Pset_WallCommon.IsExternal = true`
+ */
+export interface ElementQuery {
+  /** Upper-case IFC classes to search; empty for all classes */
+  classes: string[];
+  /** Condition the elements must meet; null to match every element of the classes */
+  condition: QueryCondition | null;
+}
+
+/**
+ * Syntax error in an element query
+ */
+export interface QueryError {
+  message: string;
+  /** Offset in the query text where the problem starts */
+  position: number;
+}
+
+/**
+ * Result of parsing a search; both are null for an empty search
+ */
+export interface QueryParseResult {
+  query: ElementQuery | null;
+  error: QueryError | null;
+}
+
+/**
+ * How a thematic legend maps values to colours
+ * Categorical: one colour per value; graduated: numeric ranges on a colour ramp
+ */
+export type LegendKind = 'categorical' | 'graduated';
+
+/**
+ * Value (or range of values) in a thematic legend
+ */
+export interface LegendEntry {
+  /** Value, range ("2.5 – 5") or "No value" */
+  label: string;
+  /** CSS colour the elements are painted in */
+  color: string;
+  /** Elements of the entry by model ID */
+  elements: ElementSets;
+  /** Number of elements */
+  count: number;
+}
+
+/**
+ * Legend of elements coloured by an attribute or property
+ */
+export interface ThematicLegend {
+  /** Field the elements are coloured by (e.g. Pset_WallCommon.FireRating) */
+  title: string;
+  kind: LegendKind;
+  entries: LegendEntry[];
+}
+
+/**
+ * Camera projection
+ */
+export type CameraProjection = 'perspective' | 'orthographic';
+
+/**
+ * How the camera is steered
+ * - orbit: around a target with the mouse
+ * - walk: first person at eye height, held on the floor and stopped by walls
+ * - fly: first person, free in all directions and through geometry
+ */
+export type NavigationMode = 'orbit' | 'walk' | 'fly';
+
+/**
+ * Movement keys held in first-person navigation; each axis is -1, 0 or 1
+ */
+export interface MoveInput {
+  forward: number;
+  right: number;
+  up: number;
+  run: boolean;
+}
+
+/**
+ * Nearest geometry found in a direction
+ */
+export interface Obstacle {
+  /** Unit direction looked in */
+  direction: Vector3Like;
+  distance: number;
+}
+
+/**
+ * Standard camera views offered by the navigation cube
+ */
+export type ViewPreset = 'top' | 'bottom' | 'front' | 'back' | 'left' | 'right' | 'isometric';
+
+/**
+ * Camera placement
+ * For orthographic views the position is where a perspective camera would
+ * show the same framing, so a pose can be restored in either projection
+ */
+export interface CameraPose {
+  position: Vector3Like;
+  /** Orbit centre (controls.target) */
+  target: Vector3Like;
+  projection: CameraProjection;
+}
+
+/**
+ * Hidden and ghosted local IDs of one model in a saved viewpoint
+ */
+export interface SavedVisibility {
+  /** Model name, to find the model when it is loaded under another ID */
+  name: string;
+  hidden: number[];
+  ghosted: number[];
+}
+
+/**
+ * Named view: camera, section planes and visibility
+ * Stored as JSON; models are referred to by ID, with their name for when the
+ * IDs change between sessions
+ */
+export interface Viewpoint {
+  id: string;
+  name: string;
+  camera: CameraPose;
+  /** Section planes and section box faces */
+  clippingPlanes: Omit<ClippingPlaneState, 'id'>[];
+  /** Visibility by model ID; models not listed are shown in full */
+  visibility: Record<string, SavedVisibility>;
+}
+
+/**
+ * Horizontal cut through the models seen from above, as x and z pairs
+ * of world coordinates
+ */
+export interface PlanSection {
+  /** Cut outlines, two points per segment */
+  lines: number[];
+  /** Cut surfaces, three points per triangle */
+  fills: number[];
+}
+
+/**
+ * Look of the models
+ * - shaded: the models' own materials
+ * - shaded-edges: own materials with feature edges
+ * - hidden-line: white faces with feature edges, hiding the edges behind them
+ * - wireframe: every triangle edge
+ * - xray: see-through faces, leaving selected and coloured elements solid
+ * - clay: one plain colour for everything
+ */
+export type RenderStyle = 'shaded' | 'shaded-edges' | 'hidden-line' | 'wireframe' | 'xray' | 'clay';
+
+/**
+ * Changes a render style makes to the models' materials; unset properties are left as loaded
+ */
+export interface RenderStyleMaterial {
+  /** Diffuse colour (CSS colour string) */
+  color?: string;
+  /** Emissive colour (CSS colour string) */
+  emissive?: string;
+  wireframe?: boolean;
+  transparent?: boolean;
+  opacity?: number;
+  depthWrite?: boolean;
+  /** Push faces back so the edges drawn on them are not hidden */
+  polygonOffset?: boolean;
+  polygonOffsetFactor?: number;
+  polygonOffsetUnits?: number;
+}
+
+/**
+ * Edges where the faces of a mesh meet at a sharp angle, or where a surface ends
+ */
+export interface FeatureEdges {
+  /** Segment end points, six coordinates per edge */
+  positions: Float32Array;
+  /** Index offset of the triangle each edge belongs to, in ascending order */
+  triangles: Uint32Array;
+}
+
+/**
+ * Triangles of one element in world coordinates
+ */
+export interface ElementGeometry extends ModelElement {
+  geometry: THREE.BufferGeometry;
+  /** Geometry sample the part comes from, which decides its material */
+  sampleId?: number;
+}
+
+/**
+ * Original appearance of an element part
+ */
+export interface PartMaterial {
+  /** CSS colour (#rrggbb) */
+  color: string;
+  /** Opacity (0-1) */
+  opacity: number;
+  /** Whether back faces are drawn too */
+  doubleSided: boolean;
+}
+
+/**
+ * Display settings remembered between sessions
+ */
+export interface ViewerPreferences {
+  renderStyle: RenderStyle;
+  /** Minimum angle between faces for an edge to be drawn (degrees) */
+  edgeAngle: number;
+  /** Whether selected elements are outlined */
+  selectionOutline: boolean;
+}
+
+/**
+ * Lighting presets
+ * - studio: even light from fixed directions
+ * - daylight: sunlight for the date, time and location of the model
+ * - night: dim moonlight
+ */
+export type LightingPreset = 'studio' | 'daylight' | 'night';
+
+/**
+ * Lights of a lighting preset
+ */
+export interface LightingPresetSettings {
+  label: string;
+  /** Main light, casting the shadows; 'sun' follows the sun position */
+  key: { color: string; intensity: number; direction: Vector3Like | 'sun' };
+  /** Light from the other side, softening the shade */
+  fill: { color: string; intensity: number; direction: Vector3Like };
+  /** Colours of the procedural environment lighting the models from all around */
+  environment: { sky: string; horizon: string; ground: string; intensity: number };
+  /** Whether shadows are on when the preset is chosen */
+  shadows: boolean;
+}
+
+/**
+ * Geographic location (degrees, north and east positive)
+ */
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Position of the sun in the sky (degrees)
+ */
+export interface SunPosition {
+  /** Compass bearing, clockwise from north */
+  azimuth: number;
+  /** Height above the horizon; negative at night */
+  altitude: number;
+}
+
+/**
+ * Post-processing effects
+ * - ssao: screen-space ambient occlusion, darkening creases and corners
+ * - outline: outline around the models' silhouettes
+ * - antialiasing: smoothing of jagged edges, when the renderer does not antialias itself
+ */
+export type PostEffect = 'ssao' | 'outline' | 'antialiasing';
+
+/**
+ * Tone mapping of the rendered image to the screen
+ */
+export type ToneMappingMode =
+  | 'none'
+  | 'linear'
+  | 'reinhard'
+  | 'cineon'
+  | 'aces'
+  | 'agx'
+  | 'neutral';
+
+/**
+ * Frame counts of the on-demand render loop, for the debug overlay
+ */
+export interface RenderLoopStats {
+  /** Frames drawn since the loop started */
+  rendered: number;
+  /** Display refreshes without a frame, counted while the overlay is shown */
+  skipped: number;
+  /** Frames drawn per second, over the last update of the stats */
+  fps: number;
+  /** Time taken by the last frame (ms) */
+  frameTime: number;
+}
+
+/**
+ * Image file format of a screenshot
+ */
+export type ImageFormat = 'png' | 'jpeg';
+
+/**
+ * What a screenshot shows and how it is saved
+ */
+export interface ScreenshotOptions {
+  /** Image size in pixels; the view is widened or narrowed to its proportions */
+  width: number;
+  height: number;
+  format: ImageFormat;
+  /** Leave the background out; PNG only */
+  transparent: boolean;
+  /** Title written in the top-left corner; empty for none */
+  title: string;
+  /** Whether to draw the colour legend, when elements are coloured by a field */
+  legend: boolean;
+  /** Whether to draw a scale bar, sized at the orbit target */
+  scaleBar: boolean;
+}
+
+/**
+ * Part of an image rendered on its own (pixels, from the top-left corner)
+ */
+export interface ImageTile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Scale bar of a round length
+ */
+export interface ScaleBar {
+  /** Length in metres */
+  length: number;
+  /** Length in image pixels */
+  pixels: number;
+  label: string;
+}
+
+/**
+ * What a glTF export holds
+ * - scene: every visible model
+ * - model: one model
+ * - selection: the selected elements
+ */
+export type GltfExportScope = 'scene' | 'model' | 'selection';
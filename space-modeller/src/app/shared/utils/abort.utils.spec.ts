@@ -0,0 +1,58 @@
+import { abortable, createAbortError, isAbortError } from './abort.utils';
+
+describe('abort utils', () => {
+  describe('isAbortError', () => {
+    it('should recognise AbortError exceptions', () => {
+      expect(isAbortError(createAbortError())).toBeTrue();
+    });
+
+    it('should ignore other errors', () => {
+      expect(isAbortError(new Error('boom'))).toBeFalse();
+      expect(isAbortError(new DOMException('boom', 'NotFoundError'))).toBeFalse();
+      expect(isAbortError(undefined)).toBeFalse();
+    });
+  });
+
+  describe('abortable', () => {
+    it('should pass through when no signal is given', async () => {
+      await expectAsync(abortable(Promise.resolve(42), undefined)).toBeResolvedTo(42);
+    });
+
+    it('should resolve with the original value when not aborted', async () => {
+      const controller = new AbortController();
+
+      await expectAsync(abortable(Promise.resolve('ok'), controller.signal)).toBeResolvedTo('ok');
+    });
+
+    it('should forward rejections of the original promise', async () => {
+      const controller = new AbortController();
+
+      await expectAsync(
+        abortable(Promise.reject(new Error('Load failed')), controller.signal)
+      ).toBeRejectedWithError('Load failed');
+    });
+
+    it('should reject as soon as the signal aborts', async () => {
+      const controller = new AbortController();
+      const pending = new Promise<string>(() => undefined);
+      const onAbort = jasmine.createSpy('onAbort');
+
+      const result = abortable(pending, controller.signal, onAbort);
+      controller.abort();
+
+      await expectAsync(result).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }));
+      expect(onAbort).toHaveBeenCalledWith(pending);
+    });
+
+    it('should reject immediately for an already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const onAbort = jasmine.createSpy('onAbort');
+
+      await expectAsync(
+        abortable(Promise.resolve(1), controller.signal, onAbort)
+      ).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }));
+      expect(onAbort).toHaveBeenCalled();
+    });
+  });
+});
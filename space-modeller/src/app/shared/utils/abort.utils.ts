@@ -0,0 +1,54 @@
+/**
+ * Check whether an error was raised by an aborted operation
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Create the error used to reject aborted operations
+ */
+export function createAbortError(message = 'The operation was aborted'): DOMException {
+  return new DOMException(message, 'AbortError');
+}
+
+/**
+ * Race a promise against an AbortSignal
+ * The returned promise rejects with an AbortError as soon as the signal fires.
+ * The original promise keeps running; `onAbort` receives it so callers can
+ * dispose whatever it eventually produces.
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  onAbort?: (pending: Promise<T>) => void
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    onAbort?.(promise);
+    return Promise.reject(createAbortError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = () => {
+      onAbort?.(promise);
+      reject(createAbortError());
+    };
+
+    signal.addEventListener('abort', handleAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', handleAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener('abort', handleAbort);
+        reject(error);
+      }
+    );
+  });
+}
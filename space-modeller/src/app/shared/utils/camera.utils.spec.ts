@@ -0,0 +1,35 @@
+import { getClippingRange, getFitDistance } from './camera.utils';
+import { CAMERA_CONFIG } from '../constants/viewer.constants';
+
+describe('camera.utils', () => {
+  describe('getFitDistance', () => {
+    it('should fit the sphere in the vertical field of view of a wide view', () => {
+      // sin(30°) = 0.5
+      expect(getFitDistance(5, 60, 2)).toBeCloseTo(10 * CAMERA_CONFIG.fitPadding);
+    });
+
+    it('should back off further for a narrow view', () => {
+      expect(getFitDistance(5, 60, 0.5)).toBeGreaterThan(getFitDistance(5, 60, 2));
+    });
+  });
+
+  describe('getClippingRange', () => {
+    it('should widen planes that would clip the geometry', () => {
+      expect(getClippingRange(2000, 500, { near: 0.1, far: 1000 })).toEqual({
+        near: 20,
+        far: 5000,
+      });
+    });
+
+    it('should bring the near plane closer for small geometry', () => {
+      expect(getClippingRange(3, 1, { near: 20, far: 5000 })).toEqual({
+        near: CAMERA_CONFIG.near,
+        far: CAMERA_CONFIG.far,
+      });
+    });
+
+    it('should keep planes that already suit', () => {
+      expect(getClippingRange(50, 10, { near: 0.1, far: 1000 })).toBeNull();
+    });
+  });
+});
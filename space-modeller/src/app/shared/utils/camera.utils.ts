@@ -0,0 +1,32 @@
+import { CAMERA_CONFIG } from '../constants/viewer.constants';
+
+/**
+ * Distance from its centre at which a sphere fits a perspective view
+ * The narrower of the vertical and horizontal field of view decides
+ * @param radius Radius of the sphere
+ * @param fov Vertical field of view in degrees
+ * @param aspect Width / height of the view
+ */
+export function getFitDistance(radius: number, fov: number, aspect: number): number {
+  const halfVertical = (fov * Math.PI) / 360;
+  const halfHorizontal = Math.atan(Math.tan(halfVertical) * aspect);
+  const halfAngle = Math.min(halfVertical, halfHorizontal);
+  return (radius / Math.sin(halfAngle)) * CAMERA_CONFIG.fitPadding;
+}
+
+/**
+ * Near and far planes for looking at geometry of a size from a distance
+ * @param distance Distance from the camera to the centre of the geometry
+ * @param size Largest dimension of the geometry
+ * @param current Current planes
+ * @returns New planes, or null when the current ones already suit
+ */
+export function getClippingRange(
+  distance: number,
+  size: number,
+  current: { near: number; far: number }
+): { near: number; far: number } | null {
+  const near = Math.max(CAMERA_CONFIG.near, distance / 100);
+  const far = Math.max(CAMERA_CONFIG.far, (distance + size) * 2);
+  return current.near > near || current.far < far ? { near, far } : null;
+}
@@ -0,0 +1,115 @@
+import {
+  getDiscipline,
+  getGroupVisibility,
+  groupByDiscipline,
+  mergeGroups,
+} from './classification.utils';
+
+describe('classification.utils', () => {
+  describe('getDiscipline', () => {
+    it('should look up common IFC classes in any case', () => {
+      expect(getDiscipline('IFCWALL')).toBe('architecture');
+      expect(getDiscipline('IfcColumn')).toBe('structure');
+      expect(getDiscipline('IFCDUCTSEGMENT')).toBe('mep');
+    });
+
+    it('should treat distribution and flow classes as MEP', () => {
+      expect(getDiscipline('IFCFLOWTERMINAL')).toBe('mep');
+      expect(getDiscipline('IFCDISTRIBUTIONCONTROLELEMENT')).toBe('mep');
+    });
+
+    it('should put unknown classes under Other', () => {
+      expect(getDiscipline('IFCBUILDINGELEMENTPROXY')).toBe('other');
+    });
+  });
+
+  describe('mergeGroups', () => {
+    it('should merge groups with the same key across models', () => {
+      const groups = mergeGroups([
+        { key: 'Level 2', name: 'Level 2', modelId: 'arch', localIds: [1, 2] },
+        { key: 'Level 2', name: 'Level 2', modelId: 'mep', localIds: [7] },
+        { key: 'Level 1', name: 'Level 1', modelId: 'arch', localIds: [3] },
+      ]);
+
+      expect(groups.map((group) => [group.name, group.count])).toEqual([
+        ['Level 1', 1],
+        ['Level 2', 3],
+      ]);
+      expect([...groups[1]!.elements.keys()]).toEqual(['arch', 'mep']);
+    });
+
+    it('should sort by name with numbers in order and unassigned last', () => {
+      const groups = mergeGroups([
+        { key: '', name: 'No storey', modelId: 'arch', localIds: [9] },
+        { key: 'Level 10', name: 'Level 10', modelId: 'arch', localIds: [1] },
+        { key: 'Level 2', name: 'Level 2', modelId: 'arch', localIds: [2] },
+      ]);
+
+      expect(groups.map((group) => group.name)).toEqual(['Level 2', 'Level 10', 'No storey']);
+    });
+
+    it('should keep the discipline and drop empty groups', () => {
+      const groups = mergeGroups([
+        {
+          key: 'IFCWALL',
+          name: 'IfcWall',
+          discipline: 'architecture',
+          modelId: 'arch',
+          localIds: [1],
+        },
+        { key: 'IFCBEAM', name: 'IfcBeam', discipline: 'structure', modelId: 'arch', localIds: [] },
+      ]);
+
+      expect(groups.length).toBe(1);
+      expect(groups[0]!.discipline).toBe('architecture');
+    });
+  });
+
+  describe('groupByDiscipline', () => {
+    it('should arrange groups by discipline in panel order', () => {
+      const sections = groupByDiscipline([
+        {
+          key: 'IFCDUCTSEGMENT',
+          name: 'IfcDuctSegment',
+          discipline: 'mep',
+          elements: new Map([['mep', new Set([7])]]),
+          count: 1,
+        },
+        {
+          key: 'IFCWALL',
+          name: 'IfcWall',
+          discipline: 'architecture',
+          elements: new Map([['arch', new Set([1, 2])]]),
+          count: 2,
+        },
+        {
+          key: 'IFCDOOR',
+          name: 'IfcDoor',
+          discipline: 'architecture',
+          elements: new Map([
+            ['arch', new Set([3])],
+            ['mep', new Set([8])],
+          ]),
+          count: 2,
+        },
+      ]);
+
+      expect(sections.map((section) => [section.name, section.count])).toEqual([
+        ['Architecture', 4],
+        ['MEP', 1],
+      ]);
+      expect(sections[0]!.elements.get('arch')).toEqual(new Set([1, 2, 3]));
+      expect(sections[0]!.elements.get('mep')).toEqual(new Set([8]));
+    });
+  });
+
+  describe('getGroupVisibility', () => {
+    const elements = new Map([['arch', new Set([1, 2])]]);
+
+    it('should report visible, mixed and hidden groups', () => {
+      expect(getGroupVisibility(elements, new Map())).toBe('visible');
+      expect(getGroupVisibility(elements, new Map([['arch', new Set([2, 5])]]))).toBe('mixed');
+      expect(getGroupVisibility(elements, new Map([['arch', new Set([1, 2])]]))).toBe('hidden');
+    });
+  });
+});
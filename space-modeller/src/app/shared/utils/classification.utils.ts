@@ -0,0 +1,127 @@
+import { DISCIPLINE_LABELS, IFC_DISCIPLINES } from '../constants/viewer.constants';
+import {
+  ClassificationGroup,
+  Discipline,
+  ElementSets,
+  NodeVisibility,
+} from '../models/viewer.model';
+import { addElements } from './visibility.utils';
+
+/**
+ * Elements of one model that belong to a group
+ */
+export interface GroupEntry {
+  /** Group key (see ClassificationGroup.key) */
+  key: string;
+  /** Display name of the group */
+  name: string;
+  discipline?: Discipline;
+  modelId: string;
+  localIds: number[];
+}
+
+/**
+ * IFC class groups of one discipline
+ */
+export interface DisciplineGroup {
+  discipline: Discipline;
+  /** Display name */
+  name: string;
+  groups: ClassificationGroup[];
+  /** Elements of all its groups by model ID */
+  elements: ElementSets;
+  /** Number of elements */
+  count: number;
+}
+
+/**
+ * Discipline of an IFC class
+ * Unlisted distribution, flow and energy conversion classes count as MEP
+ */
+export function getDiscipline(category: string): Discipline {
+  const upper = category.toUpperCase();
+  const known = IFC_DISCIPLINES[upper];
+  if (known) {
+    return known;
+  }
+  return /^IFC(DISTRIBUTION|FLOW|ENERGYCONVERSION)/.test(upper) ? 'mep' : 'other';
+}
+
+/**
+ * Merge per-model entries into groups spanning all models
+ * Groups are sorted by name, with unassigned elements (empty key) last
+ */
+export function mergeGroups(entries: GroupEntry[]): ClassificationGroup[] {
+  const groups = new Map<string, { entry: GroupEntry; elements: Map<string, Set<number>> }>();
+  for (const entry of entries) {
+    const group = groups.get(entry.key) ?? { entry, elements: new Map<string, Set<number>>() };
+    const localIds = group.elements.get(entry.modelId) ?? new Set<number>();
+    entry.localIds.forEach((localId) => localIds.add(localId));
+    group.elements.set(entry.modelId, localIds);
+    groups.set(entry.key, group);
+  }
+
+  return [...groups.values()]
+    .map(({ entry, elements }) => {
+      let count = 0;
+      elements.forEach((localIds) => (count += localIds.size));
+      return {
+        key: entry.key,
+        name: entry.name,
+        ...(entry.discipline && { discipline: entry.discipline }),
+        elements,
+        count,
+      };
+    })
+    .filter((group) => group.count > 0)
+    .sort(
+      (a, b) =>
+        Number(a.key === '') - Number(b.key === '') ||
+        a.name.localeCompare(b.name, undefined, { numeric: true })
+    );
+}
+
+/**
+ * Arrange IFC class groups by discipline, in DISCIPLINE_LABELS order
+ * Disciplines without groups are left out
+ */
+export function groupByDiscipline(groups: ClassificationGroup[]): DisciplineGroup[] {
+  return (Object.entries(DISCIPLINE_LABELS) as [Discipline, string][])
+    .map(([discipline, name]) => {
+      const members = groups.filter((group) => (group.discipline ?? 'other') === discipline);
+      return {
+        discipline,
+        name,
+        groups: members,
+        elements: members.reduce<ElementSets>(
+          (elements, group) => addElements(elements, group.elements),
+          new Map()
+        ),
+        count: members.reduce((count, group) => count + group.count, 0),
+      };
+    })
+    .filter((section) => section.groups.length > 0);
+}
+
+/**
+ * Visibility of a group: all, none or some of its elements visible
+ * @param hidden Hidden elements by model ID
+ */
+export function getGroupVisibility(elements: ElementSets, hidden: ElementSets): NodeVisibility {
+  let total = 0;
+  let hiddenCount = 0;
+  elements.forEach((localIds, modelId) => {
+    const modelHidden = hidden.get(modelId);
+    total += localIds.size;
+    localIds.forEach((localId) => {
+      if (modelHidden?.has(localId)) {
+        hiddenCount++;
+      }
+    });
+  });
+
+  if (hiddenCount === 0) {
+    return 'visible';
+  }
+  return hiddenCount === total ? 'hidden' : 'mixed';
+}
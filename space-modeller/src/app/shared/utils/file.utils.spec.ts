@@ -0,0 +1,127 @@
+import {
+  collectDroppedFiles,
+  formatFileSize,
+  getModelFileType,
+  getModelName,
+  readFileWithProgress,
+  validateModelFile,
+} from './file.utils';
+
+describe('file utils', () => {
+  describe('readFileWithProgress', () => {
+    it('should read the full file contents', async () => {
+      const file = new File([new Uint8Array([1, 2, 3, 4])], 'model.ifc');
+
+      const result = await readFileWithProgress(file);
+
+      expect(Array.from(result)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should report progress ending at 1', async () => {
+      const file = new File([new Uint8Array(1024)], 'model.ifc');
+      const onProgress = jasmine.createSpy('onProgress');
+
+      await readFileWithProgress(file, onProgress);
+
+      expect(onProgress).toHaveBeenCalled();
+      expect(onProgress.calls.mostRecent().args[0]).toBe(1);
+    });
+
+    it('should handle empty files', async () => {
+      const file = new File([], 'empty.ifc');
+      const onProgress = jasmine.createSpy('onProgress');
+
+      const result = await readFileWithProgress(file, onProgress);
+
+      expect(result.length).toBe(0);
+      expect(onProgress).toHaveBeenCalledWith(1);
+    });
+
+    it('should reject when the signal is aborted', async () => {
+      const file = new File([new Uint8Array(16)], 'model.ifc');
+      const controller = new AbortController();
+      controller.abort();
+
+      await expectAsync(
+        readFileWithProgress(file, undefined, controller.signal)
+      ).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }));
+    });
+  });
+
+  describe('getModelFileType', () => {
+    it('should detect IFC and fragment files case-insensitively', () => {
+      expect(getModelFileType('tower.ifc')).toBe('ifc');
+      expect(getModelFileType('TOWER.IFC')).toBe('ifc');
+      expect(getModelFileType('tower.frag')).toBe('frag');
+    });
+
+    it('should return null for unsupported files', () => {
+      expect(getModelFileType('tower.txt')).toBeNull();
+      expect(getModelFileType('ifc')).toBeNull();
+    });
+  });
+
+  describe('getModelName', () => {
+    it('should strip the model extension only', () => {
+      expect(getModelName('tower.ifc')).toBe('tower');
+      expect(getModelName('site.ifc.frag')).toBe('site.ifc');
+      expect(getModelName('notes.txt')).toBe('notes.txt');
+    });
+  });
+
+  describe('formatFileSize', () => {
+    it('should pick a readable unit', () => {
+      expect(formatFileSize(512)).toBe('512 B');
+      expect(formatFileSize(1536)).toBe('1.5 KB');
+      expect(formatFileSize(5 * 1024 * 1024)).toBe('5.0 MB');
+      expect(formatFileSize(3 * 1024 ** 3)).toBe('3.0 GB');
+    });
+  });
+
+  describe('validateModelFile', () => {
+    it('should accept non-empty model files', () => {
+      expect(validateModelFile(new File(['x'], 'tower.IFC'))).toBeNull();
+      expect(validateModelFile(new File(['x'], 'tower.frag'))).toBeNull();
+    });
+
+    it('should explain why a file is rejected', () => {
+      expect(validateModelFile(new File(['x'], 'notes.txt'))).toContain('Unsupported file type');
+      expect(validateModelFile(new File([], 'empty.ifc'))).toBe('File is empty');
+    });
+  });
+
+  describe('collectDroppedFiles', () => {
+    const fileEntry = (file: File) =>
+      ({
+        isFile: true,
+        isDirectory: false,
+        file: (resolve: (file: File) => void) => resolve(file),
+      }) as unknown as FileSystemEntry;
+
+    it('should descend into dropped folders', async () => {
+      const a = new File(['a'], 'a.ifc');
+      const b = new File(['b'], 'b.ifc');
+      const batches = [[fileEntry(a), fileEntry(b)], []];
+      const folder = {
+        isFile: false,
+        isDirectory: true,
+        createReader: () => ({
+          readEntries: (resolve: (entries: FileSystemEntry[]) => void) => resolve(batches.shift() ?? []),
+        }),
+      } as unknown as FileSystemEntry;
+      const dataTransfer = {
+        items: [{ kind: 'file', webkitGetAsEntry: () => folder }],
+        files: [],
+      } as unknown as DataTransfer;
+
+      expect(await collectDroppedFiles(dataTransfer)).toEqual([a, b]);
+    });
+
+    it('should fall back to the plain file list', async () => {
+      const file = new File(['x'], 'tower.ifc');
+      const dataTransfer = { items: [], files: [file] } as unknown as DataTransfer;
+
+      expect(await collectDroppedFiles(dataTransfer)).toEqual([file]);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { MODEL_FILE_EXTENSIONS } from '../constants/viewer.constants';
+import { ModelFileType } from '../models/viewer.model';
+import { createAbortError } from './abort.utils';
+
+/**
+ * Read a file into memory, reporting progress as chunks arrive
+ * @param file File to read
+ * @param onProgress Called with the fraction read so far (0-1)
+ * @param signal Optional signal to cancel the read
+ * @returns File contents
+ */
+export async function readFileWithProgress(
+  file: File,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<Uint8Array> {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+
+  const buffer = new Uint8Array(file.size);
+  const reader = file.stream().getReader();
+  let offset = 0;
+
+  try {
+    while (true) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer.set(value, offset);
+      offset += value.byteLength;
+      onProgress?.(file.size > 0 ? offset / file.size : 1);
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  }
+
+  onProgress?.(1);
+  return buffer;
+}
+
+/**
+ * Determine which loader handles a model file, based on its extension
+ * @returns The model file type, or null if the file is not supported
+ */
+export function getModelFileType(fileName: string): ModelFileType | null {
+  const lower = fileName.toLowerCase();
+  const match = Object.entries(MODEL_FILE_EXTENSIONS).find(([, extension]) =>
+    lower.endsWith(extension)
+  );
+  return match ? (match[0] as ModelFileType) : null;
+}
+
+/**
+ * Strip the model file extension from a file name
+ */
+export function getModelName(fileName: string): string {
+  const type = getModelFileType(fileName);
+  return type ? fileName.slice(0, -MODEL_FILE_EXTENSIONS[type].length) : fileName;
+}
+
+/**
+ * Format a byte count for display (e.g. "12.3 MB")
+ */
+export function formatFileSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Validate a file before it enters the import queue
+ * @returns Reason the file is rejected, or null if it can be imported
+ */
+export function validateModelFile(file: File): string | null {
+  if (!getModelFileType(file.name)) {
+    return 'Unsupported file type (expected .ifc or .frag)';
+  }
+  if (file.size === 0) {
+    return 'File is empty';
+  }
+  return null;
+}
+
+/**
+ * Collect the files of a drop, descending into dropped folders
+ * Falls back to DataTransfer.files where the entries API is unavailable
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items ?? [])
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry?.() ?? null);
+
+  if (entries.length === 0 || entries.some((entry) => entry === null)) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    if (entry) {
+      files.push(...(await readEntry(entry)));
+    }
+  }
+  return files;
+}
+
+/**
+ * Helper: Read a file system entry, recursing into directories
+ */
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    return [file];
+  }
+
+  if (!entry.isDirectory) {
+    return [];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+
+  // readEntries returns results in batches until it yields an empty array
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (batch.length === 0) {
+      break;
+    }
+    for (const child of batch) {
+      files.push(...(await readEntry(child)));
+    }
+  }
+  return files;
+}
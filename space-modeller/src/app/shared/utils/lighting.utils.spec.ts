@@ -0,0 +1,106 @@
+import {
+  getIrradianceCoefficients,
+  getSiteInstant,
+  getSkyPixels,
+  getSunDirection,
+  getSunPosition,
+  parseCompoundAngle,
+} from './lighting.utils';
+
+describe('lighting.utils', () => {
+  describe('getSunPosition', () => {
+    it('should place the midsummer noon sun due south and high over Greenwich', () => {
+      const sun = getSunPosition(new Date('2024-06-21T12:00:00Z'), {
+        latitude: 51.48,
+        longitude: 0,
+      });
+
+      expect(sun.azimuth).toBeCloseTo(180, -1);
+      expect(sun.altitude).toBeCloseTo(62, 0);
+    });
+
+    it('should raise the equinox sun due east on the equator', () => {
+      const sun = getSunPosition(new Date('2024-03-20T06:07:00Z'), { latitude: 0, longitude: 0 });
+
+      expect(sun.azimuth).toBeCloseTo(90, 0);
+      expect(Math.abs(sun.altitude)).toBeLessThan(1);
+    });
+
+    it('should put the sun below the horizon at midnight', () => {
+      const sun = getSunPosition(new Date('2024-06-21T00:00:00Z'), {
+        latitude: 51.48,
+        longitude: 0,
+      });
+
+      expect(sun.altitude).toBeLessThan(0);
+    });
+  });
+
+  describe('getSunDirection', () => {
+    it('should point up for the zenith and towards -Z for the northern horizon', () => {
+      const up = getSunDirection({ azimuth: 0, altitude: 90 });
+      const north = getSunDirection({ azimuth: 0, altitude: 0 });
+      const east = getSunDirection({ azimuth: 90, altitude: 0 });
+
+      expect(up.y).toBeCloseTo(1);
+      expect(north.z).toBeCloseTo(-1);
+      expect(east.x).toBeCloseTo(1);
+    });
+  });
+
+  describe('getSiteInstant', () => {
+    it('should read the clock time in the time zone of the longitude', () => {
+      const noon = (longitude: number) =>
+        getSiteInstant('2024-06-21', 12 * 60, { latitude: 0, longitude }).toISOString();
+
+      expect(noon(0)).toBe('2024-06-21T12:00:00.000Z');
+      expect(noon(30)).toBe('2024-06-21T10:00:00.000Z');
+    });
+
+    it('should return an invalid date for an unreadable calendar date', () => {
+      expect(getSiteInstant('', 0, { latitude: 0, longitude: 0 }).getTime()).toBeNaN();
+    });
+  });
+
+  describe('parseCompoundAngle', () => {
+    it('should read degrees, minutes, seconds and millionths', () => {
+      expect(parseCompoundAngle([51, 28, 48, 500000])).toBeCloseTo(51.48014, 5);
+      expect(parseCompoundAngle([-0, -30])).toBeCloseTo(-0.5);
+      expect(parseCompoundAngle(12.5)).toBe(12.5);
+    });
+
+    it('should reject values that are not angles', () => {
+      expect(parseCompoundAngle(null)).toBeNull();
+      expect(parseCompoundAngle([51])).toBeNull();
+      expect(parseCompoundAngle(['51', '28'])).toBeNull();
+    });
+  });
+
+  describe('getSkyPixels', () => {
+    it('should paint the ground in the bottom rows and the sky in the top ones', () => {
+      const pixels = getSkyPixels({ sky: [0, 0, 1], horizon: [1, 1, 1], ground: [0, 1, 0] }, 4, 16);
+
+      expect(Array.from(pixels.slice(0, 4))).toEqual([0, 1, 0, 1]);
+      expect(Array.from(pixels.slice(-4)).map((value) => Math.round(value))).toEqual([0, 0, 1, 1]);
+    });
+  });
+
+  describe('getIrradianceCoefficients', () => {
+    it('should project a uniform image on the constant harmonic only', () => {
+      const white = [1, 1, 1];
+      const pixels = getSkyPixels({ sky: white, horizon: white, ground: white }, 32, 16);
+
+      const coefficients = getIrradianceCoefficients(pixels, 32, 16);
+
+      expect(coefficients[0]).toBeCloseTo(4 * Math.PI * 0.282095, 1);
+      coefficients.slice(3).forEach((value) => expect(value).toBeCloseTo(0, 1));
+    });
+
+    it('should make the upward harmonic positive for a bright sky', () => {
+      const black = [0, 0, 0];
+      const pixels = getSkyPixels({ sky: [1, 1, 1], horizon: black, ground: black }, 32, 16);
+
+      expect(getIrradianceCoefficients(pixels, 32, 16)[3]).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { GeoLocation, SunPosition, Vector3Like } from '../models/viewer.model';
+
+const DEGREES = Math.PI / 180;
+// 2000-01-01T12:00Z, the J2000 epoch of the solar coordinates
+const J2000 = Date.UTC(2000, 0, 1, 12);
+const DAY = 86_400_000;
+
+/**
+ * Position of the sun seen from a location on earth
+ * Uses the low-precision solar coordinates of the Astronomical Almanac,
+ * accurate to about 0.01° between 1950 and 2050; refraction is ignored
+ */
+export function getSunPosition(date: Date, location: GeoLocation): SunPosition {
+  const days = (date.getTime() - J2000) / DAY;
+  const meanLongitude = 280.46 + 0.9856474 * days;
+  const meanAnomaly = (357.528 + 0.9856003 * days) * DEGREES;
+  const eclipticLongitude =
+    (meanLongitude + 1.915 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly)) * DEGREES;
+  const obliquity = (23.439 - 0.0000004 * days) * DEGREES;
+
+  const rightAscension = Math.atan2(
+    Math.cos(obliquity) * Math.sin(eclipticLongitude),
+    Math.cos(eclipticLongitude)
+  );
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(eclipticLongitude));
+  const siderealTime = (280.46061837 + 360.98564736629 * days + location.longitude) * DEGREES;
+  const hourAngle = siderealTime - rightAscension;
+  const latitude = location.latitude * DEGREES;
+
+  const altitude = Math.asin(
+    Math.sin(latitude) * Math.sin(declination) +
+      Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle)
+  );
+  const azimuth = Math.atan2(
+    -Math.sin(hourAngle),
+    Math.tan(declination) * Math.cos(latitude) - Math.sin(latitude) * Math.cos(hourAngle)
+  );
+  return { azimuth: (azimuth / DEGREES + 360) % 360, altitude: altitude / DEGREES };
+}
+
+/**
+ * Unit vector pointing at the sun in scene coordinates
+ * IFC models are converted Y up with their north along -Z, so east is +X
+ */
+export function getSunDirection(sun: SunPosition): Vector3Like {
+  const azimuth = sun.azimuth * DEGREES;
+  const altitude = sun.altitude * DEGREES;
+  return {
+    x: Math.cos(altitude) * Math.sin(azimuth),
+    y: Math.sin(altitude),
+    z: -Math.cos(altitude) * Math.cos(azimuth),
+  };
+}
+
+/**
+ * Instant of a clock time at a location
+ * The location's time zone is taken from its longitude (one hour per 15°)
+ * @param date Calendar date as YYYY-MM-DD
+ * @param minutes Minutes since midnight
+ * @returns The instant; an invalid date if the calendar date cannot be read
+ */
+export function getSiteInstant(date: string, minutes: number, location: GeoLocation): Date {
+  const [year, month, day] = date.split('-').map(Number) as [number, number, number];
+  const offset = Math.round(location.longitude / 15) * 60;
+  return new Date(Date.UTC(year, month - 1, day) + (minutes - offset) * 60_000);
+}
+
+/**
+ * Read an IFC compound plane angle (degrees, minutes, seconds and millionths
+ * of a second, all with the same sign) as decimal degrees
+ * @returns Degrees, or null if the value is not an angle
+ */
+export function parseCompoundAngle(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return value;
+  }
+  const parts: unknown[] = Array.isArray(value) ? value : [];
+  if (parts.length < 2 || parts.some((part) => typeof part !== 'number')) {
+    return null;
+  }
+
+  const [degrees, minutes, seconds = 0, millionths = 0] = parts as number[];
+  return degrees! + minutes! / 60 + (seconds + millionths / 1e6) / 3600;
+}
+
+/**
+ * Paint a sky as an equirectangular image: the sky colour overhead fading to
+ * the horizon colour, and the ground colour below the horizon
+ * @param colors Linear RGB colours
+ * @returns RGBA pixels, bottom row first as in texture data
+ */
+export function getSkyPixels(
+  colors: { sky: readonly number[]; horizon: readonly number[]; ground: readonly number[] },
+  width: number,
+  height: number
+): Float32Array {
+  const pixels = new Float32Array(width * height * 4);
+  for (let row = 0; row < height; row++) {
+    const up = getRowHeight(row, height);
+    const color =
+      up >= 0
+        ? mix(colors.horizon, colors.sky, Math.sqrt(up))
+        : mix(colors.horizon, colors.ground, Math.min(1, -up * 4));
+    for (let column = 0; column < width; column++) {
+      pixels.set([...color, 1], (row * width + column) * 4);
+    }
+  }
+  return pixels;
+}
+
+/**
+ * Project an equirectangular image on the first nine spherical harmonics,
+ * as used by a light probe
+ * @param pixels RGBA pixels, bottom row first
+ * @returns Nine RGB coefficients, 27 numbers
+ */
+export function getIrradianceCoefficients(
+  pixels: Float32Array,
+  width: number,
+  height: number
+): number[] {
+  const coefficients = new Array<number>(27).fill(0);
+  for (let row = 0; row < height; row++) {
+    const up = getRowHeight(row, height);
+    const across = Math.sqrt(1 - up * up);
+    const solidAngle = ((2 * Math.PI) / width) * (Math.PI / height) * across;
+    for (let column = 0; column < width; column++) {
+      const azimuth = (2 * Math.PI * (column + 0.5)) / width;
+      const basis = getBasis(across * Math.cos(azimuth), up, across * Math.sin(azimuth));
+      const pixel = (row * width + column) * 4;
+      basis.forEach((value, index) => {
+        for (let channel = 0; channel < 3; channel++) {
+          coefficients[index * 3 + channel]! += pixels[pixel + channel]! * value * solidAngle;
+        }
+      });
+    }
+  }
+  return coefficients;
+}
+
+/**
+ * Helper: Height of the directions a row of an equirectangular image stands for,
+ * from -1 (straight down, bottom row) to 1 (straight up, top row)
+ */
+function getRowHeight(row: number, height: number): number {
+  return Math.sin(Math.PI * ((row + 0.5) / height - 0.5));
+}
+
+/**
+ * Helper: Blend two colours
+ */
+function mix(from: readonly number[], to: readonly number[], amount: number): number[] {
+  return from.map((value, channel) => value + (to[channel]! - value) * amount);
+}
+
+/**
+ * Helper: Spherical harmonics basis of a direction, in the order of three.js SphericalHarmonics3
+ */
+function getBasis(x: number, y: number, z: number): number[] {
+  return [
+    0.282095,
+    0.488603 * y,
+    0.488603 * z,
+    0.488603 * x,
+    1.092548 * x * y,
+    1.092548 * y * z,
+    0.315392 * (3 * z * z - 1),
+    1.092548 * x * z,
+    0.546274 * (x * x - y * y),
+  ];
+}
@@ -0,0 +1,142 @@
+import {
+  canFinishMeasurement,
+  formatMeasurement,
+  getAngle,
+  getDistance,
+  getLabelPosition,
+  getMeasurementValue,
+  getPolygonArea,
+  getPolylineLength,
+  getRequiredPoints,
+  measurementsToJson,
+} from './measurement.utils';
+import { Measurement } from '../models/viewer.model';
+
+describe('measurement utils', () => {
+  const origin = { x: 0, y: 0, z: 0 };
+  const square = [
+    { x: 0, y: 0, z: 0 },
+    { x: 4, y: 0, z: 0 },
+    { x: 4, y: 0, z: 3 },
+    { x: 0, y: 0, z: 3 },
+  ];
+
+  describe('getDistance / getPolylineLength', () => {
+    it('should measure straight distances', () => {
+      expect(getDistance(origin, { x: 3, y: 4, z: 0 })).toBe(5);
+    });
+
+    it('should sum polyline segments', () => {
+      expect(getPolylineLength(square)).toBe(11);
+      expect(getPolylineLength([origin])).toBe(0);
+    });
+  });
+
+  describe('getPolygonArea', () => {
+    it('should measure horizontal polygons', () => {
+      expect(getPolygonArea(square)).toBeCloseTo(12);
+    });
+
+    it('should measure tilted polygons', () => {
+      // Right triangle on a 45° slope with legs 2 and 2√2
+      const triangle = [origin, { x: 2, y: 0, z: 0 }, { x: 0, y: 2, z: 2 }];
+
+      expect(getPolygonArea(triangle)).toBeCloseTo(2 * Math.SQRT2);
+    });
+
+    it('should return 0 below three points', () => {
+      expect(getPolygonArea(square.slice(0, 2))).toBe(0);
+    });
+  });
+
+  describe('getAngle', () => {
+    it('should measure the angle at the vertex', () => {
+      expect(getAngle({ x: 1, y: 0, z: 0 }, origin, { x: 0, y: 0, z: 1 })).toBeCloseTo(90);
+      expect(getAngle({ x: 1, y: 0, z: 0 }, origin, { x: 1, y: 1, z: 0 })).toBeCloseTo(45);
+    });
+
+    it('should return 0 for degenerate rays', () => {
+      expect(getAngle(origin, origin, { x: 1, y: 0, z: 0 })).toBe(0);
+    });
+  });
+
+  describe('getMeasurementValue', () => {
+    it('should measure elevations from the reference level', () => {
+      expect(getMeasurementValue('elevation', [{ x: 5, y: 7.5, z: 1 }], 3)).toBe(4.5);
+      expect(getMeasurementValue('elevation', [{ x: 5, y: 1, z: 1 }], 3)).toBe(-2);
+    });
+
+    it('should dispatch on the measurement kind', () => {
+      expect(getMeasurementValue('distance', square.slice(0, 2))).toBe(4);
+      expect(getMeasurementValue('area', square)).toBeCloseTo(12);
+      expect(getMeasurementValue('angle', square.slice(0, 3))).toBeCloseTo(90);
+    });
+  });
+
+  describe('point counts', () => {
+    it('should complete fixed-size tools on their own', () => {
+      expect(getRequiredPoints('distance')).toBe(2);
+      expect(getRequiredPoints('angle')).toBe(3);
+      expect(getRequiredPoints('elevation')).toBe(1);
+      expect(getRequiredPoints('polyline')).toBeNull();
+    });
+
+    it('should require three points to finish an area', () => {
+      expect(canFinishMeasurement('area', square.slice(0, 2))).toBeFalse();
+      expect(canFinishMeasurement('area', square.slice(0, 3))).toBeTrue();
+      expect(canFinishMeasurement('polyline', square.slice(0, 2))).toBeTrue();
+    });
+  });
+
+  describe('formatMeasurement', () => {
+    it('should format values with units', () => {
+      expect(formatMeasurement('distance', 3.254)).toBe('3.25 m');
+      expect(formatMeasurement('area', 12.4)).toBe('12.40 m²');
+      expect(formatMeasurement('angle', 90)).toBe('90.0°');
+    });
+
+    it('should sign elevations', () => {
+      expect(formatMeasurement('elevation', 3.2)).toBe('+3.20 m');
+      expect(formatMeasurement('elevation', -0.5)).toBe('-0.50 m');
+    });
+  });
+
+  describe('getLabelPosition', () => {
+    it('should label lengths at their last segment', () => {
+      expect(getLabelPosition('polyline', square.slice(0, 3))).toEqual({ x: 4, y: 0, z: 1.5 });
+    });
+
+    it('should label areas at their centroid and angles at the vertex', () => {
+      expect(getLabelPosition('area', square)).toEqual({ x: 2, y: 0, z: 1.5 });
+      expect(getLabelPosition('angle', square.slice(0, 3))).toEqual(square[1]!);
+    });
+  });
+
+  describe('measurementsToJson', () => {
+    it('should export measurements with units and timestamp', () => {
+      const measurement: Measurement = {
+        id: 'm1',
+        kind: 'elevation',
+        points: [{ x: 0, y: 4, z: 0 }],
+        value: 1,
+        label: '+1.00 m',
+        reference: { name: 'Level 1', elevation: 3 },
+      };
+
+      const json = JSON.parse(measurementsToJson([measurement], new Date('2024-05-01T10:00:00Z')));
+
+      expect(json.exportedAt).toBe('2024-05-01T10:00:00.000Z');
+      expect(json.units.length).toBe('m');
+      expect(json.measurements).toEqual([
+        {
+          id: 'm1',
+          kind: 'elevation',
+          value: 1,
+          label: '+1.00 m',
+          points: [{ x: 0, y: 4, z: 0 }],
+          reference: { name: 'Level 1', elevation: 3 },
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { MEASUREMENT_CONFIG } from '../constants/viewer.constants';
+import { Measurement, MeasurementKind, Vector3Like } from '../models/viewer.model';
+
+/**
+ * Points each tool needs before it completes on its own
+ * Polylines and areas take any number of points and are finished explicitly
+ */
+const REQUIRED_POINTS: Record<MeasurementKind, number | null> = {
+  distance: 2,
+  polyline: null,
+  area: null,
+  angle: 3,
+  elevation: 1,
+};
+
+/**
+ * Fewest points a measurement can be finished with
+ */
+const MIN_POINTS: Record<MeasurementKind, number> = {
+  distance: 2,
+  polyline: 2,
+  area: 3,
+  angle: 3,
+  elevation: 1,
+};
+
+/**
+ * Number of points after which a measurement completes automatically
+ * @returns null for tools finished by the user (polyline, area)
+ */
+export function getRequiredPoints(kind: MeasurementKind): number | null {
+  return REQUIRED_POINTS[kind];
+}
+
+/**
+ * Whether enough points were picked to finish a measurement
+ */
+export function canFinishMeasurement(kind: MeasurementKind, points: Vector3Like[]): boolean {
+  return points.length >= MIN_POINTS[kind];
+}
+
+/**
+ * Distance between two points
+ */
+export function getDistance(a: Vector3Like, b: Vector3Like): number {
+  return Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z);
+}
+
+/**
+ * Total length of a chain of points
+ */
+export function getPolylineLength(points: Vector3Like[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += getDistance(points[i - 1]!, points[i]!);
+  }
+  return length;
+}
+
+/**
+ * Area of a planar polygon in 3D (Newell's method)
+ * The polygon is closed implicitly; fewer than three points have no area
+ */
+export function getPolygonArea(points: Vector3Like[]): number {
+  if (points.length < 3) {
+    return 0;
+  }
+
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  points.forEach((current, index) => {
+    const next = points[(index + 1) % points.length]!;
+    x += (current.y - next.y) * (current.z + next.z);
+    y += (current.z - next.z) * (current.x + next.x);
+    z += (current.x - next.x) * (current.y + next.y);
+  });
+  return Math.hypot(x, y, z) / 2;
+}
+
+/**
+ * Angle at a vertex between the rays to two other points
+ * @returns Degrees (0-180); 0 if either ray has no length
+ */
+export function getAngle(a: Vector3Like, vertex: Vector3Like, c: Vector3Like): number {
+  const u = { x: a.x - vertex.x, y: a.y - vertex.y, z: a.z - vertex.z };
+  const v = { x: c.x - vertex.x, y: c.y - vertex.y, z: c.z - vertex.z };
+  const lengths = Math.hypot(u.x, u.y, u.z) * Math.hypot(v.x, v.y, v.z);
+  if (lengths === 0) {
+    return 0;
+  }
+
+  const cos = (u.x * v.x + u.y * v.y + u.z * v.z) / lengths;
+  return (Math.acos(Math.min(Math.max(cos, -1), 1)) * 180) / Math.PI;
+}
+
+/**
+ * Value of a measurement
+ * @param referenceElevation Level elevations are measured from
+ * @returns Metres, square metres or degrees depending on the kind
+ */
+export function getMeasurementValue(
+  kind: MeasurementKind,
+  points: Vector3Like[],
+  referenceElevation = 0
+): number {
+  switch (kind) {
+    case 'distance':
+    case 'polyline':
+      return getPolylineLength(points);
+    case 'area':
+      return getPolygonArea(points);
+    case 'angle':
+      return points.length < 3 ? 0 : getAngle(points[0]!, points[1]!, points[2]!);
+    case 'elevation':
+      return points.length < 1 ? 0 : points[0]!.y - referenceElevation;
+  }
+}
+
+/**
+ * Format a measurement value for its annotation (e.g. "3.25 m", "12.40 m²", "90.0°")
+ */
+export function formatMeasurement(kind: MeasurementKind, value: number): string {
+  const { lengthDecimals, angleDecimals } = MEASUREMENT_CONFIG;
+  switch (kind) {
+    case 'area':
+      return `${value.toFixed(lengthDecimals)} m²`;
+    case 'angle':
+      return `${value.toFixed(angleDecimals)}°`;
+    case 'elevation':
+      return `${value >= 0 ? '+' : ''}${value.toFixed(lengthDecimals)} m`;
+    default:
+      return `${value.toFixed(lengthDecimals)} m`;
+  }
+}
+
+/**
+ * Where a measurement's label is anchored
+ * Lengths at the middle of their last segment, areas at the centroid of their
+ * points, angles at the vertex and elevations at the measured point
+ */
+export function getLabelPosition(kind: MeasurementKind, points: Vector3Like[]): Vector3Like {
+  const last = points.at(-1) ?? { x: 0, y: 0, z: 0 };
+  switch (kind) {
+    case 'distance':
+    case 'polyline': {
+      const previous = points.at(-2) ?? last;
+      return {
+        x: (previous.x + last.x) / 2,
+        y: (previous.y + last.y) / 2,
+        z: (previous.z + last.z) / 2,
+      };
+    }
+    case 'area': {
+      const sum = points.reduce(
+        (total, point) => ({ x: total.x + point.x, y: total.y + point.y, z: total.z + point.z }),
+        { x: 0, y: 0, z: 0 }
+      );
+      const count = Math.max(points.length, 1);
+      return { x: sum.x / count, y: sum.y / count, z: sum.z / count };
+    }
+    case 'angle':
+      return points[1] ?? last;
+    case 'elevation':
+      return points[0] ?? last;
+  }
+}
+
+/**
+ * Serialize measurements for export
+ * @param exportedAt Export timestamp written to the file
+ */
+export function measurementsToJson(measurements: Measurement[], exportedAt = new Date()): string {
+  return JSON.stringify(
+    {
+      exportedAt: exportedAt.toISOString(),
+      units: { length: 'm', area: 'm²', angle: '°' },
+      measurements: measurements.map(({ id, kind, points, value, label, reference }) => ({
+        id,
+        kind,
+        value,
+        label,
+        points,
+        ...(reference && { reference }),
+      })),
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,73 @@
+import { planToSvg, projectBelowCut, toPlanSection } from './plan.utils';
+import { PLAN_CONFIG } from '../constants/viewer.constants';
+
+describe('plan.utils', () => {
+  describe('toPlanSection', () => {
+    it('should keep x and z of outline points and fill corners', () => {
+      const section = toPlanSection({
+        buffer: new Float32Array([0, 3, 0, 2, 3, 0, 2, 3, 1]),
+        index: 2,
+        fillsIndices: [0, 1, 2],
+      });
+
+      expect(section.lines).toEqual([0, 0, 2, 0]);
+      expect(section.fills).toEqual([0, 0, 2, 0, 2, 1]);
+    });
+  });
+
+  describe('projectBelowCut', () => {
+    it('should keep the part of each edge between the floor and the cut', () => {
+      const edges = [
+        // Level, below the cut
+        0, 1, 0, 4, 1, 0,
+        // Sloping through the cut
+        0, 0, 0, 4, 4, 2,
+        // Above the cut
+        0, 3, 0, 4, 3, 0,
+        // Vertical
+        1, 0, 1, 1, 2, 1,
+      ];
+
+      expect(projectBelowCut(edges, 0, 2)).toEqual([0, 0, 4, 0, 0, 0, 2, 1]);
+    });
+  });
+
+  describe('planToSvg', () => {
+    const square = {
+      lines: [0, 0, 4, 0, 4, 0, 4, 2],
+      fills: [0, 0, 4, 0, 4, 2],
+    };
+
+    it('should size the drawing to the cut plus the margin at the drawing scale', () => {
+      const svg = planToSvg([square], 'Level 1');
+      const margin = PLAN_CONFIG.svgMargin;
+      const width = ((4 + margin * 2) * 1000) / PLAN_CONFIG.svgScale;
+
+      expect(svg).toContain(`width="${width}mm"`);
+      expect(svg).toContain(`viewBox="${-margin} ${-margin} ${4 + margin * 2} ${2 + margin * 2}"`);
+    });
+
+    it('should draw cut lines and filled cut surfaces', () => {
+      const svg = planToSvg([square], 'Level 1');
+
+      expect(svg).toContain('d="M0 0L4 0M4 0L4 2"');
+      expect(svg).toContain('d="M0 0L4 0L4 2Z"');
+      expect(svg).toContain(`stroke="${PLAN_CONFIG.cutColor}"`);
+    });
+
+    it('should draw the geometry below the cut in grey under the cut', () => {
+      const svg = planToSvg([square], 'Level 1', [-2, 0, 0, 0]);
+
+      expect(svg).toContain(
+        `<path id="below-cut" fill="none" stroke="${PLAN_CONFIG.svgBelowColor}"`
+      );
+      expect(svg).toContain('d="M-2 0L0 0"');
+      expect(svg.indexOf('id="below-cut"')).toBeLessThan(svg.indexOf(PLAN_CONFIG.cutFillColor));
+      expect(svg).toContain(`viewBox="${-2 - PLAN_CONFIG.svgMargin} `);
+    });
+
+    it('should escape the title', () => {
+      expect(planToSvg([], 'Level <1> & 2')).toContain('<title>Level &lt;1&gt; &amp; 2</title>');
+    });
+  });
+});
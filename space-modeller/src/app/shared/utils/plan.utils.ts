@@ -0,0 +1,150 @@
+import { PLAN_CONFIG } from '../constants/viewer.constants';
+import { PlanSection } from '../models/viewer.model';
+
+/**
+ * Flatten a model section to plan coordinates
+ * @param section Section from the fragments worker: `index` outline points in
+ * pairs, and triangles of the cut surfaces indexing the same points
+ */
+export function toPlanSection(section: {
+  buffer: Float32Array;
+  index: number;
+  fillsIndices: number[];
+}): PlanSection {
+  const { buffer } = section;
+  const toPlan = (point: number) => [buffer[point * 3]!, buffer[point * 3 + 2]!];
+
+  const lines: number[] = [];
+  for (let point = 0; point < section.index; point++) {
+    lines.push(...toPlan(point));
+  }
+  return { lines, fills: section.fillsIndices.flatMap(toPlan) };
+}
+
+/**
+ * Project the parts of 3D segments between two heights onto the plan
+ * Segments seen end-on (vertical ones) project to a point and are left out
+ * @param segments Segment end points, six coordinates per segment
+ * @param floor Lowest height drawn
+ * @param cut Height of the cut; nothing above it is drawn
+ * @returns x and z pairs, two points per segment
+ */
+export function projectBelowCut(
+  segments: ArrayLike<number>,
+  floor: number,
+  cut: number
+): number[] {
+  const projected: number[] = [];
+  for (let start = 0; start + 6 <= segments.length; start += 6) {
+    const ax = segments[start]!;
+    const ay = segments[start + 1]!;
+    const az = segments[start + 2]!;
+    const dx = segments[start + 3]! - ax;
+    const dy = segments[start + 4]! - ay;
+    const dz = segments[start + 5]! - az;
+    if (dx === 0 && dz === 0) {
+      continue;
+    }
+
+    // Part of the segment between the two heights, as fractions of its length
+    let from = 0;
+    let to = 1;
+    if (dy === 0) {
+      if (ay < floor || ay > cut) {
+        continue;
+      }
+    } else {
+      const atFloor = (floor - ay) / dy;
+      const atCut = (cut - ay) / dy;
+      from = Math.max(from, Math.min(atFloor, atCut));
+      to = Math.min(to, Math.max(atFloor, atCut));
+      if (from >= to) {
+        continue;
+      }
+    }
+    projected.push(ax + dx * from, az + dz * from, ax + dx * to, az + dz * to);
+  }
+  return projected;
+}
+
+/**
+ * Draw plan sections as an SVG document at the configured drawing scale, over the
+ * geometry below the cut in grey
+ * Seen from above, world x runs right and z down the page; one user unit is a metre
+ * @param title Title of the drawing (e.g. the storey name)
+ * @param below Edges below the cut from projectBelowCut: x and z pairs, two points per segment
+ */
+export function planToSvg(sections: PlanSection[], title: string, below: number[] = []): string {
+  // Bounds of all points, looped over: large plans have too many to spread into Math.min
+  let [minX, minZ, maxX, maxZ] = [Infinity, Infinity, -Infinity, -Infinity];
+  const layers = [below, ...sections.flatMap((section) => [section.lines, section.fills])];
+  for (const points of layers) {
+    for (let index = 0; index + 1 < points.length; index += 2) {
+      minX = Math.min(minX, points[index]!);
+      maxX = Math.max(maxX, points[index]!);
+      minZ = Math.min(minZ, points[index + 1]!);
+      maxZ = Math.max(maxZ, points[index + 1]!);
+    }
+  }
+  if (minX > maxX) {
+    [minX, minZ, maxX, maxZ] = [0, 0, 0, 0];
+  }
+  const margin = PLAN_CONFIG.svgMargin;
+  const width = maxX - minX + margin * 2;
+  const height = maxZ - minZ + margin * 2;
+
+  // Paper size in mm at 1:n
+  const toPaper = 1000 / PLAN_CONFIG.svgScale;
+  const lineWidth = PLAN_CONFIG.svgLineWidth / toPaper;
+  const belowWidth = PLAN_CONFIG.svgBelowLineWidth / toPaper;
+
+  const fills = sections.map((section) => toPath(section.fills, 3, true)).join('');
+  const lines = sections.map((section) => toPath(section.lines, 2, false)).join('');
+  const viewBox = [minX - margin, minZ - margin, width, height].map(round).join(' ');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width * toPaper)}mm" ` +
+      `height="${round(height * toPaper)}mm" viewBox="${viewBox}">`,
+    `<title>${escapeXml(title)}</title>`,
+    `<desc>Plan at 1:${PLAN_CONFIG.svgScale}</desc>`,
+    `<path id="below-cut" fill="none" stroke="${PLAN_CONFIG.svgBelowColor}" ` +
+      `stroke-width="${round(belowWidth)}" stroke-linecap="round" d="${toPath(below, 2, false)}"/>`,
+    // A hairline in the fill colour hides the seams between triangles
+    `<path fill="${PLAN_CONFIG.cutFillColor}" stroke="${PLAN_CONFIG.cutFillColor}" ` +
+      `stroke-width="${round(lineWidth / 10)}" stroke-linejoin="round" d="${fills}"/>`,
+    `<path fill="none" stroke="${PLAN_CONFIG.cutColor}" stroke-width="${round(lineWidth)}" ` +
+      `stroke-linecap="round" d="${lines}"/>`,
+    '</svg>',
+  ].join('\n');
+}
+
+/**
+ * Helper: SVG path data of consecutive shapes with a number of points each
+ * @param closed Close each shape (polygons) or not (segments)
+ */
+function toPath(points: number[], size: number, closed: boolean): string {
+  let path = '';
+  for (let start = 0; start + size * 2 <= points.length; start += size * 2) {
+    for (let point = 0; point < size; point++) {
+      const index = start + point * 2;
+      path += `${point === 0 ? 'M' : 'L'}${round(points[index])} ${round(points[index + 1])}`;
+    }
+    path += closed ? 'Z' : '';
+  }
+  return path;
+}
+
+/**
+ * Helper: Format a coordinate to the millimetre
+ */
+function round(value: number | undefined): number {
+  return Math.round((value ?? 0) * 1000) / 1000 + 0;
+}
+
+/**
+ * Helper: Escape text for use in XML content
+ */
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,24 @@
+import { parsePreferences } from './preferences.utils';
+import { PREFERENCES_CONFIG } from '../constants/viewer.constants';
+
+describe('preferences.utils', () => {
+  describe('parsePreferences', () => {
+    it('should read stored preferences', () => {
+      const json = JSON.stringify({ renderStyle: 'xray', edgeAngle: 45, selectionOutline: false });
+
+      expect(parsePreferences(json)).toEqual({
+        renderStyle: 'xray',
+        edgeAngle: 45,
+        selectionOutline: false,
+      });
+    });
+
+    it('should fall back to the defaults for missing or invalid values', () => {
+      const json = JSON.stringify({ renderStyle: 'cartoon', edgeAngle: 400 });
+
+      expect(parsePreferences(json)).toEqual(PREFERENCES_CONFIG.defaults);
+      expect(parsePreferences('not json')).toEqual(PREFERENCES_CONFIG.defaults);
+      expect(parsePreferences(null)).toEqual(PREFERENCES_CONFIG.defaults);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import {
+  PREFERENCES_CONFIG,
+  RENDER_STYLE_CONFIG,
+  RENDER_STYLES,
+} from '../constants/viewer.constants';
+import { RenderStyle, ViewerPreferences } from '../models/viewer.model';
+
+/**
+ * Read stored preferences, falling back to the defaults for anything missing or invalid
+ * @param json Stored JSON, or null if nothing is stored
+ */
+export function parsePreferences(json: string | null): ViewerPreferences {
+  const defaults = PREFERENCES_CONFIG.defaults;
+  let data: unknown = null;
+  try {
+    data = json ? JSON.parse(json) : null;
+  } catch {
+    // Unreadable preferences are replaced on the next change
+  }
+
+  const stored = (typeof data === 'object' && data !== null ? data : {}) as Partial<
+    Record<keyof ViewerPreferences, unknown>
+  >;
+  return {
+    renderStyle: isRenderStyle(stored.renderStyle) ? stored.renderStyle : defaults.renderStyle,
+    edgeAngle: isEdgeAngle(stored.edgeAngle) ? stored.edgeAngle : defaults.edgeAngle,
+    selectionOutline:
+      typeof stored.selectionOutline === 'boolean'
+        ? stored.selectionOutline
+        : defaults.selectionOutline,
+  };
+}
+
+/**
+ * Helper: Check a stored render style
+ */
+function isRenderStyle(value: unknown): value is RenderStyle {
+  return typeof value === 'string' && Object.hasOwn(RENDER_STYLES, value);
+}
+
+/**
+ * Helper: Check a stored edge angle is within the limits
+ */
+function isEdgeAngle(value: unknown): value is number {
+  return (
+    typeof value === 'number' &&
+    value >= RENDER_STYLE_CONFIG.minEdgeAngle &&
+    value <= RENDER_STYLE_CONFIG.maxEdgeAngle
+  );
+}
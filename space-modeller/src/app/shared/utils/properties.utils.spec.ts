@@ -0,0 +1,125 @@
+import * as FRAGS from '@thatopen/fragments';
+import { parseElementProperties, parseMaterialNames } from './properties.utils';
+
+describe('properties utils', () => {
+  describe('parseElementProperties', () => {
+    const element = { modelId: 'tower', localId: 42 };
+
+    const wall: FRAGS.ItemData = {
+      _category: { value: 'IFCWALL' },
+      _localId: { value: 42 },
+      _guid: { value: '2O2Fr$t4X7Zf8NOew3FLOH' },
+      Name: { value: 'Basic Wall:Interior', type: 'IFCLABEL' },
+      ObjectType: { value: 'Interior - 138mm', type: 'IFCLABEL' },
+      Tag: { value: null },
+      IsDefinedBy: [
+        {
+          _category: { value: 'IFCPROPERTYSET' },
+          Name: { value: 'Pset_WallCommon' },
+          HasProperties: [
+            {
+              _category: { value: 'IFCPROPERTYSINGLEVALUE' },
+              Name: { value: 'IsExternal' },
+              NominalValue: { value: false, type: 'IFCBOOLEAN' },
+            },
+            {
+              _category: { value: 'IFCPROPERTYENUMERATEDVALUE' },
+              Name: { value: 'Status' },
+              EnumerationValues: { value: [{ value: 'NEW' }, { value: 'EXISTING' }] },
+            },
+          ],
+        },
+        {
+          _category: { value: 'IFCELEMENTQUANTITY' },
+          Name: { value: 'Qto_WallBaseQuantities' },
+          Quantities: [
+            {
+              _category: { value: 'IFCQUANTITYLENGTH' },
+              Name: { value: 'Length' },
+              LengthValue: { value: 4.2, type: 'IFCLENGTHMEASURE' },
+            },
+          ],
+        },
+      ],
+    };
+
+    it('should read the identity of the element', () => {
+      const properties = parseElementProperties(element, wall);
+
+      expect(properties.modelId).toBe('tower');
+      expect(properties.localId).toBe(42);
+      expect(properties.ifcClass).toBe('IFCWALL');
+      expect(properties.globalId).toBe('2O2Fr$t4X7Zf8NOew3FLOH');
+      expect(properties.name).toBe('Basic Wall:Interior');
+    });
+
+    it('should list direct attributes without internal ones', () => {
+      const properties = parseElementProperties(element, wall);
+
+      expect(properties.attributes).toEqual([
+        { name: 'Name', value: 'Basic Wall:Interior', type: 'IFCLABEL' },
+        { name: 'ObjectType', value: 'Interior - 138mm', type: 'IFCLABEL' },
+        { name: 'Tag', value: null, type: undefined },
+      ]);
+    });
+
+    it('should read property sets', () => {
+      const [pset] = parseElementProperties(element, wall).propertySets;
+
+      expect(pset?.name).toBe('Pset_WallCommon');
+      expect(pset?.properties).toEqual([
+        { name: 'IsExternal', value: false, type: 'IFCBOOLEAN' },
+        { name: 'Status', value: 'NEW, EXISTING', type: undefined },
+      ]);
+    });
+
+    it('should read quantity sets separately', () => {
+      const properties = parseElementProperties(element, wall);
+
+      expect(properties.quantitySets).toEqual([
+        {
+          name: 'Qto_WallBaseQuantities',
+          properties: [{ name: 'Length', value: 4.2, type: 'IFCLENGTHMEASURE' }],
+        },
+      ]);
+    });
+
+    it('should cope with items without relations or identity', () => {
+      const properties = parseElementProperties(element, { Description: { value: 'x' } });
+
+      expect(properties.ifcClass).toBe('UNKNOWN');
+      expect(properties.globalId).toBeNull();
+      expect(properties.name).toBeNull();
+      expect(properties.propertySets).toEqual([]);
+      expect(properties.quantitySets).toEqual([]);
+    });
+  });
+
+  describe('parseMaterialNames', () => {
+    it('should name materials and material sets of an element once each', () => {
+      const names = parseMaterialNames({
+        _category: { value: 'IFCWALL' },
+        HasAssociations: [
+          { _category: { value: 'IFCMATERIAL' }, Name: { value: 'Concrete' } },
+          { _category: { value: 'IFCMATERIALLAYERSET' }, LayerSetName: { value: 'Brick 290' } },
+          { _category: { value: 'IFCMATERIAL' }, Name: { value: 'Concrete' } },
+          { _category: { value: 'IFCCLASSIFICATIONREFERENCE' }, Name: { value: 'Uniclass' } },
+        ],
+      });
+
+      expect(names).toEqual(['Concrete', 'Brick 290']);
+    });
+
+    it('should fall back to the IFC class of unnamed material sets', () => {
+      const names = parseMaterialNames({
+        HasAssociations: [{ _category: { value: 'IFCMATERIALLAYERSETUSAGE' } }],
+      });
+
+      expect(names).toEqual(['IfcMaterialLayerSetUsage']);
+    });
+
+    it('should return no names without associations', () => {
+      expect(parseMaterialNames({ _category: { value: 'IFCWALL' } })).toEqual([]);
+    });
+  });
+});
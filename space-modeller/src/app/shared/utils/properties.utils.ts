@@ -0,0 +1,179 @@
+import * as FRAGS from '@thatopen/fragments';
+import {
+  ElementProperties,
+  ElementProperty,
+  ModelElement,
+  PropertySet,
+} from '../models/viewer.model';
+import { formatIfcClass } from './spatial-tree.utils';
+
+/**
+ * Relations requested from FragmentsModel.getItemsData() to read an element's
+ * property and quantity sets (IfcRelDefinesByProperties -> IsDefinedBy)
+ */
+export const ELEMENT_PROPERTIES_DATA_CONFIG: Partial<FRAGS.ItemsDataConfig> = {
+  attributesDefault: true,
+  relations: {
+    IsDefinedBy: { attributes: true, relations: true },
+    DefinesOccurrence: { attributes: false, relations: false },
+  },
+  relationsDefault: { attributes: false, relations: false },
+};
+
+/**
+ * Item data requested from FragmentsModel.getItemsData() to read only an
+ * element's direct attributes (Name, GlobalId, ObjectType...)
+ */
+export const ELEMENT_ATTRIBUTES_DATA_CONFIG: Partial<FRAGS.ItemsDataConfig> = {
+  attributesDefault: true,
+  relationsDefault: { attributes: false, relations: false },
+};
+
+/**
+ * Relations requested from FragmentsModel.getItemsData() to read an element's
+ * materials (IfcRelAssociatesMaterial -> HasAssociations)
+ */
+export const ELEMENT_MATERIALS_DATA_CONFIG: Partial<FRAGS.ItemsDataConfig> = {
+  attributesDefault: false,
+  attributes: ['Name', 'LayerSetName'],
+  relations: {
+    HasAssociations: { attributes: true, relations: false },
+  },
+  relationsDefault: { attributes: false, relations: false },
+};
+
+/**
+ * Convert raw fragments item data into element properties
+ * @param element Model and local ID the data belongs to
+ * @param data Result of getItemsData() with ELEMENT_PROPERTIES_DATA_CONFIG
+ */
+export function parseElementProperties(
+  element: ModelElement,
+  data: FRAGS.ItemData
+): ElementProperties {
+  const propertySets: PropertySet[] = [];
+  const quantitySets: PropertySet[] = [];
+
+  for (const definition of getRelated(data, 'IsDefinedBy')) {
+    const category = getCategory(definition);
+    const name = toDisplayValue(getAttribute(definition, 'Name')?.value);
+    const setName = name === null ? category : String(name);
+
+    if (category === 'IFCPROPERTYSET') {
+      propertySets.push({
+        name: setName,
+        properties: getRelated(definition, 'HasProperties').map(toProperty),
+      });
+    } else if (category === 'IFCELEMENTQUANTITY') {
+      quantitySets.push({
+        name: setName,
+        properties: getRelated(definition, 'Quantities').map(toProperty),
+      });
+    }
+  }
+
+  const globalId = getAttribute(data, '_guid') ?? getAttribute(data, 'GlobalId');
+  const name = getAttribute(data, 'Name');
+
+  return {
+    ...element,
+    ifcClass: getCategory(data),
+    globalId: globalId ? String(globalId.value) : null,
+    name: name?.value != null ? String(name.value) : null,
+    attributes: getAttributes(data),
+    propertySets,
+    quantitySets,
+  };
+}
+
+/**
+ * Names of the materials associated with an element
+ * Material sets without a name are reported by their IFC class
+ * @param data Result of getItemsData() with ELEMENT_MATERIALS_DATA_CONFIG
+ */
+export function parseMaterialNames(data: FRAGS.ItemData): string[] {
+  const names = getRelated(data, 'HasAssociations')
+    .filter((association) => getCategory(association).startsWith('IFCMATERIAL'))
+    .map((material) => {
+      const name =
+        getAttribute(material, 'Name')?.value ?? getAttribute(material, 'LayerSetName')?.value;
+      return name != null && name !== '' ? String(name) : formatIfcClass(getCategory(material));
+    });
+  return [...new Set(names)];
+}
+
+/**
+ * Helper: Read the direct (non-relation) attributes of an item, skipping internal ones
+ */
+function getAttributes(data: FRAGS.ItemData): ElementProperty[] {
+  const attributes: ElementProperty[] = [];
+  for (const [name, attribute] of Object.entries(data)) {
+    if (name.startsWith('_') || Array.isArray(attribute)) {
+      continue;
+    }
+    attributes.push({ name, value: toDisplayValue(attribute.value), type: attribute.type });
+  }
+  return attributes;
+}
+
+/**
+ * Helper: Convert an IfcProperty / IfcPhysicalQuantity item to a name/value pair
+ * Single values live in NominalValue; quantities in LengthValue, AreaValue, etc.
+ */
+function toProperty(item: FRAGS.ItemData): ElementProperty {
+  const name = getAttribute(item, 'Name')?.value;
+  const valueEntry = Object.entries(item).find(
+    ([key, attribute]) => !Array.isArray(attribute) && /Values?$/.test(key)
+  );
+  const attribute = valueEntry?.[1] as FRAGS.ItemAttribute | undefined;
+
+  return {
+    name: name != null ? String(name) : getCategory(item),
+    value: toDisplayValue(attribute?.value),
+    type: attribute?.type,
+  };
+}
+
+/**
+ * Helper: Get a single attribute of an item
+ */
+function getAttribute(data: FRAGS.ItemData, name: string): FRAGS.ItemAttribute | undefined {
+  const attribute = data[name];
+  return attribute && !Array.isArray(attribute) ? attribute : undefined;
+}
+
+/**
+ * Helper: Get related items of an item (empty if the relation was not loaded)
+ */
+function getRelated(data: FRAGS.ItemData, relation: string): FRAGS.ItemData[] {
+  const related = data[relation];
+  return Array.isArray(related) ? related : [];
+}
+
+/**
+ * Helper: Get the IFC class of an item in upper case
+ */
+function getCategory(data: FRAGS.ItemData): string {
+  const category = getAttribute(data, '_category')?.value;
+  return typeof category === 'string' ? category.toUpperCase() : 'UNKNOWN';
+}
+
+/**
+ * Helper: Reduce an attribute value to something displayable
+ */
+function toDisplayValue(value: unknown): ElementProperty['value'] {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => String(toDisplayValue(item))).join(', ');
+  }
+  // Nested attributes, e.g. the entries of EnumerationValues
+  if (typeof value === 'object' && 'value' in value) {
+    return toDisplayValue(value.value);
+  }
+  return JSON.stringify(value);
+}
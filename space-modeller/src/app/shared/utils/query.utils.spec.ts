@@ -0,0 +1,228 @@
+import {
+  compareValue,
+  createTextQuery,
+  formatQueryError,
+  getQueryFields,
+  matchesCondition,
+  parseQuery,
+  parseQueryField,
+} from './query.utils';
+import { QueryCondition, QueryValue } from '../models/viewer.model';
+
+describe('query.utils', () => {
+  const errorOf = (text: string) => {
+    const { query, error } = parseQuery(text);
+    expect(query).toBeNull();
+    return error!;
+  };
+
+  describe('parseQuery', () => {
+    it('should ignore an empty search', () => {
+      expect(parseQuery('  ')).toEqual({ query: null, error: null });
+    });
+
+    it('should search names and GlobalIds for plain text', () => {
+      expect(parseQuery(' Fire door ').query).toEqual(createTextQuery('Fire door'));
+      expect(parseQuery("door's").error).toBeNull();
+    });
+
+    it('should parse IFC classes without a condition', () => {
+      expect(parseQuery('IfcWall, ifcslab, IFCWALL').query).toEqual({
+        classes: ['IFCWALL', 'IFCSLAB'],
+        condition: null,
+      });
+    });
+
+    it('should parse the example query', () => {
+      const { query } = parseQuery(
+        'IfcWall where Pset_WallCommon.IsExternal = true and storey = "Level 2"'
+      );
+
+      expect(query).toEqual({
+        classes: ['IFCWALL'],
+        condition: {
+          kind: 'and',
+          conditions: [
+            {
+              kind: 'compare',
+              field: ['Pset_WallCommon', 'IsExternal'],
+              operator: '=',
+              value: true,
+            },
+            { kind: 'compare', field: ['storey'], operator: '=', value: 'Level 2' },
+          ],
+        },
+      });
+    });
+
+    it('should bind "and" tighter than "or" and honour parentheses', () => {
+      const { query } = parseQuery('where a = 1 or b = 2 and not (c > 3 or d ~ x)');
+
+      expect(query!.classes).toEqual([]);
+      expect(query!.condition).toEqual({
+        kind: 'or',
+        conditions: [
+          { kind: 'compare', field: ['a'], operator: '=', value: 1 },
+          {
+            kind: 'and',
+            conditions: [
+              { kind: 'compare', field: ['b'], operator: '=', value: 2 },
+              {
+                kind: 'not',
+                condition: {
+                  kind: 'or',
+                  conditions: [
+                    { kind: 'compare', field: ['c'], operator: '>', value: 3 },
+                    { kind: 'compare', field: ['d'], operator: '~', value: 'x' },
+                  ],
+                },
+              },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should accept quoted field names, escapes and negative numbers', () => {
+      const { query } = parseQuery(
+        'IfcSlab where "My Pset"."Top level" >= -1.5e2 or Name = "a\\"b"'
+      );
+
+      expect(query!.condition).toEqual({
+        kind: 'or',
+        conditions: [
+          { kind: 'compare', field: ['My Pset', 'Top level'], operator: '>=', value: -150 },
+          { kind: 'compare', field: ['Name'], operator: '=', value: 'a"b' },
+        ],
+      });
+    });
+
+    it('should report a missing value with its position', () => {
+      const error = errorOf('IfcWall where Name =');
+
+      expect(error.message).toBe('Expected a value after "=", found the end of the query');
+      expect(error.position).toBe(20);
+    });
+
+    it('should report a missing operator', () => {
+      expect(errorOf('IfcWall where Name "x"').message).toBe(
+        'Expected an operator (!= <= >= = < > ~) after Name, found "x"'
+      );
+    });
+
+    it('should report a misspelt "where"', () => {
+      const error = errorOf('IfcWall wher Name = 1');
+
+      expect(error.message).toBe('Expected "where" or "," after IfcWall, found "wher"');
+      expect(error.position).toBe(8);
+    });
+
+    it('should report conditions that are not joined', () => {
+      expect(errorOf('where a = 1 b = 2').message).toBe(
+        'Unexpected "b"; join conditions with "and" or "or"'
+      );
+    });
+
+    it('should report an unclosed parenthesis and an unclosed text', () => {
+      expect(errorOf('where (a = 1').message).toBe(
+        'Expected ")" to close the "(", found the end of the query'
+      );
+      expect(errorOf('where a = "open').position).toBe(10);
+    });
+
+    it('should report an empty condition and a class that is not an IFC class', () => {
+      expect(errorOf('IfcWall where').message).toBe('Expected a condition after "where"');
+      expect(errorOf('IfcWall, Wall').message).toBe(
+        'Expected an IFC class (e.g. IfcWall), found "Wall"'
+      );
+    });
+
+    it('should reject ordering comparisons with text and long field paths', () => {
+      expect(errorOf('where Height > tall').message).toBe(
+        '">" compares numbers; "tall" is not a number'
+      );
+      expect(errorOf('where a.b.c = 1').message).toBe(
+        'Fields are an attribute (Name) or a property (Pset.Property)'
+      );
+    });
+
+    it('should report unknown characters', () => {
+      const error = errorOf('IfcWall where Name = #12');
+
+      expect(formatQueryError(error)).toBe('Unexpected character "#" (column 22)');
+    });
+  });
+
+  describe('parseQueryField', () => {
+    it('should parse attributes, properties and quoted names', () => {
+      expect(parseQueryField(' storey ').field).toEqual(['storey']);
+      expect(parseQueryField('Pset_WallCommon.FireRating').field).toEqual([
+        'Pset_WallCommon',
+        'FireRating',
+      ]);
+      expect(parseQueryField('"Phasing"."Phase Created"').field).toEqual([
+        'Phasing',
+        'Phase Created',
+      ]);
+      expect(parseQueryField('')).toEqual({ field: null, error: null });
+    });
+
+    it('should report text after the field', () => {
+      expect(parseQueryField('Name = 1').error).toEqual({
+        message: 'Unexpected "=" after the field',
+        position: 5,
+      });
+    });
+  });
+
+  describe('getQueryFields', () => {
+    it('should list each field once', () => {
+      const { query } = parseQuery('where Name ~ a or (name = b and not Pset.X = 1)');
+
+      expect(getQueryFields(query!.condition)).toEqual([['Name'], ['Pset', 'X']]);
+      expect(getQueryFields(null)).toEqual([]);
+    });
+  });
+
+  describe('matchesCondition', () => {
+    const values: Record<string, QueryValue[]> = {
+      Name: ['Basic Wall'],
+      'Pset_WallCommon.IsExternal': [true],
+      material: ['Concrete', 'Plaster'],
+    };
+    const getValues = (field: string[]) => values[field.join('.')] ?? [];
+    const matches = (text: string) =>
+      matchesCondition(parseQuery(text).query!.condition as QueryCondition, getValues);
+
+    it('should evaluate comparisons and logic', () => {
+      expect(matches('where Pset_WallCommon.IsExternal = true and Name ~ wall')).toBeTrue();
+      expect(matches('where Name = "other" or material = plaster')).toBeTrue();
+      expect(matches('where not material = Plaster')).toBeFalse();
+    });
+
+    it('should never match missing fields, not even with !=', () => {
+      expect(matches('where Tag != "x"')).toBeFalse();
+      expect(matches('where not Tag = "x"')).toBeTrue();
+    });
+  });
+
+  describe('compareValue', () => {
+    it('should compare text case-insensitively', () => {
+      expect(compareValue('Level 2', '=', 'level 2')).toBeTrue();
+      expect(compareValue('Level 2', '!=', 'Level 3')).toBeTrue();
+      expect(compareValue('Exterior wall', '~', 'WALL')).toBeTrue();
+    });
+
+    it('should compare numbers, also stored as text', () => {
+      expect(compareValue('3.0', '=', 3)).toBeTrue();
+      expect(compareValue(0.1 + 0.2, '=', 0.3)).toBeTrue();
+      expect(compareValue(2400, '>', 2000)).toBeTrue();
+      expect(compareValue('n/a', '<', 5)).toBeFalse();
+    });
+
+    it('should match booleans stored as text', () => {
+      expect(compareValue('TRUE', '=', true)).toBeTrue();
+      expect(compareValue(false, '=', true)).toBeFalse();
+    });
+  });
+});
@@ -0,0 +1,506 @@
+import {
+  ElementQuery,
+  QueryCondition,
+  QueryError,
+  QueryOperator,
+  QueryParseResult,
+  QueryValue,
+} from '../models/viewer.model';
+
+/**
+ * Token of the element query language
+ */
+interface Token {
+  type: 'word' | 'string' | 'number' | 'operator' | 'punctuation' | 'end';
+  /** Token text; strings without quotes */
+  text: string;
+  /** Offset in the query text */
+  position: number;
+}
+
+/**
+ * Helper: Error raised while parsing; converted to a QueryError by parseQuery()
+ */
+class QuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly position: number
+  ) {
+    super(message);
+  }
+}
+
+const OPERATORS: readonly QueryOperator[] = ['!=', '<=', '>=', '=', '<', '>', '~'];
+const ORDERING_OPERATORS: readonly QueryOperator[] = ['<', '<=', '>', '>='];
+const PUNCTUATION = '(),.';
+
+/**
+ * Parse the text of the search box
+ * Text starting with an IFC class or "where" is a query:
+ *   IfcWall, IfcSlab where Pset_WallCommon.IsExternal = true and storey = "Level 2"
+ * Anything else searches element names (contains) and GlobalIds (exact)
+ */
+export function parseQuery(text: string): QueryParseResult {
+  if (text.trim() === '') {
+    return { query: null, error: null };
+  }
+
+  if (!/^\s*(ifc[a-z0-9_]+|where)\b/i.test(text)) {
+    return { query: createTextQuery(text.trim()), error: null };
+  }
+
+  try {
+    return { query: new Parser(tokenize(text)).parse(), error: null };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { query: null, error: { message: error.message, position: error.position } };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse a field on its own, as used in queries (Name, storey, Pset_WallCommon.FireRating)
+ * @returns The field, or an error; both are null for an empty text
+ */
+export function parseQueryField(text: string): {
+  field: string[] | null;
+  error: QueryError | null;
+} {
+  if (text.trim() === '') {
+    return { field: null, error: null };
+  }
+
+  try {
+    return { field: new Parser(tokenize(text)).parseFieldOnly(), error: null };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { field: null, error: { message: error.message, position: error.position } };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Query matching elements whose name contains a text or whose GlobalId is the text
+ */
+export function createTextQuery(text: string): ElementQuery {
+  return {
+    classes: [],
+    condition: {
+      kind: 'or',
+      conditions: [
+        { kind: 'compare', field: ['Name'], operator: '~', value: text },
+        { kind: 'compare', field: ['GlobalId'], operator: '=', value: text },
+      ],
+    },
+  };
+}
+
+/**
+ * Describe a parse error with its column, e.g. 'Expected a value after "=" (column 12)'
+ */
+export function formatQueryError(error: QueryError): string {
+  return `${error.message} (column ${error.position + 1})`;
+}
+
+/**
+ * Fields a condition reads, each once
+ */
+export function getQueryFields(condition: QueryCondition | null): string[][] {
+  const fields = new Map<string, string[]>();
+  const visit = (current: QueryCondition) => {
+    switch (current.kind) {
+      case 'compare': {
+        const key = current.field.join('.').toLowerCase();
+        if (!fields.has(key)) {
+          fields.set(key, current.field);
+        }
+        break;
+      }
+      case 'not':
+        visit(current.condition);
+        break;
+      default:
+        current.conditions.forEach(visit);
+    }
+  };
+  if (condition) {
+    visit(condition);
+  }
+  return [...fields.values()];
+}
+
+/**
+ * Check an element against a condition
+ * Elements without a value for a field never meet a comparison on it (not even !=)
+ * @param getValues Values of a field for the element; several for e.g. materials
+ */
+export function matchesCondition(
+  condition: QueryCondition,
+  getValues: (field: string[]) => QueryValue[]
+): boolean {
+  switch (condition.kind) {
+    case 'compare':
+      return getValues(condition.field).some((value) =>
+        compareValue(value, condition.operator, condition.value)
+      );
+    case 'and':
+      return condition.conditions.every((part) => matchesCondition(part, getValues));
+    case 'or':
+      return condition.conditions.some((part) => matchesCondition(part, getValues));
+    case 'not':
+      return !matchesCondition(condition.condition, getValues);
+  }
+}
+
+/**
+ * Compare an element value with a query value
+ * Text compares case-insensitively; numbers and booleans also match their text form
+ */
+export function compareValue(
+  actual: QueryValue,
+  operator: QueryOperator,
+  expected: QueryValue
+): boolean {
+  switch (operator) {
+    case '=':
+      return isEqual(actual, expected);
+    case '!=':
+      return !isEqual(actual, expected);
+    case '~':
+      return String(actual).toLowerCase().includes(String(expected).toLowerCase());
+  }
+
+  const a = toNumber(actual);
+  const b = toNumber(expected);
+  if (Number.isNaN(a) || Number.isNaN(b)) {
+    return false;
+  }
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+  }
+}
+
+/**
+ * Helper: Equality used by = and !=
+ */
+function isEqual(actual: QueryValue, expected: QueryValue): boolean {
+  if (typeof expected === 'number') {
+    const value = toNumber(actual);
+    return Math.abs(value - expected) <= 1e-9 * Math.max(1, Math.abs(expected));
+  }
+  return String(actual).toLowerCase() === String(expected).toLowerCase();
+}
+
+/**
+ * Helper: Numeric value of a query value; NaN when it is not a number
+ */
+function toNumber(value: QueryValue): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    return Number(value);
+  }
+  return NaN;
+}
+
+/**
+ * Helper: Whether a word names an IFC class (IfcWall, IFCWALL)
+ */
+function isIfcClass(word: string): boolean {
+  return /^ifc[a-z0-9_]+$/i.test(word);
+}
+
+/**
+ * Helper: Whether a token is a keyword (case-insensitive)
+ */
+function isKeyword(token: Token, keyword: string): boolean {
+  return token.type === 'word' && token.text.toLowerCase() === keyword;
+}
+
+/**
+ * Helper: Split a query into tokens, ending with an 'end' token
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index]!;
+    const rest = text.slice(index);
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let end = index + 1;
+      while (end < text.length && text[end] !== char) {
+        // Backslash escapes the next character (e.g. \" inside a string)
+        if (text[end] === '\\' && end + 1 < text.length) {
+          end++;
+        }
+        value += text[end];
+        end++;
+      }
+      if (end >= text.length) {
+        throw new QuerySyntaxError(`Missing closing ${char} for the text starting here`, index);
+      }
+      tokens.push({ type: 'string', text: value, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_]\w*/.exec(rest);
+    if (word) {
+      tokens.push({ type: 'word', text: word[0], position: index });
+      index += word[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => rest.startsWith(op));
+    if (operator) {
+      tokens.push({ type: 'operator', text: operator, position: index });
+      index += operator.length;
+      continue;
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      tokens.push({ type: 'punctuation', text: char, position: index });
+      index++;
+      continue;
+    }
+
+    throw new QuerySyntaxError(`Unexpected character "${char}"`, index);
+  }
+
+  tokens.push({ type: 'end', text: '', position: text.length });
+  return tokens;
+}
+
+/**
+ * Helper: Recursive descent parser over the tokens of a query
+ *   query      := classes? ("where" or)?
+ *   classes    := class ("," class)*
+ *   or         := and ("or" and)*
+ *   and        := unary ("and" unary)*
+ *   unary      := "not" unary | "(" or ")" | field operator value
+ *   field      := name ("." name)?
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ElementQuery {
+    const classes: string[] = [];
+    if (!isKeyword(this.peek(), 'where')) {
+      classes.push(this.parseClass());
+      while (this.accept(',')) {
+        classes.push(this.parseClass());
+      }
+    }
+
+    let condition: QueryCondition | null = null;
+    const next = this.peek();
+    if (isKeyword(next, 'where')) {
+      this.index++;
+      if (this.peek().type === 'end') {
+        throw new QuerySyntaxError('Expected a condition after "where"', this.peek().position);
+      }
+      condition = this.parseOr();
+    } else if (next.type !== 'end') {
+      throw new QuerySyntaxError(
+        `Expected "where" or "," after ${classes[classes.length - 1]}, found ${describe(next)}`,
+        next.position
+      );
+    }
+
+    const end = this.peek();
+    if (end.type !== 'end') {
+      throw new QuerySyntaxError(
+        `Unexpected ${describe(end)}; join conditions with "and" or "or"`,
+        end.position
+      );
+    }
+    return { classes: [...new Set(classes.map((name) => name.toUpperCase()))], condition };
+  }
+
+  private parseClass(): string {
+    const token = this.peek();
+    if (token.type !== 'word' || !isIfcClass(token.text)) {
+      throw new QuerySyntaxError(
+        `Expected an IFC class (e.g. IfcWall), found ${describe(token)}`,
+        token.position
+      );
+    }
+    this.index++;
+    return token.text;
+  }
+
+  private parseOr(): QueryCondition {
+    const conditions = [this.parseAnd()];
+    while (isKeyword(this.peek(), 'or')) {
+      this.index++;
+      conditions.push(this.parseAnd());
+    }
+    return conditions.length === 1 ? conditions[0]! : { kind: 'or', conditions };
+  }
+
+  private parseAnd(): QueryCondition {
+    const conditions = [this.parseUnary()];
+    while (isKeyword(this.peek(), 'and')) {
+      this.index++;
+      conditions.push(this.parseUnary());
+    }
+    return conditions.length === 1 ? conditions[0]! : { kind: 'and', conditions };
+  }
+
+  private parseUnary(): QueryCondition {
+    const token = this.peek();
+    if (isKeyword(token, 'not')) {
+      this.index++;
+      return { kind: 'not', condition: this.parseUnary() };
+    }
+    if (this.accept('(')) {
+      const condition = this.parseOr();
+      if (!this.accept(')')) {
+        throw new QuerySyntaxError(
+          `Expected ")" to close the "(", found ${describe(this.peek())}`,
+          this.peek().position
+        );
+      }
+      return condition;
+    }
+    return this.parseComparison();
+  }
+
+  /**
+   * Parse a whole text as a single field
+   */
+  parseFieldOnly(): string[] {
+    const field = this.parseField();
+    const end = this.peek();
+    if (end.type !== 'end') {
+      throw new QuerySyntaxError(`Unexpected ${describe(end)} after the field`, end.position);
+    }
+    return field;
+  }
+
+  private parseField(): string[] {
+    const field = [this.parseName('a field (e.g. Name or Pset_WallCommon.IsExternal)')];
+    if (this.accept('.')) {
+      field.push(this.parseName(`a property name after "${field[0]}."`));
+    }
+    if (this.peek().type === 'punctuation' && this.peek().text === '.') {
+      throw new QuerySyntaxError(
+        'Fields are an attribute (Name) or a property (Pset.Property)',
+        this.peek().position
+      );
+    }
+    return field;
+  }
+
+  private parseComparison(): QueryCondition {
+    const field = this.parseField();
+    const fieldName = field.join('.');
+    const operatorToken = this.peek();
+    if (operatorToken.type !== 'operator') {
+      throw new QuerySyntaxError(
+        `Expected an operator (${OPERATORS.join(' ')}) after ${fieldName}, found ${describe(operatorToken)}`,
+        operatorToken.position
+      );
+    }
+    this.index++;
+    const operator = operatorToken.text as QueryOperator;
+
+    const value = this.parseValue(operator);
+    if (ORDERING_OPERATORS.includes(operator) && typeof value !== 'number') {
+      throw new QuerySyntaxError(
+        `"${operator}" compares numbers; ${JSON.stringify(value)} is not a number`,
+        this.tokens[this.index - 1]!.position
+      );
+    }
+    return { kind: 'compare', field, operator, value };
+  }
+
+  private parseName(expected: string): string {
+    const token = this.peek();
+    if (token.type === 'string' || (token.type === 'word' && !isReserved(token))) {
+      this.index++;
+      return token.text;
+    }
+    throw new QuerySyntaxError(`Expected ${expected}, found ${describe(token)}`, token.position);
+  }
+
+  private parseValue(operator: QueryOperator): QueryValue {
+    const token = this.peek();
+    switch (token.type) {
+      case 'string':
+        this.index++;
+        return token.text;
+      case 'number':
+        this.index++;
+        return Number(token.text);
+      case 'word':
+        if (isKeyword(token, 'true') || isKeyword(token, 'false')) {
+          this.index++;
+          return token.text.toLowerCase() === 'true';
+        }
+        if (!isReserved(token)) {
+          // Bare words are text, e.g. storey = Level_2
+          this.index++;
+          return token.text;
+        }
+    }
+    throw new QuerySyntaxError(
+      `Expected a value after "${operator}", found ${describe(token)}`,
+      token.position
+    );
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private accept(punctuation: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuation' && token.text === punctuation) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * Helper: Whether a word is a keyword that cannot be a field or bare value
+ */
+function isReserved(token: Token): boolean {
+  return ['where', 'and', 'or', 'not'].some((keyword) => isKeyword(token, keyword));
+}
+
+/**
+ * Helper: Token as shown in error messages
+ */
+function describe(token: Token): string {
+  return token.type === 'end' ? 'the end of the query' : `"${token.text}"`;
+}
@@ -0,0 +1,61 @@
+import { getEdgeRanges, getFeatureEdges } from './render-style.utils';
+
+describe('render-style.utils', () => {
+  describe('getFeatureEdges', () => {
+    // Unit square in the XZ plane folded along its diagonal by `lift` at one corner
+    const quad = (lift: number) =>
+      new Float32Array([0, 0, 0, 1, 0, 0, 1, lift, 1, 0, 0, 0, 1, lift, 1, 0, 0, 1]);
+
+    it('should keep the outline of a flat surface and drop the edge between its faces', () => {
+      const edges = getFeatureEdges(quad(0), null, 30);
+
+      expect(edges.positions.length).toBe(4 * 6);
+      expect(Array.from(edges.triangles)).toEqual([0, 0, 3, 3]);
+    });
+
+    it('should keep the edge between faces meeting at more than the angle', () => {
+      const fold = quad(0.2);
+
+      expect(getFeatureEdges(fold, null, 30).triangles.length).toBe(4);
+      expect(getFeatureEdges(fold, null, 5).triangles.length).toBe(5);
+    });
+
+    it('should find the twelve edges of an indexed box', () => {
+      const corners = [0, 1].flatMap((x) =>
+        [0, 1].flatMap((y) => [0, 1].flatMap((z) => [x, y, z]))
+      );
+      const faces = [
+        [0, 1, 3, 0, 3, 2],
+        [4, 6, 7, 4, 7, 5],
+        [0, 4, 5, 0, 5, 1],
+        [2, 3, 7, 2, 7, 6],
+        [0, 2, 6, 0, 6, 4],
+        [1, 5, 7, 1, 7, 3],
+      ].flat();
+
+      const edges = getFeatureEdges(new Float32Array(corners), faces, 30);
+
+      expect(edges.triangles.length).toBe(12);
+    });
+  });
+
+  describe('getEdgeRanges', () => {
+    const triangles = new Uint32Array([0, 0, 3, 6, 6, 6]);
+
+    it('should map ranges of triangle corners to the edges of those triangles', () => {
+      expect(
+        getEdgeRanges(triangles, [
+          { start: 0, count: 3 },
+          { start: 6, count: 3 },
+        ])
+      ).toEqual([
+        { start: 0, count: 2 },
+        { start: 3, count: 3 },
+      ]);
+    });
+
+    it('should leave out ranges without edges', () => {
+      expect(getEdgeRanges(triangles, [{ start: 9, count: 3 }])).toEqual([]);
+    });
+  });
+});
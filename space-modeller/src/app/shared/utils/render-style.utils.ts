@@ -0,0 +1,155 @@
+import { FeatureEdges } from '../models/viewer.model';
+
+// Vertices closer than this are welded when looking for shared edges (m)
+const WELD_PRECISION = 1e-4;
+
+/**
+ * Find the feature edges of a triangle mesh: edges where two faces meet at
+ * more than the given angle, and edges belonging to a single face
+ * @param positions Vertex coordinates, three per vertex
+ * @param index Triangle corners indexing the vertices; null for unindexed triangles
+ * @param angle Minimum angle between the faces (degrees)
+ */
+export function getFeatureEdges(
+  positions: ArrayLike<number>,
+  index: ArrayLike<number> | null,
+  angle: number
+): FeatureEdges {
+  const corners = index ? index.length : positions.length / 3;
+  const triangleCount = Math.floor(corners / 3);
+  const vertexOf = (corner: number) => (index ? index[corner]! : corner);
+
+  // Weld corners at the same position, so faces with split normals still share edges
+  const weldIds = new Map<string, number>();
+  const welded = new Uint32Array(corners);
+  for (let corner = 0; corner < triangleCount * 3; corner++) {
+    const vertex = vertexOf(corner) * 3;
+    const key = [0, 1, 2]
+      .map((axis) => Math.round(positions[vertex + axis]! / WELD_PRECISION))
+      .join();
+    let id = weldIds.get(key);
+    if (id === undefined) {
+      id = weldIds.size;
+      weldIds.set(key, id);
+    }
+    welded[corner] = id;
+  }
+
+  // Faces on each edge, kept in the order the edges are first met
+  const normals = new Float32Array(triangleCount * 3);
+  const edges = new Map<number, { corner: number; faces: number[] }>();
+  for (let triangle = 0; triangle < triangleCount; triangle++) {
+    if (!setFaceNormal(positions, vertexOf, triangle, normals)) {
+      continue;
+    }
+    for (let side = 0; side < 3; side++) {
+      const corner = triangle * 3 + side;
+      const a = welded[corner]!;
+      const b = welded[triangle * 3 + ((side + 1) % 3)]!;
+      const key = Math.min(a, b) * weldIds.size + Math.max(a, b);
+      const edge = edges.get(key);
+      if (edge) {
+        edge.faces.push(triangle);
+      } else {
+        edges.set(key, { corner, faces: [triangle] });
+      }
+    }
+  }
+
+  const cosAngle = Math.cos((angle * Math.PI) / 180);
+  const segments: number[] = [];
+  const triangles: number[] = [];
+  for (const { corner, faces } of edges.values()) {
+    const [first, second] = faces as [number, number?];
+    if (second !== undefined && dotNormals(normals, first, second) > cosAngle) {
+      continue;
+    }
+
+    const next = corner - (corner % 3) + ((corner + 1) % 3);
+    for (const end of [corner, next]) {
+      const vertex = vertexOf(end) * 3;
+      segments.push(positions[vertex]!, positions[vertex + 1]!, positions[vertex + 2]!);
+    }
+    triangles.push(first * 3);
+  }
+
+  return { positions: new Float32Array(segments), triangles: new Uint32Array(triangles) };
+}
+
+/**
+ * Map ranges of triangle corners (e.g. the draw groups of the visible
+ * elements of a mesh) to the ranges of feature edges belonging to them
+ * @param triangles Index offset of each edge's triangle, in ascending order
+ * @param ranges Ranges of triangle corners
+ * @returns Non-empty ranges of edges
+ */
+export function getEdgeRanges(
+  triangles: Uint32Array,
+  ranges: readonly { start: number; count: number }[]
+): { start: number; count: number }[] {
+  return ranges
+    .map(({ start, count }) => {
+      const first = lowerBound(triangles, start);
+      return { start: first, count: lowerBound(triangles, start + count) - first };
+    })
+    .filter((range) => range.count > 0);
+}
+
+/**
+ * Helper: Store the unit normal of a triangle
+ * @returns False if the triangle has no area
+ */
+function setFaceNormal(
+  positions: ArrayLike<number>,
+  vertexOf: (corner: number) => number,
+  triangle: number,
+  normals: Float32Array
+): boolean {
+  const [a, b, c] = [0, 1, 2].map((side) => vertexOf(triangle * 3 + side) * 3) as [
+    number,
+    number,
+    number,
+  ];
+  const u = [0, 1, 2].map((axis) => positions[b + axis]! - positions[a + axis]!);
+  const v = [0, 1, 2].map((axis) => positions[c + axis]! - positions[a + axis]!);
+  const normal = [
+    u[1]! * v[2]! - u[2]! * v[1]!,
+    u[2]! * v[0]! - u[0]! * v[2]!,
+    u[0]! * v[1]! - u[1]! * v[0]!,
+  ];
+  const length = Math.hypot(...normal);
+  if (length === 0) {
+    return false;
+  }
+
+  normal.forEach((value, axis) => (normals[triangle * 3 + axis] = value / length));
+  return true;
+}
+
+/**
+ * Helper: Cosine of the angle between two face normals
+ */
+function dotNormals(normals: Float32Array, first: number, second: number): number {
+  let dot = 0;
+  for (let axis = 0; axis < 3; axis++) {
+    dot += normals[first * 3 + axis]! * normals[second * 3 + axis]!;
+  }
+  return dot;
+}
+
+/**
+ * Helper: First position in a sorted array whose value is not below the given one
+ */
+function lowerBound(values: Uint32Array, value: number): number {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (values[middle]! < value) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
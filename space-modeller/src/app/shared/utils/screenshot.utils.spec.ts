@@ -0,0 +1,51 @@
+import { flipRows, getImageTiles, getScaleBar } from './screenshot.utils';
+
+describe('screenshot utils', () => {
+  describe('getImageTiles', () => {
+    it('should cover the image with tiles, cutting the last ones short', () => {
+      const tiles = getImageTiles(5000, 3000, 2048);
+
+      expect(tiles.length).toBe(6);
+      expect(tiles[0]).toEqual({ x: 0, y: 0, width: 2048, height: 2048 });
+      expect(tiles[2]).toEqual({ x: 4096, y: 0, width: 904, height: 2048 });
+      expect(tiles[5]).toEqual({ x: 4096, y: 2048, width: 904, height: 952 });
+    });
+
+    it('should use a single tile for small images', () => {
+      expect(getImageTiles(800, 600, 2048)).toEqual([{ x: 0, y: 0, width: 800, height: 600 }]);
+    });
+  });
+
+  describe('getScaleBar', () => {
+    it('should pick the longest round length that fits', () => {
+      // 400 px at 2.5 cm per pixel is 10 m
+      expect(getScaleBar(0.025, 400)).toEqual({ length: 10, pixels: 400, label: '10 m' });
+      // 300 px at 2.5 cm per pixel is 7.5 m
+      expect(getScaleBar(0.025, 300)).toEqual({ length: 5, pixels: 200, label: '5 m' });
+      expect(getScaleBar(0.025, 100)?.label).toBe('2 m');
+    });
+
+    it('should label short and long bars in fitting units', () => {
+      expect(getScaleBar(0.001, 300)?.label).toBe('20 cm');
+      expect(getScaleBar(0.0001, 300)?.label).toBe('2 cm');
+      expect(getScaleBar(0.00001, 300)?.label).toBe('2 mm');
+      expect(getScaleBar(10, 300)?.label).toBe('2 km');
+    });
+
+    it('should give no bar for an unknown scale', () => {
+      expect(getScaleBar(0, 300)).toBeNull();
+      expect(getScaleBar(Infinity, 300)).toBeNull();
+      expect(getScaleBar(NaN, 300)).toBeNull();
+    });
+  });
+
+  describe('flipRows', () => {
+    it('should put the bottom row first', () => {
+      const pixels = new Uint8Array([1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4]);
+
+      const flipped = flipRows(pixels, 2, 2);
+
+      expect(Array.from(flipped)).toEqual([3, 3, 3, 3, 4, 4, 4, 4, 1, 1, 1, 1, 2, 2, 2, 2]);
+    });
+  });
+});
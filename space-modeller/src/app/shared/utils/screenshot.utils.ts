@@ -0,0 +1,68 @@
+import { ImageTile, ScaleBar } from '../models/viewer.model';
+
+/**
+ * Split an image into tiles of at most `tileSize` pixels, row by row from the top-left
+ */
+export function getImageTiles(width: number, height: number, tileSize: number): ImageTile[] {
+  const tiles: ImageTile[] = [];
+  for (let y = 0; y < height; y += tileSize) {
+    for (let x = 0; x < width; x += tileSize) {
+      tiles.push({
+        x,
+        y,
+        width: Math.min(tileSize, width - x),
+        height: Math.min(tileSize, height - y),
+      });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Longest scale bar of a round length (1, 2 or 5 times a power of ten metres)
+ * that fits in `maxPixels`
+ * @param metresPerPixel World size of one image pixel at the distance the bar applies to
+ * @returns The bar, or null if the scale is unknown
+ */
+export function getScaleBar(metresPerPixel: number, maxPixels: number): ScaleBar | null {
+  if (!(metresPerPixel > 0) || !Number.isFinite(metresPerPixel) || !(maxPixels > 0)) {
+    return null;
+  }
+
+  const maxLength = metresPerPixel * maxPixels;
+  const power = Math.pow(10, Math.floor(Math.log10(maxLength)));
+  const step = [5, 2, 1].find((factor) => factor * power <= maxLength) ?? 1;
+  // Rounded, so that 0.1 + 0.2 style errors do not show in the label
+  const length = Number((step * power).toPrecision(1));
+  return { length, pixels: length / metresPerPixel, label: formatLength(length) };
+}
+
+/**
+ * Turn pixels read from WebGL (rows from the bottom up) into image rows from the top down
+ * @param pixels RGBA bytes, 4 per pixel
+ */
+export function flipRows(pixels: Uint8Array, width: number, height: number): Uint8ClampedArray {
+  const rowSize = width * 4;
+  const flipped = new Uint8ClampedArray(pixels.length);
+  for (let row = 0; row < height; row++) {
+    const start = (height - row - 1) * rowSize;
+    flipped.set(pixels.subarray(start, start + rowSize), row * rowSize);
+  }
+  return flipped;
+}
+
+/**
+ * Helper: Format a scale bar length in the unit that reads best
+ */
+function formatLength(metres: number): string {
+  if (metres >= 1000) {
+    return `${metres / 1000} km`;
+  }
+  if (metres >= 1) {
+    return `${metres} m`;
+  }
+  if (metres >= 0.01) {
+    return `${Number((metres * 100).toPrecision(1))} cm`;
+  }
+  return `${Number((metres * 1000).toPrecision(1))} mm`;
+}
@@ -0,0 +1,124 @@
+import * as FRAGS from '@thatopen/fragments';
+import {
+  buildSpatialTree,
+  collectLocalIds,
+  findSpatialNodes,
+  formatIfcClass,
+  getSpatialLocalIds,
+} from './spatial-tree.utils';
+
+describe('spatial tree utils', () => {
+  // Project > Site > Building > Storey > (2 walls, 1 door) + Space
+  const structure: FRAGS.SpatialTreeItem = {
+    category: 'IFCPROJECT',
+    localId: 1,
+    children: [
+      {
+        category: 'IFCSITE',
+        localId: 2,
+        children: [
+          {
+            category: 'IFCBUILDING',
+            localId: 3,
+            children: [
+              {
+                category: 'IFCBUILDINGSTOREY',
+                localId: 4,
+                children: [
+                  {
+                    category: 'IFCWALL',
+                    localId: null,
+                    children: [
+                      { category: null, localId: 10 },
+                      { category: null, localId: 11 },
+                    ],
+                  },
+                  { category: 'IFCDOOR', localId: null, children: [{ category: null, localId: 12 }] },
+                  { category: 'IFCSPACE', localId: 5, children: [] },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+
+  const storeyOf = (root: ReturnType<typeof buildSpatialTree>) =>
+    root.children[0]!.children[0]!.children[0]!;
+
+  describe('getSpatialLocalIds', () => {
+    it('should list spatial items but not contained elements', () => {
+      expect(getSpatialLocalIds(structure)).toEqual([1, 2, 3, 4, 5]);
+    });
+  });
+
+  describe('buildSpatialTree', () => {
+    it('should name spatial nodes after their Name and class', () => {
+      const root = buildSpatialTree('tower', structure, new Map([[4, 'Level 1']]));
+
+      expect(root.name).toBe('IfcProject');
+      expect(storeyOf(root).name).toBe('Level 1 (IfcBuildingStorey)');
+    });
+
+    it('should count the elements below each node', () => {
+      const root = buildSpatialTree('tower', structure);
+      const storey = storeyOf(root);
+
+      expect(storey.elementCount).toBe(4);
+      expect(storey.children.map((child) => child.elementCount)).toEqual([2, 1, 0]);
+      expect(root.elementCount).toBe(7);
+    });
+
+    it('should give every node a unique key', () => {
+      const keys: string[] = [];
+      const visit = (node: ReturnType<typeof buildSpatialTree>) => {
+        keys.push(node.key);
+        node.children.forEach(visit);
+      };
+      visit(buildSpatialTree('tower', structure));
+
+      expect(new Set(keys).size).toBe(keys.length);
+      expect(keys).toContain('tower:4/IFCWALL');
+    });
+
+    it('should label contained elements by local ID until names are loaded', () => {
+      const wallGroup = storeyOf(buildSpatialTree('tower', structure)).children[0]!;
+
+      expect(wallGroup.name).toBe('IfcWall');
+      expect(wallGroup.children.map((child) => child.name)).toEqual(['#10', '#11']);
+    });
+  });
+
+  describe('collectLocalIds', () => {
+    it('should collect a node and everything below it', () => {
+      const storey = storeyOf(buildSpatialTree('tower', structure));
+
+      expect(collectLocalIds(storey)).toEqual([4, 10, 11, 12, 5]);
+      expect(collectLocalIds(storey.children[0]!)).toEqual([10, 11]);
+    });
+  });
+
+  describe('findSpatialNodes', () => {
+    it('should find the spatial nodes of a class', () => {
+      const root = buildSpatialTree('tower', structure);
+
+      expect(findSpatialNodes(root, 'IFCBUILDINGSTOREY').map((node) => node.localId)).toEqual([4]);
+      expect(findSpatialNodes(root, 'IFCSPACE').map((node) => node.localId)).toEqual([5]);
+    });
+
+    it('should skip class groups', () => {
+      expect(findSpatialNodes(buildSpatialTree('tower', structure), 'IFCWALL')).toEqual([]);
+    });
+  });
+
+  describe('formatIfcClass', () => {
+    it('should use known display names', () => {
+      expect(formatIfcClass('IFCBUILDINGSTOREY')).toBe('IfcBuildingStorey');
+    });
+
+    it('should fall back to capitalising unknown classes', () => {
+      expect(formatIfcClass('IFCTENDON')).toBe('IfcTendon');
+    });
+  });
+});
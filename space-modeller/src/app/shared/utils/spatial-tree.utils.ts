@@ -0,0 +1,110 @@
+import * as FRAGS from '@thatopen/fragments';
+import { IFC_CLASS_NAMES } from '../constants/viewer.constants';
+import { SpatialNode } from '../models/viewer.model';
+
+/**
+ * Local IDs of the named spatial items (Project, Site, ...) of a spatial structure
+ * These are the items whose names are worth fetching when building the tree
+ */
+export function getSpatialLocalIds(item: FRAGS.SpatialTreeItem): number[] {
+  const ids: number[] = [];
+  const visit = (current: FRAGS.SpatialTreeItem) => {
+    if (current.category !== null && current.localId !== null) {
+      ids.push(current.localId);
+    }
+    current.children?.forEach(visit);
+  };
+  visit(item);
+  return ids;
+}
+
+/**
+ * Build the tree shown in the spatial structure panel
+ * @param modelId Fragments model ID
+ * @param item Result of FragmentsModel.getSpatialStructure()
+ * @param names Names of spatial items by local ID
+ */
+export function buildSpatialTree(
+  modelId: string,
+  item: FRAGS.SpatialTreeItem,
+  names: Map<number, string> = new Map(),
+  parentKey = modelId
+): SpatialNode {
+  const key =
+    item.localId !== null
+      ? `${modelId}:${item.localId}`
+      : `${parentKey}/${item.category ?? 'group'}`;
+
+  const children = (item.children ?? []).map((child) =>
+    buildSpatialTree(modelId, child, names, key)
+  );
+  const elementCount = children.reduce(
+    (count, child) => count + child.elementCount + (child.localId !== null ? 1 : 0),
+    0
+  );
+
+  return {
+    key,
+    modelId,
+    localId: item.localId,
+    category: item.category,
+    name: getNodeName(item, names),
+    elementCount,
+    children,
+  };
+}
+
+/**
+ * Local IDs of a node and everything below it
+ */
+export function collectLocalIds(node: SpatialNode): number[] {
+  const ids: number[] = [];
+  const visit = (current: SpatialNode) => {
+    if (current.localId !== null) {
+      ids.push(current.localId);
+    }
+    current.children.forEach(visit);
+  };
+  visit(node);
+  return ids;
+}
+
+/**
+ * Find the spatial nodes of an IFC class (e.g. all IFCBUILDINGSTOREY nodes), in tree order
+ */
+export function findSpatialNodes(root: SpatialNode, category: string): SpatialNode[] {
+  const nodes: SpatialNode[] = [];
+  const visit = (current: SpatialNode) => {
+    if (current.localId !== null && current.category === category) {
+      nodes.push(current);
+    }
+    current.children.forEach(visit);
+  };
+  visit(root);
+  return nodes;
+}
+
+/**
+ * Format an IFC class for display (IFCBUILDINGSTOREY -> IfcBuildingStorey)
+ * Falls back to Title case after the Ifc prefix for classes not listed
+ */
+export function formatIfcClass(category: string): string {
+  const known = IFC_CLASS_NAMES[category.toUpperCase()];
+  if (known) {
+    return known;
+  }
+  const rest = category.replace(/^IFC/i, '').toLowerCase();
+  return `Ifc${rest.charAt(0).toUpperCase()}${rest.slice(1)}`;
+}
+
+/**
+ * Helper: Display name of a tree item
+ */
+function getNodeName(item: FRAGS.SpatialTreeItem, names: Map<number, string>): string {
+  const name = item.localId !== null ? names.get(item.localId) : undefined;
+  if (item.category === null) {
+    return name ?? `#${item.localId}`;
+  }
+  const ifcClass = formatIfcClass(item.category);
+  return name ? `${name} (${ifcClass})` : ifcClass;
+}
@@ -0,0 +1,80 @@
+import { classifyValues, formatLegendValue } from './thematic.utils';
+import { THEMATIC_CONFIG } from '../constants/viewer.constants';
+
+describe('thematic.utils', () => {
+  describe('classifyValues', () => {
+    it('should give each value its own colour, sorted by value', () => {
+      const { kind, entries, indices } = classifyValues([['EI 60'], ['EI 30'], ['EI 60']]);
+
+      expect(kind).toBe('categorical');
+      expect(entries.map((entry) => entry.label)).toEqual(['EI 30', 'EI 60']);
+      expect(entries[0]!.color).toBe(THEMATIC_CONFIG.palette[0]!);
+      expect(indices).toEqual([1, 0, 1]);
+    });
+
+    it('should put elements without a value last', () => {
+      const { entries, indices } = classifyValues([[true], [], [false]]);
+
+      expect(entries.map((entry) => entry.label)).toEqual(['false', 'true', 'No value']);
+      expect(entries[2]!.color).toBe(THEMATIC_CONFIG.noValueColor);
+      expect(indices).toEqual([1, 2, 0]);
+    });
+
+    it('should join several values of one element', () => {
+      const { entries, indices } = classifyValues([['Concrete', 'Plaster'], ['Concrete']]);
+
+      expect(entries.map((entry) => entry.label)).toEqual(['Concrete', 'Concrete, Plaster']);
+      expect(indices).toEqual([1, 0]);
+    });
+
+    it('should group the rarest values as Other when the palette runs out', () => {
+      const size = THEMATIC_CONFIG.palette.length;
+      const samples = Array.from({ length: size + 1 }, (_, index) => [`Type ${index}`]);
+      samples.push(['Type 0'], ['Type 1']);
+
+      const { entries, indices } = classifyValues(samples);
+
+      expect(entries.length).toBe(size);
+      expect(entries[size - 1]!.label).toBe('Other');
+      expect(entries.filter((entry) => entry.label === 'Type 0').length).toBe(1);
+      expect(indices.filter((index) => index === size - 1).length).toBe(2);
+    });
+
+    it('should split many numbers into equal ranges', () => {
+      const { kind, entries, indices } = classifyValues([[0], [1], [2], [3], [4], [5], [10], []]);
+
+      expect(kind).toBe('graduated');
+      expect(entries.map((entry) => entry.label)).toEqual([
+        '0 – 2',
+        '2 – 4',
+        '4 – 6',
+        '6 – 8',
+        '8 – 10',
+        'No value',
+      ]);
+      expect(indices).toEqual([0, 0, 1, 1, 2, 2, 4, 5]);
+    });
+
+    it('should split the numbers of a large model into ranges', () => {
+      const samples = Array.from({ length: 500_000 }, (_, index) => [index]);
+
+      const { kind, indices } = classifyValues(samples);
+
+      expect(kind).toBe('graduated');
+      expect(indices[0]).toBe(0);
+      expect(indices[samples.length - 1]).toBe(4);
+    });
+
+    it('should keep few numbers categorical', () => {
+      expect(classifyValues([[1], [2], [2]]).kind).toBe('categorical');
+    });
+  });
+
+  describe('formatLegendValue', () => {
+    it('should round numbers for display', () => {
+      expect(formatLegendValue(1 / 3)).toBe('0.3333');
+      expect(formatLegendValue(2400)).toBe('2400');
+      expect(formatLegendValue('EI 60')).toBe('EI 60');
+    });
+  });
+});
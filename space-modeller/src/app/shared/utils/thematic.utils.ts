@@ -0,0 +1,110 @@
+import { THEMATIC_CONFIG } from '../constants/viewer.constants';
+import { LegendKind, QueryValue } from '../models/viewer.model';
+
+/**
+ * Legend entries without their elements, and the entry of each sample
+ */
+export interface ValueClasses {
+  kind: LegendKind;
+  entries: { label: string; color: string }[];
+  /** Index into entries for each sample, in sample order */
+  indices: number[];
+}
+
+/**
+ * Assign colours to the values of a field
+ * Numbers with more distinct values than ramp colours are split into equal
+ * ranges; anything else gets one colour per value, with the rarest values
+ * grouped as "Other" once the palette runs out. Elements without a value
+ * come last as "No value".
+ * @param samples Values of each element; elements with several values (e.g. materials) use all of them
+ */
+export function classifyValues(samples: QueryValue[][]): ValueClasses {
+  const firstValues = samples.filter((values) => values.length > 0).map((values) => values[0]!);
+  const graduated =
+    firstValues.length > 0 &&
+    firstValues.every((value) => typeof value === 'number') &&
+    new Set(firstValues).size > THEMATIC_CONFIG.ramp.length;
+
+  const result = graduated
+    ? classifyRanges(samples, firstValues as number[])
+    : classifyCategories(samples);
+
+  // Elements without a value
+  if (result.indices.some((index) => index < 0)) {
+    const noValue = result.entries.length;
+    result.entries.push({
+      label: THEMATIC_CONFIG.labels.noValue,
+      color: THEMATIC_CONFIG.noValueColor,
+    });
+    result.indices = result.indices.map((index) => (index < 0 ? noValue : index));
+  }
+  return result;
+}
+
+/**
+ * Format a value for a legend label
+ */
+export function formatLegendValue(value: QueryValue): string {
+  if (typeof value === 'number') {
+    return String(Number(value.toPrecision(4)));
+  }
+  return String(value);
+}
+
+/**
+ * Helper: Equal-interval ranges between the smallest and largest number
+ */
+function classifyRanges(samples: QueryValue[][], numbers: number[]): ValueClasses {
+  const ramp = THEMATIC_CONFIG.ramp;
+  // Looped over: large models have too many values to spread into Math.min
+  let [min, max] = [Infinity, -Infinity];
+  for (const value of numbers) {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  const step = (max - min) / ramp.length;
+
+  const entries = ramp.map((color, index) => ({
+    label: `${formatLegendValue(min + step * index)} – ${formatLegendValue(min + step * (index + 1))}`,
+    color,
+  }));
+  const indices = samples.map((values) =>
+    values.length === 0
+      ? -1
+      : Math.min(ramp.length - 1, Math.floor(((values[0] as number) - min) / step))
+  );
+  return { kind: 'graduated', entries, indices };
+}
+
+/**
+ * Helper: One colour per value (several values of one element are joined)
+ */
+function classifyCategories(samples: QueryValue[][]): ValueClasses {
+  const keys = samples.map((values) =>
+    values.length === 0 ? null : [...new Set(values.map(formatLegendValue))].join(', ')
+  );
+
+  const counts = new Map<string, number>();
+  keys.forEach((key) => key !== null && counts.set(key, (counts.get(key) ?? 0) + 1));
+
+  // Keep the most common values when there are more than colours
+  const palette = THEMATIC_CONFIG.palette;
+  let kept = [...counts.keys()];
+  const overflow = kept.length > palette.length;
+  if (overflow) {
+    kept = kept.sort((a, b) => counts.get(b)! - counts.get(a)!).slice(0, palette.length - 1);
+  }
+  kept.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+  const entries = kept.map((label, index) => ({ label, color: palette[index]! }));
+  if (overflow) {
+    entries.push({ label: THEMATIC_CONFIG.labels.other, color: THEMATIC_CONFIG.otherColor });
+  }
+
+  const indexOf = new Map(kept.map((label, index) => [label, index]));
+  const indices = keys.map((key) =>
+    key === null ? -1 : (indexOf.get(key) ?? entries.length - 1)
+  );
+  return { kind: 'categorical', entries, indices };
+}
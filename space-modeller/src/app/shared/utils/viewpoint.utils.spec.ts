@@ -0,0 +1,155 @@
+import { Viewpoint } from '../models/viewer.model';
+import {
+  easeInOut,
+  fromSavedVisibility,
+  lerpPoint,
+  moveItem,
+  parseViewpoints,
+  toSavedVisibility,
+} from './viewpoint.utils';
+
+describe('viewpoint.utils', () => {
+  const viewpoint: Viewpoint = {
+    id: 'v1',
+    name: 'Entrance',
+    camera: {
+      position: { x: 10, y: 5, z: 10 },
+      target: { x: 0, y: 0, z: 0 },
+      projection: 'perspective',
+    },
+    clippingPlanes: [
+      { kind: 'plane', label: 'Plane 1', normal: { x: 0, y: -1, z: 0 }, constant: 3 },
+    ],
+    visibility: { 'Architecture.ifc': { name: 'Architecture.ifc', hidden: [4], ghosted: [] } },
+  };
+
+  describe('easeInOut', () => {
+    it('should start and stop slowly', () => {
+      expect(easeInOut(0)).toBe(0);
+      expect(easeInOut(0.5)).toBe(0.5);
+      expect(easeInOut(1)).toBe(1);
+      expect(easeInOut(0.1)).toBeLessThan(0.1);
+      expect(easeInOut(0.9)).toBeGreaterThan(0.9);
+    });
+
+    it('should clamp progress outside 0 to 1', () => {
+      expect(easeInOut(-1)).toBe(0);
+      expect(easeInOut(2)).toBe(1);
+    });
+  });
+
+  describe('lerpPoint', () => {
+    it('should interpolate each coordinate', () => {
+      expect(lerpPoint({ x: 0, y: 2, z: -4 }, { x: 10, y: 4, z: 4 }, 0.25)).toEqual({
+        x: 2.5,
+        y: 2.5,
+        z: -2,
+      });
+    });
+  });
+
+  describe('moveItem', () => {
+    it('should move an item up or down', () => {
+      expect(moveItem(['a', 'b', 'c'], 2, 0)).toEqual(['c', 'a', 'b']);
+      expect(moveItem(['a', 'b', 'c'], 0, 1)).toEqual(['b', 'a', 'c']);
+    });
+
+    it('should ignore moves out of range', () => {
+      expect(moveItem(['a', 'b'], 1, 2)).toEqual(['a', 'b']);
+      expect(moveItem(['a', 'b'], -1, 0)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('toSavedVisibility / fromSavedVisibility', () => {
+    it('should key visibility by model ID and map it back to the loaded models', () => {
+      const saved = toSavedVisibility(
+        {
+          hidden: new Map([['id-1', new Set([4, 5])]]),
+          ghosted: new Map([['id-2', new Set([9])]]),
+        },
+        new Map([
+          ['id-1', 'Architecture.ifc'],
+          ['id-2', 'Structure.ifc'],
+          ['id-3', 'MEP.ifc'],
+        ])
+      );
+
+      expect(saved).toEqual({
+        'id-1': { name: 'Architecture.ifc', hidden: [4, 5], ghosted: [] },
+        'id-2': { name: 'Structure.ifc', hidden: [], ghosted: [9] },
+      });
+
+      const state = fromSavedVisibility(saved, new Map([['id-1', 'Architecture.ifc']]));
+      expect([...state.hidden]).toEqual([['id-1', new Set([4, 5])]]);
+      expect(state.ghosted.size).toBe(0);
+    });
+
+    it('should find a model loaded under another ID by its name', () => {
+      const saved = { 'old-id': { name: 'Architecture.ifc', hidden: [4], ghosted: [] } };
+
+      const state = fromSavedVisibility(saved, new Map([['new-id', 'Architecture.ifc']]));
+
+      expect([...state.hidden]).toEqual([['new-id', new Set([4])]]);
+    });
+
+    it('should keep models with the same name apart', () => {
+      const saved = {
+        'House.ifc': { name: 'House.ifc', hidden: [1], ghosted: [] },
+        'House.ifc (2)': { name: 'House.ifc', hidden: [2], ghosted: [] },
+      };
+
+      const both = fromSavedVisibility(
+        saved,
+        new Map([
+          ['House.ifc', 'House.ifc'],
+          ['House.ifc (2)', 'House.ifc'],
+        ])
+      );
+      const second = fromSavedVisibility(saved, new Map([['House.ifc (2)', 'House.ifc']]));
+
+      expect([...both.hidden]).toEqual([
+        ['House.ifc', new Set([1])],
+        ['House.ifc (2)', new Set([2])],
+      ]);
+      expect([...second.hidden]).toEqual([['House.ifc (2)', new Set([2])]]);
+    });
+  });
+
+  describe('parseViewpoints', () => {
+    it('should read stored viewpoints', () => {
+      expect(parseViewpoints(JSON.stringify([viewpoint]))).toEqual([viewpoint]);
+    });
+
+    it('should drop malformed data', () => {
+      expect(parseViewpoints(null)).toEqual([]);
+      expect(parseViewpoints('{not json')).toEqual([]);
+      expect(parseViewpoints('{"id": "v1"}')).toEqual([]);
+      expect(
+        parseViewpoints(
+          JSON.stringify([viewpoint, { ...viewpoint, camera: { position: { x: 1 } } }, 42])
+        )
+      ).toEqual([viewpoint]);
+    });
+
+    it('should name the models of viewpoints stored by model name', () => {
+      const stored = { ...viewpoint, visibility: { 'MEP.ifc': { hidden: [4], ghosted: [] } } };
+
+      expect(parseViewpoints(JSON.stringify([stored]))[0]!.visibility).toEqual({
+        'MEP.ifc': { name: 'MEP.ifc', hidden: [4], ghosted: [] },
+      });
+    });
+
+    it('should drop viewpoints with malformed section planes or visibility', () => {
+      const malformed = [
+        { ...viewpoint, clippingPlanes: [{ kind: 'plane', label: 'Plane 1', constant: 3 }] },
+        { ...viewpoint, clippingPlanes: [{ ...viewpoint.clippingPlanes[0], constant: '3' }] },
+        { ...viewpoint, clippingPlanes: [{ ...viewpoint.clippingPlanes[0], kind: 'disc' }] },
+        { ...viewpoint, visibility: { a: { name: 'A.ifc', hidden: ['4'], ghosted: [] } } },
+        { ...viewpoint, visibility: { a: { name: 'A.ifc', hidden: [4] } } },
+        { ...viewpoint, visibility: { a: { name: 4, hidden: [4], ghosted: [] } } },
+      ];
+
+      expect(parseViewpoints(JSON.stringify([...malformed, viewpoint]))).toEqual([viewpoint]);
+    });
+  });
+});
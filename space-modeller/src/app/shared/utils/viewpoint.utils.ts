@@ -0,0 +1,199 @@
+import {
+  ClippingPlaneState,
+  SavedVisibility,
+  Vector3Like,
+  Viewpoint,
+  VisibilityState,
+} from '../models/viewer.model';
+
+/**
+ * Smooth start and stop for camera transitions
+ * @param t Progress from 0 to 1
+ */
+export function easeInOut(t: number): number {
+  const clamped = Math.min(1, Math.max(0, t));
+  return clamped < 0.5 ? 4 * clamped ** 3 : 1 - (-2 * clamped + 2) ** 3 / 2;
+}
+
+/**
+ * Point between two points
+ * @param t 0 gives a, 1 gives b
+ */
+export function lerpPoint(a: Vector3Like, b: Vector3Like, t: number): Vector3Like {
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    z: a.z + (b.z - a.z) * t,
+  };
+}
+
+/**
+ * Copy of a list with one item moved
+ * Indices out of range leave the list unchanged
+ */
+export function moveItem<T>(items: readonly T[], from: number, to: number): T[] {
+  const result = [...items];
+  if (from < 0 || from >= items.length || to < 0 || to >= items.length) {
+    return result;
+  }
+  const [item] = result.splice(from, 1);
+  result.splice(to, 0, item!);
+  return result;
+}
+
+/**
+ * Visibility state keyed by model ID, with the model names, for storing in a viewpoint
+ * Models without hidden or ghosted elements are left out
+ * @param names Model name by model ID
+ */
+export function toSavedVisibility(
+  state: VisibilityState,
+  names: ReadonlyMap<string, string>
+): Record<string, SavedVisibility> {
+  const saved: Record<string, SavedVisibility> = {};
+  names.forEach((name, modelId) => {
+    const hidden = [...(state.hidden.get(modelId) ?? [])];
+    const ghosted = [...(state.ghosted.get(modelId) ?? [])];
+    if (hidden.length > 0 || ghosted.length > 0) {
+      saved[modelId] = { name, hidden, ghosted };
+    }
+  });
+  return saved;
+}
+
+/**
+ * Visibility state of the loaded models from a viewpoint
+ * A saved model is found by its ID, or else by its name when a single loaded
+ * model not found by ID has that name; saved models that are not loaded are skipped
+ * @param names Model name by model ID of the loaded models
+ */
+export function fromSavedVisibility(
+  saved: Record<string, SavedVisibility>,
+  names: ReadonlyMap<string, string>
+): VisibilityState {
+  const entries = Object.entries(saved);
+  const matched = new Map(entries.filter(([modelId]) => names.has(modelId)));
+  entries
+    .filter(([modelId]) => !names.has(modelId))
+    .forEach(([, entry]) => {
+      const candidates = [...names].filter(
+        ([modelId, name]) => name === entry.name && !matched.has(modelId)
+      );
+      if (candidates.length === 1) {
+        matched.set(candidates[0]![0], entry);
+      }
+    });
+
+  const hidden = new Map<string, Set<number>>();
+  const ghosted = new Map<string, Set<number>>();
+  matched.forEach((entry, modelId) => {
+    if (entry.hidden.length) {
+      hidden.set(modelId, new Set(entry.hidden));
+    }
+    if (entry.ghosted.length) {
+      ghosted.set(modelId, new Set(entry.ghosted));
+    }
+  });
+  return { hidden, ghosted };
+}
+
+/**
+ * Read viewpoints stored as JSON
+ * Malformed data gives an empty list and malformed entries are dropped, so a
+ * corrupted store never breaks the viewer
+ */
+export function parseViewpoints(json: string | null): Viewpoint[] {
+  if (!json) {
+    return [];
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return [];
+  }
+  return Array.isArray(data) ? data.filter(isViewpoint).map(nameSavedModels) : [];
+}
+
+/**
+ * Helper: Check the shape of a stored viewpoint
+ */
+function isViewpoint(value: unknown): value is Viewpoint {
+  const item = value as Partial<Viewpoint> | null;
+  return (
+    typeof item === 'object' &&
+    item !== null &&
+    typeof item.id === 'string' &&
+    typeof item.name === 'string' &&
+    isPoint(item.camera?.position) &&
+    isPoint(item.camera?.target) &&
+    (item.camera?.projection === 'perspective' || item.camera?.projection === 'orthographic') &&
+    Array.isArray(item.clippingPlanes) &&
+    item.clippingPlanes.every(isClippingPlane) &&
+    typeof item.visibility === 'object' &&
+    item.visibility !== null &&
+    Object.values(item.visibility).every(isSavedVisibility)
+  );
+}
+
+/**
+ * Helper: Check the shape of a stored section plane
+ */
+function isClippingPlane(value: unknown): value is Omit<ClippingPlaneState, 'id'> {
+  const plane = value as Partial<ClippingPlaneState> | null;
+  return (
+    typeof plane === 'object' &&
+    plane !== null &&
+    (plane.kind === 'plane' || plane.kind === 'box') &&
+    typeof plane.label === 'string' &&
+    isPoint(plane.normal) &&
+    Number.isFinite(plane.constant)
+  );
+}
+
+/**
+ * Helper: Name the models of a viewpoint stored before names were kept, when
+ * visibility was keyed by model name
+ */
+function nameSavedModels(viewpoint: Viewpoint): Viewpoint {
+  const visibility: Record<string, SavedVisibility> = {};
+  Object.entries(viewpoint.visibility).forEach(([key, entry]) => {
+    visibility[key] = { ...entry, name: entry.name ?? key };
+  });
+  return { ...viewpoint, visibility };
+}
+
+/**
+ * Helper: Check the shape of the stored visibility of a model; the name may be
+ * missing from viewpoints stored before names were kept
+ */
+function isSavedVisibility(value: unknown): value is SavedVisibility {
+  const entry = value as Partial<SavedVisibility> | null;
+  return (
+    typeof entry === 'object' &&
+    entry !== null &&
+    (entry.name === undefined || typeof entry.name === 'string') &&
+    isIdList(entry.hidden) &&
+    isIdList(entry.ghosted)
+  );
+}
+
+/**
+ * Helper: Check for an array of element IDs
+ */
+function isIdList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((id) => Number.isInteger(id));
+}
+
+/**
+ * Helper: Check for an {x, y, z} object of finite numbers
+ */
+function isPoint(value: unknown): value is Vector3Like {
+  const point = value as Partial<Vector3Like> | null | undefined;
+  return (
+    typeof point === 'object' &&
+    point !== null &&
+    [point.x, point.y, point.z].every((coordinate) => Number.isFinite(coordinate))
+  );
+}
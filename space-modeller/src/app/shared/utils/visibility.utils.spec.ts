@@ -0,0 +1,124 @@
+import {
+  addElements,
+  countElements,
+  diffElements,
+  getVisibilityShortcut,
+  isSameElements,
+  removeElements,
+  toElementSets,
+  toElements,
+} from './visibility.utils';
+
+describe('visibility.utils', () => {
+  const sets = (entries: [string, number[]][]) =>
+    new Map(entries.map(([modelId, localIds]) => [modelId, new Set(localIds)]));
+  const plain = (elements: ReadonlyMap<string, ReadonlySet<number>>) =>
+    [...elements].map(([modelId, localIds]) => [modelId, [...localIds].sort()]);
+
+  describe('toElementSets / toElements', () => {
+    it('should group elements by model and drop repeats', () => {
+      const grouped = toElementSets([
+        { modelId: 'a', localId: 1 },
+        { modelId: 'b', localId: 2 },
+        { modelId: 'a', localId: 1 },
+      ]);
+
+      expect(plain(grouped)).toEqual([
+        ['a', [1]],
+        ['b', [2]],
+      ]);
+      expect(toElements(grouped)).toEqual([
+        { modelId: 'a', localId: 1 },
+        { modelId: 'b', localId: 2 },
+      ]);
+    });
+  });
+
+  describe('addElements / removeElements', () => {
+    it('should merge elements per model', () => {
+      const merged = addElements(sets([['a', [1]]]), sets([['a', [2]], ['b', [3]]]));
+
+      expect(plain(merged)).toEqual([
+        ['a', [1, 2]],
+        ['b', [3]],
+      ]);
+    });
+
+    it('should remove elements and drop emptied models', () => {
+      const remaining = removeElements(
+        sets([['a', [1, 2]], ['b', [3]]]),
+        sets([['a', [1]], ['b', [3]]])
+      );
+
+      expect(plain(remaining)).toEqual([['a', [2]]]);
+    });
+
+    it('should not change the original sets', () => {
+      const original = sets([['a', [1]]]);
+
+      addElements(original, sets([['a', [2]]]));
+      removeElements(original, sets([['a', [1]]]));
+
+      expect(plain(original)).toEqual([['a', [1]]]);
+    });
+  });
+
+  describe('countElements / isSameElements', () => {
+    it('should count elements across models', () => {
+      expect(countElements(sets([['a', [1, 2]], ['b', [3]]]))).toBe(3);
+      expect(countElements(new Map())).toBe(0);
+    });
+
+    it('should compare contents, not insertion order', () => {
+      expect(isSameElements(sets([['a', [1, 2]]]), sets([['a', [2, 1]]]))).toBeTrue();
+      expect(isSameElements(sets([['a', [1]]]), sets([['b', [1]]]))).toBeFalse();
+    });
+  });
+
+  describe('diffElements', () => {
+    it('should list elements entering and leaving each model', () => {
+      const diff = diffElements(sets([['a', [1, 2]], ['b', [3]]]), sets([['a', [2, 4]]]));
+
+      expect(diff.get('a')).toEqual({ added: [4], removed: [1] });
+      expect(diff.get('b')).toEqual({ added: [], removed: [3] });
+    });
+
+    it('should skip unchanged models', () => {
+      expect(diffElements(sets([['a', [1]]]), sets([['a', [1]]])).size).toBe(0);
+    });
+  });
+
+  describe('getVisibilityShortcut', () => {
+    const key = (code: string, modifiers: Partial<KeyboardEvent> = {}) => ({
+      code,
+      shiftKey: false,
+      altKey: false,
+      ctrlKey: false,
+      metaKey: false,
+      ...modifiers,
+    });
+
+    it('should map plain letters to element commands', () => {
+      expect(getVisibilityShortcut(key('KeyH'))).toBe('hide');
+      expect(getVisibilityShortcut(key('KeyI'))).toBe('isolate');
+      expect(getVisibilityShortcut(key('KeyG'))).toBe('ghost');
+    });
+
+    it('should apply Alt shortcuts to categories', () => {
+      expect(getVisibilityShortcut(key('KeyH', { altKey: true }))).toBe('hideCategory');
+      expect(getVisibilityShortcut(key('KeyI', { altKey: true }))).toBe('isolateCategory');
+    });
+
+    it('should show all with Shift+H and undo with Ctrl/Cmd+Z', () => {
+      expect(getVisibilityShortcut(key('KeyH', { shiftKey: true }))).toBe('showAll');
+      expect(getVisibilityShortcut(key('KeyZ', { ctrlKey: true }))).toBe('undo');
+      expect(getVisibilityShortcut(key('KeyZ', { metaKey: true }))).toBe('undo');
+    });
+
+    it('should leave other keys and browser shortcuts alone', () => {
+      expect(getVisibilityShortcut(key('KeyZ'))).toBeNull();
+      expect(getVisibilityShortcut(key('KeyH', { ctrlKey: true }))).toBeNull();
+      expect(getVisibilityShortcut(key('KeyZ', { ctrlKey: true, shiftKey: true }))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { ElementSets, ModelElement, VisibilityCommand, VisibilityState } from '../models/viewer.model';
+
+/**
+ * Nothing hidden or ghosted
+ */
+export const EMPTY_VISIBILITY: VisibilityState = {
+  hidden: new Map(),
+  ghosted: new Map(),
+};
+
+/**
+ * Group element references by model ID
+ */
+export function toElementSets(elements: ModelElement[]): ElementSets {
+  const sets = new Map<string, Set<number>>();
+  for (const { modelId, localId } of elements) {
+    const localIds = sets.get(modelId) ?? new Set<number>();
+    localIds.add(localId);
+    sets.set(modelId, localIds);
+  }
+  return sets;
+}
+
+/**
+ * Flatten grouped elements back into element references
+ */
+export function toElements(sets: ElementSets): ModelElement[] {
+  return [...sets].flatMap(([modelId, localIds]) =>
+    [...localIds].map((localId) => ({ modelId, localId }))
+  );
+}
+
+/**
+ * Union of two element sets
+ */
+export function addElements(sets: ElementSets, added: ElementSets): ElementSets {
+  const result = new Map<string, ReadonlySet<number>>(sets);
+  added.forEach((localIds, modelId) => {
+    result.set(modelId, new Set([...(sets.get(modelId) ?? []), ...localIds]));
+  });
+  return result;
+}
+
+/**
+ * Elements of a set that are not in another; models left empty are dropped
+ */
+export function removeElements(sets: ElementSets, removed: ElementSets): ElementSets {
+  const result = new Map<string, ReadonlySet<number>>();
+  sets.forEach((localIds, modelId) => {
+    const remove = removed.get(modelId);
+    const remaining = [...localIds].filter((localId) => !remove?.has(localId));
+    if (remaining.length > 0) {
+      result.set(modelId, new Set(remaining));
+    }
+  });
+  return result;
+}
+
+/**
+ * Number of elements in a set
+ */
+export function countElements(sets: ElementSets): number {
+  let count = 0;
+  sets.forEach((localIds) => (count += localIds.size));
+  return count;
+}
+
+/**
+ * Whether two element sets hold the same elements
+ */
+export function isSameElements(a: ElementSets, b: ElementSets): boolean {
+  return countElements(a) === countElements(b) && countElements(removeElements(a, b)) === 0;
+}
+
+/**
+ * Elements that enter and leave a set between two states, by model ID
+ */
+export function diffElements(
+  before: ElementSets,
+  after: ElementSets
+): Map<string, { added: number[]; removed: number[] }> {
+  const diff = new Map<string, { added: number[]; removed: number[] }>();
+  for (const modelId of new Set([...before.keys(), ...after.keys()])) {
+    const previous = before.get(modelId) ?? new Set<number>();
+    const next = after.get(modelId) ?? new Set<number>();
+    const added = [...next].filter((localId) => !previous.has(localId));
+    const removed = [...previous].filter((localId) => !next.has(localId));
+    if (added.length > 0 || removed.length > 0) {
+      diff.set(modelId, { added, removed });
+    }
+  }
+  return diff;
+}
+
+/**
+ * Visibility command bound to a key press
+ * H hides, I isolates, G ghosts; Alt applies hide/isolate to whole categories,
+ * Shift+H shows everything and Ctrl/Cmd+Z undoes the last change
+ * @returns The command, or null if the key is not a visibility shortcut
+ */
+export function getVisibilityShortcut(
+  event: Pick<KeyboardEvent, 'code' | 'shiftKey' | 'altKey' | 'ctrlKey' | 'metaKey'>
+): VisibilityCommand | null {
+  const modified = event.ctrlKey || event.metaKey;
+  if (modified) {
+    return event.code === 'KeyZ' && !event.shiftKey && !event.altKey ? 'undo' : null;
+  }
+
+  switch (event.code) {
+    case 'KeyH':
+      return event.shiftKey ? 'showAll' : event.altKey ? 'hideCategory' : 'hide';
+    case 'KeyI':
+      return event.shiftKey ? null : event.altKey ? 'isolateCategory' : 'isolate';
+    case 'KeyG':
+      return event.shiftKey || event.altKey ? null : 'ghost';
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,82 @@
+import { applyGravity, getMoveInput, isMoveKey, limitStep } from './walk.utils';
+import { WALK_CONFIG } from '../constants/viewer.constants';
+
+describe('walk.utils', () => {
+  describe('getMoveInput', () => {
+    it('should combine the held keys into axes', () => {
+      expect(getMoveInput(new Set(['KeyW', 'KeyD', 'ShiftLeft']))).toEqual({
+        forward: 1,
+        right: 1,
+        up: 0,
+        run: true,
+      });
+      expect(getMoveInput(new Set(['ArrowDown', 'ArrowLeft', 'KeyQ']))).toEqual({
+        forward: -1,
+        right: -1,
+        up: -1,
+        run: false,
+      });
+    });
+
+    it('should cancel out opposite keys', () => {
+      expect(getMoveInput(new Set(['KeyW', 'KeyS'])).forward).toBe(0);
+    });
+  });
+
+  describe('isMoveKey', () => {
+    it('should recognise movement keys only', () => {
+      expect(isMoveKey('KeyA')).toBeTrue();
+      expect(isMoveKey('Space')).toBeTrue();
+      expect(isMoveKey('KeyH')).toBeFalse();
+    });
+  });
+
+  describe('limitStep', () => {
+    const wall = { direction: { x: 1, y: 0, z: 0 }, distance: 1 };
+
+    it('should stop short of an obstacle', () => {
+      expect(limitStep({ x: 2, y: 0, z: 0 }, wall, 0.25)).toEqual({ x: 0.75, y: 0, z: 0 });
+    });
+
+    it('should slide along an obstacle when moving at an angle', () => {
+      expect(limitStep({ x: 1, y: 0, z: 1 }, wall, 0.5)).toEqual({ x: 0.5, y: 0, z: 1 });
+    });
+
+    it('should not hold back steps away from or short of an obstacle', () => {
+      expect(limitStep({ x: -1, y: 0, z: 0 }, wall, 0.5)).toEqual({ x: -1, y: 0, z: 0 });
+      expect(limitStep({ x: 0.5, y: 0, z: 0 }, wall, 0.25)).toEqual({ x: 0.5, y: 0, z: 0 });
+      expect(limitStep({ x: 2, y: 0, z: 0 }, null, 0.25)).toEqual({ x: 2, y: 0, z: 0 });
+    });
+  });
+
+  describe('applyGravity', () => {
+    it('should fall faster each frame', () => {
+      const first = applyGravity({ height: 10, fallSpeed: 0 }, 0, 1.5, 0.1);
+      const second = applyGravity(first, 0, 1.5, 0.1);
+
+      expect(first.fallSpeed).toBeCloseTo(WALK_CONFIG.gravity * 0.1);
+      expect(10 - first.height).toBeLessThan(first.height - second.height);
+    });
+
+    it('should land at eye height above the floor', () => {
+      expect(applyGravity({ height: 1.6, fallSpeed: 5 }, 0, 1.5, 0.1)).toEqual({
+        height: 1.5,
+        fallSpeed: 0,
+      });
+    });
+
+    it('should step up onto a higher floor', () => {
+      expect(applyGravity({ height: 1.5, fallSpeed: 0 }, 0.2, 1.5, 0.1)).toEqual({
+        height: 1.7,
+        fallSpeed: 0,
+      });
+    });
+
+    it('should hold the height without a floor below', () => {
+      expect(applyGravity({ height: 10, fallSpeed: 3 }, null, 1.5, 0.1)).toEqual({
+        height: 10,
+        fallSpeed: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { WALK_CONFIG } from '../constants/viewer.constants';
+import { MoveInput, Obstacle, Vector3Like } from '../models/viewer.model';
+
+// Key codes (layout independent) of each movement
+const MOVE_KEYS = {
+  forward: ['KeyW', 'ArrowUp'],
+  backward: ['KeyS', 'ArrowDown'],
+  left: ['KeyA', 'ArrowLeft'],
+  right: ['KeyD', 'ArrowRight'],
+  up: ['KeyE', 'Space'],
+  down: ['KeyQ', 'KeyC'],
+  run: ['ShiftLeft', 'ShiftRight'],
+};
+
+/**
+ * Whether a key code moves the camera in first-person navigation
+ */
+export function isMoveKey(code: string): boolean {
+  return Object.values(MOVE_KEYS).some((codes) => codes.includes(code));
+}
+
+/**
+ * Movement asked for by the held keys; opposite keys cancel out
+ * @param keys Codes of the held keys
+ */
+export function getMoveInput(keys: ReadonlySet<string>): MoveInput {
+  const held = (codes: string[]) => codes.some((code) => keys.has(code));
+  const axis = (positive: string[], negative: string[]) =>
+    (held(positive) ? 1 : 0) - (held(negative) ? 1 : 0);
+
+  return {
+    forward: axis(MOVE_KEYS.forward, MOVE_KEYS.backward),
+    right: axis(MOVE_KEYS.right, MOVE_KEYS.left),
+    up: axis(MOVE_KEYS.up, MOVE_KEYS.down),
+    run: held(MOVE_KEYS.run),
+  };
+}
+
+/**
+ * Shorten a step so it stops short of an obstacle
+ * Only the part of the step towards the obstacle is cut, so walking into a
+ * wall at an angle slides along it
+ * @param radius Distance to keep from the obstacle
+ */
+export function limitStep(
+  step: Vector3Like,
+  obstacle: Obstacle | null,
+  radius: number
+): Vector3Like {
+  if (!obstacle) {
+    return step;
+  }
+
+  const { direction } = obstacle;
+  const towards = step.x * direction.x + step.y * direction.y + step.z * direction.z;
+  const excess = towards - Math.max(0, obstacle.distance - radius);
+  if (towards <= 0 || excess <= 0) {
+    return step;
+  }
+
+  return {
+    x: step.x - direction.x * excess,
+    y: step.y - direction.y * excess,
+    z: step.z - direction.z * excess,
+  };
+}
+
+/**
+ * Eye height after one frame of falling towards the floor
+ * A floor above the feet (a step or stair) is stood on at once
+ * @param eye Current eye height and falling speed
+ * @param floor Height of the floor below, or null when there is none (nothing to fall onto)
+ * @param eyeHeight Eye height above the floor
+ * @param delta Frame time (s)
+ */
+export function applyGravity(
+  eye: { height: number; fallSpeed: number },
+  floor: number | null,
+  eyeHeight: number,
+  delta: number
+): { height: number; fallSpeed: number } {
+  if (floor === null) {
+    return { height: eye.height, fallSpeed: 0 };
+  }
+
+  const standing = floor + eyeHeight;
+  const fallSpeed = eye.fallSpeed + WALK_CONFIG.gravity * delta;
+  const height = eye.height - fallSpeed * delta;
+  return height <= standing ? { height: standing, fallSpeed: 0 } : { height, fallSpeed };
+}